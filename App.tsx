@@ -1,4 +1,4 @@
-import React, { Suspense, useState, useCallback, useRef, useEffect } from 'react';
+import React, { Suspense, useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { FlatGraph } from './types';
 import { useToast } from './context/ToastContext';
 import { useGraphContext } from './context/GraphContext';
@@ -6,7 +6,7 @@ import { useSearchContext } from './context/SearchContext';
 import { useNarrativeContext, NarrativeMessage } from './context/NarrativeContext';
 import { useSettingsContext } from './context/SettingsContext';
 import { useUIContext } from './context/UIContext';
-import { useApiSync, useResizePanels, useSmartSearch, useInsights, useManifest, useNodeHydration, useContextualSuggestions, useIntentRouter, useExploreGraph } from './hooks';
+import { useApiSync, useResizePanels, useSmartSearch, useInsights, useManifest, useNodeHydration, useContextualSuggestions, useIntentRouter, useExploreGraph, useUrlSync, useSessionFile, useGraphPersistence, useConnectionProfiles } from './hooks';
 import AppHeader from './components/AppHeader';
 import AppSidebar from './components/AppSidebar';
 import AppFooter from './components/AppFooter';
@@ -14,13 +14,27 @@ import UnifiedSearchBar from './components/UnifiedSearchBar';
 import { useSessionStorage } from './hooks/useSessionStorage';
 import { useQueryContext } from './hooks/useQueryContext';
 import { ErrorBoundary } from './components/ErrorBoundary';
-import { fetchFileCalls, fetchPredicates, fetchSource } from './services/graphService';
+import { createSnapshot, fetchFileCalls, fetchPredicates, fetchSource, fetchSubgraph, invalidateProjectCache } from './services/graphService';
 import { askAI, askAIStream, ChatMessage } from './services/geminiService';
 import { logger } from './logger';
 import { requestManager } from './utils/requestManager';
 import { CUSTOM_EVENTS, EXPLAIN_CODE_QUERY } from './constants';
-import { classifyIntentRoute } from './utils/queryClassifier';
+import { classifyIntentRoute, IntentRoute } from './utils/queryClassifier';
+import { savedQueryStore } from './utils/savedQueries';
+import type { AuthConfig } from './utils/authConfig';
+import type { ViewMode } from './context/UIContext';
+import type { PaletteAction } from './components/CommandPalette';
+import type { ConsoleSeed } from './components/QueryConsole';
+import type { SemanticHit } from './utils/semanticFacets';
+import type { CrossProjectHit } from './utils/crossProjectSearch';
+import type { CodeMatch } from './hooks/useCodeSearch';
+import type { GraphMapResponse } from './services/graphService';
+import { CycleEdge, isSameEdge, RankedCycle } from './utils/cycles';
+import { CallPathKind, mergeCallPaths, pathSymbols } from './utils/callPaths';
+import type { RelationshipResult } from './hooks/useRelationship';
 import SuspenseFallback from './components/common/SuspenseFallback';
+import { BackendStatusBanner } from './components/common/BackendStatusBanner';
+import { AuthRequiredBanner } from './components/common/AuthRequiredBanner';
 
 // ---------------------------------------------------------------------------
 // Lazy-loaded views & modals
@@ -36,6 +50,7 @@ import SuspenseFallback from './components/common/SuspenseFallback';
 //  - NarrativeScreen     : viewMode === 'narrative'; pulls in react-markdown,
 //                          dompurify, and geminiService.
 //  - TestScreen          : viewMode === 'test'; rarely used.
+//  - QueryConsole        : viewMode === 'query'; power-user Datalog console.
 //  - GraphContainer      : main graph view (default). Lazy-loaded so its d3
 //                          subgraph + TreeVisualizer/ClassDiagramCanvas is
 //                          fetched in parallel with initial paint.
@@ -43,6 +58,17 @@ import SuspenseFallback from './components/common/SuspenseFallback';
 //  - ShortcutsModal      : opened on demand.
 //  - OKFIngestModal      : opened on demand.
 //  - ReviewSessionModal  : opened on demand.
+//  - NetworkInspector    : debugging panel, toggled from the footer.
+//  - CommandPalette      : opened on demand (Cmd+K).
+//  - QueryBuilderModal   : opened on demand (palette, query console).
+//  - SemanticResultsPanel: opened on demand (palette, after a semantic search).
+//  - CrossProjectSearchModal: opened on demand (palette, Cmd+Shift+F).
+//  - CodeSearchPanel     : opened on demand (palette, Cmd+Shift+G).
+//  - CyclesPanel         : opened on demand (palette); drawer over the graph.
+//  - RelationshipPanel   : opened on demand (palette); drawer over the graph.
+//  - FlowTracerModal     : opened on demand (palette).
+//  - ImpactPanel         : opened on demand (palette).
+//  - CallHierarchyPanel  : opened on demand (palette); drawer over the sidebar.
 //
 // Prism syntax highlighting (prismSetup) is *not* imported here — it must be
 // loaded by the components that actually render source code (HighlightedCode)
@@ -61,6 +87,9 @@ const NarrativeScreen = React.lazy(() =>
 const TestScreen = React.lazy(() =>
   import('./components/TestScreen/TestScreen').then(m => ({ default: m.default })),
 );
+const QueryConsole = React.lazy(() =>
+  import('./components/QueryConsole').then(m => ({ default: m.QueryConsole })),
+);
 const GraphContainer = React.lazy(() =>
   import('./components/GraphContainer').then(m => ({ default: m.default })),
 );
@@ -84,6 +113,57 @@ const OKFIngestModal = React.lazy(() =>
 const ReviewSessionModal = React.lazy(() =>
   import('./components/ReviewSession/ReviewSessionModal').then(m => ({ default: m.default })),
 );
+const NetworkInspector = React.lazy(() =>
+  import('./components/NetworkInspector').then(m => ({ default: m.default })),
+);
+const CommandPalette = React.lazy(() =>
+  import('./components/CommandPalette').then(m => ({ default: m.default })),
+);
+
+const QueryBuilderModal = React.lazy(() =>
+  import('./components/QueryBuilder').then(m => ({ default: m.QueryBuilderModal })),
+);
+const SemanticResultsPanel = React.lazy(() =>
+  import('./components/SemanticResults').then(m => ({ default: m.SemanticResultsPanel })),
+);
+const CrossProjectSearchModal = React.lazy(() =>
+  import('./components/CrossProjectSearch').then(m => ({ default: m.CrossProjectSearchModal })),
+);
+const CodeSearchPanel = React.lazy(() =>
+  import('./components/CodeSearch').then(m => ({ default: m.CodeSearchPanel })),
+);
+const CyclesPanel = React.lazy(() =>
+  import('./components/CyclesPanel').then(m => ({ default: m.CyclesPanel })),
+);
+const RelationshipPanel = React.lazy(() =>
+  import('./components/RelationshipTool').then(m => ({ default: m.RelationshipPanel })),
+);
+const FlowTracerModal = React.lazy(() =>
+  import('./components/FlowTracer').then(m => ({ default: m.FlowTracerModal })),
+);
+const ImpactPanel = React.lazy(() =>
+  import('./components/ImpactAnalysis').then(m => ({ default: m.ImpactPanel })),
+);
+const CallHierarchyPanel = React.lazy(() =>
+  import('./components/CallHierarchy').then(m => ({ default: m.CallHierarchyPanel })),
+);
+
+// Link colors for the relationship tool: A reaches B, B reaches A, via the common caller
+const RELATIONSHIP_COLORS: Record<CallPathKind, string> = {
+  forward: '#3b82f6',
+  backward: '#a855f7',
+  lca: '#2dd4bf',
+};
+
+const PALETTE_VIEWS: Array<{ mode: ViewMode; label: string; icon: string }> = [
+  { mode: 'narrative', label: 'Narrative', icon: 'brain' },
+  { mode: 'discovery', label: 'Discovery', icon: 'circle-nodes' },
+  { mode: 'architecture', label: 'Architecture', icon: 'sitemap' },
+  { mode: 'map', label: 'Map', icon: 'layer-group' },
+  { mode: 'test', label: 'Test Generation', icon: 'vial' },
+  { mode: 'dashboard', label: 'Dashboard', icon: 'chart-pie' },
+  { mode: 'query', label: 'Query Console', icon: 'terminal' },
+];
 
 const App: React.FC = () => {
   const toast = useToast();
@@ -115,6 +195,8 @@ const App: React.FC = () => {
 
   const {
     dataApiBase, setDataApiBase,
+    authConfig, setAuthConfig,
+    authRequired, setAuthRequired,
     currentProject, setCurrentProject,
     availableProjects, setAvailableProjects,
     selectedProjectId, setSelectedProjectId,
@@ -138,12 +220,26 @@ const App: React.FC = () => {
   const nodeSelectRequestRef = useRef<string | null>(null);
   const [isIngestModalOpen, setIsIngestModalOpen] = useState(false);
   const [isReviewSessionOpen, setIsReviewSessionOpen] = useState(false);
+  const [isNetworkInspectorOpen, setIsNetworkInspectorOpen] = useState(false);
+  const [isCommandPaletteOpen, setIsCommandPaletteOpen] = useState(false);
+  const [isQueryBuilderOpen, setIsQueryBuilderOpen] = useState(false);
+  const [consoleSeed, setConsoleSeed] = useState<ConsoleSeed | null>(null);
+  const [isSemanticResultsOpen, setIsSemanticResultsOpen] = useState(false);
+  const [isCrossProjectSearchOpen, setIsCrossProjectSearchOpen] = useState(false);
+  const [isCodeSearchOpen, setIsCodeSearchOpen] = useState(false);
+  const [isCyclesOpen, setIsCyclesOpen] = useState(false);
+  const [isRelationshipOpen, setIsRelationshipOpen] = useState(false);
+  const [isFlowTracerOpen, setIsFlowTracerOpen] = useState(false);
+  const [isImpactOpen, setIsImpactOpen] = useState(false);
+  const [isCallHierarchyOpen, setIsCallHierarchyOpen] = useState(false);
+  // A hit from another project is opened once the switch to that project has synced
+  const [pendingProjectHit, setPendingProjectHit] = useState<CrossProjectHit | null>(null);
 
   const { manifest } = useManifest(dataApiBase, selectedProjectId);
   const { syncDataFromApi } = useApiSync();
   const { hydrateNode } = useNodeHydration();
 
-  const { handleSmartSearch, isSearching } = useSmartSearch({
+  const { handleSmartSearch, isSearching, lastSemanticResults } = useSmartSearch({
     dataApiBase,
     selectedProjectId,
     availablePredicates,
@@ -188,7 +284,11 @@ const App: React.FC = () => {
     toast,
   });
 
-  useSessionStorage(astData, sandboxFiles, dataApiBase);
+  useSessionStorage(sandboxFiles, dataApiBase);
+  useGraphPersistence();
+
+  const { saveSession, openSession } = useSessionFile();
+  const { profiles, activeProfile, switchProfile, saveProfile, deleteProfile, detachProfile } = useConnectionProfiles();
 
   useEffect(() => {
     setIsSubModeSwitching(true);
@@ -215,6 +315,8 @@ const App: React.FC = () => {
     }
   }, [availableProjects, dataApiBase, setCurrentProject, setSelectedProjectId, syncDataFromApi, toast, setNarrativeMessages, setViewMode]);
 
+  useUrlSync({ onProjectChange: handleProjectChange });
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       const isMac = navigator.platform.toUpperCase().indexOf('MAC') >= 0;
@@ -224,7 +326,13 @@ const App: React.FC = () => {
 
       if (mod && e.key === 'k') {
         e.preventDefault();
-        window.dispatchEvent(new CustomEvent(CUSTOM_EVENTS.FOCUS_SEARCH));
+        setIsCommandPaletteOpen(true);
+      } else if (mod && e.shiftKey && e.key.toLowerCase() === 'f') {
+        e.preventDefault();
+        setIsCrossProjectSearchOpen(true);
+      } else if (mod && e.shiftKey && e.key.toLowerCase() === 'g') {
+        e.preventDefault();
+        setIsCodeSearchOpen(true);
       } else if (mod && e.key === 'b') {
         e.preventDefault();
         setIsCodeCollapsed(prev => !prev);
@@ -235,9 +343,9 @@ const App: React.FC = () => {
       } else if (e.key === '?' && e.shiftKey) {
         e.preventDefault();
         setIsShortcutsOpen(true);
-      } else if (mod && e.key >= '1' && e.key <= '6') {
+      } else if (mod && e.key >= '1' && e.key <= '7') {
         e.preventDefault();
-        const modes = ['narrative', 'discovery', 'architecture', 'map', 'test', 'dashboard'] as const;
+        const modes = ['narrative', 'discovery', 'architecture', 'map', 'test', 'dashboard', 'query'] as const;
         const idx = parseInt(e.key) - 1;
         if (idx < modes.length) setViewMode(modes[idx]!);
       }
@@ -253,19 +361,24 @@ const App: React.FC = () => {
     return () => window.removeEventListener(CUSTOM_EVENTS.OPEN_SETTINGS, handleOpenSettings);
   }, []);
 
+  // A 401 anywhere asks for credentials instead of surfacing as a sync error
+  useEffect(() => {
+    if (authRequired) setIsSettingsOpen(true);
+  }, [authRequired, setIsSettingsOpen]);
+
   useEffect(() => {
-    if (dataApiBase && !isDataSyncing && availableProjects.length === 0) {
+    if (dataApiBase && !authRequired && !isDataSyncing && availableProjects.length === 0) {
       logger.log('[Auto-Sync] Connecting to API on mount:', dataApiBase);
       syncDataFromApi(dataApiBase);
     }
-  }, [dataApiBase, isDataSyncing, availableProjects.length, syncDataFromApi]);
+  }, [dataApiBase, authRequired, isDataSyncing, availableProjects.length, syncDataFromApi]);
 
   useEffect(() => {
     if (!dataApiBase || !selectedProjectId) return;
 
     fetchPredicates(dataApiBase, selectedProjectId)
-      .then((preds: any[]) => {
-        const predNames = preds.map((p: any) => typeof p === 'string' ? p : p.name).filter(Boolean);
+      .then((preds) => {
+        const predNames = preds.map(p => typeof p === 'string' ? p : p.name).filter(Boolean);
         logger.log('Fetched predicates:', predNames);
         setAvailablePredicates(predNames);
       })
@@ -273,17 +386,33 @@ const App: React.FC = () => {
   }, [dataApiBase, selectedProjectId]);
 
   const handleDataApiBaseChange = useCallback((url: string) => {
+    if (activeProfile && activeProfile.baseUrl !== url) detachProfile();
     setDataApiBase(url);
     setAvailableProjects([]);
     setSelectedProjectId('');
-  }, [setDataApiBase, setAvailableProjects, setSelectedProjectId]);
+  }, [activeProfile, detachProfile, setDataApiBase, setAvailableProjects, setSelectedProjectId]);
 
   const handleConnect = useCallback(() => {
     syncDataFromApi(dataApiBase);
   }, [dataApiBase, syncDataFromApi]);
 
-  const handleSmartSearchWithNarrativeSwitch = useCallback(async (query: string) => {
-    const intentRoute = classifyIntentRoute(query);
+  const handleAuthConfigChange = useCallback((config: AuthConfig) => {
+    setAuthConfig(config);
+    // Responses cached under the previous credentials may not apply to the new ones
+    invalidateProjectCache(dataApiBase);
+    syncDataFromApi(dataApiBase);
+  }, [dataApiBase, setAuthConfig, syncDataFromApi]);
+
+  // Retry with the current credentials after the prompt was dismissed; another 401 raises it again
+  const retryAfterAuth = useCallback(() => {
+    setAuthRequired(false);
+    syncDataFromApi(dataApiBase);
+  }, [dataApiBase, setAuthRequired, syncDataFromApi]);
+
+  const handleSmartSearchWithNarrativeSwitch = useCallback(async (query: string, intent?: IntentRoute) => {
+    setLastExecutedQuery(query);
+    const intentRoute = intent ?? classifyIntentRoute(query);
+    savedQueryStore.recordRun(selectedProjectId, query, intentRoute);
 
     if (intentRoute === 'explore') {
       const handled = await handleExploreIntent(query);
@@ -394,7 +523,7 @@ const App: React.FC = () => {
       setIsNarrativeLoading(false);
       addConversationTurn({ user_input: query, intent: 'explain', datalog_query: '', result_count: 0, summary: 'Explain query', timestamp: Date.now() });
     }
-  }, [setViewMode, setSearchTerm, selectedNode, dataApiBase, selectedProjectId, setNarrativeMessages, setIsNarrativeLoading, currentProject, buildContext, toast, addConversationTurn, handleIntent, handleExploreIntent, handleNavigateIntent, narrativeMessages]);
+  }, [setViewMode, setSearchTerm, selectedNode, dataApiBase, selectedProjectId, setNarrativeMessages, setIsNarrativeLoading, currentProject, buildContext, toast, addConversationTurn, handleIntent, handleExploreIntent, handleNavigateIntent, narrativeMessages, setLastExecutedQuery]);
 
   const expandedGraphData = React.useMemo(() => {
     if (!astData || !('nodes' in astData)) {
@@ -478,6 +607,239 @@ const App: React.FC = () => {
     }
   }, [setSelectedNode, dataApiBase, selectedProjectId, setFileScopedNodes, setFileScopedLinks, setViewMode]);
 
+  const captureSnapshot = useCallback(async () => {
+    if (!dataApiBase || !selectedProjectId) {
+      toast.warning('Select a project before capturing a snapshot');
+      return;
+    }
+    try {
+      const snapshot = await createSnapshot(dataApiBase, selectedProjectId);
+      toast.success(`Snapshot captured (${snapshot.node_count} nodes)`);
+      window.dispatchEvent(new CustomEvent(CUSTOM_EVENTS.REFRESH_DASHBOARD));
+    } catch (err) {
+      toast.apiError(err, 'Capturing snapshot');
+    }
+  }, [dataApiBase, selectedProjectId, toast]);
+
+  const paletteActions = useMemo<PaletteAction[]>(() => [
+    ...PALETTE_VIEWS.map(({ mode, label, icon }, i) => ({
+      id: `view-${mode}`,
+      label: `Switch to ${label} view`,
+      icon,
+      shortcut: `Cmd+${i + 1}`,
+      run: () => setViewMode(mode),
+    })),
+    { id: 'focus-search', label: 'Ask or search…', icon: 'magnifying-glass', run: () => window.dispatchEvent(new CustomEvent(CUSTOM_EVENTS.FOCUS_SEARCH)) },
+    { id: 'settings', label: 'Open settings', icon: 'gear', run: openSettings },
+    { id: 'shortcuts', label: 'Show keyboard shortcuts', icon: 'keyboard', shortcut: '?', run: openShortcuts },
+    { id: 'snapshot', label: 'Capture graph snapshot', icon: 'camera', run: captureSnapshot },
+    { id: 'toggle-code', label: 'Toggle code panel', icon: 'code', shortcut: 'Cmd+B', run: () => setIsCodeCollapsed(prev => !prev) },
+    { id: 'query-builder', label: 'Build a Datalog query', icon: 'diagram-project', run: () => setIsQueryBuilderOpen(true) },
+    { id: 'semantic-results', label: 'Semantic search results', icon: 'ranking-star', run: () => setIsSemanticResultsOpen(true) },
+    { id: 'cross-project-search', label: 'Search all projects', icon: 'layer-group', shortcut: 'Cmd+Shift+F', run: () => setIsCrossProjectSearchOpen(true) },
+    { id: 'code-search', label: 'Search in code (text or regex)', icon: 'file-lines', shortcut: 'Cmd+Shift+G', run: () => setIsCodeSearchOpen(true) },
+    { id: 'cycles', label: 'Explore dependency cycles', icon: 'arrows-spin', run: () => setIsCyclesOpen(true) },
+    { id: 'relationship', label: 'How are two symbols related?', icon: 'people-arrows', run: () => setIsRelationshipOpen(true) },
+    { id: 'flow-tracer', label: 'Trace data flow between two symbols', icon: 'route', run: () => setIsFlowTracerOpen(true) },
+    { id: 'impact', label: 'Impact analysis (blast radius)', icon: 'burst', run: () => setIsImpactOpen(true) },
+    { id: 'call-hierarchy', label: 'Show call hierarchy', icon: 'folder-tree', run: () => setIsCallHierarchyOpen(true) },
+    { id: 'network', label: 'Toggle network inspector', icon: 'network-wired', run: () => setIsNetworkInspectorOpen(open => !open) },
+    { id: 'resync', label: 'Reload project from backend', icon: 'rotate', run: syncApi },
+    { id: 'ingest', label: 'Ingest OKF documents', icon: 'file-import', run: () => setIsIngestModalOpen(true) },
+    { id: 'review', label: 'Start review session', icon: 'code-pull-request', run: () => setIsReviewSessionOpen(true) },
+    { id: 'save-session', label: 'Save session to file', icon: 'download', run: saveSession },
+  ], [setViewMode, openSettings, openShortcuts, captureSnapshot, setIsCodeCollapsed, syncApi, saveSession]);
+
+  // Palette navigation resolves symbols from the manifest; only the code itself is fetched
+  const ensureGraphView = useCallback(() => {
+    if (viewMode === 'narrative' || viewMode === 'dashboard' || viewMode === 'test' || viewMode === 'query') setViewMode('discovery');
+  }, [viewMode, setViewMode]);
+
+  const openPaletteSymbol = useCallback((symbolId: string, name: string) => {
+    const loaded = (fileScopedNodes || []).find((n: any) => n.id === symbolId)
+      || ('nodes' in astData ? (astData.nodes as any[]).find((n: any) => n.id === symbolId) : null);
+    ensureGraphView();
+    handleNodeSelect(loaded ?? { id: symbolId, name }, true);
+  }, [fileScopedNodes, astData, ensureGraphView, handleNodeSelect]);
+
+  const openQueryResultNode = useCallback((node: any) => {
+    setViewMode('discovery');
+    handleNodeSelect(node, true);
+  }, [setViewMode, handleNodeSelect]);
+
+  const sendToQueryConsole = useCallback((query: string) => {
+    setConsoleSeed({ id: Date.now(), query });
+    setIsQueryBuilderOpen(false);
+    setViewMode('query');
+  }, [setViewMode]);
+
+  useEffect(() => {
+    const handleOpenQueryConsole = (e: Event) => {
+      const query = (e as CustomEvent<{ query?: string }>).detail?.query;
+      if (query) sendToQueryConsole(query);
+    };
+    window.addEventListener(CUSTOM_EVENTS.OPEN_QUERY_CONSOLE, handleOpenQueryConsole);
+    return () => window.removeEventListener(CUSTOM_EVENTS.OPEN_QUERY_CONSOLE, handleOpenQueryConsole);
+  }, [sendToQueryConsole]);
+
+  const openPaletteFile = useCallback((filePath: string) => {
+    const loaded = 'nodes' in astData ? (astData.nodes as any[]).find((n: any) => n.id === filePath) : null;
+    handleNodeSelect(loaded ?? { id: filePath, name: filePath.split('/').pop() || filePath, _isFile: true, _filePath: filePath }, true);
+  }, [astData, handleNodeSelect]);
+
+  const openSemanticHit = useCallback((hit: SemanticHit) => {
+    setIsSemanticResultsOpen(false);
+    if (hit.kind === 'file') {
+      ensureGraphView();
+      openPaletteFile(hit.filePath);
+    } else {
+      openPaletteSymbol(hit.id, hit.name);
+    }
+  }, [ensureGraphView, openPaletteFile, openPaletteSymbol]);
+
+  const showSemanticHitsInGraph = useCallback(async (ids: string[]) => {
+    if (!dataApiBase || !selectedProjectId) return;
+    try {
+      const subgraph = await fetchSubgraph(dataApiBase, selectedProjectId, ids);
+      setFileScopedNodes(subgraph.nodes.map((n: any) => ({
+        ...n,
+        name: n.name || n.id.split('/').pop(),
+        kind: n.kind || 'struct'
+      })));
+      setFileScopedLinks(subgraph.links || []);
+      setIsSemanticResultsOpen(false);
+      setViewMode('discovery');
+    } catch (err) {
+      toast.apiError(err, 'Loading results into the graph');
+    }
+  }, [dataApiBase, selectedProjectId, setFileScopedNodes, setFileScopedLinks, setViewMode, toast]);
+
+  const askAboutSemanticHits = useCallback(async (query: string, hits: SemanticHit[]) => {
+    if (!dataApiBase || !selectedProjectId) return;
+    setIsSemanticResultsOpen(false);
+    setViewMode('narrative');
+    const question = query
+      ? `How do these ${hits.length} results relate to "${query}"?`
+      : `Explain how these ${hits.length} symbols relate to each other.`;
+    const aiMsgIdxRef = { current: -1 };
+    setNarrativeMessages(prev => {
+      aiMsgIdxRef.current = prev.length + 1;
+      return [
+        ...prev,
+        { role: 'user', content: `${question}\n\n${hits.map(h => `- ${h.id} (score ${h.score.toFixed(3)})`).join('\n')}`, displayContent: question, timestamp: Date.now() },
+        { role: 'ai', content: '', timestamp: Date.now() },
+      ];
+    });
+    setIsNarrativeLoading(true);
+    try {
+      await askAIStream(dataApiBase, selectedProjectId, {
+        task: 'multi_file_summary',
+        query: question,
+        data: hits.map(h => h.id),
+      }, (delta) => {
+        const idx = aiMsgIdxRef.current;
+        setNarrativeMessages(prev => prev.map((m, i) => (i === idx ? { ...m, content: m.content + delta } : m)));
+      });
+    } catch (err) {
+      logger.error('[App] Asking about semantic results failed:', err);
+      toast.apiError(err, 'Asking about these results');
+    } finally {
+      setIsNarrativeLoading(false);
+    }
+  }, [dataApiBase, selectedProjectId, setViewMode, setNarrativeMessages, setIsNarrativeLoading, toast]);
+
+  const openCodeMatch = useCallback((filePath: string, match: CodeMatch) => {
+    setIsCodeSearchOpen(false);
+    if (match.symbol) {
+      openPaletteSymbol(match.symbol.id, match.symbol.name);
+    } else {
+      ensureGraphView();
+      openPaletteFile(filePath);
+    }
+  }, [ensureGraphView, openPaletteFile, openPaletteSymbol]);
+
+  // Only the cycle's members, pinned in a ring; the suggested cut is drawn dashed red
+  const showCycleInGraph = useCallback((cycle: RankedCycle, subgraph: GraphMapResponse, edges: CycleEdge[], cut: CycleEdge | null) => {
+    const byId = new Map(subgraph.nodes.map(n => [n.id, n]));
+    setFileScopedNodes(cycle.members.map((id, index) => {
+      const node = byId.get(id);
+      return {
+        ...node,
+        id,
+        name: node?.name || id.split(/[:/]/).pop() || id,
+        type: node?.type || 'symbol',
+        kind: node?.kind || 'struct',
+        _isPath: true,
+        _ring: { index, size: cycle.members.length },
+      };
+    }));
+    setFileScopedLinks(edges.map(edge => ({
+      source: edge.source,
+      target: edge.target,
+      relation: edge.relation || 'cycle',
+      weight: edge.weight,
+      confidence_tier: edge.tier,
+      _isPath: !(cut && isSameEdge(cut, edge)),
+      _isCut: !!cut && isSameEdge(cut, edge),
+    })));
+    if (viewMode !== 'discovery') setViewMode('discovery');
+  }, [setFileScopedNodes, setFileScopedLinks, viewMode, setViewMode]);
+
+  // Both symbols plus every hop of the found paths; links keep their call-site line
+  const showRelationshipInGraph = useCallback((result: RelationshipResult) => {
+    const ids = new Set([result.a, result.b]);
+    const paths = [
+      { kind: 'forward' as const, from: result.a, hops: result.forward.hops },
+      { kind: 'backward' as const, from: result.b, hops: result.backward.hops },
+      { kind: 'lca' as const, from: result.lca, hops: result.lcaToA },
+      { kind: 'lca' as const, from: result.lca, hops: result.lcaToB },
+    ];
+    paths.forEach(({ from, hops }) => {
+      if (from && hops) pathSymbols(from, hops).forEach(id => ids.add(id));
+    });
+    setFileScopedNodes(Array.from(ids, id => {
+      const node = result.nodes[id];
+      return {
+        ...node,
+        id,
+        name: node?.name || id.split(/[:/]/).pop() || id,
+        type: node?.type || 'symbol',
+        kind: node?.kind || 'function',
+        _isPath: id === result.a || id === result.b,
+      };
+    }));
+    setFileScopedLinks(mergeCallPaths(paths).map(link => ({
+      source: link.source,
+      target: link.target,
+      relation: link.relation || 'calls',
+      line: link.line,
+      _highlight: RELATIONSHIP_COLORS[link.kind],
+    })));
+    if (viewMode !== 'discovery') setViewMode('discovery');
+  }, [setFileScopedNodes, setFileScopedLinks, viewMode, setViewMode]);
+
+  const openCrossProjectHit = useCallback((hit: CrossProjectHit) => {
+    setIsCrossProjectSearchOpen(false);
+    setPendingProjectHit(hit);
+    if (hit.projectId !== selectedProjectId) handleProjectChange(hit.projectId);
+  }, [selectedProjectId, handleProjectChange]);
+
+  useEffect(() => {
+    if (!pendingProjectHit || isDataSyncing || pendingProjectHit.projectId !== selectedProjectId) return;
+    setPendingProjectHit(null);
+    if (pendingProjectHit.isFile) {
+      ensureGraphView();
+      openPaletteFile(pendingProjectHit.filePath);
+    } else {
+      openPaletteSymbol(pendingProjectHit.id, pendingProjectHit.name);
+    }
+  }, [pendingProjectHit, isDataSyncing, selectedProjectId, ensureGraphView, openPaletteFile, openPaletteSymbol]);
+
+  // The smart search keeps only the graph from a semantic fallback; point to the ranked view
+  useEffect(() => {
+    if (lastSemanticResults) toast.info(`${lastSemanticResults.results.length} semantic matches. Open "Semantic search results" (Cmd+K) for the ranking.`);
+  }, [lastSemanticResults, toast]);
+
   React.useEffect(() => {
     if (!selectedNode || !hydrateNode) return;
 
@@ -547,8 +909,18 @@ const App: React.FC = () => {
             isDataSyncing={isDataSyncing}
             onOpenIngestModal={() => setIsIngestModalOpen(true)}
             onOpenReviewSession={() => setIsReviewSessionOpen(true)}
+            onSaveSession={saveSession}
+            onOpenSession={openSession}
+            profiles={profiles}
+            activeProfileId={activeProfile?.id ?? null}
+            onSwitchProfile={switchProfile}
           />
 
+          <BackendStatusBanner dataApiBase={dataApiBase} />
+          {authRequired && !isSettingsOpen && (
+            <AuthRequiredBanner onSignIn={() => setIsSettingsOpen(true)} onRetry={retryAfterAuth} />
+          )}
+
           <div className="relative flex-1 flex flex-col min-h-0">
             {isDataSyncing && !('nodes' in astData && Array.isArray(astData.nodes) && astData.nodes.length > 0) && (
               <div className="absolute inset-0 z-30 flex items-center justify-center bg-[var(--bg-main)]/90 backdrop-blur-sm">
@@ -567,6 +939,7 @@ const App: React.FC = () => {
                 accentColor="teal"
                 suggestions={contextualSuggestions}
                 onSubmit={handleSmartSearchWithNarrativeSwitch}
+                showIntent
               />
             )}
 
@@ -587,6 +960,15 @@ const App: React.FC = () => {
                 <Suspense fallback={<SuspenseFallback label="Loading Tests…" />}>
                   <TestScreen preSelectedNodeId={selectedNode?.id} />
                 </Suspense>
+              ) : viewMode === 'query' ? (
+                <Suspense fallback={<SuspenseFallback label="Loading Query Console…" />}>
+                  <QueryConsole
+                    onNodeSelect={openQueryResultNode}
+                    seed={consoleSeed}
+                    onSeedConsumed={() => setConsoleSeed(null)}
+                    onOpenBuilder={() => setIsQueryBuilderOpen(true)}
+                  />
+                </Suspense>
               ) : (
                 <div className={`flex-1 flex min-h-0 ${isSubModeSwitching ? 'animate-pulse opacity-80' : 'transition-opacity duration-500'}`}>
                   <Suspense fallback={<SuspenseFallback label="Loading Graph…" />}>
@@ -627,9 +1009,16 @@ const App: React.FC = () => {
             </div>
           </div>
 
+        {isNetworkInspectorOpen && (
+          <Suspense fallback={<SuspenseFallback variant="inline" label="Opening Network Inspector…" />}>
+            <NetworkInspector onClose={() => setIsNetworkInspectorOpen(false)} />
+          </Suspense>
+        )}
         <AppFooter
           astData={astData as FlatGraph}
           dataApiBase={dataApiBase}
+          isNetworkInspectorOpen={isNetworkInspectorOpen}
+          onToggleNetworkInspector={() => setIsNetworkInspectorOpen(open => !open)}
         />
       </div>
 
@@ -644,6 +1033,14 @@ const App: React.FC = () => {
             onClose={closeSettings}
             dataApiBase={dataApiBase}
             onDataApiBaseChange={handleDataApiBaseChange}
+            authConfig={authConfig}
+            onAuthConfigChange={handleAuthConfigChange}
+            authRequired={authRequired}
+            profiles={profiles}
+            activeProfile={activeProfile}
+            onSaveProfile={saveProfile}
+            onDeleteProfile={deleteProfile}
+            onSwitchProfile={switchProfile}
             enableAutoClustering={enableAutoClustering}
             onAutoClusteringToggle={() => setEnableAutoClustering(!enableAutoClustering)}
             syncError={syncError}
@@ -653,6 +1050,117 @@ const App: React.FC = () => {
           />
         </Suspense>
       )}
+      {isCommandPaletteOpen && (
+        <Suspense fallback={<SuspenseFallback variant="inline" label="Opening Command Palette…" />}>
+          <CommandPalette
+            isOpen={isCommandPaletteOpen}
+            onClose={() => setIsCommandPaletteOpen(false)}
+            manifest={manifest}
+            actions={paletteActions}
+            onOpenSymbol={openPaletteSymbol}
+            onOpenFile={openPaletteFile}
+          />
+        </Suspense>
+      )}
+      {isQueryBuilderOpen && (
+        <Suspense fallback={<SuspenseFallback variant="inline" label="Opening Query Builder…" />}>
+          <QueryBuilderModal
+            isOpen={isQueryBuilderOpen}
+            onClose={() => setIsQueryBuilderOpen(false)}
+            manifest={manifest}
+            onSendToConsole={sendToQueryConsole}
+            onNodeSelect={(node: any) => {
+              setIsQueryBuilderOpen(false);
+              openQueryResultNode(node);
+            }}
+          />
+        </Suspense>
+      )}
+      {isSemanticResultsOpen && (
+        <Suspense fallback={<SuspenseFallback variant="inline" label="Opening Semantic Results…" />}>
+          <SemanticResultsPanel
+            isOpen={isSemanticResultsOpen}
+            onClose={() => setIsSemanticResultsOpen(false)}
+            initial={lastSemanticResults}
+            onOpenHit={openSemanticHit}
+            onShowInGraph={showSemanticHitsInGraph}
+            onAskAI={askAboutSemanticHits}
+          />
+        </Suspense>
+      )}
+      {isCrossProjectSearchOpen && (
+        <Suspense fallback={<SuspenseFallback variant="inline" label="Opening Project Search…" />}>
+          <CrossProjectSearchModal
+            isOpen={isCrossProjectSearchOpen}
+            onClose={() => setIsCrossProjectSearchOpen(false)}
+            onOpenHit={openCrossProjectHit}
+          />
+        </Suspense>
+      )}
+      {isCodeSearchOpen && (
+        <Suspense fallback={<SuspenseFallback variant="inline" label="Opening Code Search…" />}>
+          <CodeSearchPanel
+            isOpen={isCodeSearchOpen}
+            onClose={() => setIsCodeSearchOpen(false)}
+            onOpenMatch={openCodeMatch}
+          />
+        </Suspense>
+      )}
+      {isCyclesOpen && (
+        <Suspense fallback={<SuspenseFallback variant="inline" label="Opening Cycles…" />}>
+          <CyclesPanel
+            isOpen={isCyclesOpen}
+            onClose={() => setIsCyclesOpen(false)}
+            onShowCycle={showCycleInGraph}
+          />
+        </Suspense>
+      )}
+      {isRelationshipOpen && (
+        <Suspense fallback={<SuspenseFallback variant="inline" label="Opening Relationship…" />}>
+          <RelationshipPanel
+            isOpen={isRelationshipOpen}
+            onClose={() => setIsRelationshipOpen(false)}
+            manifest={manifest}
+            initialSymbol={selectedNode && selectedNode.type !== 'file' ? selectedNode.id : undefined}
+            onShowInGraph={showRelationshipInGraph}
+            onOpenSymbol={openPaletteSymbol}
+          />
+        </Suspense>
+      )}
+      {isFlowTracerOpen && (
+        <Suspense fallback={<SuspenseFallback variant="inline" label="Opening Flow Tracer…" />}>
+          <FlowTracerModal
+            isOpen={isFlowTracerOpen}
+            onClose={() => setIsFlowTracerOpen(false)}
+            manifest={manifest}
+            initialSymbol={selectedNode && selectedNode.type !== 'file' ? selectedNode.id : undefined}
+            onOpenSymbol={(id, name) => { setIsFlowTracerOpen(false); openPaletteSymbol(id, name); }}
+          />
+        </Suspense>
+      )}
+      {isImpactOpen && (
+        <Suspense fallback={<SuspenseFallback variant="inline" label="Opening Impact Analysis…" />}>
+          <ImpactPanel
+            isOpen={isImpactOpen}
+            onClose={() => setIsImpactOpen(false)}
+            manifest={manifest}
+            initialSymbol={selectedNode && selectedNode.type !== 'file' ? selectedNode.id : undefined}
+            onOpenSymbol={(id, name) => { setIsImpactOpen(false); openPaletteSymbol(id, name); }}
+            onOpenFile={path => { setIsImpactOpen(false); ensureGraphView(); openPaletteFile(path); }}
+          />
+        </Suspense>
+      )}
+      {isCallHierarchyOpen && (
+        <Suspense fallback={<SuspenseFallback variant="inline" label="Opening Call Hierarchy…" />}>
+          <CallHierarchyPanel
+            isOpen={isCallHierarchyOpen}
+            onClose={() => setIsCallHierarchyOpen(false)}
+            manifest={manifest}
+            selectedId={selectedNode && selectedNode.type !== 'file' ? selectedNode.id : undefined}
+            onSelectSymbol={openPaletteSymbol}
+          />
+        </Suspense>
+      )}
       {isShortcutsOpen && (
         <Suspense fallback={<SuspenseFallback variant="inline" label="Opening Shortcuts…" />}>
           <ShortcutsModal
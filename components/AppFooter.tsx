@@ -1,12 +1,18 @@
 import React from 'react';
 import { FlatGraph } from '../types';
+import { useNetworkLog } from '../hooks/useNetworkLog';
 
 interface AppFooterProps {
   astData: FlatGraph | null;
   dataApiBase: string;
+  isNetworkInspectorOpen: boolean;
+  onToggleNetworkInspector: () => void;
 }
 
-const AppFooter: React.FC<AppFooterProps> = ({ astData, dataApiBase }) => {
+const AppFooter: React.FC<AppFooterProps> = ({ astData, dataApiBase, isNetworkInspectorOpen, onToggleNetworkInspector }) => {
+  const { entries } = useNetworkLog();
+  const failedCount = entries.filter(e => e.state === 'error').length;
+
   const formatEndpoint = (url: string) => {
     try {
       return new URL(url).hostname;
@@ -28,6 +34,16 @@ const AppFooter: React.FC<AppFooterProps> = ({ astData, dataApiBase }) => {
           {dataApiBase ? formatEndpoint(dataApiBase) : 'NONE'}
         </span>
       </div>
+      <button
+        onClick={onToggleNetworkInspector}
+        aria-pressed={isNetworkInspectorOpen}
+        title="Toggle network inspector"
+        className={`flex items-center gap-2 uppercase transition-colors ${isNetworkInspectorOpen ? 'text-[var(--accent-teal)]' : 'text-slate-600 hover:text-slate-400'}`}
+      >
+        <i className="fas fa-network-wired"></i>
+        NETWORK: <span className="font-bold">{entries.length}</span>
+        {failedCount > 0 && <span className="text-red-400 font-bold">{failedCount} FAILED</span>}
+      </button>
       <div className="ml-auto flex items-center gap-3 text-slate-700">
         <span className="uppercase tracking-tighter font-black italic">Gem-Code-V2.1</span>
         <div className="w-1.5 h-1.5 rounded-full bg-slate-800"></div>
@@ -1,6 +1,7 @@
-import React from 'react';
+import React, { useRef } from 'react';
 import { ViewMode } from '../context/UIContext';
 import ViewModeSwitcher from './ViewModeSwitcher';
+import type { ConnectionProfile } from '../utils/connectionProfiles';
 
 interface AppHeaderProps {
   currentProject: string;
@@ -14,6 +15,11 @@ interface AppHeaderProps {
   isDataSyncing: boolean;
   onOpenIngestModal?: () => void;
   onOpenReviewSession?: () => void;
+  onSaveSession?: () => void;
+  onOpenSession?: (file: File) => void;
+  profiles?: ConnectionProfile[];
+  activeProfileId?: string | null;
+  onSwitchProfile?: (id: string) => void;
 }
 
 const AppHeader: React.FC<AppHeaderProps> = ({
@@ -28,7 +34,14 @@ const AppHeader: React.FC<AppHeaderProps> = ({
   isDataSyncing,
   onOpenIngestModal,
   onOpenReviewSession,
+  onSaveSession,
+  onOpenSession,
+  profiles = [],
+  activeProfileId = null,
+  onSwitchProfile,
 }) => {
+  const sessionInputRef = useRef<HTMLInputElement>(null);
+
   const getStatus = () => {
     if (isDataSyncing) return { text: 'SYNCING...', color: 'bg-amber-500 animate-pulse shadow-[0_0_8px_#f59e0b]', textColor: 'text-amber-500' };
     if (isSubModeSwitching || isSearching) return { text: 'PROCESSING...', color: 'bg-amber-500 animate-pulse shadow-[0_0_8px_#f59e0b]', textColor: 'text-amber-500' };
@@ -59,7 +72,22 @@ const AppHeader: React.FC<AppHeaderProps> = ({
 
       {/* Spacer */}<div className="flex-1"></div>
 
-      {/* Connection Status & View Switcher */}
+      {/* Connection Profile, Status & View Switcher */}
+      {onSwitchProfile && profiles.length > 0 && (
+        <select
+          aria-label="Connection profile"
+          title="Switch connection profile"
+          value={activeProfileId ?? ''}
+          onChange={(e) => e.target.value && onSwitchProfile(e.target.value)}
+          className="max-w-[160px] bg-slate-900/50 border border-white/5 rounded-full px-3 py-1 text-[10px] font-mono text-slate-300 focus:outline-none focus:border-[var(--accent-teal)]/50 cursor-pointer"
+        >
+          {!activeProfileId && <option value="">Custom connection</option>}
+          {profiles.map(profile => (
+            <option key={profile.id} value={profile.id}>{profile.name}</option>
+          ))}
+        </select>
+      )}
+
       <div className="flex items-center gap-2 px-3 py-1.5 bg-slate-900/50 border border-white/5 rounded-full">
         <div className={`w-1.5 h-1.5 rounded-full ${status.color}`}></div>
         <span className={`text-[8px] font-black uppercase tracking-[0.2em] ${status.textColor}`}>
@@ -88,6 +116,39 @@ const AppHeader: React.FC<AppHeaderProps> = ({
             <i className="fas fa-code-compare"></i>
           </button>
         )}
+        {onSaveSession && (
+          <button
+            title="Save Session"
+            className="text-slate-500 hover:text-[var(--accent-teal)] cursor-pointer transition-colors text-sm bg-transparent border-none p-1 focus-visible:ring-2 focus-visible:ring-[var(--accent-teal)] focus-visible:ring-offset-2 focus-visible:ring-offset-[var(--bg-main)]"
+            onClick={onSaveSession}
+          >
+            <i className="fas fa-download"></i>
+          </button>
+        )}
+        {onOpenSession && (
+          <>
+            <button
+              title="Open Session"
+              className="text-slate-500 hover:text-[var(--accent-teal)] cursor-pointer transition-colors text-sm bg-transparent border-none p-1 focus-visible:ring-2 focus-visible:ring-[var(--accent-teal)] focus-visible:ring-offset-2 focus-visible:ring-offset-[var(--bg-main)]"
+              onClick={() => sessionInputRef.current?.click()}
+            >
+              <i className="fas fa-folder-open"></i>
+            </button>
+            <input
+              ref={sessionInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              aria-label="Open session file"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onOpenSession(file);
+                // Reset so the same file can be opened again
+                e.target.value = '';
+              }}
+            />
+          </>
+        )}
         <button
           aria-label="Keyboard shortcuts"
           className="text-slate-500 hover:text-white cursor-pointer transition-colors text-sm bg-transparent border-none p-1 focus-visible:ring-2 focus-visible:ring-[var(--accent-teal)] focus-visible:ring-offset-2 focus-visible:ring-offset-[var(--bg-main)]"
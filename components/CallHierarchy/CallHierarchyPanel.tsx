@@ -0,0 +1,211 @@
+/**
+ * CallHierarchyPanel — IDE-style call tree for one symbol, docked on the left
+ * so the code panel stays visible. Incoming mode lists callers, outgoing mode
+ * callees; each row expands one level on demand. Clicking a row opens the
+ * symbol in the code panel, and rows for the symbol selected elsewhere are
+ * highlighted.
+ */
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { HierarchySlice, useCallHierarchy } from '../../hooks/useCallHierarchy';
+import { manifestSymbolIds, ManifestData } from '../../hooks/useManifest';
+import { HierarchyCall, HierarchyDirection, hierarchyCalls, hierarchyKey } from '../../utils/callHierarchy';
+import { ErrorMessage, SymbolPicker } from '../common';
+
+interface CallHierarchyPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  manifest: ManifestData | null;
+  /** The symbol shown in the code panel */
+  selectedId?: string;
+  onSelectSymbol: (id: string, name: string) => void;
+}
+
+interface TreeLevelProps {
+  path: string[];
+  direction: HierarchyDirection;
+  slices: Record<string, HierarchySlice>;
+  expanded: Set<string>;
+  selectedId?: string;
+  onToggle: (path: string[]) => void;
+  onRetry: (symbol: string) => void;
+  onSelectSymbol: (id: string, name: string) => void;
+}
+
+const MAX_LINES_SHOWN = 3;
+
+const shortName = (id: string) => id.split(/[:/]/).pop() || id;
+
+const TreeLevel: React.FC<TreeLevelProps> = props => {
+  const { path, direction, slices, expanded, selectedId, onToggle, onRetry, onSelectSymbol } = props;
+  const symbol = path[path.length - 1]!;
+  const slice = slices[symbol];
+  const indent = { paddingLeft: `${path.length * 14 + 8}px` };
+
+  if (!slice || slice.status === 'loading') {
+    return <div style={indent} className="py-1 text-[10px] text-slate-600"><i className="fas fa-circle-notch fa-spin mr-1.5"></i>Loading…</div>;
+  }
+  if (slice.status === 'error') {
+    return <div style={indent} className="py-1 pr-3"><ErrorMessage error={slice.error} onRetry={() => onRetry(symbol)} /></div>;
+  }
+
+  const calls = hierarchyCalls(slice, path, direction);
+  if (calls.length === 0) {
+    return <div style={indent} className="py-1 text-[10px] text-slate-600">{direction === 'incoming' ? 'No callers' : 'No callees'}</div>;
+  }
+
+  return (
+    <ul role="group">
+      {calls.map((call: HierarchyCall) => {
+        const childPath = [...path, call.id];
+        const isExpanded = !call.recursive && expanded.has(hierarchyKey(childPath));
+        return (
+          <li key={call.id} role="treeitem" aria-expanded={call.recursive ? undefined : isExpanded}>
+            <div
+              style={indent}
+              data-symbol-id={call.id}
+              className={`flex items-center gap-1.5 pr-3 py-0.5 text-[11px] cursor-pointer ${call.id === selectedId ? 'bg-[var(--accent-teal)]/10' : 'hover:bg-white/5'}`}
+              onClick={() => onSelectSymbol(call.id, call.name)}
+            >
+              {call.recursive ? (
+                <i className="fas fa-rotate w-3 text-[9px] text-amber-400" title={`Recursive: ${shortName(call.id)} is already above in this chain`}></i>
+              ) : (
+                <button
+                  onClick={e => { e.stopPropagation(); onToggle(childPath); }}
+                  aria-label={isExpanded ? 'Collapse' : 'Expand'}
+                  className="w-3 text-[9px] text-slate-500 hover:text-white"
+                >
+                  <i className={`fas fa-chevron-${isExpanded ? 'down' : 'right'}`}></i>
+                </button>
+              )}
+              <span className={`font-mono truncate ${call.recursive ? 'text-amber-200/80' : 'text-slate-200'}`} title={call.id}>{call.name}</span>
+              <span className="text-[9px] text-slate-600 truncate">{call.filePath.split('/').pop()}</span>
+              {call.lines.length > 0 && (
+                <span className="ml-auto shrink-0 text-[9px] text-slate-500" title={`Call sites: ${call.lines.join(', ')}`}>
+                  L{call.lines.slice(0, MAX_LINES_SHOWN).join(', L')}{call.lines.length > MAX_LINES_SHOWN ? ` +${call.lines.length - MAX_LINES_SHOWN}` : ''}
+                </span>
+              )}
+            </div>
+            {isExpanded && <TreeLevel {...props} path={childPath} />}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export const CallHierarchyPanel: React.FC<CallHierarchyPanelProps> = ({ isOpen, onClose, manifest, selectedId, onSelectSymbol }) => {
+  const [direction, setDirection] = useState<HierarchyDirection>('incoming');
+  const { slices, load } = useCallHierarchy(direction);
+  const [root, setRoot] = useState(selectedId ?? '');
+  const [draft, setDraft] = useState(selectedId ?? '');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const treeRef = useRef<HTMLDivElement>(null);
+
+  const symbols = useMemo(() => manifestSymbolIds(manifest), [manifest]);
+
+  // A new root or direction starts from a fresh tree with only the root open
+  useEffect(() => {
+    setExpanded(new Set());
+    if (root) load(root);
+  }, [root, direction, load]);
+
+  // Follow the code panel: bring the first row for the selected symbol into view
+  useEffect(() => {
+    if (!selectedId) return;
+    const row = treeRef.current?.querySelector(`[data-symbol-id="${CSS.escape(selectedId)}"]`);
+    row?.scrollIntoView({ block: 'nearest' });
+  }, [selectedId]);
+
+  if (!isOpen) return null;
+
+  const toggle = (path: string[]) => {
+    const key = hierarchyKey(path);
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+    load(path[path.length - 1]!);
+  };
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (draft.trim()) setRoot(draft.trim());
+  };
+
+  return (
+    <aside className="fixed top-14 bottom-0 left-0 w-96 bg-[#0a1118] border-r border-[var(--border)] flex flex-col z-50 shadow-2xl" aria-label="Call hierarchy">
+      <div className="h-12 border-b border-white/5 flex items-center px-4 gap-2 shrink-0">
+        <i className="fas fa-folder-tree text-[var(--accent-teal)]"></i>
+        <h2 className="text-[11px] font-black uppercase tracking-widest text-white">Call Hierarchy</h2>
+        <div className="ml-auto flex rounded border border-white/10 overflow-hidden text-[9px] font-bold uppercase">
+          {(['incoming', 'outgoing'] as const).map(d => (
+            <button
+              key={d}
+              onClick={() => setDirection(d)}
+              aria-pressed={direction === d}
+              className={`px-2 py-1 ${direction === d ? 'bg-white/10 text-white' : 'text-slate-600 hover:text-slate-300'}`}
+            >
+              <i className={`fas fa-arrow-${d === 'incoming' ? 'right-to-bracket' : 'right-from-bracket'} mr-1`}></i>{d}
+            </button>
+          ))}
+        </div>
+        <button onClick={onClose} aria-label="Close" className="text-slate-500 hover:text-white p-1">
+          <i className="fas fa-times"></i>
+        </button>
+      </div>
+
+      <form onSubmit={submit} className="px-4 py-2 border-b border-white/5 flex items-end gap-2">
+        <div className="flex-1 min-w-0">
+          <SymbolPicker label="Root symbol" value={draft} onChange={setDraft} symbols={symbols} autoFocus={!selectedId} />
+        </div>
+        <button
+          type="button"
+          onClick={() => { if (selectedId) { setDraft(selectedId); setRoot(selectedId); } }}
+          disabled={!selectedId || selectedId === root}
+          title="Use the symbol open in the code panel"
+          className="px-2 py-1.5 rounded border border-white/10 text-[10px] text-slate-400 hover:text-white disabled:opacity-40"
+        >
+          <i className="fas fa-crosshairs"></i>
+        </button>
+        <button
+          type="submit"
+          disabled={!draft.trim()}
+          className="px-2 py-1.5 rounded bg-[var(--accent-teal)]/15 text-[var(--accent-teal)] text-[10px] font-black uppercase tracking-widest disabled:opacity-40"
+        >
+          Show
+        </button>
+      </form>
+
+      <div ref={treeRef} className="flex-1 overflow-y-auto py-1" role="tree" aria-label={`${direction} calls`}>
+        {root ? (
+          <>
+            <div
+              data-symbol-id={root}
+              onClick={() => onSelectSymbol(root, shortName(root))}
+              className={`flex items-center gap-1.5 px-2 py-0.5 text-[11px] cursor-pointer ${root === selectedId ? 'bg-[var(--accent-teal)]/10' : 'hover:bg-white/5'}`}
+            >
+              <i className="fas fa-crosshairs w-3 text-[9px] text-[var(--accent-teal)]"></i>
+              <span className="font-mono font-bold text-white truncate" title={root}>{shortName(root)}</span>
+            </div>
+            <TreeLevel
+              path={[root]}
+              direction={direction}
+              slices={slices}
+              expanded={expanded}
+              selectedId={selectedId}
+              onToggle={toggle}
+              onRetry={symbol => load(symbol, true)}
+              onSelectSymbol={onSelectSymbol}
+            />
+          </>
+        ) : (
+          <div className="p-6 text-center text-[11px] text-slate-600">Pick a symbol to see its {direction === 'incoming' ? 'callers' : 'callees'}.</div>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default CallHierarchyPanel;
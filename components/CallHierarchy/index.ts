@@ -0,0 +1 @@
+export { default as CallHierarchyPanel } from './CallHierarchyPanel';
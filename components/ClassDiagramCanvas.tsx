@@ -29,6 +29,8 @@ interface ClassDiagramCanvasProps {
   onNodeClick: (node: ClassDiagramNode) => void;
   width?: number;
   height?: number;
+  /** Scale and center the whole layout into view instead of the default top-centre offset */
+  fitToView?: boolean;
 }
 
 export const ClassDiagramCanvas: React.FC<ClassDiagramCanvasProps> = ({
@@ -36,7 +38,8 @@ export const ClassDiagramCanvas: React.FC<ClassDiagramCanvasProps> = ({
   links,
   onNodeClick,
   width = 800,
-  height = 600
+  height = 600,
+  fitToView = false
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const svgRef = useRef<SVGSVGElement>(null);
@@ -244,12 +247,18 @@ export const ClassDiagramCanvas: React.FC<ClassDiagramCanvasProps> = ({
       .attr('d', 'M0,-5L10,0L0,5')
       .attr('fill', linkColor);
 
-    const initialTransform = d3.zoomIdentity
-      .translate(width / 2, 50)
-      .scale(0.9);
+    const layout = gGraph.graph();
+    const fitScale = Math.min(1, (width - 40) / (layout.width || 1), (height - 40) / (layout.height || 1));
+    const initialTransform = fitToView
+      ? d3.zoomIdentity
+        .translate((width - (layout.width || 0) * fitScale) / 2, (height - (layout.height || 0) * fitScale) / 2)
+        .scale(fitScale)
+      : d3.zoomIdentity
+        .translate(width / 2, 50)
+        .scale(0.9);
     svg.call(zoom.transform, initialTransform);
 
-  }, [nodes, links, onNodeClick, width, height]);
+  }, [nodes, links, onNodeClick, width, height, fitToView]);
 
   return (
     <div ref={containerRef} className="w-full h-full relative bg-[#0a1118] rounded-lg overflow-hidden">
@@ -0,0 +1,204 @@
+/**
+ * CodeSearchPanel — "Search in code": literal or regex search over the
+ * project's source, grouped by file, with context lines and the enclosing
+ * symbol of every match.
+ */
+import React, { useState } from 'react';
+import { CodeMatch, MAX_MATCHES, useCodeSearch } from '../../hooks/useCodeSearch';
+import { InvalidSearchPatternError } from '../../utils/textSearch';
+import { ErrorMessage } from '../common';
+
+interface CodeSearchPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onOpenMatch: (filePath: string, match: CodeMatch) => void;
+}
+
+const CONTEXT_OPTIONS = [0, 1, 2, 3, 5];
+
+const Highlighted: React.FC<{ text: string; ranges: Array<[number, number]> }> = ({ text, ranges }) => {
+  const parts: React.ReactNode[] = [];
+  let pos = 0;
+  ranges.forEach(([start, end], i) => {
+    if (start > pos) parts.push(text.slice(pos, start));
+    parts.push(<mark key={i} className="bg-amber-400/30 text-amber-100 rounded-sm">{text.slice(start, end)}</mark>);
+    pos = end;
+  });
+  parts.push(text.slice(pos));
+  return <>{parts}</>;
+};
+
+const Toggle: React.FC<{ active: boolean; onClick: () => void; label: string; title: string }> = ({ active, onClick, label, title }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    title={title}
+    aria-pressed={active}
+    className={`px-2 py-1 rounded font-mono text-[10px] ${active ? 'bg-[var(--accent-teal)]/20 text-[var(--accent-teal)]' : 'text-slate-500 hover:text-white'}`}
+  >
+    {label}
+  </button>
+);
+
+export const CodeSearchPanel: React.FC<CodeSearchPanelProps> = ({ isOpen, onClose, onOpenMatch }) => {
+  const { results, progress, isSearching, error, search, cancel } = useCodeSearch();
+  const [pattern, setPattern] = useState('');
+  const [pathFilter, setPathFilter] = useState('');
+  const [regex, setRegex] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [wholeWord, setWholeWord] = useState(false);
+  const [contextLines, setContextLines] = useState(2);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  if (!isOpen) return null;
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setCollapsed(new Set());
+    search({ pattern, regex, caseSensitive, wholeWord, contextLines }, pathFilter);
+  };
+
+  const toggleFile = (filePath: string) => setCollapsed(prev => {
+    const next = new Set(prev);
+    if (next.has(filePath)) next.delete(filePath);
+    else next.add(filePath);
+    return next;
+  });
+
+  const percent = progress.total > 0 ? Math.round((progress.scanned / progress.total) * 100) : 0;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-[#000]/80 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="bg-[var(--bg-surface)] border border-white/10 rounded-lg shadow-2xl w-full max-w-5xl h-[85vh] flex flex-col overflow-hidden"
+        onClick={e => e.stopPropagation()}
+        onKeyDown={e => e.key === 'Escape' && onClose()}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Search in code"
+      >
+        <div className="px-6 py-4 border-b border-white/5 flex items-center justify-between">
+          <h3 className="text-sm font-black uppercase tracking-widest text-white">
+            <i className="fas fa-file-lines mr-2 text-[var(--accent-teal)]"></i>
+            Search in Code
+          </h3>
+          <button onClick={onClose} aria-label="Close" className="text-slate-500 hover:text-white transition-colors bg-transparent border-none p-1">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        <form onSubmit={submit} className="px-6 py-3 border-b border-white/5 space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              value={pattern}
+              onChange={e => setPattern(e.target.value)}
+              placeholder={regex ? 'Regular expression, e.g. func \\w+Handler' : 'Text to find'}
+              aria-label="Search pattern"
+              autoFocus
+              className="flex-1 bg-[var(--bg-main)] border border-white/10 rounded px-3 py-1.5 text-[11px] text-white font-mono focus:outline-none focus:border-[var(--accent-teal)]/50"
+            />
+            <Toggle active={caseSensitive} onClick={() => setCaseSensitive(v => !v)} label="Aa" title="Match case" />
+            <Toggle active={wholeWord} onClick={() => setWholeWord(v => !v)} label="\b" title="Whole word" />
+            <Toggle active={regex} onClick={() => setRegex(v => !v)} label=".*" title="Regular expression" />
+            {isSearching ? (
+              <button type="button" onClick={cancel} className="px-3 py-1.5 rounded border border-white/10 text-slate-300 text-[11px] font-bold uppercase tracking-wider hover:text-white">
+                <i className="fas fa-stop mr-2"></i>Cancel
+              </button>
+            ) : (
+              <button
+                type="submit"
+                disabled={!pattern}
+                className="px-3 py-1.5 rounded bg-[var(--accent-teal)]/20 text-[var(--accent-teal)] text-[11px] font-bold uppercase tracking-wider hover:bg-[var(--accent-teal)]/30 disabled:opacity-40"
+              >
+                <i className="fas fa-magnifying-glass mr-2"></i>Search
+              </button>
+            )}
+          </div>
+          <div className="flex items-center gap-2 text-[10px] text-slate-500">
+            <input
+              value={pathFilter}
+              onChange={e => setPathFilter(e.target.value)}
+              placeholder="Paths containing, e.g. internal/ .go !_test"
+              aria-label="Path filter"
+              className="flex-1 bg-[var(--bg-main)] border border-white/10 rounded px-3 py-1 text-[10px] text-white font-mono focus:outline-none focus:border-[var(--accent-teal)]/50"
+            />
+            <label className="flex items-center gap-1.5">
+              Context
+              <select
+                value={contextLines}
+                onChange={e => setContextLines(Number(e.target.value))}
+                className="bg-[var(--bg-main)] border border-white/10 rounded px-1.5 py-1 text-[10px] text-white"
+              >
+                {CONTEXT_OPTIONS.map(n => <option key={n} value={n}>{n} lines</option>)}
+              </select>
+            </label>
+          </div>
+        </form>
+
+        {progress.total > 0 && (
+          <div className="px-6 py-2 border-b border-white/5 flex items-center gap-3 text-[10px] text-slate-500">
+            <div className="w-32 h-1 rounded bg-white/5 overflow-hidden">
+              <div className="h-full bg-[var(--accent-teal)] transition-all" style={{ width: `${percent}%` }} />
+            </div>
+            <span>{progress.scanned}/{progress.total} files</span>
+            <span>{progress.matchCount} matching lines in {results.length} files</span>
+            {progress.failed > 0 && <span className="text-amber-400">{progress.failed} unreadable</span>}
+            {progress.truncated && <span className="text-amber-400">Stopped at {MAX_MATCHES} matches; narrow the search</span>}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto">
+          {error != null ? (
+            error instanceof InvalidSearchPatternError
+              ? <p className="p-6 text-[11px] text-red-400"><i className="fas fa-exclamation-circle mr-1.5"></i>{error.message}</p>
+              : <div className="p-4"><ErrorMessage error={error} /></div>
+          ) : results.length === 0 ? (
+            <div className="h-full flex items-center justify-center text-[11px] text-slate-600">
+              {isSearching ? 'Scanning files…' : progress.total > 0 ? 'No matches' : 'Search the text of every file in the project'}
+            </div>
+          ) : (
+            results.map(file => (
+              <section key={file.filePath} className="border-b border-white/5">
+                <button
+                  onClick={() => toggleFile(file.filePath)}
+                  className="sticky top-0 w-full flex items-center gap-2 px-6 py-1.5 bg-[var(--bg-surface)] text-left text-[11px] font-mono text-slate-300 hover:text-white"
+                >
+                  <i className={`fas fa-chevron-${collapsed.has(file.filePath) ? 'right' : 'down'} text-[8px] text-slate-600`}></i>
+                  {file.filePath}
+                  <span className="ml-auto text-[10px] text-slate-600">{file.matches.length}</span>
+                </button>
+                {!collapsed.has(file.filePath) && file.matches.map(match => (
+                  <button
+                    key={match.line}
+                    onClick={() => onOpenMatch(file.filePath, match)}
+                    className="w-full block px-6 py-1.5 text-left hover:bg-white/5 group"
+                  >
+                    {match.symbol && (
+                      <div className="text-[9px] text-slate-500 mb-0.5 pl-12">
+                        <i className="fas fa-cube mr-1"></i>in <span className="text-slate-300">{match.symbol.name}</span> <span className="uppercase">{match.symbol.kind}</span>
+                      </div>
+                    )}
+                    <pre className="m-0 text-[10px] font-mono leading-4 whitespace-pre overflow-x-hidden">
+                      {match.before.map((line, i) => (
+                        <div key={`b${i}`} className="text-slate-600"><span className="inline-block w-10 text-right mr-2 select-none">{match.line - match.before.length + i}</span>{line}</div>
+                      ))}
+                      <div className="text-slate-200 group-hover:text-white">
+                        <span className="inline-block w-10 text-right mr-2 select-none text-[var(--accent-teal)]">{match.line}</span>
+                        <Highlighted text={match.text} ranges={match.ranges} />
+                      </div>
+                      {match.after.map((line, i) => (
+                        <div key={`a${i}`} className="text-slate-600"><span className="inline-block w-10 text-right mr-2 select-none">{match.line + i + 1}</span>{line}</div>
+                      ))}
+                    </pre>
+                  </button>
+                ))}
+              </section>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CodeSearchPanel;
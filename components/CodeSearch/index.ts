@@ -0,0 +1 @@
+export { default as CodeSearchPanel } from './CodeSearchPanel';
@@ -0,0 +1,188 @@
+import React, { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
+import type { ManifestData } from '../hooks/useManifest';
+import { rankMatches } from '../utils/fuzzyMatch';
+
+export interface PaletteAction {
+  id: string;
+  label: string;
+  /** Font Awesome icon name without the `fa-` prefix */
+  icon: string;
+  shortcut?: string;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+  manifest: ManifestData | null;
+  actions: PaletteAction[];
+  onOpenSymbol: (symbolId: string, name: string) => void;
+  onOpenFile: (filePath: string) => void;
+}
+
+type PaletteItem =
+  | { kind: 'action'; key: string; text: string; action: PaletteAction }
+  | { kind: 'symbol'; key: string; text: string; filePath: string }
+  | { kind: 'file'; key: string; text: string };
+
+const MAX_RESULTS = 50;
+
+const KIND_ICONS: Record<PaletteItem['kind'], string> = {
+  action: 'bolt',
+  symbol: 'code',
+  file: 'file-code',
+};
+
+const Highlighted: React.FC<{ text: string; positions: number[] }> = ({ text, positions }) => {
+  // fuzzyMatch positions are UTF-16 indices, so astral characters take two
+  const marked = new Set(positions);
+  const runs: Array<{ text: string; marked: boolean }> = [];
+  let index = 0;
+  for (const ch of text) {
+    const isMarked = marked.has(index);
+    const last = runs[runs.length - 1];
+    if (last && last.marked === isMarked) last.text += ch;
+    else runs.push({ text: ch, marked: isMarked });
+    index += ch.length;
+  }
+  return (
+    <>
+      {runs.map((run, i) => (
+        run.marked
+          ? <span key={i} className="text-[var(--accent-teal)] font-bold">{run.text}</span>
+          : <React.Fragment key={i}>{run.text}</React.Fragment>
+      ))}
+    </>
+  );
+};
+
+/**
+ * Cmd+K palette: instant fuzzy search over app actions and the project
+ * manifest's files and symbols, without a backend round trip.
+ */
+const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, onClose, manifest, actions, onOpenSymbol, onOpenFile }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const deferredQuery = useDeferredValue(query);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const items = useMemo<PaletteItem[]>(() => {
+    const list: PaletteItem[] = actions.map(action => ({ kind: 'action', key: `action:${action.id}`, text: action.label, action }));
+    if (manifest) {
+      for (const [name, fileId] of Object.entries(manifest.S)) {
+        const filePath = manifest.F[String(fileId)];
+        if (filePath) list.push({ kind: 'symbol', key: `symbol:${filePath}:${name}`, text: name, filePath });
+      }
+      for (const filePath of Object.values(manifest.F)) {
+        list.push({ kind: 'file', key: `file:${filePath}`, text: filePath });
+      }
+    }
+    return list;
+  }, [actions, manifest]);
+
+  const results = useMemo(() => {
+    if (!deferredQuery.trim()) {
+      return items.filter(item => item.kind === 'action').map(item => ({ item, match: { score: 0, positions: [] as number[] } }));
+    }
+    return rankMatches(deferredQuery, items, item => item.text, MAX_RESULTS);
+  }, [items, deferredQuery]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setQuery('');
+    setActiveIndex(0);
+    inputRef.current?.focus();
+  }, [isOpen]);
+
+  useEffect(() => setActiveIndex(0), [deferredQuery]);
+
+  useEffect(() => {
+    listRef.current?.children[activeIndex]?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  if (!isOpen) return null;
+
+  const choose = (item: PaletteItem) => {
+    onClose();
+    if (item.kind === 'action') item.action.run();
+    else if (item.kind === 'symbol') onOpenSymbol(`${item.filePath}:${item.text}`, item.text);
+    else onOpenFile(item.text);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => Math.min(i + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      const selected = results[activeIndex];
+      if (selected) choose(selected.item);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-start justify-center bg-[#000]/70 backdrop-blur-sm pt-[15vh] p-4" onClick={onClose}>
+      <div
+        className="bg-[var(--bg-surface)] border border-white/10 rounded-lg shadow-2xl w-full max-w-xl overflow-hidden"
+        onClick={e => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+      >
+        <div className="flex items-center gap-3 px-4 py-3 border-b border-white/5">
+          <i className="fas fa-search text-slate-500 text-xs"></i>
+          <input
+            ref={inputRef}
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder={manifest ? 'Jump to a symbol, file or action…' : 'Run an action…'}
+            role="combobox"
+            aria-expanded="true"
+            aria-controls="command-palette-results"
+            aria-activedescendant={results[activeIndex] ? `palette-${results[activeIndex]!.item.key}` : undefined}
+            className="flex-1 bg-transparent border-none outline-none text-sm text-white placeholder:text-slate-600"
+          />
+          <kbd className="px-2 py-0.5 bg-[#0a0e14] border border-white/10 rounded text-[9px] font-mono text-slate-500">ESC</kbd>
+        </div>
+
+        <ul id="command-palette-results" ref={listRef} role="listbox" className="max-h-[50vh] overflow-y-auto py-1">
+          {results.map(({ item, match }, i) => (
+            <li
+              key={item.key}
+              id={`palette-${item.key}`}
+              role="option"
+              aria-selected={i === activeIndex}
+              onMouseEnter={() => setActiveIndex(i)}
+              onClick={() => choose(item)}
+              className={`flex items-center gap-3 px-4 py-2 cursor-pointer text-[12px] ${i === activeIndex ? 'bg-white/10 text-white' : 'text-slate-300'}`}
+            >
+              <i className={`fas fa-${item.kind === 'action' ? item.action.icon : KIND_ICONS[item.kind]} w-4 text-center text-[11px] text-slate-500`}></i>
+              <span className="truncate font-mono">
+                <Highlighted text={item.text} positions={match.positions} />
+              </span>
+              {item.kind === 'symbol' && (
+                <span className="truncate text-[10px] text-slate-600 font-mono">{item.filePath}</span>
+              )}
+              <span className="ml-auto shrink-0 text-[9px] uppercase tracking-widest text-slate-600">
+                {item.kind === 'action' && item.action.shortcut ? item.action.shortcut : item.kind}
+              </span>
+            </li>
+          ))}
+          {results.length === 0 && (
+            <li className="px-4 py-6 text-center text-[11px] text-slate-600">No matches</li>
+          )}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
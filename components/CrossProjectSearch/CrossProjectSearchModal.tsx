@@ -0,0 +1,174 @@
+/**
+ * CrossProjectSearchModal — Find which indexed project defines or mentions
+ * something. Searches every project at once, ranks the merged hits with a
+ * project badge, and hands the chosen hit back so App can switch project.
+ */
+import React, { useMemo, useState } from 'react';
+import { useSettingsContext } from '../../context/SettingsContext';
+import { useCrossProjectSearch } from '../../hooks/useCrossProjectSearch';
+import type { CrossProjectHit, CrossProjectMode } from '../../utils/crossProjectSearch';
+import { describeError } from '../../services/apiErrors';
+
+interface CrossProjectSearchModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onOpenHit: (hit: CrossProjectHit) => void;
+}
+
+const BADGE_COLORS = [
+  'bg-sky-500/15 text-sky-300',
+  'bg-emerald-500/15 text-emerald-300',
+  'bg-amber-500/15 text-amber-300',
+  'bg-fuchsia-500/15 text-fuchsia-300',
+  'bg-rose-500/15 text-rose-300',
+  'bg-indigo-500/15 text-indigo-300',
+  'bg-lime-500/15 text-lime-300',
+  'bg-orange-500/15 text-orange-300',
+];
+
+const MODES: Array<{ mode: CrossProjectMode; label: string; hint: string }> = [
+  { mode: 'symbols', label: 'Symbols', hint: 'Match symbol names, e.g. UserProfile' },
+  { mode: 'semantic', label: 'Semantic', hint: 'Describe it, e.g. calls the billing endpoint' },
+];
+
+export const CrossProjectSearchModal: React.FC<CrossProjectSearchModalProps> = ({ isOpen, onClose, onOpenHit }) => {
+  const { availableProjects, selectedProjectId } = useSettingsContext();
+  const { hits, statuses, isSearching, search, cancel } = useCrossProjectSearch();
+  const [query, setQuery] = useState('');
+  const [mode, setMode] = useState<CrossProjectMode>('symbols');
+  const [searchedMode, setSearchedMode] = useState<CrossProjectMode>('symbols');
+  const [projectFilter, setProjectFilter] = useState<string | null>(null);
+
+  const badgeFor = useMemo(() => {
+    const colors = new Map(availableProjects.map((p, i) => [p.id, BADGE_COLORS[i % BADGE_COLORS.length]!]));
+    return (projectId: string) => colors.get(projectId) ?? BADGE_COLORS[0]!;
+  }, [availableProjects]);
+
+  if (!isOpen) return null;
+
+  const visible = projectFilter ? hits.filter(h => h.projectId === projectFilter) : hits;
+  const hint = MODES.find(m => m.mode === mode)!.hint;
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setProjectFilter(null);
+    setSearchedMode(mode);
+    search(query, mode);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-[#000]/80 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="bg-[var(--bg-surface)] border border-white/10 rounded-lg shadow-2xl w-full max-w-4xl h-[80vh] flex flex-col overflow-hidden"
+        onClick={e => e.stopPropagation()}
+        onKeyDown={e => e.key === 'Escape' && onClose()}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Search all projects"
+      >
+        <div className="px-6 py-4 border-b border-white/5 flex items-center justify-between">
+          <h3 className="text-sm font-black uppercase tracking-widest text-white">
+            <i className="fas fa-layer-group mr-2 text-[var(--accent-teal)]"></i>
+            Search All Projects
+          </h3>
+          <button onClick={onClose} aria-label="Close" className="text-slate-500 hover:text-white transition-colors bg-transparent border-none p-1">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        <form onSubmit={submit} className="px-6 py-3 border-b border-white/5 flex items-center gap-2">
+          <div className="flex rounded border border-white/10 overflow-hidden text-[10px] font-bold uppercase tracking-wider" role="radiogroup" aria-label="Search mode">
+            {MODES.map(m => (
+              <button
+                key={m.mode}
+                type="button"
+                role="radio"
+                aria-checked={mode === m.mode}
+                onClick={() => setMode(m.mode)}
+                className={`px-3 py-1.5 ${mode === m.mode ? 'bg-[var(--accent-teal)]/20 text-[var(--accent-teal)]' : 'text-slate-500 hover:text-white'}`}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+          <input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder={hint}
+            aria-label="Search query"
+            autoFocus
+            className="flex-1 bg-[var(--bg-main)] border border-white/10 rounded px-3 py-1.5 text-[11px] text-white focus:outline-none focus:border-[var(--accent-teal)]/50"
+          />
+          {isSearching ? (
+            <button type="button" onClick={cancel} className="px-3 py-1.5 rounded border border-white/10 text-slate-300 text-[11px] font-bold uppercase tracking-wider hover:text-white">
+              <i className="fas fa-stop mr-2"></i>Cancel
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!query.trim() || availableProjects.length === 0}
+              className="px-3 py-1.5 rounded bg-[var(--accent-teal)]/20 text-[var(--accent-teal)] text-[11px] font-bold uppercase tracking-wider hover:bg-[var(--accent-teal)]/30 disabled:opacity-40"
+            >
+              <i className="fas fa-magnifying-glass mr-2"></i>Search {availableProjects.length}
+            </button>
+          )}
+        </form>
+
+        {Object.keys(statuses).length > 0 && (
+          <div className="px-6 py-2 border-b border-white/5 flex flex-wrap gap-1.5">
+            {availableProjects.filter(p => statuses[p.id]).map(p => {
+              const status = statuses[p.id]!;
+              const active = projectFilter === p.id;
+              return (
+                <button
+                  key={p.id}
+                  onClick={() => setProjectFilter(active ? null : p.id)}
+                  disabled={status.state !== 'done' || status.count === 0}
+                  title={status.state === 'error' ? describeError(status.error).title : `${status.count} hits in ${p.name}`}
+                  className={`flex items-center gap-1.5 px-2 py-0.5 rounded-full text-[9px] font-bold ${badgeFor(p.id)} ${active ? 'ring-1 ring-current' : ''} disabled:cursor-default`}
+                >
+                  {status.state === 'pending' && <i className="fas fa-circle-notch fa-spin"></i>}
+                  {status.state === 'error' && <i className="fas fa-triangle-exclamation text-red-400"></i>}
+                  {p.name}
+                  {status.state === 'done' && <span className="opacity-60">{status.count}</span>}
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto">
+          {visible.length === 0 ? (
+            <div className="h-full flex items-center justify-center text-[11px] text-slate-600">
+              {isSearching ? 'Searching projects…' : Object.keys(statuses).length > 0 ? 'No matches in any project' : `Search ${availableProjects.length} projects at once`}
+            </div>
+          ) : (
+            <ul>
+              {visible.map(hit => (
+                <li key={hit.key}>
+                  <button
+                    onClick={() => onOpenHit(hit)}
+                    className="w-full flex items-center gap-3 px-6 py-2 text-left border-b border-white/5 hover:bg-white/5 group"
+                  >
+                    <span className={`shrink-0 px-2 py-0.5 rounded text-[9px] font-bold max-w-[9rem] truncate ${badgeFor(hit.projectId)}`} title={hit.projectName}>
+                      {hit.projectName}
+                    </span>
+                    <i className={`fas ${hit.isFile ? 'fa-file-code' : 'fa-cube'} text-[10px] text-slate-600`}></i>
+                    <span className="text-[12px] font-bold text-white group-hover:text-[var(--accent-teal)] truncate">{hit.name}</span>
+                    <span className="text-[10px] text-slate-500 font-mono truncate">{hit.filePath}</span>
+                    <span className="ml-auto shrink-0 flex items-center gap-2 text-[10px] text-slate-500">
+                      {searchedMode === 'semantic' && <span className="font-mono">{hit.score.toFixed(3)}</span>}
+                      {hit.projectId !== selectedProjectId && <span className="text-[9px] uppercase text-slate-600" title="Opening switches project">switch</span>}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CrossProjectSearchModal;
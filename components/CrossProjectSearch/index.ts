@@ -0,0 +1 @@
+export { default as CrossProjectSearchModal } from './CrossProjectSearchModal';
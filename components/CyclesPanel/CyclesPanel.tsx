@@ -0,0 +1,191 @@
+/**
+ * CyclesPanel — Drawer listing the dependency cycles from /graph/cycles.
+ * Selecting a cycle lays it out as a ring in the Discovery graph and ranks
+ * its edges by how cheap they are to cut.
+ */
+import React, { useMemo, useState } from 'react';
+import { useCycles } from '../../hooks/useCycles';
+import type { GraphMapResponse } from '../../services/graphService';
+import {
+  countEdgeUsage,
+  CutSuggestion,
+  CycleEdge,
+  cycleEdges,
+  CycleSort,
+  isSameEdge,
+  RankedCycle,
+  rankCycles,
+  suggestCuts,
+} from '../../utils/cycles';
+import { ErrorMessage } from '../common';
+
+interface CyclesPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onShowCycle: (cycle: RankedCycle, subgraph: GraphMapResponse, edges: CycleEdge[], cut: CycleEdge | null) => void;
+}
+
+const PAGE_SIZE = 100;
+
+const TIER_STYLES: Record<string, string> = {
+  EXTRACTED: 'text-[#22c55e]',
+  INFERRED: 'text-[#f59e0b]',
+  AMBIGUOUS: 'text-[#ef4444]',
+};
+
+const shortName = (id: string) => id.split(/[:/]/).pop() || id;
+
+export const CyclesPanel: React.FC<CyclesPanelProps> = ({ isOpen, onClose, onShowCycle }) => {
+  const { cycles, isLoading, error, reload, loadSubgraph } = useCycles();
+  const [sort, setSort] = useState<CycleSort>('files');
+  const [filter, setFilter] = useState('');
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [selected, setSelected] = useState<{ cycle: RankedCycle; subgraph: GraphMapResponse; cuts: CutSuggestion[] } | null>(null);
+  const [cut, setCut] = useState<CycleEdge | null>(null);
+  const [loadingKey, setLoadingKey] = useState<string | null>(null);
+  const [subgraphError, setSubgraphError] = useState<unknown>(null);
+
+  const ranked = useMemo(() => rankCycles(cycles ?? [], sort), [cycles, sort]);
+  const usage = useMemo(() => countEdgeUsage(cycles ?? []), [cycles]);
+  const visible = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    return needle ? ranked.filter(c => c.members.some(id => id.toLowerCase().includes(needle))) : ranked;
+  }, [ranked, filter]);
+
+  if (!isOpen) return null;
+
+  const select = async (cycle: RankedCycle) => {
+    setLoadingKey(cycle.key);
+    setSubgraphError(null);
+    try {
+      const subgraph = await loadSubgraph(cycle.key, cycle.members);
+      if (!subgraph) return;
+      const edges = cycleEdges(cycle.members, subgraph.links);
+      const cuts = suggestCuts(edges, usage);
+      const best = cuts[0]?.edge ?? null;
+      setSelected({ cycle, subgraph, cuts });
+      setCut(best);
+      onShowCycle(cycle, subgraph, edges, best);
+    } catch (err) {
+      setSubgraphError(err);
+    } finally {
+      setLoadingKey(key => (key === cycle.key ? null : key));
+    }
+  };
+
+  const chooseCut = (edge: CycleEdge) => {
+    if (!selected) return;
+    setCut(edge);
+    onShowCycle(selected.cycle, selected.subgraph, selected.cuts.map(c => c.edge), edge);
+  };
+
+  return (
+    <aside className="fixed top-14 bottom-0 right-0 w-96 bg-[#0a1118] border-l border-[var(--border)] flex flex-col z-50 shadow-2xl" aria-label="Dependency cycles">
+      <div className="h-12 border-b border-white/5 flex items-center px-4 gap-2 shrink-0">
+        <i className="fas fa-arrows-spin text-[var(--accent-teal)]"></i>
+        <h2 className="text-[11px] font-black uppercase tracking-widest text-white">Cycles</h2>
+        {cycles && <span className="text-[10px] text-slate-500">{ranked.length}</span>}
+        <button onClick={reload} disabled={isLoading} className="ml-auto text-slate-500 hover:text-white disabled:opacity-40" aria-label="Reload cycles">
+          <i className={`fas fa-rotate ${isLoading ? 'fa-spin' : ''} text-[11px]`}></i>
+        </button>
+        <button onClick={onClose} aria-label="Close" className="text-slate-500 hover:text-white p-1">
+          <i className="fas fa-times"></i>
+        </button>
+      </div>
+
+      <div className="px-4 py-2 border-b border-white/5 flex items-center gap-2">
+        <input
+          value={filter}
+          onChange={e => { setFilter(e.target.value); setLimit(PAGE_SIZE); }}
+          placeholder="Filter by symbol or file"
+          aria-label="Filter cycles"
+          className="flex-1 min-w-0 bg-[var(--bg-main)] border border-white/10 rounded px-2 py-1 text-[10px] text-white font-mono focus:outline-none focus:border-[var(--accent-teal)]/50"
+        />
+        <select
+          value={sort}
+          onChange={e => setSort(e.target.value as CycleSort)}
+          aria-label="Sort cycles"
+          className="bg-[var(--bg-main)] border border-white/10 rounded px-1.5 py-1 text-[10px] text-white"
+        >
+          <option value="files">Most files</option>
+          <option value="length">Shortest</option>
+        </select>
+      </div>
+
+      {selected && (
+        <div className="px-4 py-3 border-b border-white/5 max-h-[45%] overflow-y-auto">
+          <div className="text-[10px] font-black uppercase tracking-widest text-slate-500 mb-1.5">
+            Cut suggestions
+          </div>
+          <ol className="space-y-1">
+            {selected.cuts.map(({ edge, cost, sharedWith }) => {
+              const active = !!cut && isSameEdge(cut, edge);
+              return (
+                <li key={`${edge.source}>${edge.target}`}>
+                  <button
+                    onClick={() => chooseCut(edge)}
+                    className={`w-full text-left px-2 py-1 rounded text-[10px] ${active ? 'bg-red-500/10 ring-1 ring-red-500/40' : 'hover:bg-white/5'}`}
+                  >
+                    <div className="font-mono text-slate-300 truncate" title={`${edge.source} → ${edge.target}`}>
+                      {shortName(edge.source)} <span className="text-slate-600">→</span> {shortName(edge.target)}
+                    </div>
+                    <div className="flex gap-2 text-[9px] text-slate-500">
+                      <span>cost {cost.toFixed(2)}</span>
+                      {edge.weight !== undefined && <span>weight {edge.weight}</span>}
+                      {edge.tier && <span className={TIER_STYLES[edge.tier]}>{edge.tier.toLowerCase()}</span>}
+                      {!edge.known && <span className="text-amber-400" title="The subgraph had no link for this step">link not found</span>}
+                      {sharedWith > 0 && <span className="text-[var(--accent-teal)]">also breaks {sharedWith} other cycle{sharedWith === 1 ? '' : 's'}</span>}
+                    </div>
+                  </button>
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto">
+        {error != null ? (
+          <div className="p-4"><ErrorMessage error={error} onRetry={reload} /></div>
+        ) : subgraphError != null ? (
+          <div className="p-4"><ErrorMessage error={subgraphError} /></div>
+        ) : !cycles ? (
+          <div className="p-6 text-center text-[11px] text-slate-600">{isLoading ? 'Detecting cycles…' : ''}</div>
+        ) : visible.length === 0 ? (
+          <div className="p-6 text-center text-[11px] text-slate-600">
+            {ranked.length === 0 ? <><i className="fas fa-circle-check text-[#22c55e] mr-1.5"></i>No cycles detected</> : 'No cycles match the filter'}
+          </div>
+        ) : (
+          <ul>
+            {visible.slice(0, limit).map(cycle => (
+              <li key={cycle.key}>
+                <button
+                  onClick={() => select(cycle)}
+                  className={`w-full text-left px-4 py-2 border-b border-white/5 hover:bg-white/5 ${selected?.cycle.key === cycle.key ? 'bg-[var(--accent-teal)]/5' : ''}`}
+                >
+                  <div className="flex items-center gap-2 text-[10px] text-slate-500 mb-0.5">
+                    <span className="font-bold text-slate-300">{cycle.length} symbols</span>
+                    <span>{cycle.files.length} file{cycle.files.length === 1 ? '' : 's'}</span>
+                    {loadingKey === cycle.key && <i className="fas fa-circle-notch fa-spin ml-auto"></i>}
+                  </div>
+                  <div className="text-[10px] font-mono text-slate-400 truncate" title={cycle.members.join(' → ')}>
+                    {cycle.members.map(shortName).join(' → ')} → {shortName(cycle.members[0]!)}
+                  </div>
+                </button>
+              </li>
+            ))}
+            {visible.length > limit && (
+              <li>
+                <button onClick={() => setLimit(l => l + PAGE_SIZE)} className="w-full py-2 text-[10px] text-slate-500 hover:text-white">
+                  Show {Math.min(PAGE_SIZE, visible.length - limit)} more of {visible.length - limit}
+                </button>
+              </li>
+            )}
+          </ul>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default CyclesPanel;
@@ -0,0 +1 @@
+export { default as CyclesPanel } from './CyclesPanel';
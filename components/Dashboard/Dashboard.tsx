@@ -4,6 +4,7 @@ import { fetchHealthSummaryV2, fetchHealthSummary, fetchSurpriseAnalysis, fetchK
 import { CUSTOM_EVENTS } from '../../constants';
 import { fetchOKFSmells } from '../../services/okfService';
 import { logger } from '../../logger';
+import { useBackendStatus } from '../../hooks/useBackendStatus';
 import HealthScore from './HealthScore';
 import MetricsRadar from './MetricsRadar';
 import RiskLeaderboard from './RiskLeaderboard';
@@ -24,6 +25,8 @@ export const Dashboard: React.FC<DashboardProps> = ({ refreshKey }) => {
     return `req_${++requestCounterRef.current}_${Date.now()}`;
   }, []);
   const { dataApiBase, selectedProjectId } = useSettingsContext();
+  const backendStatus = useBackendStatus(dataApiBase);
+  const wasBackendUnavailableRef = useRef(false);
 
   const [healthV2, setHealthV2] = useState<HealthSummaryV2 | null>(null);
   const [surpriseData, setSurpriseData] = useState<SurpriseResponse | null>(null);
@@ -142,6 +145,16 @@ try {
     loadHealthData(requestId);
   }, [loadHealthData]);
 
+  // Reload once the backend comes back instead of leaving a dead page
+  useEffect(() => {
+    if (backendStatus.isUnavailable) {
+      wasBackendUnavailableRef.current = true;
+    } else if (wasBackendUnavailableRef.current) {
+      wasBackendUnavailableRef.current = false;
+      handleRetry();
+    }
+  }, [backendStatus.isUnavailable, handleRetry]);
+
   const handleAskAI = useCallback((file: FileHealth) => {
     setInitialPrompt(`Analyze the structural and security issues in \`${file.file_name}\` and suggest a refactoring plan. Focus on: ${file.arch_smells.join(', ')}${file.security_issues > 0 ? ', security vulnerabilities' : ''}. Provide actionable steps with priority.`);
     setDrawerOpen(true);
@@ -200,6 +213,22 @@ try {
     );
   }
 
+  if (status === 'error' && backendStatus.isUnavailable) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-center text-amber-300">
+          <i className="fas fa-plug-circle-exclamation text-4xl mb-4"></i>
+          <p>Backend unavailable</p>
+          <p className="text-sm mt-2 text-slate-400">
+            {backendStatus.retryInSeconds > 0
+              ? `Retrying in ${backendStatus.retryInSeconds}s — the dashboard will reload automatically`
+              : 'Reconnecting…'}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
   if (status === 'error') {
     return (
       <div className="flex items-center justify-center h-full">
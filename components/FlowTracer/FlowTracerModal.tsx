@@ -0,0 +1,206 @@
+/**
+ * FlowTracerModal — "How does data get from A to B?". Traces the path from
+ * /search/flow, lays it out left to right with the class-diagram canvas, and
+ * lists every hop with the caller's source around the call. The ordered path
+ * can be narrated by the AI.
+ */
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useFlowTrace } from '../../hooks/useFlowTrace';
+import { manifestSymbolIds, ManifestData } from '../../hooks/useManifest';
+import ClassDiagramCanvas from '../ClassDiagramCanvas';
+import MarkdownRenderer from '../Synthesis/MarkdownRenderer';
+import { ErrorMessage, SymbolPicker } from '../common';
+
+interface FlowTracerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  manifest: ManifestData | null;
+  /** Prefills "from", e.g. with the current selection */
+  initialSymbol?: string;
+  onOpenSymbol: (id: string, name: string) => void;
+}
+
+const shortName = (id: string) => id.split(/[:/]/).pop() || id;
+
+export const FlowTracerModal: React.FC<FlowTracerModalProps> = ({ isOpen, onClose, manifest, initialSymbol, onOpenSymbol }) => {
+  const { trace, isTracing, error, traceFlow, narrative, isNarrating, narrativeError, narrate } = useFlowTrace();
+  const [from, setFrom] = useState(initialSymbol ?? '');
+  const [to, setTo] = useState('');
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const [canvasSize, setCanvasSize] = useState({ width: 800, height: 220 });
+
+  const symbols = useMemo(() => manifestSymbolIds(manifest), [manifest]);
+
+  useEffect(() => {
+    const container = canvasRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver((entries) => {
+      for (const entry of entries) {
+        const { width, height } = entry.contentRect;
+        setCanvasSize({ width, height });
+      }
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const diagram = useMemo(() => {
+    if (!trace) return { nodes: [], links: [] };
+    const byId = new Map(trace.nodes.map(n => [n.id, n]));
+    const ids = [trace.from, ...trace.hops.map(h => h.target)];
+    return {
+      nodes: Array.from(new Set(ids), id => {
+        const node = byId.get(id);
+        return { id, name: node?.name || shortName(id), kind: node?.kind || 'func', filePath: node?.filePath };
+      }),
+      links: trace.hops.map(h => ({ source: h.source, target: h.target, relation: h.relation || 'calls' })),
+    };
+  }, [trace]);
+
+  // Clicking a box on the canvas brings the hop leaving it into view
+  const focusHop = useCallback((node: { id: string }) => {
+    setFocusedId(node.id);
+    document.getElementById(`flow-hop-${node.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, []);
+
+  if (!isOpen) return null;
+
+  const canTrace = !!from.trim() && !!to.trim() && from.trim() !== to.trim() && !isTracing;
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canTrace) return;
+    setFocusedId(null);
+    traceFlow(from.trim(), to.trim());
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-[#000]/80 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="bg-[var(--bg-surface)] border border-white/10 rounded-lg shadow-2xl w-full max-w-6xl h-[88vh] flex flex-col overflow-hidden"
+        onClick={e => e.stopPropagation()}
+        onKeyDown={e => e.key === 'Escape' && onClose()}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Trace data flow"
+      >
+        <div className="px-6 py-4 border-b border-white/5 flex items-center justify-between">
+          <h3 className="text-sm font-black uppercase tracking-widest text-white">
+            <i className="fas fa-route mr-2 text-[var(--accent-teal)]"></i>
+            Trace Data Flow
+          </h3>
+          <button onClick={onClose} aria-label="Close" className="text-slate-500 hover:text-white transition-colors bg-transparent border-none p-1">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        <form onSubmit={submit} className="px-6 py-3 border-b border-white/5 flex items-end gap-3">
+          <div className="flex-1 min-w-0">
+            <SymbolPicker label="From" value={from} onChange={setFrom} symbols={symbols} autoFocus={!initialSymbol} />
+          </div>
+          <button
+            type="button"
+            onClick={() => { setFrom(to); setTo(from); }}
+            className="mb-0.5 px-2 py-1.5 rounded border border-white/10 text-[10px] text-slate-400 hover:text-white"
+            aria-label="Swap from and to"
+          >
+            <i className="fas fa-right-left"></i>
+          </button>
+          <div className="flex-1 min-w-0">
+            <SymbolPicker label="To" value={to} onChange={setTo} symbols={symbols} autoFocus={!!initialSymbol} />
+          </div>
+          <button
+            type="submit"
+            disabled={!canTrace}
+            className="px-3 py-1.5 rounded bg-[var(--accent-teal)]/20 text-[var(--accent-teal)] text-[11px] font-bold uppercase tracking-wider hover:bg-[var(--accent-teal)]/30 disabled:opacity-40"
+          >
+            {isTracing ? <i className="fas fa-circle-notch fa-spin"></i> : <><i className="fas fa-route mr-2"></i>Trace</>}
+          </button>
+        </form>
+
+        <div ref={canvasRef} className="h-56 shrink-0 border-b border-white/5">
+          {trace && trace.hops.length > 0 ? (
+            <ClassDiagramCanvas
+              nodes={diagram.nodes}
+              links={diagram.links}
+              onNodeClick={focusHop}
+              width={canvasSize.width}
+              height={canvasSize.height}
+              fitToView
+            />
+          ) : (
+            <div className="h-full flex items-center justify-center text-[11px] text-slate-600">
+              {isTracing ? 'Tracing…' : trace ? 'No flow path between these symbols.' : 'Pick where the data starts and where it ends up.'}
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 min-h-0 flex">
+          <div className="flex-1 min-w-0 overflow-y-auto">
+            {error != null ? (
+              <div className="p-4"><ErrorMessage error={error} onRetry={() => traceFlow(from.trim(), to.trim())} /></div>
+            ) : trace && (
+              <ol>
+                {trace.hops.map((hop, i) => (
+                  <li
+                    key={`${hop.source}>${hop.target}`}
+                    id={`flow-hop-${hop.source}`}
+                    className={`px-6 py-3 border-b border-white/5 ${focusedId === hop.source ? 'bg-[var(--accent-teal)]/5' : ''}`}
+                  >
+                    <div className="flex items-center gap-2 text-[10px] mb-1.5 min-w-0">
+                      <span className="text-slate-600 font-bold">{i + 1}</span>
+                      <button onClick={() => onOpenSymbol(hop.source, shortName(hop.source))} className="font-mono text-slate-200 hover:text-[var(--accent-teal)] truncate" title={hop.source}>
+                        {shortName(hop.source)}
+                      </button>
+                      <span className="text-slate-600">→</span>
+                      <button onClick={() => onOpenSymbol(hop.target, shortName(hop.target))} className="font-mono text-slate-200 hover:text-[var(--accent-teal)] truncate" title={hop.target}>
+                        {shortName(hop.target)}
+                      </button>
+                      {hop.snippet?.line !== undefined && <span className="ml-auto shrink-0 text-slate-500">L{hop.snippet.line}</span>}
+                    </div>
+                    {hop.snippet === undefined ? (
+                      <div className="text-[10px] text-slate-600"><i className="fas fa-circle-notch fa-spin mr-1.5"></i>Loading source…</div>
+                    ) : hop.snippet === null ? (
+                      <div className="text-[10px] text-slate-600">Source unavailable</div>
+                    ) : (
+                      <>
+                        {!hop.snippet.atCallSite && <div className="text-[9px] text-amber-400 mb-1">Call site not found; showing the start of {shortName(hop.source)}</div>}
+                        <pre className="bg-[var(--bg-main)] border border-white/5 rounded px-3 py-2 text-[10px] leading-relaxed text-slate-300 font-mono overflow-x-auto">{hop.snippet.text}</pre>
+                      </>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+
+          <aside className="w-[380px] shrink-0 border-l border-white/5 flex flex-col">
+            <div className="px-4 py-2 border-b border-white/5 flex items-center gap-2">
+              <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">Narrative</span>
+              <button
+                onClick={narrate}
+                disabled={!trace || trace.hops.length === 0 || isNarrating}
+                className="ml-auto px-2 py-1 rounded bg-[var(--accent-teal)]/15 text-[var(--accent-teal)] text-[10px] font-bold uppercase tracking-wider disabled:opacity-40"
+              >
+                {isNarrating ? <i className="fas fa-circle-notch fa-spin"></i> : <><i className="fas fa-wand-magic-sparkles mr-1.5"></i>Narrate this path</>}
+              </button>
+            </div>
+            <div className="flex-1 overflow-y-auto p-4 text-[12px]">
+              {narrativeError != null ? (
+                <ErrorMessage error={narrativeError} onRetry={narrate} />
+              ) : narrative ? (
+                <MarkdownRenderer content={narrative} onSymbolClick={symbol => onOpenSymbol(symbol, shortName(symbol))} />
+              ) : (
+                <p className="text-[11px] text-slate-600">
+                  {trace && trace.hops.length > 0 ? 'Ask the AI to explain this path step by step.' : 'Trace a path first.'}
+                </p>
+              )}
+            </div>
+          </aside>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FlowTracerModal;
@@ -0,0 +1 @@
+export { default as FlowTracerModal } from './FlowTracerModal';
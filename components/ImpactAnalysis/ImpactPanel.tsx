@@ -0,0 +1,224 @@
+/**
+ * ImpactPanel — Blast radius of changing one symbol: its transitive callers
+ * rolled up into files, packages, entry points, test files and the OKF
+ * concepts bridged to them. The report can be exported as JSON or CSV.
+ */
+import React, { useMemo, useState } from 'react';
+import { DEFAULT_IMPACT_DEPTH, useImpactAnalysis } from '../../hooks/useImpactAnalysis';
+import { manifestSymbolIds, ManifestData } from '../../hooks/useManifest';
+import { downloadJson, downloadText, toFileSlug } from '../../utils/fileTransfer';
+import { ImpactedSymbol, impactToCsv } from '../../utils/impact';
+import { ErrorMessage, SymbolPicker } from '../common';
+
+interface ImpactPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  manifest: ManifestData | null;
+  /** Prefills the symbol, e.g. with the current selection */
+  initialSymbol?: string;
+  onOpenSymbol: (id: string, name: string) => void;
+  onOpenFile: (path: string) => void;
+}
+
+type ImpactTab = 'symbols' | 'files' | 'packages' | 'entryPoints' | 'testFiles' | 'concepts';
+
+const TABS: Array<{ id: ImpactTab; label: string; icon: string }> = [
+  { id: 'symbols', label: 'Callers', icon: 'code' },
+  { id: 'files', label: 'Files', icon: 'file-code' },
+  { id: 'packages', label: 'Packages', icon: 'box' },
+  { id: 'entryPoints', label: 'Entry points', icon: 'door-open' },
+  { id: 'testFiles', label: 'Tests', icon: 'flask' },
+  { id: 'concepts', label: 'Concepts', icon: 'lightbulb' },
+];
+
+const DEPTHS = [1, 2, 3, 5, 8];
+
+const rowClass = 'w-full text-left px-6 py-1.5 border-b border-white/5 hover:bg-white/5 flex items-center gap-3 text-[11px]';
+
+const Distance: React.FC<{ value: number }> = ({ value }) => (
+  <span className="shrink-0 w-10 text-[9px] text-slate-500" title={`${value} call${value === 1 ? '' : 's'} away`}>
+    {value} hop{value === 1 ? '' : 's'}
+  </span>
+);
+
+export const ImpactPanel: React.FC<ImpactPanelProps> = ({ isOpen, onClose, manifest, initialSymbol, onOpenSymbol, onOpenFile }) => {
+  const { report, stage, isLoading, error, analyze } = useImpactAnalysis();
+  const [symbol, setSymbol] = useState(initialSymbol ?? '');
+  const [depth, setDepth] = useState(DEFAULT_IMPACT_DEPTH);
+  const [tab, setTab] = useState<ImpactTab>('symbols');
+
+  const symbols = useMemo(() => manifestSymbolIds(manifest), [manifest]);
+
+  if (!isOpen) return null;
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (symbol.trim() && !isLoading) analyze(symbol.trim(), depth);
+  };
+
+  const exportName = report ? `impact-${toFileSlug(report.target)}-depth${report.depth}` : '';
+
+  const symbolRow = (s: ImpactedSymbol) => (
+    <li key={s.id}>
+      <button onClick={() => onOpenSymbol(s.id, s.name)} className={rowClass} title={s.id}>
+        <Distance value={s.distance} />
+        <span className="font-mono text-slate-200 truncate">{s.name}</span>
+        <span className="text-[10px] text-slate-600 truncate">{s.filePath}</span>
+        <span className="ml-auto flex gap-1 shrink-0 text-[9px] uppercase font-bold">
+          {s.isEntry && <span className="text-amber-400">entry</span>}
+          {s.isTest && <span className="text-[#22c55e]">test</span>}
+        </span>
+      </button>
+    </li>
+  );
+
+  const renderTab = () => {
+    if (!report) return null;
+    switch (tab) {
+      case 'symbols':
+        return report.symbols.map(symbolRow);
+      case 'entryPoints':
+        return report.entryPoints.map(symbolRow);
+      case 'files':
+      case 'testFiles':
+        return report[tab].map(file => (
+          <li key={file.path}>
+            <button onClick={() => onOpenFile(file.path)} className={rowClass} title={file.path}>
+              <Distance value={file.distance} />
+              <span className="font-mono text-slate-200 truncate">{file.path}</span>
+              <span className="ml-auto shrink-0 text-[10px] text-slate-500">{file.symbols} caller{file.symbols === 1 ? '' : 's'}</span>
+            </button>
+          </li>
+        ));
+      case 'packages':
+        return report.packages.map(pkg => (
+          <li key={pkg.name} className={rowClass}>
+            <span className="font-mono text-slate-200 truncate">{pkg.name}</span>
+            <span className="ml-auto shrink-0 text-[10px] text-slate-500">
+              {pkg.files} file{pkg.files === 1 ? '' : 's'} · {pkg.symbols} caller{pkg.symbols === 1 ? '' : 's'}
+            </span>
+          </li>
+        ));
+      case 'concepts':
+        return report.concepts.map(concept => (
+          <li key={concept.id} className="px-6 py-2 border-b border-white/5 text-[11px]">
+            <div className="flex items-center gap-2">
+              <i className="fas fa-gem text-[9px] text-[#2ca02c]"></i>
+              <span className="text-slate-200 truncate" title={concept.id}>{concept.title}</span>
+            </div>
+            <div className="mt-1 flex flex-wrap gap-1">
+              {concept.symbols.map(id => (
+                <button
+                  key={id}
+                  onClick={() => onOpenSymbol(id, id.split(/[:/]/).pop() || id)}
+                  className="px-1.5 py-0.5 rounded bg-white/5 font-mono text-[9px] text-slate-400 hover:text-white"
+                  title={id}
+                >
+                  {id.split(/[:/]/).pop()}
+                </button>
+              ))}
+            </div>
+          </li>
+        ));
+    }
+  };
+
+  const items = report ? report[tab].length : 0;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-[#000]/80 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="bg-[var(--bg-surface)] border border-white/10 rounded-lg shadow-2xl w-full max-w-4xl h-[80vh] flex flex-col overflow-hidden"
+        onClick={e => e.stopPropagation()}
+        onKeyDown={e => e.key === 'Escape' && onClose()}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Impact analysis"
+      >
+        <div className="px-6 py-4 border-b border-white/5 flex items-center justify-between">
+          <h3 className="text-sm font-black uppercase tracking-widest text-white">
+            <i className="fas fa-burst mr-2 text-[var(--accent-teal)]"></i>
+            Impact Analysis
+          </h3>
+          <button onClick={onClose} aria-label="Close" className="text-slate-500 hover:text-white transition-colors bg-transparent border-none p-1">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        <form onSubmit={submit} className="px-6 py-3 border-b border-white/5 flex items-end gap-3">
+          <div className="flex-1 min-w-0">
+            <SymbolPicker label="Symbol to change" value={symbol} onChange={setSymbol} symbols={symbols} autoFocus />
+          </div>
+          <label className="flex flex-col gap-1 text-[9px] font-black uppercase tracking-widest text-slate-500">
+            Caller depth
+            <select
+              value={depth}
+              onChange={e => setDepth(Number(e.target.value))}
+              className="bg-[var(--bg-main)] border border-white/10 rounded px-1.5 py-1.5 text-[10px] text-white normal-case font-normal tracking-normal"
+            >
+              {DEPTHS.map(d => <option key={d} value={d}>{d}</option>)}
+            </select>
+          </label>
+          <button
+            type="submit"
+            disabled={!symbol.trim() || isLoading}
+            className="px-3 py-1.5 rounded bg-[var(--accent-teal)]/20 text-[var(--accent-teal)] text-[11px] font-bold uppercase tracking-wider hover:bg-[var(--accent-teal)]/30 disabled:opacity-40"
+          >
+            {isLoading ? <i className="fas fa-circle-notch fa-spin"></i> : <><i className="fas fa-burst mr-2"></i>Analyze</>}
+          </button>
+        </form>
+
+        {report && (
+          <div className="px-6 py-2 border-b border-white/5 flex items-center gap-1 flex-wrap">
+            {TABS.map(t => {
+              const count = report[t.id].length;
+              return (
+                <button
+                  key={t.id}
+                  onClick={() => setTab(t.id)}
+                  aria-pressed={tab === t.id}
+                  className={`px-2.5 py-1 rounded text-[10px] font-bold ${tab === t.id ? 'bg-[var(--accent-teal)]/20 text-[var(--accent-teal)]' : 'text-slate-500 hover:text-white'}`}
+                >
+                  <i className={`fas fa-${t.icon} mr-1.5`}></i>{t.label} <span className="opacity-70">{count}</span>
+                  {t.id === 'entryPoints' && stage === 'entryPoints' && <i className="fas fa-circle-notch fa-spin ml-1.5"></i>}
+                </button>
+              );
+            })}
+            <div className="ml-auto flex gap-1">
+              <button
+                onClick={() => downloadJson(`${exportName}.json`, report)}
+                className="px-2 py-1 rounded border border-white/10 text-[10px] text-slate-400 hover:text-white"
+              >
+                <i className="fas fa-download mr-1.5"></i>JSON
+              </button>
+              <button
+                onClick={() => downloadText(`${exportName}.csv`, impactToCsv(report), 'text/csv')}
+                className="px-2 py-1 rounded border border-white/10 text-[10px] text-slate-400 hover:text-white"
+              >
+                <i className="fas fa-download mr-1.5"></i>CSV
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto">
+          {error != null ? (
+            <div className="p-4"><ErrorMessage error={error} onRetry={() => analyze(symbol.trim(), depth)} /></div>
+          ) : !report ? (
+            <div className="p-6 text-center text-[11px] text-slate-600">
+              {stage === 'callers' ? 'Walking callers…' : 'Pick a symbol to see everything that depends on it.'}
+            </div>
+          ) : items === 0 ? (
+            <div className="p-6 text-center text-[11px] text-slate-600">
+              {report.symbols.length === 0 ? `Nothing calls ${report.target} within ${report.depth} hops.` : 'None in this blast radius.'}
+            </div>
+          ) : (
+            <ul>{renderTab()}</ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImpactPanel;
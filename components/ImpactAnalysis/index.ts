@@ -0,0 +1 @@
+export { default as ImpactPanel } from './ImpactPanel';
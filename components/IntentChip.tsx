@@ -0,0 +1,110 @@
+import React, { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { INTENT_COLORS } from '../constants';
+import { downloadJson } from '../utils/fileTransfer';
+import { intentOverrideLog } from '../utils/intentOverrides';
+import { INTENT_ROUTES, IntentPreview, IntentRoute } from '../utils/queryClassifier';
+
+interface IntentChipProps {
+  preview: IntentPreview;
+  override: IntentRoute | null;
+  isClassifying: boolean;
+  onOverride: (route: IntentRoute | null) => void;
+}
+
+const subscribe = (onChange: () => void) => intentOverrideLog.subscribe(onChange);
+
+const ROUTE_HINTS: Record<IntentRoute, string> = {
+  explain: 'Answer in the narrative chat',
+  explore: 'Load callers/callees into the graph',
+  navigate: 'Jump to a file or symbol',
+  test: 'Generate tests',
+  security: 'Run a security audit',
+  refactor: 'Suggest refactorings',
+  performance: 'Look for performance issues',
+};
+
+const colorsFor = (route: IntentRoute) => INTENT_COLORS[route === 'test' ? 'test_generation' : route === 'security' ? 'security_audit' : route] ?? INTENT_COLORS.chat!;
+
+/**
+ * Shows where the search bar will route the current query and lets the user
+ * pick a different route before submitting. Overrides are logged for review.
+ */
+const IntentChip: React.FC<IntentChipProps> = ({ preview, override, isClassifying, onOverride }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+  const overrides = useSyncExternalStore(subscribe, () => intentOverrideLog.getEntries());
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const route = override ?? preview.route;
+  const colors = colorsFor(route);
+  const detail = override
+    ? `Overridden (detected: ${preview.route})`
+    : preview.source === 'classifier'
+      ? `Classifier: ${preview.classifierIntent} (${Math.round((preview.confidence ?? 0) * 100)}%)${preview.regexRoute !== preview.route ? `, keywords said ${preview.regexRoute}` : ''}`
+      : 'Detected from keywords';
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        title={detail}
+        aria-label={`Route as ${route}. Change intent`}
+        aria-expanded={isOpen}
+        className={`flex items-center gap-1.5 px-2 py-1 rounded-full text-[9px] font-black uppercase tracking-wider ${colors.bg} ${colors.text} ${override ? 'ring-1 ring-current' : ''}`}
+      >
+        {isClassifying ? <i className="fas fa-circle-notch fa-spin"></i> : <i className={`fas ${override ? 'fa-hand-pointer' : preview.source === 'classifier' ? 'fa-robot' : 'fa-wand-magic-sparkles'}`}></i>}
+        {colors.label}
+        <i className="fas fa-caret-down opacity-60"></i>
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full right-0 mb-2 w-72 rounded-lg border border-white/10 bg-[var(--bg-surface)] shadow-2xl z-30 py-1" role="menu">
+          <div className="px-3 py-1.5 text-[9px] text-slate-500">{detail}</div>
+          {INTENT_ROUTES.map(r => {
+            const c = colorsFor(r);
+            return (
+              <button
+                key={r}
+                role="menuitemradio"
+                aria-checked={r === route}
+                onClick={() => {
+                  onOverride(r === preview.route ? null : r);
+                  setIsOpen(false);
+                }}
+                className={`w-full flex items-center gap-2 px-3 py-1.5 text-left hover:bg-white/5 ${r === route ? 'bg-white/5' : ''}`}
+              >
+                <span className={`px-1.5 rounded text-[9px] font-black uppercase ${c.bg} ${c.text}`}>{c.label}</span>
+                <span className="text-[10px] text-slate-400 truncate">{ROUTE_HINTS[r]}</span>
+                {r === preview.route && <span className="ml-auto text-[8px] uppercase text-slate-600">auto</span>}
+              </button>
+            );
+          })}
+          <div className="flex items-center gap-2 px-3 pt-2 mt-1 border-t border-white/5 text-[9px] text-slate-500">
+            <span>{overrides.length} override{overrides.length === 1 ? '' : 's'} recorded</span>
+            <button
+              onClick={() => downloadJson(`gca-intent-overrides-${new Date().toISOString().slice(0, 10)}.json`, overrides)}
+              disabled={overrides.length === 0}
+              className="ml-auto hover:text-white disabled:opacity-30"
+            >
+              Export
+            </button>
+            <button onClick={() => intentOverrideLog.clear()} disabled={overrides.length === 0} className="hover:text-white disabled:opacity-30">
+              Clear
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IntentChip;
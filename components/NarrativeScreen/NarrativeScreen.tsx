@@ -4,6 +4,7 @@ import { useNarrativeContext, NarrativeMessage } from '../../context/NarrativeCo
 import { useGraphContext } from '../../context/GraphContext';
 import { useSettingsContext } from '../../context/SettingsContext';
 import UnifiedSearchBar from '../UnifiedSearchBar';
+import { savedQueryStore } from '../../utils/savedQueries';
 import MarkdownRenderer from '../Synthesis/MarkdownRenderer';
 import { useContextualSuggestions } from '../../hooks/useContextualSuggestions';
 import { useQueryContext } from '../../hooks/useQueryContext';
@@ -161,6 +162,7 @@ const NarrativeScreen: React.FC<NarrativeScreenProps> = ({
 
     const submitNarrativeQuery = useCallback(async (query: string) => {
         if (!query.trim() || isLoadingRef.current || !dataApiBase || !selectedProjectId) return;
+        savedQueryStore.recordRun(selectedProjectId, query);
 
         if (isIntrospectionQuery(query) && !isValidIntrospectionQuery(query)) {
             const userMsg: NarrativeMessage = {
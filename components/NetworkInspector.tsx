@@ -0,0 +1,212 @@
+import React, { useMemo, useState } from 'react';
+import { useNetworkLog } from '../hooks/useNetworkLog';
+import { useToast } from '../context/ToastContext';
+import { NetworkEntry, NetworkEntryState, toCurl } from '../utils/networkLog';
+
+interface NetworkInspectorProps {
+  onClose: () => void;
+}
+
+type StateFilter = 'all' | Exclude<NetworkEntryState, 'success'>;
+
+const STATE_FILTERS: Array<{ value: StateFilter; label: string }> = [
+  { value: 'all', label: 'All' },
+  { value: 'error', label: 'Failed' },
+  { value: 'cancelled', label: 'Cancelled' },
+  { value: 'pending', label: 'Pending' },
+];
+
+const STATE_COLORS: Record<NetworkEntryState, string> = {
+  pending: 'text-slate-400',
+  success: 'text-emerald-400',
+  error: 'text-red-400',
+  cancelled: 'text-amber-400',
+};
+
+const formatBytes = (bytes?: number): string => {
+  if (bytes === undefined) return '—';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+const formatDuration = (ms?: number): string => {
+  if (ms === undefined) return '…';
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(2)} s`;
+};
+
+const formatParams = (params: Record<string, string>): string =>
+  Object.entries(params).map(([k, v]) => `${k}=${v}`).join(' ');
+
+const statusLabel = (entry: NetworkEntry): string => {
+  if (entry.state === 'cancelled') return 'CANCELLED';
+  if (entry.status !== undefined) return String(entry.status);
+  return entry.state === 'error' ? 'FAILED' : 'PENDING';
+};
+
+function matchesFilter(entry: NetworkEntry, text: string, state: StateFilter): boolean {
+  if (state !== 'all' && entry.state !== state) return false;
+  if (!text) return true;
+  const haystack = [
+    entry.method,
+    entry.endpoint,
+    formatParams(entry.params),
+    statusLabel(entry),
+    entry.error ?? '',
+    entry.cancelReason ?? '',
+  ].join(' ').toLowerCase();
+  return haystack.includes(text.toLowerCase());
+}
+
+/**
+ * Bottom panel listing recent backend requests from the network log, with
+ * filtering, per-request details and "copy as curl".
+ */
+export const NetworkInspector: React.FC<NetworkInspectorProps> = ({ onClose }) => {
+  const { entries, clear } = useNetworkLog();
+  const toast = useToast();
+  const [filterText, setFilterText] = useState('');
+  const [stateFilter, setStateFilter] = useState<StateFilter>('all');
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const visible = useMemo(
+    () => entries.filter(e => matchesFilter(e, filterText.trim(), stateFilter)).reverse(),
+    [entries, filterText, stateFilter]
+  );
+  const selected = entries.find(e => e.id === selectedId) ?? null;
+
+  const copyAsCurl = async (entry: NetworkEntry) => {
+    try {
+      await navigator.clipboard.writeText(toCurl(entry));
+      toast.success('Copied curl command');
+    } catch {
+      toast.error('Clipboard is not available');
+    }
+  };
+
+  return (
+    <section
+      aria-label="Network inspector"
+      className="h-72 shrink-0 flex flex-col border-t border-white/10 bg-[var(--bg-main)] text-[11px] font-mono"
+    >
+      <header className="flex items-center gap-3 px-4 py-2 border-b border-white/5">
+        <span className="text-slate-300 font-bold tracking-widest uppercase text-[10px]">
+          <i className="fas fa-network-wired mr-2 text-[var(--accent-teal)]"></i>
+          Network ({entries.length})
+        </span>
+        <input
+          type="search"
+          value={filterText}
+          onChange={e => setFilterText(e.target.value)}
+          placeholder="Filter by endpoint, params, status…"
+          className="flex-1 max-w-sm bg-black/30 border border-white/10 rounded px-2 py-1 text-slate-300 placeholder:text-slate-600 focus:outline-none focus:border-[var(--accent-teal)]"
+        />
+        <div className="flex gap-1">
+          {STATE_FILTERS.map(f => (
+            <button
+              key={f.value}
+              onClick={() => setStateFilter(f.value)}
+              className={`px-2 py-1 rounded ${stateFilter === f.value ? 'bg-white/10 text-slate-200' : 'text-slate-500 hover:text-slate-300'}`}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+        <button onClick={clear} className="ml-auto text-slate-500 hover:text-slate-300" title="Clear log">
+          <i className="fas fa-ban"></i>
+        </button>
+        <button onClick={onClose} className="text-slate-500 hover:text-slate-300" title="Close inspector">
+          <i className="fas fa-times"></i>
+        </button>
+      </header>
+
+      <div className="flex-1 flex min-h-0">
+        <div className="flex-1 overflow-y-auto">
+          <table className="w-full text-left">
+            <thead className="sticky top-0 bg-[var(--bg-main)] text-slate-600 uppercase text-[9px] tracking-widest">
+              <tr>
+                <th className="px-3 py-1 font-normal">Method</th>
+                <th className="px-3 py-1 font-normal">Endpoint</th>
+                <th className="px-3 py-1 font-normal">Params</th>
+                <th className="px-3 py-1 font-normal">Status</th>
+                <th className="px-3 py-1 font-normal text-right">Time</th>
+                <th className="px-3 py-1 font-normal text-right">Sent</th>
+                <th className="px-3 py-1 font-normal text-right">Received</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(entry => (
+                <tr
+                  key={entry.id}
+                  onClick={() => setSelectedId(entry.id)}
+                  className={`cursor-pointer border-t border-white/5 hover:bg-white/5 ${entry.id === selectedId ? 'bg-white/10' : ''}`}
+                >
+                  <td className="px-3 py-1 text-slate-400">{entry.method}</td>
+                  <td className="px-3 py-1 text-slate-200 truncate max-w-[240px]">
+                    {entry.endpoint}
+                    {entry.streaming && <span className="ml-2 text-[9px] text-purple-400">SSE</span>}
+                  </td>
+                  <td className="px-3 py-1 text-slate-500 truncate max-w-[200px]">{formatParams(entry.params)}</td>
+                  <td className={`px-3 py-1 ${STATE_COLORS[entry.state]}`} title={entry.cancelReason ?? entry.error}>
+                    {statusLabel(entry)}
+                  </td>
+                  <td className="px-3 py-1 text-right text-slate-400">{formatDuration(entry.durationMs)}</td>
+                  <td className="px-3 py-1 text-right text-slate-500">{formatBytes(entry.requestBytes)}</td>
+                  <td className="px-3 py-1 text-right text-slate-500">{formatBytes(entry.responseBytes)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {visible.length === 0 && (
+            <div className="p-6 text-center text-slate-600">
+              {entries.length === 0 ? 'No requests recorded yet' : 'No requests match the filter'}
+            </div>
+          )}
+        </div>
+
+        {selected && (
+          <aside className="w-96 shrink-0 border-l border-white/5 overflow-y-auto p-3 space-y-3">
+            <div className="flex items-center justify-between">
+              <span className={`font-bold ${STATE_COLORS[selected.state]}`}>
+                {selected.method} {statusLabel(selected)}
+              </span>
+              <button
+                onClick={() => copyAsCurl(selected)}
+                className="px-2 py-1 rounded bg-white/5 text-slate-300 hover:bg-white/10"
+              >
+                <i className="fas fa-terminal mr-1"></i> Copy as curl
+              </button>
+            </div>
+            <div className="text-slate-300 break-all">{selected.url}</div>
+            <div className="text-slate-500">
+              Started {new Date(selected.startedAt).toLocaleTimeString()} · {formatDuration(selected.durationMs)}
+            </div>
+            {selected.cancelReason && (
+              <div className="text-amber-400">Cancelled: {selected.cancelReason}</div>
+            )}
+            {selected.error && <div className="text-red-400 break-words">{selected.error}</div>}
+            {Object.keys(selected.requestHeaders).length > 0 && (
+              <div>
+                <div className="text-slate-600 uppercase text-[9px] tracking-widest mb-1">Headers</div>
+                {Object.entries(selected.requestHeaders).map(([name, value]) => (
+                  <div key={name} className="text-slate-400 break-all">{name}: {value}</div>
+                ))}
+                {selected.auth !== 'none' && (
+                  <div className="text-slate-600 italic">+ {selected.auth} credentials (not recorded)</div>
+                )}
+              </div>
+            )}
+            {selected.requestBody && (
+              <div>
+                <div className="text-slate-600 uppercase text-[9px] tracking-widest mb-1">Body</div>
+                <pre className="whitespace-pre-wrap break-all text-slate-400 bg-black/30 rounded p-2">{selected.requestBody}</pre>
+              </div>
+            )}
+          </aside>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default NetworkInspector;
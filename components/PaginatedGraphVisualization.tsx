@@ -209,9 +209,9 @@ export const PaginatedGraphVisualization: React.FC<PaginatedGraphVisualizationPr
       />
 
       {/* Error message */}
-      {error && (
+      {error != null && (
         <ErrorMessage
-          message={error}
+          error={error}
           onRetry={() => {
             reset();
             loadMore();
@@ -0,0 +1,171 @@
+/**
+ * QueryBuilderModal — Point-and-click Datalog for people who don't write it.
+ * Clauses are built from fetched predicates and manifest symbols; the generated
+ * query is shown live and can be run here or sent to the query console.
+ */
+import React, { useEffect, useMemo, useState } from 'react';
+import { useSettingsContext } from '../../context/SettingsContext';
+import { manifestSymbolIds, ManifestData } from '../../hooks/useManifest';
+import { executeQuery, QueryResponse } from '../../services/graphService';
+import {
+  BuilderClause,
+  BuilderTerm,
+  ClausePosition,
+  buildDatalog,
+  builderVariables,
+  createClause,
+  validateClauses,
+} from '../../utils/datalogBuilder';
+import { extractVariables } from '../../utils/datalog';
+import { requestManager } from '../../utils/requestManager';
+import { ErrorMessage } from '../common';
+import QueryResultsView from '../QueryConsole/QueryResultsView';
+import TermInput from './TermInput';
+
+interface QueryBuilderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  manifest: ManifestData | null;
+  onSendToConsole: (query: string) => void;
+  onNodeSelect: (node: any, isNavigation?: boolean) => void;
+}
+
+const REQUEST_ID = 'queryBuilder';
+
+export const QueryBuilderModal: React.FC<QueryBuilderModalProps> = ({ isOpen, onClose, manifest, onSendToConsole, onNodeSelect }) => {
+  const { dataApiBase, selectedProjectId, availablePredicates } = useSettingsContext();
+  const [clauses, setClauses] = useState<BuilderClause[]>([]);
+  const [running, setRunning] = useState(false);
+  const [response, setResponse] = useState<QueryResponse | null>(null);
+  const [error, setError] = useState<unknown>(null);
+
+  useEffect(() => {
+    if (isOpen && clauses.length === 0) setClauses([createClause([], availablePredicates[0] ?? '')]);
+  }, [isOpen, clauses.length, availablePredicates]);
+
+  useEffect(() => () => requestManager.cancelRequest(REQUEST_ID, 'query builder closed'), []);
+
+  const symbols = useMemo(() => manifestSymbolIds(manifest, true), [manifest]);
+
+  const query = useMemo(() => buildDatalog(clauses), [clauses]);
+  const issues = useMemo(() => validateClauses(clauses), [clauses]);
+  const variables = useMemo(() => builderVariables(clauses), [clauses]);
+
+  if (!isOpen) return null;
+
+  const updateClause = (id: string, patch: Partial<BuilderClause>) => {
+    setClauses(prev => prev.map(c => (c.id === id ? { ...c, ...patch } : c)));
+  };
+  const setTerm = (id: string, position: ClausePosition, term: BuilderTerm) => updateClause(id, { [position]: term });
+  const addClause = (joinFrom?: BuilderClause) => {
+    setClauses(prev => [...prev, createClause(prev, availablePredicates[0] ?? '', joinFrom)]);
+  };
+  const removeClause = (id: string) => setClauses(prev => prev.filter(c => c.id !== id));
+
+  const run = async () => {
+    if (!dataApiBase || !selectedProjectId) return;
+    const controller = requestManager.startRequest(REQUEST_ID);
+    setRunning(true);
+    setError(null);
+    try {
+      const result = await executeQuery(dataApiBase, selectedProjectId, query, true, controller.signal, true);
+      if (!controller.signal.aborted) setResponse(result);
+    } catch (err) {
+      if (!controller.signal.aborted) setError(err);
+    } finally {
+      if (!controller.signal.aborted) setRunning(false);
+    }
+  };
+
+  const canRun = issues.length === 0 && !!selectedProjectId;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-[#000]/80 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="bg-[var(--bg-surface)] border border-white/10 rounded-lg shadow-2xl w-full max-w-5xl h-[85vh] flex flex-col overflow-hidden"
+        onClick={e => e.stopPropagation()}
+        onKeyDown={e => e.key === 'Escape' && onClose()}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Query Builder"
+      >
+        <div className="px-6 py-4 border-b border-white/5 flex items-center justify-between">
+          <h3 className="text-sm font-black uppercase tracking-widest text-white">
+            <i className="fas fa-diagram-project mr-2 text-[var(--accent-teal)]"></i>
+            Query Builder
+          </h3>
+          <button onClick={onClose} aria-label="Close" className="text-slate-500 hover:text-white transition-colors bg-transparent border-none p-1">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 flex">
+          <div className="flex-1 min-w-0 overflow-y-auto p-6 space-y-3">
+            {clauses.map((clause, i) => (
+              <div key={clause.id} className={`p-3 rounded border ${clause.negated ? 'border-red-500/30 bg-red-500/5' : 'border-white/10 bg-[var(--bg-main)]/40'}`}>
+                <div className="flex items-center gap-3 mb-2 text-[10px]">
+                  <span className="font-black uppercase tracking-widest text-slate-400">Clause {i + 1}</span>
+                  <label className="flex items-center gap-1.5 text-slate-400 cursor-pointer">
+                    <input type="checkbox" checked={clause.negated} onChange={e => updateClause(clause.id, { negated: e.target.checked })} />
+                    Exclude matches (not)
+                  </label>
+                  <button onClick={() => addClause(clause)} className="ml-auto text-slate-500 hover:text-[var(--accent-teal)]" title="Add a clause starting from this clause's object">
+                    <i className="fas fa-link mr-1"></i>Join
+                  </button>
+                  <button onClick={() => removeClause(clause.id)} className="text-slate-500 hover:text-red-400" aria-label={`Remove clause ${i + 1}`}>
+                    <i className="fas fa-trash"></i>
+                  </button>
+                </div>
+                <div className="flex gap-3">
+                  <TermInput label="Subject" term={clause.subject} onChange={t => setTerm(clause.id, 'subject', t)} variables={variables} literals={symbols} />
+                  <TermInput label="Predicate" term={clause.predicate} onChange={t => setTerm(clause.id, 'predicate', t)} variables={variables} literals={availablePredicates} selectLiterals />
+                  <TermInput label="Object" term={clause.object} onChange={t => setTerm(clause.id, 'object', t)} variables={variables} literals={symbols} />
+                </div>
+              </div>
+            ))}
+            <button onClick={() => addClause()} className="w-full py-2 rounded border border-dashed border-white/10 text-[11px] text-slate-500 hover:text-white hover:border-white/30">
+              <i className="fas fa-plus mr-2"></i>Add clause
+            </button>
+          </div>
+
+          <div className="w-[360px] shrink-0 border-l border-white/5 flex flex-col min-h-0">
+            <div className="p-4 border-b border-white/5">
+              <label className="block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2">Generated Datalog</label>
+              <pre className="p-3 rounded bg-[#0a0e14] border border-white/10 text-[11px] font-mono text-slate-300 whitespace-pre-wrap break-all max-h-48 overflow-y-auto">{query || '—'}</pre>
+              {issues.length > 0 && (
+                <ul className="mt-2 space-y-1 text-[10px] text-amber-400">
+                  {issues.map(issue => <li key={issue}><i className="fas fa-triangle-exclamation mr-1.5"></i>{issue}</li>)}
+                </ul>
+              )}
+              <div className="flex gap-2 mt-3">
+                <button
+                  onClick={run}
+                  disabled={!canRun || running}
+                  className="flex-1 px-3 py-1.5 rounded bg-[var(--accent-teal)]/20 text-[var(--accent-teal)] text-[11px] font-bold uppercase tracking-wider hover:bg-[var(--accent-teal)]/30 disabled:opacity-40"
+                >
+                  <i className={`fas ${running ? 'fa-circle-notch fa-spin' : 'fa-play'} mr-2`}></i>Run
+                </button>
+                <button
+                  onClick={() => onSendToConsole(query)}
+                  disabled={!query}
+                  className="flex-1 px-3 py-1.5 rounded border border-white/10 text-slate-300 text-[11px] font-bold uppercase tracking-wider hover:text-white hover:border-white/30 disabled:opacity-40"
+                >
+                  <i className="fas fa-terminal mr-2"></i>Open in console
+                </button>
+              </div>
+            </div>
+            {error != null ? (
+              <div className="p-4"><ErrorMessage error={error} onRetry={run} /></div>
+            ) : response ? (
+              <QueryResultsView response={response} variables={extractVariables(query)} onNodeSelect={onNodeSelect} />
+            ) : (
+              <div className="flex-1 flex items-center justify-center text-[11px] text-slate-600">Run the query to preview results</div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QueryBuilderModal;
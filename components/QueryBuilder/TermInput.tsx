@@ -0,0 +1,108 @@
+import React, { useId, useMemo, useState } from 'react';
+import type { BuilderTerm } from '../../utils/datalogBuilder';
+import { rankMatches } from '../../utils/fuzzyMatch';
+
+interface TermInputProps {
+  label: string;
+  term: BuilderTerm;
+  onChange: (term: BuilderTerm) => void;
+  /** Variables already used in the query, offered for joins */
+  variables: string[];
+  /** Literal values to pick from: manifest symbols/files, or predicates */
+  literals: string[];
+  /** Render literals as a plain select instead of a searchable input */
+  selectLiterals?: boolean;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+const inputClass = 'w-full bg-[var(--bg-main)] border border-white/10 rounded px-2 py-1.5 text-[11px] text-white font-mono focus:outline-none focus:border-[var(--accent-teal)]/50';
+
+/**
+ * One term of a clause: a variable (typed or picked from those in use) or a
+ * literal (searched in `literals`).
+ */
+const TermInput: React.FC<TermInputProps> = ({ label, term, onChange, variables, literals, selectLiterals }) => {
+  const [focused, setFocused] = useState(false);
+  const listId = useId();
+
+  const suggestions = useMemo(() => {
+    if (term.kind !== 'literal' || selectLiterals || !focused || !term.value.trim()) return [];
+    return rankMatches(term.value, literals, s => s, MAX_SUGGESTIONS).map(r => r.item);
+  }, [term, literals, selectLiterals, focused]);
+
+  return (
+    <div className="flex-1 min-w-0">
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">{label}</span>
+        <div className="flex rounded border border-white/10 overflow-hidden text-[9px] font-bold uppercase">
+          {(['variable', 'literal'] as const).map(kind => (
+            <button
+              key={kind}
+              type="button"
+              onClick={() => kind !== term.kind && onChange(kind === 'variable' ? { kind, name: variables[0] ?? '' } : { kind, value: selectLiterals ? literals[0] ?? '' : '' })}
+              className={`px-1.5 py-0.5 ${term.kind === kind ? 'bg-white/10 text-white' : 'text-slate-600 hover:text-slate-300'}`}
+            >
+              {kind === 'variable' ? '?var' : 'value'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {term.kind === 'variable' ? (
+        <div className="flex items-center gap-1">
+          <span className="text-amber-300 font-mono text-[11px]">?</span>
+          <input
+            value={term.name}
+            onChange={e => onChange({ kind: 'variable', name: e.target.value.replace(/[^\w]/g, '') })}
+            list={listId}
+            placeholder="Name"
+            aria-label={`${label} variable`}
+            className={`${inputClass} text-amber-300`}
+          />
+          <datalist id={listId}>
+            {variables.map(v => <option key={v} value={v} />)}
+          </datalist>
+        </div>
+      ) : selectLiterals ? (
+        <select value={term.value} onChange={e => onChange({ kind: 'literal', value: e.target.value })} aria-label={label} className={`${inputClass} text-emerald-400`}>
+          {!literals.includes(term.value) && <option value={term.value}>{term.value || '—'}</option>}
+          {literals.map(l => <option key={l} value={l}>{l}</option>)}
+        </select>
+      ) : (
+        <div className="relative">
+          <input
+            value={term.value}
+            onChange={e => onChange({ kind: 'literal', value: e.target.value })}
+            onFocus={() => setFocused(true)}
+            onBlur={() => setFocused(false)}
+            placeholder="Symbol or file…"
+            aria-label={`${label} value`}
+            className={`${inputClass} text-emerald-400`}
+          />
+          {suggestions.length > 0 && (
+            <ul className="absolute z-20 left-0 right-0 mt-1 max-h-48 overflow-y-auto rounded border border-white/10 bg-[var(--bg-surface)] shadow-xl py-1">
+              {suggestions.map(s => (
+                <li
+                  key={s}
+                  // Keep the input focused until the value is applied
+                  onMouseDown={e => {
+                    e.preventDefault();
+                    onChange({ kind: 'literal', value: s });
+                    setFocused(false);
+                  }}
+                  className="px-2 py-1 text-[10px] font-mono text-slate-300 hover:bg-white/10 cursor-pointer truncate"
+                  title={s}
+                >
+                  {s}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TermInput;
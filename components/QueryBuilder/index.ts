@@ -0,0 +1 @@
+export { default as QueryBuilderModal } from './QueryBuilderModal';
@@ -0,0 +1,134 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Completion, DatalogTokenType, getCompletions, tokenizeDatalog } from '../../utils/datalog';
+
+interface DatalogEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  onRun: () => void;
+  predicates: string[];
+}
+
+const TOKEN_CLASSES: Record<DatalogTokenType, string> = {
+  relation: 'text-sky-400',
+  keyword: 'text-pink-400 font-bold',
+  variable: 'text-amber-300',
+  string: 'text-emerald-400',
+  number: 'text-purple-300',
+  comment: 'text-slate-600 italic',
+  punctuation: 'text-slate-500',
+  operator: 'text-pink-300',
+  text: 'text-slate-300',
+};
+
+// Shared by the textarea and the highlight layer so characters line up exactly
+const EDITOR_TEXT = 'font-mono text-[12px] leading-5 p-3 whitespace-pre-wrap break-words';
+
+/**
+ * Textarea with a syntax-highlighted layer behind it and a completion list
+ * for predicates, variables and relations. Cmd/Ctrl+Enter runs the query.
+ */
+const DatalogEditor: React.FC<DatalogEditorProps> = ({ value, onChange, onRun, predicates }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const [completions, setCompletions] = useState<Completion[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const tokens = useMemo(() => tokenizeDatalog(value), [value]);
+
+  const refreshCompletions = (text: string, cursor: number) => {
+    setCompletions(getCompletions(text, cursor, predicates));
+    setActiveIndex(0);
+  };
+
+  const accept = (completion: Completion) => {
+    const next = value.slice(0, completion.from) + completion.insertText + value.slice(completion.to);
+    onChange(next);
+    setCompletions([]);
+    const cursor = completion.from + completion.insertText.length;
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(cursor, cursor);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if ((e.metaKey || e.ctrlKey) && e.key === 'Enter') {
+      e.preventDefault();
+      setCompletions([]);
+      onRun();
+      return;
+    }
+    if (completions.length === 0) {
+      if (e.ctrlKey && e.key === ' ') {
+        e.preventDefault();
+        refreshCompletions(value, e.currentTarget.selectionStart);
+      }
+      return;
+    }
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => (i + 1) % completions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => (i - 1 + completions.length) % completions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      accept(completions[activeIndex]!);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setCompletions([]);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="relative rounded border border-white/10 bg-[#0a0e14] focus-within:border-[var(--accent-teal)]/50">
+        <pre ref={highlightRef} aria-hidden="true" className={`${EDITOR_TEXT} absolute inset-0 m-0 overflow-hidden pointer-events-none`}>
+          {tokens.map(t => <span key={t.start} className={TOKEN_CLASSES[t.type]}>{t.text}</span>)}
+          {/* Keeps a trailing newline visible */}
+          {'\n'}
+        </pre>
+        <textarea
+          ref={textareaRef}
+          value={value}
+          spellCheck={false}
+          aria-label="Datalog query"
+          rows={6}
+          onChange={e => {
+            onChange(e.target.value);
+            refreshCompletions(e.target.value, e.target.selectionStart);
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setCompletions([])}
+          onScroll={e => {
+            if (highlightRef.current) highlightRef.current.scrollTop = e.currentTarget.scrollTop;
+          }}
+          className={`${EDITOR_TEXT} relative block w-full resize-y bg-transparent text-transparent caret-white outline-none`}
+        />
+      </div>
+
+      {completions.length > 0 && (
+        <ul role="listbox" className="absolute z-20 left-3 mt-1 min-w-[220px] max-h-56 overflow-y-auto rounded border border-white/10 bg-[var(--bg-surface)] shadow-xl py-1">
+          {completions.map((c, i) => (
+            <li
+              key={`${c.kind}:${c.label}`}
+              role="option"
+              aria-selected={i === activeIndex}
+              // Keep focus in the textarea
+              onMouseDown={e => {
+                e.preventDefault();
+                accept(c);
+              }}
+              className={`flex items-center justify-between gap-4 px-3 py-1 cursor-pointer font-mono text-[11px] ${i === activeIndex ? 'bg-white/10 text-white' : 'text-slate-300'}`}
+            >
+              <span>{c.label}</span>
+              <span className="text-[9px] uppercase tracking-widest text-slate-600">{c.kind}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default DatalogEditor;
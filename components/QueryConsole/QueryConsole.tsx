@@ -0,0 +1,159 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useSettingsContext } from '../../context/SettingsContext';
+import { useQueryConsole } from '../../hooks/useQueryConsole';
+import { extractVariables } from '../../utils/datalog';
+import { ErrorMessage } from '../common';
+import DatalogEditor from './DatalogEditor';
+import QueryResultsView from './QueryResultsView';
+
+export interface ConsoleSeed {
+  id: number;
+  query: string;
+}
+
+interface QueryConsoleProps {
+  onNodeSelect: (node: any, isNavigation?: boolean) => void;
+  /** Query handed over from elsewhere (e.g. the builder); opened in a new tab */
+  seed?: ConsoleSeed | null;
+  onSeedConsumed?: () => void;
+  onOpenBuilder?: () => void;
+}
+
+/**
+ * Datalog console: one editor per tab, a shared run history, and results as
+ * a grid or a graph. Runs against /api/v1/query for the selected project.
+ */
+const QueryConsole: React.FC<QueryConsoleProps> = ({ onNodeSelect, seed, onSeedConsumed, onOpenBuilder }) => {
+  const { availablePredicates, selectedProjectId } = useSettingsContext();
+  const { tabs, activeTab, setActiveTabId, updateQuery, addTab, closeTab, runs, run, cancel, history, clearHistory } = useQueryConsole();
+  const [hydrate, setHydrate] = useState(true);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const consumedSeedRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (!seed || consumedSeedRef.current === seed.id) return;
+    consumedSeedRef.current = seed.id;
+    addTab(seed.query);
+    onSeedConsumed?.();
+  }, [seed, addTab, onSeedConsumed]);
+
+  const current = runs[activeTab.id];
+  const variables = useMemo(() => extractVariables(activeTab.query), [activeTab.query]);
+  const runActive = () => run(activeTab.id, activeTab.query, hydrate);
+
+  return (
+    <div className="flex-1 flex min-h-0 bg-[var(--bg-main)]">
+      <div className="flex-1 flex flex-col min-w-0">
+        <div className="flex items-center border-b border-white/5 bg-[var(--bg-surface)] overflow-x-auto">
+          {tabs.map(tab => (
+            <div
+              key={tab.id}
+              className={`group flex items-center gap-2 px-4 py-2 text-[11px] font-mono cursor-pointer border-r border-white/5 ${tab.id === activeTab.id ? 'bg-[var(--bg-main)] text-white' : 'text-slate-500 hover:text-slate-300'}`}
+              onClick={() => setActiveTabId(tab.id)}
+            >
+              {runs[tab.id]?.status === 'running' && <i className="fas fa-circle-notch fa-spin text-[9px] text-[var(--accent-teal)]"></i>}
+              <span>{tab.title}</span>
+              <button
+                onClick={e => {
+                  e.stopPropagation();
+                  closeTab(tab.id);
+                }}
+                className="opacity-0 group-hover:opacity-100 text-slate-500 hover:text-white"
+                aria-label={`Close ${tab.title}`}
+              >
+                <i className="fas fa-times text-[9px]"></i>
+              </button>
+            </div>
+          ))}
+          <button onClick={() => addTab()} className="px-3 py-2 text-slate-500 hover:text-white" title="New query tab" aria-label="New query tab">
+            <i className="fas fa-plus text-[10px]"></i>
+          </button>
+          {onOpenBuilder && (
+            <button onClick={onOpenBuilder} className="ml-auto px-4 py-2 text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-white">
+              <i className="fas fa-diagram-project mr-1.5"></i>Builder
+            </button>
+          )}
+          <button
+            onClick={() => setShowHistory(open => !open)}
+            className={`${onOpenBuilder ? '' : 'ml-auto '}px-4 py-2 text-[10px] font-bold uppercase tracking-widest ${showHistory ? 'text-[var(--accent-teal)]' : 'text-slate-500 hover:text-white'}`}
+          >
+            <i className="fas fa-clock-rotate-left mr-1.5"></i>History
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-white/5">
+          <DatalogEditor
+            value={activeTab.query}
+            onChange={query => updateQuery(activeTab.id, query)}
+            onRun={runActive}
+            predicates={availablePredicates}
+          />
+          <div className="flex items-center gap-4 mt-3">
+            {current?.status === 'running' ? (
+              <button onClick={() => cancel(activeTab.id)} className="px-4 py-1.5 rounded bg-red-500/20 text-red-300 text-[11px] font-bold uppercase tracking-wider hover:bg-red-500/30">
+                <i className="fas fa-stop mr-2"></i>Cancel
+              </button>
+            ) : (
+              <button
+                onClick={runActive}
+                disabled={!selectedProjectId || !activeTab.query.trim()}
+                className="px-4 py-1.5 rounded bg-[var(--accent-teal)]/20 text-[var(--accent-teal)] text-[11px] font-bold uppercase tracking-wider hover:bg-[var(--accent-teal)]/30 disabled:opacity-40"
+              >
+                <i className="fas fa-play mr-2"></i>Run
+              </button>
+            )}
+            <label className="flex items-center gap-2 text-[11px] text-slate-400 cursor-pointer">
+              <input type="checkbox" checked={hydrate} onChange={e => setHydrate(e.target.checked)} />
+              Hydrate nodes
+            </label>
+            <span className="text-[10px] text-slate-600">
+              <kbd className="font-mono">Cmd+Enter</kbd> to run · <kbd className="font-mono">Ctrl+Space</kbd> to complete
+            </span>
+            {current?.durationMs !== undefined && (
+              <span className="ml-auto text-[10px] font-mono text-slate-500">{current.durationMs} ms</span>
+            )}
+          </div>
+        </div>
+
+        {current?.status === 'error' ? (
+          <div className="p-4">
+            <ErrorMessage error={current.error} onRetry={runActive} />
+          </div>
+        ) : current?.status === 'done' && current.response ? (
+          <QueryResultsView response={current.response} variables={variables} onNodeSelect={onNodeSelect} />
+        ) : (
+          <div className="flex-1 flex items-center justify-center text-[11px] text-slate-600">
+            {current?.status === 'running' ? 'Running query…' : selectedProjectId ? 'Run a query to see results' : 'Select a project to run queries'}
+          </div>
+        )}
+      </div>
+
+      {showHistory && (
+        <aside className="w-72 shrink-0 border-l border-white/5 bg-[var(--bg-surface)] flex flex-col min-h-0">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-white/5">
+            <span className="text-[10px] font-bold uppercase tracking-widest text-slate-400">History</span>
+            {history.length > 0 && (
+              <button onClick={clearHistory} className="text-[10px] text-slate-500 hover:text-white">Clear</button>
+            )}
+          </div>
+          <ul className="flex-1 overflow-y-auto">
+            {history.map(query => (
+              <li key={query}>
+                <button
+                  onClick={() => updateQuery(activeTab.id, query)}
+                  title="Load into current tab"
+                  className="w-full text-left px-4 py-2 text-[11px] font-mono text-slate-300 hover:bg-white/5 border-b border-white/5 whitespace-pre-wrap break-all line-clamp-3"
+                >
+                  {query}
+                </button>
+              </li>
+            ))}
+            {history.length === 0 && <li className="px-4 py-6 text-center text-[11px] text-slate-600">No queries run yet</li>}
+          </ul>
+        </aside>
+      )}
+    </div>
+  );
+};
+
+export default QueryConsole;
@@ -0,0 +1,130 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import DiscoveryGraph from '../TreeVisualizer/graphs/DiscoveryGraph';
+import type { QueryResponse } from '../../services/graphService';
+import { toResultGraph, toResultTable } from '../../utils/datalog';
+
+interface QueryResultsViewProps {
+  response: QueryResponse;
+  variables: string[];
+  onNodeSelect: (node: any, isNavigation?: boolean) => void;
+}
+
+const MAX_GRID_ROWS = 500;
+const NO_EXPANDED = new Set<string>();
+
+const ResultGraph: React.FC<{ nodes: any[]; links: any[]; onNodeSelect: QueryResultsViewProps['onNodeSelect'] }> = ({ nodes, links, onNodeSelect }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(([entry]) => {
+      if (entry) setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!svgRef.current || size.width === 0) return;
+    const svg = d3.select(svgRef.current);
+    const zoom = d3.zoom<SVGSVGElement, unknown>()
+      .scaleExtent([0.05, 5])
+      .on('zoom', (event) => {
+        svg.select('g.zoom-layer').attr('transform', event.transform);
+      });
+    svg.call(zoom);
+    return () => {
+      svg.on('.zoom', null);
+    };
+  }, [size.width]);
+
+  return (
+    <div ref={containerRef} className="flex-1 min-h-0 relative bg-slate-900">
+      {size.width > 0 && (
+        <svg ref={svgRef} className="w-full h-full absolute inset-0" style={{ background: '#0f172a' }}>
+          <g className="zoom-layer">
+            <DiscoveryGraph
+              nodes={nodes}
+              links={links}
+              width={size.width}
+              height={size.height}
+              onNodeSelect={onNodeSelect}
+              onNodeHover={() => {}}
+              expandedFileIds={NO_EXPANDED}
+              activeSubMode="ARCHITECTURE"
+            />
+          </g>
+        </svg>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Query results as a grid of bindings or a force graph of the returned triples.
+ */
+const QueryResultsView: React.FC<QueryResultsViewProps> = ({ response, variables, onNodeSelect }) => {
+  const [mode, setMode] = useState<'table' | 'graph'>('table');
+  const table = useMemo(() => toResultTable(response, variables), [response, variables]);
+  // DiscoveryGraph mutates node positions, so it gets its own copies
+  const graph = useMemo(() => toResultGraph(response, table), [response, table]);
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col">
+      <div className="flex items-center gap-3 px-4 py-2 border-b border-white/5 text-[10px] uppercase tracking-widest text-slate-500">
+        <span>{table.rows.length} rows</span>
+        {graph.nodes.length > 0 && <span>{graph.nodes.length} nodes · {graph.links.length} edges</span>}
+        <div className="ml-auto flex rounded border border-white/10 overflow-hidden">
+          {(['table', 'graph'] as const).map(m => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              disabled={m === 'graph' && graph.nodes.length === 0}
+              className={`px-3 py-1 font-bold disabled:opacity-30 ${mode === m ? 'bg-white/10 text-white' : 'text-slate-500 hover:text-white'}`}
+            >
+              <i className={`fas fa-${m === 'table' ? 'table' : 'circle-nodes'} mr-1.5`}></i>{m}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {mode === 'graph' && graph.nodes.length > 0 ? (
+        <ResultGraph nodes={graph.nodes} links={graph.links} onNodeSelect={onNodeSelect} />
+      ) : table.rows.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-[11px] text-slate-600">No results</div>
+      ) : (
+        <div className="flex-1 min-h-0 overflow-auto">
+          <table className="w-full text-[11px] font-mono border-collapse">
+            <thead className="sticky top-0 bg-[var(--bg-surface)]">
+              <tr>
+                {table.columns.map(c => (
+                  <th key={c} className="text-left px-3 py-1.5 text-amber-300 font-bold border-b border-white/10">{c}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {table.rows.slice(0, MAX_GRID_ROWS).map((row, i) => (
+                <tr key={i} className="hover:bg-white/5">
+                  {row.map((value, j) => (
+                    <td key={j} className="px-3 py-1 text-slate-300 border-b border-white/5 whitespace-nowrap max-w-[420px] truncate" title={value}>
+                      {value}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {table.rows.length > MAX_GRID_ROWS && (
+            <div className="px-3 py-2 text-[10px] text-slate-600">Showing first {MAX_GRID_ROWS} of {table.rows.length} rows</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QueryResultsView;
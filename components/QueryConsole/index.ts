@@ -0,0 +1,2 @@
+export { default as QueryConsole } from './QueryConsole';
+export type { ConsoleSeed } from './QueryConsole';
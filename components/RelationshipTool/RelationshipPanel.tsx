@@ -0,0 +1,182 @@
+/**
+ * RelationshipPanel — Drawer answering "how are these two symbols related?".
+ * Shows whether either reaches the other and through which calls, and their
+ * lowest common caller; the paths are drawn together in the Discovery graph.
+ */
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { manifestSymbolIds, ManifestData } from '../../hooks/useManifest';
+import { CallPathResult, DEFAULT_RELATIONSHIP_DEPTH, RelationshipResult, useRelationship } from '../../hooks/useRelationship';
+import type { CallHop } from '../../utils/callPaths';
+import { ErrorMessage, SymbolPicker } from '../common';
+
+interface RelationshipPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  manifest: ManifestData | null;
+  /** Prefills the first symbol, e.g. with the current selection */
+  initialSymbol?: string;
+  onShowInGraph: (result: RelationshipResult) => void;
+  onOpenSymbol: (id: string, name: string) => void;
+}
+
+const DEPTHS = [2, 3, 5, 7, 10];
+
+const shortName = (id: string) => id.split(/[:/]/).pop() || id;
+
+const HopList: React.FC<{ from: string; hops: CallHop[]; onOpenSymbol: (id: string, name: string) => void }> = ({ from, hops, onOpenSymbol }) => (
+  <ol className="mt-1.5 space-y-0.5 font-mono text-[10px]">
+    <li>
+      <button onClick={() => onOpenSymbol(from, shortName(from))} className="text-slate-300 hover:text-white truncate max-w-full" title={from}>
+        {shortName(from)}
+      </button>
+    </li>
+    {hops.map(hop => (
+      <li key={`${hop.source}>${hop.target}`} className="flex items-center gap-1.5 min-w-0">
+        <span className="text-slate-600">↳</span>
+        <button onClick={() => onOpenSymbol(hop.target, shortName(hop.target))} className="text-slate-300 hover:text-white truncate" title={hop.target}>
+          {shortName(hop.target)}
+        </button>
+        {hop.line !== undefined && (
+          <span className="ml-auto shrink-0 text-[9px] text-slate-500" title={`Called from ${hop.source} at line ${hop.line}`}>
+            L{hop.line}
+          </span>
+        )}
+      </li>
+    ))}
+  </ol>
+);
+
+const PathSection: React.FC<{ path: CallPathResult; depth: number; onOpenSymbol: (id: string, name: string) => void }> = ({ path, depth, onOpenSymbol }) => (
+  <section className="px-4 py-3 border-b border-white/5">
+    <div className="flex items-center gap-2 text-[10px]">
+      <i className={`fas ${path.reachable ? 'fa-circle-check text-[#22c55e]' : 'fa-circle-xmark text-slate-600'}`}></i>
+      <span className="font-mono text-slate-300 truncate" title={`${path.from} → ${path.to}`}>
+        {shortName(path.from)} <span className="text-slate-600">→</span> {shortName(path.to)}
+      </span>
+      <span className="ml-auto shrink-0 text-slate-500">
+        {path.reachable ? (path.hops ? `${path.hops.length} call${path.hops.length === 1 ? '' : 's'}` : 'reachable') : `not within ${depth}`}
+      </span>
+    </div>
+    {path.reachable && (path.hops
+      ? <HopList from={path.from} hops={path.hops} onOpenSymbol={onOpenSymbol} />
+      : <p className="mt-1 text-[10px] text-amber-400">Reachable, but the path could not be loaded.</p>)}
+  </section>
+);
+
+export const RelationshipPanel: React.FC<RelationshipPanelProps> = ({ isOpen, onClose, manifest, initialSymbol, onShowInGraph, onOpenSymbol }) => {
+  const { result, isLoading, error, analyze } = useRelationship();
+  const [a, setA] = useState(initialSymbol ?? '');
+  const [b, setB] = useState('');
+  const [depth, setDepth] = useState(DEFAULT_RELATIONSHIP_DEPTH);
+
+  const symbols = useMemo(() => manifestSymbolIds(manifest), [manifest]);
+
+  // Every new answer replaces the Discovery graph once; the button below redraws it on demand
+  const shownRef = useRef<RelationshipResult | null>(null);
+  useEffect(() => {
+    if (!result || shownRef.current === result) return;
+    shownRef.current = result;
+    onShowInGraph(result);
+  }, [result, onShowInGraph]);
+
+  if (!isOpen) return null;
+
+  const canAnalyze = !!a.trim() && !!b.trim() && a.trim() !== b.trim() && !isLoading;
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (canAnalyze) analyze(a.trim(), b.trim(), depth);
+  };
+
+  return (
+    <aside className="fixed top-14 bottom-0 right-0 w-96 bg-[#0a1118] border-l border-[var(--border)] flex flex-col z-50 shadow-2xl" aria-label="Symbol relationship">
+      <div className="h-12 border-b border-white/5 flex items-center px-4 gap-2 shrink-0">
+        <i className="fas fa-people-arrows text-[var(--accent-teal)]"></i>
+        <h2 className="text-[11px] font-black uppercase tracking-widest text-white">Relationship</h2>
+        <button onClick={onClose} aria-label="Close" className="ml-auto text-slate-500 hover:text-white p-1">
+          <i className="fas fa-times"></i>
+        </button>
+      </div>
+
+      <form onSubmit={submit} className="px-4 py-3 border-b border-white/5 space-y-2">
+        <SymbolPicker label="Symbol A" value={a} onChange={setA} symbols={symbols} autoFocus={!initialSymbol} />
+        <SymbolPicker label="Symbol B" value={b} onChange={setB} symbols={symbols} autoFocus={!!initialSymbol} />
+        <div className="flex items-center gap-2 pt-1">
+          <button
+            type="button"
+            onClick={() => { setA(b); setB(a); }}
+            className="px-2 py-1 rounded border border-white/10 text-[10px] text-slate-400 hover:text-white"
+            aria-label="Swap symbols"
+          >
+            <i className="fas fa-right-left"></i>
+          </button>
+          <label className="flex items-center gap-1.5 text-[10px] text-slate-500">
+            Depth
+            <select
+              value={depth}
+              onChange={e => setDepth(Number(e.target.value))}
+              className="bg-[var(--bg-main)] border border-white/10 rounded px-1.5 py-1 text-[10px] text-white"
+            >
+              {DEPTHS.map(d => <option key={d} value={d}>{d}</option>)}
+            </select>
+          </label>
+          <button
+            type="submit"
+            disabled={!canAnalyze}
+            className="ml-auto px-3 py-1 rounded bg-[var(--accent-teal)]/15 text-[var(--accent-teal)] text-[10px] font-black uppercase tracking-widest disabled:opacity-40"
+          >
+            {isLoading ? <i className="fas fa-circle-notch fa-spin"></i> : 'Analyze'}
+          </button>
+        </div>
+      </form>
+
+      <div className="flex-1 overflow-y-auto">
+        {error != null ? (
+          <div className="p-4"><ErrorMessage error={error} onRetry={() => analyze(a.trim(), b.trim(), depth)} /></div>
+        ) : !result ? (
+          <div className="p-6 text-center text-[11px] text-slate-600">
+            {isLoading ? 'Tracing calls…' : 'Pick two symbols to see how they are connected.'}
+          </div>
+        ) : (
+          <>
+            <PathSection path={result.forward} depth={result.depth} onOpenSymbol={onOpenSymbol} />
+            <PathSection path={result.backward} depth={result.depth} onOpenSymbol={onOpenSymbol} />
+            <section className="px-4 py-3 border-b border-white/5">
+              <div className="text-[10px] font-black uppercase tracking-widest text-slate-500 mb-1">Lowest common caller</div>
+              {result.lca ? (
+                <>
+                  <button
+                    onClick={() => onOpenSymbol(result.lca!, shortName(result.lca!))}
+                    className="font-mono text-[11px] text-[var(--accent-teal)] hover:underline truncate max-w-full"
+                    title={result.lca}
+                  >
+                    {shortName(result.lca)}
+                  </button>
+                  {([[result.lcaToA, result.a], [result.lcaToB, result.b]] as const).map(([hops, target]) => (
+                    <div key={target} className="mt-2">
+                      <div className="text-[9px] text-slate-500">to {shortName(target)}</div>
+                      {hops
+                        ? <HopList from={result.lca!} hops={hops} onOpenSymbol={onOpenSymbol} />
+                        : <p className="text-[10px] text-amber-400">Path could not be loaded.</p>}
+                    </div>
+                  ))}
+                </>
+              ) : (
+                <p className="text-[10px] text-slate-600">No common caller within depth {result.depth}.</p>
+              )}
+            </section>
+            <div className="p-4">
+              <button
+                onClick={() => onShowInGraph(result)}
+                className="w-full py-1.5 rounded border border-white/10 text-[10px] font-black uppercase tracking-widest text-slate-300 hover:text-white hover:bg-white/5"
+              >
+                <i className="fas fa-diagram-project mr-1.5"></i>Show in Discovery
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default RelationshipPanel;
@@ -0,0 +1 @@
+export { default as RelationshipPanel } from './RelationshipPanel';
@@ -0,0 +1,178 @@
+import React, { useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import { downloadJson, readFileAsText } from '../utils/fileTransfer';
+import { matchIntentRoute } from '../utils/queryClassifier';
+import {
+  compilePattern,
+  InvalidPatternError,
+  ROUTING_INTENTS,
+  RoutingIntent,
+  routingPatternStore,
+} from '../utils/routingPatterns';
+
+const subscribe = (onChange: () => void) => routingPatternStore.subscribe(onChange);
+
+const inputClass = 'bg-[var(--bg-main)] border border-white/10 rounded px-2 py-1.5 text-[10px] text-white font-mono focus:outline-none focus:border-[var(--accent-teal)]/50';
+
+const safeTest = (source: string, flags: string, text: string): boolean => {
+  try {
+    return compilePattern(source, flags).test(text);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Settings section for the search bar's routing regexes: built-ins from
+ * data/queryPatterns.json plus the user's own, with a live tester.
+ */
+const RoutingPatternsSection: React.FC = () => {
+  const patterns = useSyncExternalStore(subscribe, () => routingPatternStore.getPatterns());
+  const compiled = useSyncExternalStore(subscribe, () => routingPatternStore.getCompiled());
+  const [sample, setSample] = useState('');
+  const [filter, setFilter] = useState<RoutingIntent | 'all'>('all');
+  const [intent, setIntent] = useState<RoutingIntent>('explore');
+  const [source, setSource] = useState('');
+  const [flags, setFlags] = useState('i');
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const sampleText = sample.trim().toLowerCase();
+  const result = useMemo(() => (sampleText ? matchIntentRoute(sampleText, compiled) : null), [sampleText, compiled]);
+  const visible = patterns.filter(p => filter === 'all' || p.intent === filter);
+  const customCount = patterns.filter(p => !p.builtIn).length;
+  const disabledCount = patterns.filter(p => p.builtIn && !p.enabled).length;
+
+  const handleAdd = () => {
+    try {
+      routingPatternStore.add(intent, source, flags);
+      setSource('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof InvalidPatternError ? err.message : String(err));
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const added = routingPatternStore.importOverrides(JSON.parse(await readFileAsText(file)));
+      setError(null);
+      setNotice(`Imported ${added} pattern${added === 1 ? '' : 's'}.`);
+    } catch (err) {
+      setNotice(null);
+      setError(err instanceof Error ? `Import failed: ${err.message}` : 'Import failed');
+    }
+  };
+
+  return (
+    <div className="pt-4 border-t border-white/5">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">Query Routing Patterns</span>
+        <div className="flex gap-2 text-[9px] text-slate-500">
+          <button onClick={() => fileInputRef.current?.click()} className="hover:text-white">Import</button>
+          <button
+            onClick={() => downloadJson('gca-routing-patterns.json', routingPatternStore.exportOverrides())}
+            disabled={customCount === 0 && disabledCount === 0}
+            className="hover:text-white disabled:opacity-30"
+          >
+            Export
+          </button>
+          <button onClick={() => routingPatternStore.reset()} disabled={customCount === 0 && disabledCount === 0} className="hover:text-white disabled:opacity-30">
+            Reset
+          </button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) handleImport(file);
+          }}
+        />
+      </div>
+
+      <input
+        value={sample}
+        onChange={e => setSample(e.target.value)}
+        placeholder="Try a query, e.g. who calls ValidateToken"
+        aria-label="Sample query"
+        className={`${inputClass} w-full mb-1`}
+      />
+      <p className="mb-2 text-[9px] text-slate-500 min-h-[14px]">
+        {result && (result.pattern
+          ? <>Routes to <strong className="text-[var(--accent-teal)]">{result.route}</strong> via <code className="text-slate-300">/{result.pattern.source}/{result.pattern.flags}</code></>
+          : <>No pattern matches; routes to <strong className="text-[var(--accent-teal)]">explain</strong></>)}
+      </p>
+
+      <div className="flex items-center gap-2 mb-1">
+        <select value={filter} onChange={e => setFilter(e.target.value as RoutingIntent | 'all')} aria-label="Filter by intent" className={inputClass}>
+          <option value="all">All intents</option>
+          {ROUTING_INTENTS.map(i => <option key={i} value={i}>{i}</option>)}
+        </select>
+        <span className="text-[9px] text-slate-600">{customCount} custom · {disabledCount} built-in disabled</span>
+      </div>
+      <ul className="max-h-48 overflow-y-auto border border-white/5 rounded mb-2">
+        {visible.map(p => {
+          const isWinner = result?.pattern?.id === p.id;
+          const matches = p.enabled && !!sampleText && safeTest(p.source, p.flags, sampleText);
+          return (
+            <li key={p.id} className={`flex items-center gap-2 px-2 py-1 text-[10px] border-b border-white/5 ${isWinner ? 'bg-[var(--accent-teal)]/10' : ''}`}>
+              <input
+                type="checkbox"
+                checked={p.enabled}
+                onChange={e => routingPatternStore.setEnabled(p.id, e.target.checked)}
+                aria-label={`${p.enabled ? 'Disable' : 'Enable'} /${p.source}/`}
+              />
+              <span className="w-16 shrink-0 text-slate-500">{p.intent}</span>
+              <code className={`flex-1 truncate ${p.enabled ? 'text-slate-300' : 'text-slate-600 line-through'}`} title={`/${p.source}/${p.flags}`}>
+                /{p.source}/{p.flags}
+              </code>
+              {matches && (
+                <i className={`fas ${isWinner ? 'fa-check text-[var(--accent-teal)]' : 'fa-equals text-slate-600'} text-[8px]`} title={isWinner ? 'Decides the route' : 'Matches, but an earlier pattern wins'}></i>
+              )}
+              {p.builtIn ? (
+                <span className="text-[8px] uppercase text-slate-700">built-in</span>
+              ) : (
+                <button onClick={() => routingPatternStore.remove(p.id)} className="text-slate-600 hover:text-red-400" aria-label={`Delete /${p.source}/`}>
+                  <i className="fas fa-trash text-[9px]"></i>
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex items-center gap-2">
+        <select value={intent} onChange={e => setIntent(e.target.value as RoutingIntent)} aria-label="Intent for new pattern" className={inputClass}>
+          {ROUTING_INTENTS.map(i => <option key={i} value={i}>{i}</option>)}
+        </select>
+        <input
+          value={source}
+          onChange={e => setSource(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleAdd()}
+          placeholder="regex, e.g. ledger|settlement"
+          aria-label="New pattern"
+          className={`${inputClass} flex-1 min-w-0`}
+        />
+        <input value={flags} onChange={e => setFlags(e.target.value)} aria-label="Flags" className={`${inputClass} w-10`} />
+        <button
+          onClick={handleAdd}
+          disabled={!source.trim()}
+          className="px-3 py-1 bg-slate-800 text-white rounded-sm text-[9px] font-black uppercase tracking-widest hover:bg-slate-700 transition-all disabled:opacity-50"
+        >
+          Add
+        </button>
+      </div>
+      {error && <p className="mt-2 text-[9px] text-red-400"><i className="fas fa-exclamation-circle mr-1"></i>{error}</p>}
+      {notice && !error && <p className="mt-2 text-[9px] text-[#10b981]">{notice}</p>}
+      <p className="mt-2 text-[9px] text-slate-600 leading-normal">
+        Patterns are tried in order test, security, refactor, performance, explore, navigate against the lowercased query; the first match decides. Changes are stored in this browser on top of the built-in defaults.
+      </p>
+    </div>
+  );
+};
+
+export default RoutingPatternsSection;
@@ -0,0 +1,228 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { useToast } from '../context/ToastContext';
+import { useSavedQueries } from '../hooks/useSavedQueries';
+import { classifyIntentRoute } from '../utils/queryClassifier';
+import { createSavedQueryId, detectQueryKind, SavedQuery, SavedQueryImportError, SavedQueryKind } from '../utils/savedQueries';
+
+interface SavedQueriesMenuProps {
+  /** Text in the search bar, offered as the query to save */
+  currentQuery: string;
+  onRun: (query: SavedQuery) => void;
+  onClose: () => void;
+}
+
+const KIND_STYLES: Record<SavedQueryKind, { label: string; className: string }> = {
+  natural: { label: 'ASK', className: 'text-sky-300 bg-sky-500/10' },
+  datalog: { label: 'DATALOG', className: 'text-amber-300 bg-amber-500/10' },
+  path: { label: 'PATH', className: 'text-purple-300 bg-purple-500/10' },
+};
+
+const fieldClass = 'w-full bg-[var(--bg-main)] border border-white/10 rounded px-2 py-1.5 text-[11px] text-white focus:outline-none focus:border-[var(--accent-teal)]/50';
+
+const draftFor = (query: string): SavedQuery => {
+  const kind = detectQueryKind(query);
+  const now = Date.now();
+  return {
+    id: createSavedQueryId(),
+    name: query.slice(0, 60),
+    query,
+    kind,
+    tags: [],
+    pinned: false,
+    intent: kind === 'natural' ? classifyIntentRoute(query) : undefined,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+/**
+ * Saved query library for the current project, opened from the search bar:
+ * filter by text or tag, run, pin, edit, and share via import/export.
+ */
+const SavedQueriesMenu: React.FC<SavedQueriesMenuProps> = ({ currentQuery, onRun, onClose }) => {
+  const toast = useToast();
+  const { projectId, queries, tags, save, remove, togglePin, exportLibrary, importLibrary } = useSavedQueries();
+  const [filter, setFilter] = useState('');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [draft, setDraft] = useState<SavedQuery | null>(null);
+  const [tagText, setTagText] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const visible = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    return queries.filter(q =>
+      (!activeTag || q.tags.includes(activeTag))
+      && (!needle || [q.name, q.query, q.notes ?? '', ...q.tags].some(text => text.toLowerCase().includes(needle)))
+    );
+  }, [queries, filter, activeTag]);
+
+  const edit = (query: SavedQuery) => {
+    setDraft(query);
+    setTagText(query.tags.join(', '));
+  };
+
+  const commitDraft = () => {
+    if (!draft || !draft.query.trim()) return;
+    save({ ...draft, name: draft.name.trim() || draft.query.slice(0, 60), tags: tagText.split(',') });
+    setDraft(null);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const { added, updated } = await importLibrary(file);
+      toast.success(`Imported ${added} new and ${updated} updated queries`);
+    } catch (err) {
+      toast.error(err instanceof SavedQueryImportError || err instanceof SyntaxError ? `Import failed: ${err.message}` : 'Import failed');
+    }
+  };
+
+  if (!projectId) {
+    return (
+      <div className="absolute bottom-full left-0 mb-2 w-[420px] p-4 rounded-lg border border-white/10 bg-[var(--bg-surface)] shadow-2xl text-[11px] text-slate-500">
+        Select a project to use saved queries.
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="absolute bottom-full left-0 mb-2 w-[460px] max-h-[60vh] flex flex-col rounded-lg border border-white/10 bg-[var(--bg-surface)] shadow-2xl z-30"
+      onKeyDown={e => e.key === 'Escape' && onClose()}
+      role="dialog"
+      aria-label="Saved queries"
+    >
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-white/5">
+        <i className="fas fa-bookmark text-[10px] text-[var(--accent-teal)]"></i>
+        <input
+          autoFocus
+          value={filter}
+          onChange={e => setFilter(e.target.value)}
+          placeholder="Filter saved queries…"
+          className="flex-1 bg-transparent outline-none text-[11px] text-white placeholder:text-slate-600"
+        />
+        <button onClick={() => fileInputRef.current?.click()} className="text-[10px] text-slate-500 hover:text-white" title="Import a shared library">
+          <i className="fas fa-file-import"></i>
+        </button>
+        <button onClick={exportLibrary} disabled={queries.length === 0} className="text-[10px] text-slate-500 hover:text-white disabled:opacity-30" title="Export this project's library">
+          <i className="fas fa-file-export"></i>
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) handleImport(file);
+          }}
+        />
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1 px-3 py-2 border-b border-white/5">
+          {tags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => setActiveTag(t => (t === tag ? null : tag))}
+              className={`px-2 py-0.5 rounded-full text-[9px] font-bold ${activeTag === tag ? 'bg-[var(--accent-teal)]/20 text-[var(--accent-teal)]' : 'bg-white/5 text-slate-500 hover:text-slate-300'}`}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {draft ? (
+        <div className="p-3 space-y-2">
+          <input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder="Name" aria-label="Name" className={fieldClass} />
+          <textarea
+            value={draft.query}
+            onChange={e => setDraft({ ...draft, query: e.target.value })}
+            rows={3}
+            aria-label="Query"
+            className={`${fieldClass} font-mono resize-y`}
+          />
+          <div className="flex gap-2">
+            <select value={draft.kind} onChange={e => setDraft({ ...draft, kind: e.target.value as SavedQueryKind })} aria-label="Kind" className={`${fieldClass} w-32`}>
+              <option value="natural">Ask</option>
+              <option value="datalog">Datalog</option>
+              <option value="path">Path</option>
+            </select>
+            <input value={tagText} onChange={e => setTagText(e.target.value)} placeholder="Tags, comma separated" aria-label="Tags" className={fieldClass} />
+          </div>
+          <textarea
+            value={draft.notes ?? ''}
+            onChange={e => setDraft({ ...draft, notes: e.target.value || undefined })}
+            rows={2}
+            placeholder="Notes"
+            aria-label="Notes"
+            className={`${fieldClass} resize-y`}
+          />
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-1.5 text-[10px] text-slate-400 cursor-pointer">
+              <input type="checkbox" checked={draft.pinned} onChange={e => setDraft({ ...draft, pinned: e.target.checked })} />
+              Pinned
+            </label>
+            {draft.intent && <span className="text-[9px] text-slate-500">intent: {draft.intent}</span>}
+            <button onClick={() => setDraft(null)} className="ml-auto px-3 py-1 text-[10px] text-slate-400 hover:text-white">Cancel</button>
+            <button
+              onClick={commitDraft}
+              disabled={!draft.query.trim()}
+              className="px-3 py-1 rounded bg-[var(--accent-teal)]/20 text-[var(--accent-teal)] text-[10px] font-bold uppercase disabled:opacity-40"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <ul className="flex-1 overflow-y-auto">
+            {visible.map(q => (
+              <li key={q.id} className="group flex items-start gap-2 px-3 py-2 border-b border-white/5 hover:bg-white/5">
+                <button onClick={() => togglePin(q.id)} className={`mt-0.5 text-[10px] ${q.pinned ? 'text-amber-300' : 'text-slate-700 hover:text-slate-400'}`} aria-label={q.pinned ? 'Unpin' : 'Pin'}>
+                  <i className="fas fa-thumbtack"></i>
+                </button>
+                <button onClick={() => onRun(q)} className="flex-1 min-w-0 text-left" title={q.notes || q.query}>
+                  <div className="flex items-center gap-2">
+                    <span className="truncate text-[11px] font-bold text-white">{q.name}</span>
+                    <span className={`shrink-0 px-1.5 rounded text-[8px] font-black ${KIND_STYLES[q.kind].className}`}>{KIND_STYLES[q.kind].label}</span>
+                    {q.intent && <span className="shrink-0 text-[9px] text-slate-500">→ {q.intent}</span>}
+                  </div>
+                  <div className="truncate text-[10px] font-mono text-slate-500">{q.query}</div>
+                  {(q.tags.length > 0 || q.notes) && (
+                    <div className="truncate text-[9px] text-slate-600">
+                      {q.tags.map(t => `#${t}`).join(' ')}{q.tags.length > 0 && q.notes ? ' · ' : ''}{q.notes}
+                    </div>
+                  )}
+                </button>
+                <div className="flex gap-2 opacity-0 group-hover:opacity-100">
+                  <button onClick={() => edit(q)} className="text-[10px] text-slate-500 hover:text-white" aria-label={`Edit ${q.name}`}>
+                    <i className="fas fa-pen"></i>
+                  </button>
+                  <button onClick={() => remove(q.id)} className="text-[10px] text-slate-500 hover:text-red-400" aria-label={`Delete ${q.name}`}>
+                    <i className="fas fa-trash"></i>
+                  </button>
+                </div>
+              </li>
+            ))}
+            {visible.length === 0 && (
+              <li className="px-3 py-6 text-center text-[11px] text-slate-600">
+                {queries.length === 0 ? 'No saved queries for this project yet' : 'No matches'}
+              </li>
+            )}
+          </ul>
+          <button
+            onClick={() => edit(draftFor(currentQuery.trim()))}
+            className="px-3 py-2 text-left text-[11px] text-slate-400 hover:text-white border-t border-white/5"
+          >
+            <i className="fas fa-plus mr-2 text-[9px]"></i>
+            {currentQuery.trim() ? <>Save “<span className="font-mono">{currentQuery.trim().slice(0, 50)}</span>”</> : 'New saved query'}
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SavedQueriesMenu;
@@ -0,0 +1,226 @@
+/**
+ * SemanticResultsPanel — The ranked semantic hits the smart search otherwise
+ * collapses into graph nodes. Hits keep their score and order, gain kind and a
+ * snippet as they hydrate, and can be narrowed by facets before being sent to
+ * the graph or to the AI.
+ */
+import React, { useEffect, useMemo, useState } from 'react';
+import { DEFAULT_RESULT_COUNT, SemanticResultSet, useSemanticResults } from '../../hooks/useSemanticResults';
+import {
+  computeFacets,
+  FACET_KEYS,
+  FACET_LABELS,
+  FacetFilters,
+  filterHits,
+  scoreRatio,
+  SemanticHit,
+  toggleFacet,
+} from '../../utils/semanticFacets';
+import { ErrorMessage } from '../common';
+
+interface SemanticResultsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  initial: SemanticResultSet | null;
+  onOpenHit: (hit: SemanticHit) => void;
+  onShowInGraph: (ids: string[]) => void;
+  onAskAI: (query: string, hits: SemanticHit[]) => void;
+}
+
+const RESULT_COUNTS = [10, 25, 50];
+const MAX_FACET_VALUES = 8;
+
+export const SemanticResultsPanel: React.FC<SemanticResultsPanelProps> = ({ isOpen, onClose, initial, onOpenHit, onShowInGraph, onAskAI }) => {
+  const { query, hits, isSearching, pendingHydration, error, search } = useSemanticResults(initial);
+  const [draft, setDraft] = useState(initial?.query ?? '');
+  const [k, setK] = useState(DEFAULT_RESULT_COUNT);
+  const [filters, setFilters] = useState<FacetFilters>({});
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [expandedFacets, setExpandedFacets] = useState<Set<string>>(new Set());
+
+  // A new result set starts unfiltered and unselected
+  useEffect(() => {
+    setFilters({});
+    setSelected(new Set());
+  }, [query]);
+
+  const visible = useMemo(() => filterHits(hits, filters), [hits, filters]);
+  const facets = useMemo(() => computeFacets(hits, filters), [hits, filters]);
+  const topScore = hits[0]?.score ?? 0;
+  const chosen = visible.filter(h => selected.has(h.id));
+  // Actions apply to the checked hits, or to everything visible when nothing is checked
+  const targets = chosen.length > 0 ? chosen : visible;
+  const allVisibleSelected = visible.length > 0 && chosen.length === visible.length;
+
+  if (!isOpen) return null;
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    search(draft, k);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-[#000]/80 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="bg-[var(--bg-surface)] border border-white/10 rounded-lg shadow-2xl w-full max-w-5xl h-[85vh] flex flex-col overflow-hidden"
+        onClick={e => e.stopPropagation()}
+        onKeyDown={e => e.key === 'Escape' && onClose()}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Semantic search results"
+      >
+        <div className="px-6 py-4 border-b border-white/5 flex items-center gap-4">
+          <h3 className="text-sm font-black uppercase tracking-widest text-white shrink-0">
+            <i className="fas fa-ranking-star mr-2 text-[var(--accent-teal)]"></i>
+            Semantic Results
+          </h3>
+          <form onSubmit={submit} className="flex-1 flex items-center gap-2">
+            <input
+              value={draft}
+              onChange={e => setDraft(e.target.value)}
+              placeholder="Describe the code you're looking for"
+              aria-label="Semantic query"
+              autoFocus
+              className="flex-1 bg-[var(--bg-main)] border border-white/10 rounded px-3 py-1.5 text-[11px] text-white focus:outline-none focus:border-[var(--accent-teal)]/50"
+            />
+            <select
+              value={k}
+              onChange={e => setK(Number(e.target.value))}
+              aria-label="Number of results"
+              className="bg-[var(--bg-main)] border border-white/10 rounded px-2 py-1.5 text-[11px] text-white"
+            >
+              {RESULT_COUNTS.map(n => <option key={n} value={n}>Top {n}</option>)}
+            </select>
+            <button
+              type="submit"
+              disabled={!draft.trim() || isSearching}
+              className="px-3 py-1.5 rounded bg-[var(--accent-teal)]/20 text-[var(--accent-teal)] text-[11px] font-bold uppercase tracking-wider hover:bg-[var(--accent-teal)]/30 disabled:opacity-40"
+            >
+              <i className={`fas ${isSearching ? 'fa-circle-notch fa-spin' : 'fa-magnifying-glass'} mr-2`}></i>Search
+            </button>
+          </form>
+          <button onClick={onClose} aria-label="Close" className="text-slate-500 hover:text-white transition-colors bg-transparent border-none p-1">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 flex">
+          <aside className="w-56 shrink-0 border-r border-white/5 overflow-y-auto p-4 space-y-4" aria-label="Facets">
+            {FACET_KEYS.map(key => {
+              const buckets = facets[key];
+              const showAll = expandedFacets.has(key);
+              return (
+                <div key={key}>
+                  <div className="text-[10px] font-black uppercase tracking-widest text-slate-500 mb-1.5">{FACET_LABELS[key]}</div>
+                  {buckets.length === 0 && <div className="text-[10px] text-slate-700">—</div>}
+                  {(showAll ? buckets : buckets.slice(0, MAX_FACET_VALUES)).map(b => (
+                    <label key={b.value} className="flex items-center gap-2 py-0.5 text-[10px] text-slate-400 cursor-pointer hover:text-white">
+                      <input type="checkbox" checked={b.selected} onChange={() => setFilters(f => toggleFacet(f, key, b.value))} />
+                      <span className="flex-1 truncate font-mono" title={b.value}>{b.value}</span>
+                      <span className="text-slate-600">{b.count}</span>
+                    </label>
+                  ))}
+                  {buckets.length > MAX_FACET_VALUES && (
+                    <button
+                      onClick={() => setExpandedFacets(prev => {
+                        const next = new Set(prev);
+                        if (next.has(key)) next.delete(key);
+                        else next.add(key);
+                        return next;
+                      })}
+                      className="text-[9px] text-slate-600 hover:text-white"
+                    >
+                      {showAll ? 'Show fewer' : `Show all ${buckets.length}`}
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+            {Object.values(filters).some(v => v && v.length > 0) && (
+              <button onClick={() => setFilters({})} className="text-[10px] text-[var(--accent-teal)] hover:underline">Clear filters</button>
+            )}
+          </aside>
+
+          <div className="flex-1 min-w-0 flex flex-col">
+            <div className="px-4 py-2 border-b border-white/5 flex items-center gap-3 text-[10px] text-slate-500">
+              <label className="flex items-center gap-1.5 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={allVisibleSelected}
+                  onChange={() => setSelected(allVisibleSelected ? new Set() : new Set(visible.map(h => h.id)))}
+                  aria-label="Select all visible results"
+                />
+                {chosen.length > 0 ? `${chosen.length} selected` : `${visible.length} of ${hits.length} results`}
+              </label>
+              {pendingHydration > 0 && <span><i className="fas fa-circle-notch fa-spin mr-1"></i>Loading snippets ({pendingHydration})</span>}
+              <div className="ml-auto flex gap-2">
+                <button
+                  onClick={() => onShowInGraph(targets.map(h => h.id))}
+                  disabled={targets.length === 0}
+                  className="px-3 py-1 rounded border border-white/10 text-slate-300 font-bold uppercase tracking-wider hover:text-white hover:border-white/30 disabled:opacity-40"
+                >
+                  <i className="fas fa-diagram-project mr-1.5"></i>Show {chosen.length > 0 ? 'selected' : 'all'} in graph
+                </button>
+                <button
+                  onClick={() => onAskAI(query, targets)}
+                  disabled={targets.length === 0}
+                  className="px-3 py-1 rounded bg-[var(--accent-teal)]/20 text-[var(--accent-teal)] font-bold uppercase tracking-wider hover:bg-[var(--accent-teal)]/30 disabled:opacity-40"
+                >
+                  <i className="fas fa-wand-magic-sparkles mr-1.5"></i>Ask AI about these
+                </button>
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto">
+              {error != null ? (
+                <div className="p-4"><ErrorMessage error={error} onRetry={() => search(draft || query, k)} /></div>
+              ) : hits.length === 0 ? (
+                <div className="h-full flex items-center justify-center text-[11px] text-slate-600">
+                  {isSearching ? 'Searching…' : query ? 'No semantic matches' : 'Search to see ranked matches'}
+                </div>
+              ) : (
+                <ol>
+                  {visible.map(hit => (
+                    <li key={hit.id} className={`px-4 py-3 border-b border-white/5 ${selected.has(hit.id) ? 'bg-[var(--accent-teal)]/5' : ''}`}>
+                      <div className="flex items-center gap-3">
+                        <input type="checkbox" checked={selected.has(hit.id)} onChange={() => toggleSelected(hit.id)} aria-label={`Select ${hit.name}`} />
+                        <span className="w-6 text-right text-[10px] text-slate-600">#{hit.rank}</span>
+                        <button onClick={() => onOpenHit(hit)} className="min-w-0 text-left group">
+                          <span className="text-[12px] font-bold text-white group-hover:text-[var(--accent-teal)]">{hit.name}</span>
+                          <span className="ml-2 text-[10px] text-slate-500 font-mono truncate">{hit.filePath}{hit.startLine ? `:${hit.startLine}` : ''}</span>
+                        </button>
+                        <span className="px-1.5 rounded bg-white/5 text-[9px] uppercase text-slate-400">{hit.kind ?? '…'}</span>
+                        <div className="ml-auto flex items-center gap-2 shrink-0" title={`Similarity ${hit.score.toFixed(4)}`}>
+                          <div className="w-24 h-1.5 rounded bg-white/5 overflow-hidden">
+                            <div className="h-full bg-[var(--accent-teal)]" style={{ width: `${Math.round(scoreRatio(hit.score, topScore) * 100)}%` }} />
+                          </div>
+                          <span className="w-10 text-right text-[10px] font-mono text-slate-400">{hit.score.toFixed(3)}</span>
+                        </div>
+                      </div>
+                      {hit.snippet ? (
+                        <pre className="mt-2 ml-[3.75rem] p-2 rounded bg-[#0a0e14] border border-white/5 text-[10px] font-mono text-slate-400 whitespace-pre overflow-x-auto max-h-40">{hit.snippet}</pre>
+                      ) : !hit.hydrated ? (
+                        <div className="mt-2 ml-[3.75rem] h-8 rounded bg-white/[0.02] animate-pulse" />
+                      ) : null}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SemanticResultsPanel;
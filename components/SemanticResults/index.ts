@@ -0,0 +1 @@
+export { default as SemanticResultsPanel } from './SemanticResultsPanel';
@@ -1,11 +1,28 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { API_CONFIG } from '../constants';
+import { persistentStore, StoreUsage } from '../utils/persistentStore';
+import { queryCache } from '../utils/queryCache';
+import { getActiveMockBackend } from '../utils/mockBackend';
+import { downloadJson } from '../utils/fileTransfer';
+import type { AuthConfig } from '../utils/authConfig';
+import { ConnectionProfile, createProfileId } from '../utils/connectionProfiles';
+import { logger } from '../logger';
+import RoutingPatternsSection from './RoutingPatternsSection';
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
   dataApiBase: string;
   onDataApiBaseChange: (url: string) => void;
+  authConfig: AuthConfig;
+  onAuthConfigChange: (config: AuthConfig) => void;
+  authRequired: boolean;
+  profiles: ConnectionProfile[];
+  activeProfile: ConnectionProfile | null;
+  /** `activate` marks the profile as the current connection without reconnecting */
+  onSaveProfile: (profile: ConnectionProfile, activate?: boolean) => void;
+  onDeleteProfile: (id: string) => void;
+  onSwitchProfile: (id: string) => void;
   enableAutoClustering: boolean;
   onAutoClusteringToggle: () => void;
   syncError: string | null;
@@ -14,11 +31,368 @@ interface SettingsModalProps {
   onConnect: () => void;
 }
 
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Scope keys are "<backend url>|<project id>"
+const formatScope = (scope: string): string => {
+  const [base = '', project = ''] = scope.split('|');
+  let host = base;
+  try {
+    host = new URL(base).host;
+  } catch {}
+  return project ? `${project} @ ${host}` : host;
+};
+
+/**
+ * Usage of the persisted project cache, with a control to wipe it.
+ */
+const CachedDataSection: React.FC = () => {
+  const [usage, setUsage] = useState<StoreUsage | null>(null);
+  const [isClearing, setIsClearing] = useState(false);
+
+  const refreshUsage = useCallback(() => {
+    persistentStore.usage()
+      .then(setUsage)
+      .catch(err => logger.warn('[SettingsModal] Failed to read cache usage:', err));
+  }, []);
+
+  useEffect(() => {
+    refreshUsage();
+  }, [refreshUsage]);
+
+  const handleClear = useCallback(async () => {
+    setIsClearing(true);
+    await persistentStore.clear();
+    queryCache.clear();
+    setIsClearing(false);
+    refreshUsage();
+  }, [refreshUsage]);
+
+  return (
+    <div className="pt-4 border-t border-white/5">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">
+          Cached Project Data
+        </span>
+        <button
+          onClick={handleClear}
+          disabled={isClearing || !usage || usage.entryCount === 0}
+          className="px-3 py-1 bg-slate-800 text-white rounded-sm text-[9px] font-black uppercase tracking-widest hover:bg-slate-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isClearing ? <><i className="fas fa-spinner fa-spin mr-2"></i>Clearing...</> : 'Clear cached data'}
+        </button>
+      </div>
+      <p className="text-[9px] text-slate-600 leading-normal">
+        {usage
+          ? `${formatBytes(usage.totalBytes)} in ${usage.entryCount} entries (manifests, graphs, file details, hydrated symbols).`
+          : 'Reading cache usage...'}
+      </p>
+      {usage && usage.scopes.length > 0 && (
+        <ul className="mt-2 space-y-1 text-[9px] font-mono text-slate-500">
+          {usage.scopes.slice(0, 5).map(scope => (
+            <li key={scope.scope} className="flex justify-between gap-4">
+              <span className="truncate">{formatScope(scope.scope)}</span>
+              <span className="shrink-0">{formatBytes(scope.bytes)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const AUTH_TYPES: Array<{ value: AuthConfig['type']; label: string }> = [
+  { value: 'none', label: 'None' },
+  { value: 'bearer', label: 'Bearer token' },
+  { value: 'header', label: 'Custom header' },
+  { value: 'cookie', label: 'Cookie (send credentials)' },
+];
+
+const inputClass = 'w-full bg-[var(--bg-main)] border border-white/10 rounded px-3 py-2 text-xs text-white focus:outline-none focus:border-[var(--accent-teal)]/50 font-mono';
+
+/**
+ * Credentials for the current backend. Edits are drafted locally and only
+ * applied (followed by a reconnect) on submit.
+ */
+const AuthSection: React.FC<{
+  authConfig: AuthConfig;
+  onAuthConfigChange: (config: AuthConfig) => void;
+  authRequired: boolean;
+}> = ({ authConfig, onAuthConfigChange, authRequired }) => {
+  const [type, setType] = useState<AuthConfig['type']>(authConfig.type);
+  const [token, setToken] = useState(authConfig.type === 'bearer' ? authConfig.token : '');
+  const [headerName, setHeaderName] = useState(authConfig.type === 'header' ? authConfig.headerName : 'X-API-Key');
+  const [headerValue, setHeaderValue] = useState(authConfig.type === 'header' ? authConfig.value : '');
+
+  const draft: AuthConfig | null = (() => {
+    switch (type) {
+      case 'bearer': return token.trim() ? { type, token: token.trim() } : null;
+      case 'header': return headerName.trim() && headerValue ? { type, headerName: headerName.trim(), value: headerValue } : null;
+      default: return { type };
+    }
+  })();
+
+  return (
+    <div className="pt-4 border-t border-white/5">
+      <label htmlFor="auth-type-select" className="block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2">
+        Authentication
+      </label>
+      {authRequired && (
+        <div role="alert" className="mb-3 p-3 bg-amber-500/10 border border-amber-500/30 rounded text-[10px] text-amber-300">
+          <i className="fas fa-lock mr-2"></i>
+          This backend needs credentials (it answered 401, or they expired with the last session). Enter them and reconnect.
+        </div>
+      )}
+      <div className="space-y-2">
+        <select
+          id="auth-type-select"
+          value={type}
+          onChange={e => setType(e.target.value as AuthConfig['type'])}
+          className={inputClass}
+        >
+          {AUTH_TYPES.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+        </select>
+        {type === 'bearer' && (
+          <input
+            type="password"
+            aria-label="Bearer token"
+            value={token}
+            onChange={e => setToken(e.target.value)}
+            placeholder="Token"
+            autoComplete="off"
+            className={inputClass}
+          />
+        )}
+        {type === 'header' && (
+          <div className="flex gap-2">
+            <input
+              type="text"
+              aria-label="Header name"
+              value={headerName}
+              onChange={e => setHeaderName(e.target.value)}
+              placeholder="Header name"
+              className={`${inputClass} w-2/5`}
+            />
+            <input
+              type="password"
+              aria-label="Header value"
+              value={headerValue}
+              onChange={e => setHeaderValue(e.target.value)}
+              placeholder="Value"
+              autoComplete="off"
+              className={inputClass}
+            />
+          </div>
+        )}
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-[9px] text-slate-600 leading-normal">
+            {type === 'cookie'
+              ? 'Requests include browser cookies for this backend (requires CORS credentials support).'
+              : 'Sent with every API request and AI stream to this backend. Kept for this browser session only.'}
+          </p>
+          <button
+            onClick={() => draft && onAuthConfigChange(draft)}
+            disabled={!draft}
+            className="shrink-0 px-3 py-1 bg-slate-800 text-white rounded-sm text-[9px] font-black uppercase tracking-widest hover:bg-slate-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Apply & Reconnect
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const toSeconds = (ms?: number) => (ms ? String(Math.round(ms / 1000)) : '');
+const toMs = (seconds: string) => {
+  const value = Number(seconds);
+  return seconds.trim() && Number.isFinite(value) && value > 0 ? value * 1000 : undefined;
+};
+
+/**
+ * Saved connections: the form captures the current URL and credentials plus
+ * profile-only settings (default project, timeout overrides).
+ */
+const ProfilesSection: React.FC<{
+  dataApiBase: string;
+  authConfig: AuthConfig;
+  availableProjects: Array<{ id: string; name: string }>;
+  profiles: ConnectionProfile[];
+  activeProfile: ConnectionProfile | null;
+  onSaveProfile: (profile: ConnectionProfile, activate?: boolean) => void;
+  onDeleteProfile: (id: string) => void;
+  onSwitchProfile: (id: string) => void;
+}> = ({ dataApiBase, authConfig, availableProjects, profiles, activeProfile, onSaveProfile, onDeleteProfile, onSwitchProfile }) => {
+  const [name, setName] = useState(activeProfile?.name ?? '');
+  const [defaultProjectId, setDefaultProjectId] = useState(activeProfile?.defaultProjectId ?? '');
+  const [requestTimeout, setRequestTimeout] = useState(toSeconds(activeProfile?.requestTimeoutMs));
+  const [streamTimeout, setStreamTimeout] = useState(toSeconds(activeProfile?.streamTimeoutMs));
+
+  const buildProfile = (id: string): ConnectionProfile => ({
+    id,
+    name: name.trim(),
+    baseUrl: dataApiBase,
+    auth: authConfig,
+    requestTimeoutMs: toMs(requestTimeout),
+    streamTimeoutMs: toMs(streamTimeout),
+    defaultProjectId: defaultProjectId || undefined,
+  });
+
+  return (
+    <div className="pt-4 border-t border-white/5">
+      <span className="block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2">
+        Connection Profiles
+      </span>
+      {profiles.length > 0 && (
+        <ul className="mb-3 space-y-1">
+          {profiles.map(profile => (
+            <li key={profile.id} className="flex items-center gap-2 text-[10px]">
+              <span className={`truncate font-bold ${profile.id === activeProfile?.id ? 'text-[var(--accent-teal)]' : 'text-slate-300'}`}>
+                {profile.name}
+              </span>
+              <span className="truncate font-mono text-slate-600 flex-1">{profile.baseUrl || 'same origin'}</span>
+              {profile.id !== activeProfile?.id && (
+                <button
+                  onClick={() => onSwitchProfile(profile.id)}
+                  className="text-slate-500 hover:text-white bg-transparent border-none p-0.5"
+                  title={`Switch to ${profile.name}`}
+                >
+                  <i className="fas fa-right-left"></i>
+                </button>
+              )}
+              <button
+                onClick={() => onDeleteProfile(profile.id)}
+                className="text-slate-500 hover:text-red-400 bg-transparent border-none p-0.5"
+                aria-label={`Delete profile ${profile.name}`}
+              >
+                <i className="fas fa-trash"></i>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="space-y-2">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            aria-label="Profile name"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder="Profile name (e.g. Staging)"
+            className={inputClass}
+          />
+          <select
+            aria-label="Default project"
+            value={defaultProjectId}
+            onChange={e => setDefaultProjectId(e.target.value)}
+            className={`${inputClass} w-2/5`}
+          >
+            <option value="">First project</option>
+            {defaultProjectId && !availableProjects.some(p => p.id === defaultProjectId) && (
+              <option value={defaultProjectId}>{defaultProjectId}</option>
+            )}
+            {availableProjects.map(project => <option key={project.id} value={project.id}>{project.name}</option>)}
+          </select>
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="number"
+            min={1}
+            aria-label="Request timeout in seconds"
+            value={requestTimeout}
+            onChange={e => setRequestTimeout(e.target.value)}
+            placeholder={`Request timeout (${API_CONFIG.TIMEOUT.DEFAULT / 1000}s)`}
+            className={inputClass}
+          />
+          <input
+            type="number"
+            min={1}
+            aria-label="AI timeout in seconds"
+            value={streamTimeout}
+            onChange={e => setStreamTimeout(e.target.value)}
+            placeholder={`AI timeout (${API_CONFIG.TIMEOUT.LONG / 1000}s)`}
+            className={inputClass}
+          />
+        </div>
+        <div className="flex items-center justify-end gap-2">
+          {activeProfile && (
+            <button
+              onClick={() => onSaveProfile(buildProfile(activeProfile.id))}
+              disabled={!name.trim()}
+              className="px-3 py-1 bg-slate-800 text-white rounded-sm text-[9px] font-black uppercase tracking-widest hover:bg-slate-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Update profile
+            </button>
+          )}
+          <button
+            onClick={() => onSaveProfile(buildProfile(createProfileId()), true)}
+            disabled={!name.trim()}
+            className="px-3 py-1 bg-slate-800 text-white rounded-sm text-[9px] font-black uppercase tracking-widest hover:bg-slate-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save as new profile
+          </button>
+        </div>
+        <p className="text-[9px] text-slate-600 leading-normal">
+          Saves the URL and authentication above. Profiles are stored in this browser; their credentials are kept for this browser session only.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Shown only while the mock backend is installed (VITE_GCA_MOCK).
+ */
+const MockBackendSection: React.FC = () => {
+  const mockBackend = getActiveMockBackend();
+  if (!mockBackend) return null;
+
+  const handleDownload = () => {
+    const recording = mockBackend.getRecording();
+    downloadJson(`gca-fixtures-${recording.recordedAt?.slice(0, 10) ?? 'recording'}.json`, recording);
+  };
+
+  return (
+    <div className="pt-4 border-t border-white/5">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-[10px] font-black uppercase tracking-widest text-amber-400">
+          Mock Backend: {mockBackend.mode}
+        </span>
+        {mockBackend.mode === 'record' && (
+          <button
+            onClick={handleDownload}
+            className="px-3 py-1 bg-slate-800 text-white rounded-sm text-[9px] font-black uppercase tracking-widest hover:bg-slate-700 transition-all"
+          >
+            Download recorded fixtures
+          </button>
+        )}
+      </div>
+      <p className="text-[9px] text-slate-600 leading-normal">
+        {mockBackend.mode === 'replay'
+          ? 'API requests are answered from recorded fixtures; no backend is contacted.'
+          : 'API responses are being captured. Download them to replay this session offline.'}
+      </p>
+    </div>
+  );
+};
+
 const SettingsModal: React.FC<SettingsModalProps> = ({
   isOpen,
   onClose,
   dataApiBase,
   onDataApiBaseChange,
+  authConfig,
+  onAuthConfigChange,
+  authRequired,
+  profiles,
+  activeProfile,
+  onSaveProfile,
+  onDeleteProfile,
+  onSwitchProfile,
   enableAutoClustering,
   onAutoClusteringToggle,
   syncError,
@@ -105,7 +479,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
           </button>
         </div>
 
-        <div className="p-6 space-y-4">
+        <div className="p-6 space-y-4 max-h-[70vh] overflow-y-auto">
           {/* API URL Input */}
           <div>
             <label htmlFor="api-url-input" className="block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2">
@@ -133,6 +507,25 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
             </p>
           </div>
 
+          <AuthSection
+            key={dataApiBase}
+            authConfig={authConfig}
+            onAuthConfigChange={onAuthConfigChange}
+            authRequired={authRequired}
+          />
+
+          <ProfilesSection
+            key={activeProfile?.id ?? 'custom'}
+            dataApiBase={dataApiBase}
+            authConfig={authConfig}
+            availableProjects={availableProjects}
+            profiles={profiles}
+            activeProfile={activeProfile}
+            onSaveProfile={onSaveProfile}
+            onDeleteProfile={onDeleteProfile}
+            onSwitchProfile={onSwitchProfile}
+          />
+
           {/* Auto-Cluster Toggle */}
           <div className="pt-4 border-t border-white/5">
             <div className="flex items-center justify-between mb-2">
@@ -155,6 +548,12 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
             </p>
           </div>
 
+          <RoutingPatternsSection />
+
+          <CachedDataSection />
+
+          <MockBackendSection />
+
           {/* Status Messages */}
           {syncError && (
             <div className="p-3 bg-red-500/10 border border-red-500/30 rounded text-[10px] text-red-400">
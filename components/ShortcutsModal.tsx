@@ -8,15 +8,17 @@ interface ShortcutsModalProps {
 const shortcuts = [
   { key: '?', action: 'Open shortcuts' },
   { key: 'Esc', action: 'Clear selection / close modal' },
-  { key: 'Cmd+K', action: 'Focus search' },
+  { key: 'Cmd+K', action: 'Command palette (symbols, files, actions)' },
   { key: 'Cmd+B', action: 'Toggle code panel' },
+  { key: 'Cmd+Shift+F', action: 'Search all projects' },
+  { key: 'Cmd+Shift+G', action: 'Search in code (text or regex)' },
   { key: 'Cmd+1', action: 'Narrative view' },
   { key: 'Cmd+2', action: 'Discovery view' },
   { key: 'Cmd+3', action: 'Architecture view' },
   { key: 'Cmd+4', action: 'Map view' },
   { key: 'Cmd+5', action: 'Test generation' },
   { key: 'Cmd+6', action: 'Dashboard' },
-  { key: '1-6', action: 'Switch view (bare keys)' },
+  { key: 'Cmd+7', action: 'Datalog query console' },
 ];
 
 const ShortcutsModal: React.FC<ShortcutsModalProps> = ({ isOpen, onClose }) => {
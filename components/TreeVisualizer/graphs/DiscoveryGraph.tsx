@@ -71,6 +71,15 @@ const DiscoveryGraph: React.FC<DiscoveryGraphProps> = ({
 
         if (validNodes.length === 0) return;
 
+        // Ring layout (cycle explorer): nodes carrying _ring are pinned evenly around the center
+        validNodes.forEach((n: any) => {
+            if (!n._ring) return;
+            const radius = Math.max(120, Math.min(width, height) / 2 - 80);
+            const angle = (2 * Math.PI * n._ring.index) / n._ring.size - Math.PI / 2;
+            n.fx = width / 2 + radius * Math.cos(angle);
+            n.fy = height / 2 + radius * Math.sin(angle);
+        });
+
         // --- Render Containers for Architecture Mode ---
         const containerGroup = g.append("g").attr("class", "containers");
         const updateContainers = () => {
@@ -152,20 +161,33 @@ const DiscoveryGraph: React.FC<DiscoveryGraphProps> = ({
 
         const link = g.append("g").selectAll("line").data(simulationLinks).join("line")
             .attr("stroke", (d: any) => {
+                if (d._isCut) return "#ef4444";
+                if (d._highlight) return d._highlight;
                 if (d.relation === 'bridges_to') return OKF_COLORS.BRIDGE_EDGE;
                 if (d.relation === 'okf_link') return OKF_COLORS.LINK_EDGE;
                 if (activeSubMode === 'NARRATIVE' && d._isPath) return "#3b82f6";
                 return getLinkColor(d);
             })
-            .attr("stroke-width", (d: any) => (activeSubMode === 'NARRATIVE' && d._isPath) ? 2.5 : (isVirtualLink(d) ? 2 : 1))
+            .attr("stroke-width", (d: any) => (d._isCut || d._highlight || (activeSubMode === 'NARRATIVE' && d._isPath)) ? 2.5 : (isVirtualLink(d) ? 2 : 1))
             .attr("stroke-opacity", (d: any) => getLinkOpacity(d))
             .attr("stroke-dasharray", (d: any) => {
+                if (d._isCut) return '6,4';
                 if (d.relation === 'bridges_to') return '5,3';
                 if (activeSubMode === 'NARRATIVE' && d._isPath) return null;
                 return isVirtualLink(d) ? "5,5" : null;
             })
             .attr("class", (d: any) => activeSubMode === 'NARRATIVE' && d._isPath ? "marching-ants" : "")
-            .attr("marker-end", activeSubMode === 'NARRATIVE' ? "url(#arrowhead)" : null);
+            .attr("marker-end", (d: any) => (activeSubMode === 'NARRATIVE' || d._highlight) ? "url(#arrowhead)" : null);
+
+        // Call-site line numbers on highlighted links (relationship tool)
+        const linkLabel = g.append("g").selectAll("text")
+            .data(simulationLinks.filter((d: any) => d._highlight && d.line !== undefined))
+            .join("text")
+            .attr("text-anchor", "middle").attr("dy", "-0.4em")
+            .attr("font-size", "8px").attr("font-weight", "700")
+            .attr("fill", (d: any) => d._highlight)
+            .attr("pointer-events", "none")
+            .text((d: any) => `L${d.line}`);
 
         const nodeGroup = g.append("g").selectAll("g").data(validNodes).join("g")
             .attr("class", (d: any) => {
@@ -268,6 +290,9 @@ const DiscoveryGraph: React.FC<DiscoveryGraphProps> = ({
                 .attr("y1", (d: any) => d.source.y)
                 .attr("x2", (d: any) => d.target.x)
                 .attr("y2", (d: any) => d.target.y);
+            linkLabel
+                .attr("x", (d: any) => (d.source.x + d.target.x) / 2)
+                .attr("y", (d: any) => (d.source.y + d.target.y) / 2);
             nodeGroup.attr("transform", (d: any) => `translate(${d.x},${d.y})`);
             updateContainers();
         });
@@ -1,6 +1,14 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { CUSTOM_EVENTS } from '../constants';
 import { useSearchContext } from '../context/SearchContext';
+import { useSettingsContext } from '../context/SettingsContext';
+import { useIntentPreview } from '../hooks/useIntentPreview';
+import { intentOverrideLog } from '../utils/intentOverrides';
+import type { IntentRoute } from '../utils/queryClassifier';
+import type { SavedQuery } from '../utils/savedQueries';
 import ConversationHistory from './ConversationHistory';
+import IntentChip from './IntentChip';
+import SavedQueriesMenu from './SavedQueriesMenu';
 
 interface Suggestion {
   text: string;
@@ -10,8 +18,11 @@ interface Suggestion {
 interface UnifiedSearchBarProps {
   accentColor?: 'blue' | 'teal';
   suggestions: Suggestion[];
-  onSubmit?: (query: string) => void;
+  /** `intent` is the route shown in the intent chip, when showIntent is set */
+  onSubmit?: (query: string, intent?: IntentRoute) => void;
   disabled?: boolean;
+  /** Preview the detected intent while typing and allow overriding it */
+  showIntent?: boolean;
 }
 
 const ACCENT_STYLES = {
@@ -36,16 +47,38 @@ const UnifiedSearchBar: React.FC<UnifiedSearchBarProps> = ({
   suggestions,
   onSubmit,
   disabled = false,
+  showIntent = false,
 }) => {
   const { searchTerm, setSearchTerm } = useSearchContext();
+  const { selectedProjectId } = useSettingsContext();
+  const { preview, isClassifying } = useIntentPreview(searchTerm, showIntent && !disabled);
+  // An override only applies to the query text it was chosen for
+  const [override, setOverride] = useState<{ query: string; route: IntentRoute } | null>(null);
+  const intentOverride = override?.query === searchTerm.trim() ? override.route : null;
+  const [isSavedOpen, setIsSavedOpen] = useState(false);
+  const savedRef = useRef<HTMLDivElement>(null);
 
   const styles = ACCENT_STYLES[accentColor];
 
+  useEffect(() => {
+    if (!isSavedOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (savedRef.current && !savedRef.current.contains(e.target as Node)) setIsSavedOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isSavedOpen]);
+
   const handleSubmit = () => {
     if (searchTerm.trim() && onSubmit && !disabled) {
       const query = searchTerm;
       setSearchTerm('');
-      onSubmit(query);
+      if (!showIntent) {
+        onSubmit(query);
+        return;
+      }
+      if (intentOverride) intentOverrideLog.record(query.trim(), selectedProjectId, preview, intentOverride);
+      onSubmit(query, intentOverride ?? preview.route);
     }
   };
 
@@ -55,6 +88,17 @@ const UnifiedSearchBar: React.FC<UnifiedSearchBarProps> = ({
     }
   };
 
+  // Datalog goes to the query console; questions and path queries go through the normal submit
+  const runSavedQuery = (saved: SavedQuery) => {
+    setIsSavedOpen(false);
+    if (saved.kind === 'datalog') {
+      window.dispatchEvent(new CustomEvent(CUSTOM_EVENTS.OPEN_QUERY_CONSOLE, { detail: { query: saved.query } }));
+    } else if (!disabled && onSubmit) {
+      setSearchTerm('');
+      onSubmit(saved.query);
+    }
+  };
+
   const handleSuggestionClick = (text: string) => {
     if (disabled) return;
     setSearchTerm('');
@@ -77,6 +121,20 @@ const UnifiedSearchBar: React.FC<UnifiedSearchBarProps> = ({
 
       {/* Input Area */}
       <div className="flex items-center gap-3">
+        <div ref={savedRef} className="relative">
+          <button
+            onClick={() => setIsSavedOpen(open => !open)}
+            aria-label="Saved queries"
+            aria-expanded={isSavedOpen}
+            title="Saved queries"
+            className={`px-3 py-3 bg-[#16222a] border border-white/10 rounded-xl text-[12px] ${isSavedOpen ? 'text-white' : 'text-slate-500'} ${styles.hoverColor} ${styles.hoverBorder} transition-all`}
+          >
+            <i className="fas fa-bookmark"></i>
+          </button>
+          {isSavedOpen && (
+            <SavedQueriesMenu currentQuery={searchTerm} onRun={runSavedQuery} onClose={() => setIsSavedOpen(false)} />
+          )}
+        </div>
         <div className="flex-1 relative">
           <input
             type="text"
@@ -86,8 +144,18 @@ const UnifiedSearchBar: React.FC<UnifiedSearchBarProps> = ({
             onKeyDown={handleKeyDown}
             aria-label="Search codebase"
             disabled={disabled}
-            className={`w-full px-4 py-3 bg-[#16222a] border border-white/10 rounded-xl text-[13px] text-white placeholder-slate-500 focus:outline-none ${styles.focusBorder} disabled:opacity-50 disabled:cursor-not-allowed transition-all`}
+            className={`w-full px-4 py-3 ${showIntent && searchTerm.trim() ? 'pr-32' : ''} bg-[#16222a] border border-white/10 rounded-xl text-[13px] text-white placeholder-slate-500 focus:outline-none ${styles.focusBorder} disabled:opacity-50 disabled:cursor-not-allowed transition-all`}
           />
+          {showIntent && searchTerm.trim() && !disabled && (
+            <div className="absolute right-3 top-1/2 -translate-y-1/2">
+              <IntentChip
+                preview={preview}
+                override={intentOverride}
+                isClassifying={isClassifying}
+                onOverride={route => setOverride(route ? { query: searchTerm.trim(), route } : null)}
+              />
+            </div>
+          )}
         </div>
 
         <button
@@ -1,6 +1,6 @@
 import React from 'react';
 
-type ViewMode = 'map' | 'discovery' | 'architecture' | 'narrative' | 'test' | 'dashboard';
+type ViewMode = 'map' | 'discovery' | 'architecture' | 'narrative' | 'test' | 'dashboard' | 'query';
 
 interface ViewModeSwitcherProps {
   viewMode: ViewMode;
@@ -38,6 +38,11 @@ const MODE_CONFIG: Record<ViewMode, { label: string; icon: string; tooltip: stri
     icon: 'fa-chart-pie',
     tooltip: 'Health metrics & risk leaderboard (6)',
   },
+  query: {
+    label: 'QUERY',
+    icon: 'fa-terminal',
+    tooltip: 'Datalog query console (7)',
+  },
 };
 
 const VIEW_MODES: ViewMode[] = [
@@ -47,6 +52,7 @@ const VIEW_MODES: ViewMode[] = [
   'map',
   'test',
   'dashboard',
+  'query',
 ];
 
 const ViewModeSwitcher: React.FC<ViewModeSwitcherProps> = ({ viewMode, onViewModeChange }) => {
@@ -0,0 +1,26 @@
+import React from 'react';
+
+interface AuthRequiredBannerProps {
+  onSignIn: () => void;
+  onRetry: () => void;
+}
+
+/**
+ * Stays up after the credentials prompt is dismissed, so a 401 never leaves
+ * auto-sync silently paused.
+ */
+export const AuthRequiredBanner: React.FC<AuthRequiredBannerProps> = ({ onSignIn, onRetry }) => (
+  <div
+    role="status"
+    className="flex items-center gap-2 px-4 py-1.5 text-[11px] bg-amber-500/10 border-b border-amber-500/20 text-amber-300 shrink-0"
+  >
+    <i className="fas fa-lock"></i>
+    <span className="flex-1">The backend requires credentials.</span>
+    <button onClick={onSignIn} className="px-2 py-0.5 rounded border border-amber-500/30 hover:bg-amber-500/10">
+      Sign in
+    </button>
+    <button onClick={onRetry} className="px-2 py-0.5 rounded border border-amber-500/30 hover:bg-amber-500/10">
+      Retry
+    </button>
+  </div>
+);
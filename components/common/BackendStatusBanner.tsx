@@ -0,0 +1,32 @@
+import React, { useCallback } from 'react';
+import { useBackendStatus } from '../../hooks/useBackendStatus';
+import { probeBackend } from '../../services/graphService';
+
+interface BackendStatusBannerProps {
+  dataApiBase: string;
+}
+
+/**
+ * Single app-wide notice while the backend's circuit breaker is open.
+ * Also owns the reconnect probe, so mount it once.
+ */
+export const BackendStatusBanner: React.FC<BackendStatusBannerProps> = ({ dataApiBase }) => {
+  const probe = useCallback(() => probeBackend(dataApiBase), [dataApiBase]);
+  const { isUnavailable, retryInSeconds } = useBackendStatus(dataApiBase, probe);
+
+  if (!isUnavailable) return null;
+
+  return (
+    <div
+      role="status"
+      className="flex items-center gap-2 px-4 py-1.5 text-[11px] bg-amber-500/10 border-b border-amber-500/20 text-amber-300 shrink-0"
+    >
+      <i className="fas fa-plug-circle-exclamation"></i>
+      <span>
+        {retryInSeconds > 0
+          ? `Backend unavailable, retrying in ${retryInSeconds}s`
+          : 'Backend unavailable, reconnecting…'}
+      </span>
+    </div>
+  );
+};
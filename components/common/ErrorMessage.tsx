@@ -1,14 +1,19 @@
 import React from 'react';
+import { describeError } from '../../services/apiErrors';
 
 interface ErrorMessageProps {
-  message: string;
+  message?: string;
+  /** Error thrown by the service layer; rendered as title, hint and request ID */
+  error?: unknown;
   onRetry?: () => void;
 }
 
 /**
  * An error message component with optional retry button.
  */
-export const ErrorMessage: React.FC<ErrorMessageProps> = ({ message, onRetry }) => {
+export const ErrorMessage: React.FC<ErrorMessageProps> = ({ message, error, onRetry }) => {
+  const description = error != null ? describeError(error) : null;
+
   return (
     <div
       className="error-message"
@@ -24,7 +29,17 @@ export const ErrorMessage: React.FC<ErrorMessageProps> = ({ message, onRetry })
         gap: '12px'
       }}
     >
-      <span>{message}</span>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+        <span>{message ?? description?.title}</span>
+        {description?.hint && (
+          <span style={{ fontSize: '12px', opacity: 0.8 }}>{description.hint}</span>
+        )}
+        {description?.requestId && (
+          <span style={{ fontSize: '11px', fontFamily: 'monospace', opacity: 0.7 }}>
+            Request ID: {description.requestId}
+          </span>
+        )}
+      </div>
       {onRetry && (
         <button
           onClick={onRetry}
@@ -0,0 +1,86 @@
+import React, { useMemo, useState } from 'react';
+import { rankMatches } from '../../utils/fuzzyMatch';
+
+interface SymbolPickerProps {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  /** Candidate ids, usually from manifestSymbolIds */
+  symbols: string[];
+  placeholder?: string;
+  autoFocus?: boolean;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * A text input for a symbol id with fuzzy suggestions. Free text is kept, so
+ * ids missing from the manifest can still be entered.
+ */
+export const SymbolPicker: React.FC<SymbolPickerProps> = ({ label, value, onChange, symbols, placeholder = 'path/to/file.go:Symbol', autoFocus }) => {
+  const [focused, setFocused] = useState(false);
+  const [active, setActive] = useState(0);
+
+  const suggestions = useMemo(() => {
+    if (!focused || !value.trim()) return [];
+    return rankMatches(value, symbols, s => s, MAX_SUGGESTIONS).map(r => r.item).filter(s => s !== value);
+  }, [value, symbols, focused]);
+
+  const pick = (symbol: string) => {
+    onChange(symbol);
+    setFocused(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActive(i => (i + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      pick(suggestions[Math.min(active, suggestions.length - 1)]!);
+    }
+  };
+
+  return (
+    <label className="block min-w-0">
+      <span className="block text-[9px] font-black uppercase tracking-widest text-slate-500 mb-1">{label}</span>
+      <div className="relative">
+        <input
+          value={value}
+          onChange={e => { onChange(e.target.value); setActive(0); setFocused(true); }}
+          onFocus={() => setFocused(true)}
+          onBlur={() => setFocused(false)}
+          onKeyDown={handleKeyDown}
+          placeholder={placeholder}
+          autoFocus={autoFocus}
+          spellCheck={false}
+          className="w-full bg-[var(--bg-main)] border border-white/10 rounded px-2 py-1.5 text-[11px] text-white font-mono focus:outline-none focus:border-[var(--accent-teal)]/50"
+        />
+        {suggestions.length > 0 && (
+          <ul role="listbox" className="absolute z-20 left-0 right-0 mt-1 max-h-48 overflow-y-auto rounded border border-white/10 bg-[var(--bg-surface)] shadow-xl py-1">
+            {suggestions.map((s, i) => (
+              <li
+                key={s}
+                role="option"
+                aria-selected={i === active}
+                // Keep the input focused until the value is applied
+                onMouseDown={e => {
+                  e.preventDefault();
+                  pick(s);
+                }}
+                className={`px-2 py-1 text-[10px] font-mono cursor-pointer truncate ${i === active ? 'bg-white/10 text-white' : 'text-slate-300 hover:bg-white/10'}`}
+                title={s}
+              >
+                {s}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </label>
+  );
+};
+
+export default SymbolPicker;
@@ -1,2 +1,5 @@
 export { LoadingSpinner } from './LoadingSpinner';
 export { ErrorMessage } from './ErrorMessage';
+export { BackendStatusBanner } from './BackendStatusBanner';
+export { AuthRequiredBanner } from './AuthRequiredBanner';
+export { SymbolPicker } from './SymbolPicker';
@@ -5,6 +5,35 @@ export const API_CONFIG = {
     SHORT: 5000,
     LONG: 35000,
   },
+  // Retries apply to idempotent GETs only; attempts include the first try
+  RETRY: {
+    MAX_ATTEMPTS: 3,
+    BASE_DELAY_MS: 500,
+    MAX_DELAY_MS: 8000,
+  },
+  // Per-base-URL breaker: opens after consecutive failed requests, cooldown doubles while the backend stays down
+  CIRCUIT_BREAKER: {
+    FAILURE_THRESHOLD: 3,
+    COOLDOWN_MS: 10000,
+    MAX_COOLDOWN_MS: 60000,
+  },
+  // GET response cache: served as-is while fresh, served then revalidated while stale, dropped after TTL
+  QUERY_CACHE: {
+    MAX_ENTRIES: 500,
+    FRESH_MS: 30 * 1000,
+    TTL_MS: 10 * 60 * 1000,
+  },
+};
+
+// IndexedDB cache of project data (manifest, graph, file details, hydrated symbols)
+export const STORAGE_CONFIG = {
+  DB_NAME: 'gca-explorer-cache',
+  MAX_BYTES: 50 * 1024 * 1024,
+  MAX_ENTRY_BYTES: 10 * 1024 * 1024,
+  // After eviction the store is trimmed to this fraction of MAX_BYTES, so it doesn't evict on every write
+  EVICT_TO_RATIO: 0.8,
+  // Symbols and file details older than this are refetched rather than served from disk
+  MAX_AGE_MS: 24 * 60 * 60 * 1000,
 };
 
 export const UI_CONFIG = {
@@ -39,6 +68,8 @@ export const CUSTOM_EVENTS = {
   OPEN_SETTINGS: 'gca:open-settings',
   REFRESH_DASHBOARD: 'gca:refresh-dashboard',
   NODE_SELECTED: 'gca:node-selected',
+  /** detail: { query: string } — opens the Datalog query console with the query in a new tab */
+  OPEN_QUERY_CONSOLE: 'gca:open-query-console',
 } as const;
 
 export const INTENT_TYPES = {
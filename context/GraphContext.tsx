@@ -1,4 +1,4 @@
-import React, { createContext, useContext, useState, useMemo, ReactNode } from 'react';
+import React, { createContext, useCallback, useContext, useState, useMemo, ReactNode } from 'react';
 import { ASTNode, FlatGraph, GraphNode, GraphLink } from '../types';
 import { FileDetailsResponse } from '../services/graphService';
 
@@ -23,6 +23,8 @@ interface GraphState {
   setHydratingNodeId: React.Dispatch<React.SetStateAction<string | null>>;
   symbolCache: Map<string, GraphNode>;
   setSymbolCache: React.Dispatch<React.SetStateAction<Map<string, GraphNode>>>;
+  /** Drop all graph data and selection, e.g. when switching backends */
+  resetGraphState: () => void;
 }
 
 const GraphContext = createContext<GraphState | null>(null);
@@ -36,12 +38,8 @@ export const useGraphContext = () => {
 export const GraphProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const SAMPLE_DATA: FlatGraph = { nodes: [], links: [] };
 
-  const [astData, setAstData] = useState<ASTNode | FlatGraph>(() => {
-    try {
-      const saved = sessionStorage.getItem('gca_ast_data');
-      return saved ? JSON.parse(saved) : SAMPLE_DATA;
-    } catch { return SAMPLE_DATA; }
-  });
+  // Restored from IndexedDB during project sync (useApiSync)
+  const [astData, setAstData] = useState<ASTNode | FlatGraph>(SAMPLE_DATA);
   const [fileScopedNodes, setFileScopedNodes] = useState<GraphNode[]>([]);
   const [fileScopedLinks, setFileScopedLinks] = useState<GraphLink[]>([]);
   const [expandedFileIds, setExpandedFileIds] = useState<Set<string>>(new Set());
@@ -52,6 +50,19 @@ export const GraphProvider: React.FC<{ children: ReactNode }> = ({ children }) =
   const [hydratingNodeId, setHydratingNodeId] = useState<string | null>(null);
   const [symbolCache, setSymbolCache] = useState<Map<string, GraphNode>>(new Map());
 
+  const resetGraphState = useCallback(() => {
+    setAstData({ nodes: [], links: [] });
+    setFileScopedNodes([]);
+    setFileScopedLinks([]);
+    setExpandedFileIds(new Set());
+    setFileDetailsCache(new Map());
+    setExpandingFileId(null);
+    setHighlightedNodeId(null);
+    setSelectedNode(null);
+    setHydratingNodeId(null);
+    setSymbolCache(new Map());
+  }, []);
+
   const value = useMemo(() => ({
     astData, setAstData,
     fileScopedNodes, setFileScopedNodes,
@@ -63,7 +74,8 @@ export const GraphProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     selectedNode, setSelectedNode,
     hydratingNodeId, setHydratingNodeId,
     symbolCache, setSymbolCache,
-  }), [astData, fileScopedNodes, fileScopedLinks, expandedFileIds, fileDetailsCache, expandingFileId, highlightedNodeId, selectedNode, hydratingNodeId, symbolCache]);
+    resetGraphState,
+  }), [astData, fileScopedNodes, fileScopedLinks, expandedFileIds, fileDetailsCache, expandingFileId, highlightedNodeId, selectedNode, hydratingNodeId, symbolCache, resetGraphState]);
 
   return (
     <GraphContext.Provider value={value}>
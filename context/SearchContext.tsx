@@ -2,6 +2,7 @@ import React, { createContext, useContext, useState, useCallback, useEffect, use
 import { FlatGraph } from '../types';
 import { ConversationTurn } from '../services/geminiService';
 import { logger } from '../logger';
+import { readInitialUrlState } from '../utils/urlState';
 
 const CONVERSATION_HISTORIES_KEY = 'gca-conversation-histories';
 
@@ -21,6 +22,7 @@ interface SearchState {
   conversationHistory: ConversationTurn[];
   addConversationTurn: (turn: ConversationTurn) => void;
   clearConversationHistory: () => void;
+  restoreConversationHistory: (projectId: string, turns: ConversationTurn[]) => void;
 }
 
 const SearchContext = createContext<SearchState | null>(null);
@@ -58,8 +60,8 @@ interface SearchProviderProps extends React.PropsWithChildren {
 }
 
 export const SearchProvider: React.FC<SearchProviderProps> = ({ children, projectId }) => {
-  const [searchTerm, setSearchTerm] = useState('');
-  const [lastExecutedQuery, setLastExecutedQuery] = useState('');
+  const [searchTerm, setSearchTerm] = useState(() => readInitialUrlState().query || '');
+  const [lastExecutedQuery, setLastExecutedQuery] = useState(() => readInitialUrlState().query || '');
   const [queryResults, setQueryResults] = useState<FlatGraph | null>(null);
   const [isSearching, setIsSearching] = useState(false);
   const [searchError, setSearchError] = useState<string | null>(null);
@@ -97,6 +99,19 @@ export const SearchProvider: React.FC<SearchProviderProps> = ({ children, projec
     }
   }, [projectId, histories]);
 
+  // Stored per project so it survives the project switch that usually accompanies a restore
+  const restoreConversationHistory = useCallback((targetProjectId: string, turns: ConversationTurn[]) => {
+    const restored = turns.slice(-9);
+    setHistories(prev => {
+      const newHistories = { ...prev, [targetProjectId]: restored };
+      saveHistories(newHistories);
+      return newHistories;
+    });
+    if (targetProjectId === projectId) {
+      setCurrentHistory(restored);
+    }
+  }, [projectId]);
+
   const value = useMemo(() => ({
     searchTerm, setSearchTerm,
     lastExecutedQuery, setLastExecutedQuery,
@@ -107,7 +122,8 @@ export const SearchProvider: React.FC<SearchProviderProps> = ({ children, projec
     conversationHistory: currentHistory,
     addConversationTurn,
     clearConversationHistory,
-  }), [searchTerm, lastExecutedQuery, queryResults, isSearching, searchError, searchStatus, currentHistory, addConversationTurn, clearConversationHistory]);
+    restoreConversationHistory,
+  }), [searchTerm, lastExecutedQuery, queryResults, isSearching, searchError, searchStatus, currentHistory, addConversationTurn, clearConversationHistory, restoreConversationHistory]);
 
   return (
     <SearchContext.Provider value={value}>
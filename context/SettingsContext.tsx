@@ -1,5 +1,8 @@
-import React, { createContext, useContext, useState, useMemo, ReactNode } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useState, useMemo, ReactNode } from 'react';
 import { API_CONFIG } from '../constants';
+import { readInitialUrlState } from '../utils/urlState';
+import { getMockMode } from '../utils/mockBackend';
+import { AuthConfig, NO_AUTH, authRegistry, isUnderBaseUrl, normalizeBaseUrl } from '../utils/authConfig';
 
 interface ProjectInfo {
   id: string;
@@ -10,6 +13,13 @@ interface ProjectInfo {
 interface SettingsState {
   dataApiBase: string;
   setDataApiBase: React.Dispatch<React.SetStateAction<string>>;
+  /** Credentials for the current dataApiBase */
+  authConfig: AuthConfig;
+  /** Set credentials for `baseUrl`, defaulting to the current dataApiBase */
+  setAuthConfig: (config: AuthConfig, baseUrl?: string) => void;
+  /** Set when the backend answered 401; cleared once credentials change */
+  authRequired: boolean;
+  setAuthRequired: React.Dispatch<React.SetStateAction<boolean>>;
   currentProject: string;
   setCurrentProject: React.Dispatch<React.SetStateAction<string>>;
   availableProjects: ProjectInfo[];
@@ -39,6 +49,8 @@ export const useSettingsContext = () => {
 export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [dataApiBase, setDataApiBase] = useState<string>(() => {
     const envBase = import.meta.env.VITE_GCA_API_BASE_URL || import.meta.env.GCA_API_BASE_URL;
+    // The mock backend answers same-origin /api requests; a non-empty base lets auto-sync start
+    if (getMockMode() === 'replay') return window.location.origin;
     // In dev mode, use empty string (relative URL) so Vite proxy handles /api and /v1 requests.
     // This avoids CORS issues and works even if backend is on a different port.
     if (import.meta.env.DEV) return '';
@@ -48,9 +60,24 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
     return sessionStorage.getItem('gca_api_base_v2') || envBase || API_CONFIG.DEFAULT_BASE_URL;
   });
 
+  const [authConfigs, setAuthConfigs] = useState<Record<string, AuthConfig>>(() => authRegistry.getAll());
+  const [authRequired, setAuthRequired] = useState(false);
+  const authConfig = authConfigs[normalizeBaseUrl(dataApiBase)] ?? NO_AUTH;
+
+  const setAuthConfig = useCallback((config: AuthConfig, baseUrl: string = dataApiBase) => {
+    authRegistry.set(baseUrl, config);
+    setAuthConfigs(authRegistry.getAll());
+    setAuthRequired(false);
+  }, [dataApiBase]);
+
+  // Only a 401 from the backend in use prompts; other backends (e.g. cross-project search) report their own errors
+  useEffect(() => authRegistry.onUnauthorized((_baseUrl, url) => {
+    if (isUnderBaseUrl(url, dataApiBase)) setAuthRequired(true);
+  }), [dataApiBase]);
+
   const [currentProject, setCurrentProject] = useState('GCA-Sandbox-Default');
   const [availableProjects, setAvailableProjects] = useState<ProjectInfo[]>([]);
-  const [selectedProjectId, setSelectedProjectId] = useState(() => sessionStorage.getItem('gca_selected_project_v2') || '');
+  const [selectedProjectId, setSelectedProjectId] = useState(() => readInitialUrlState().projectId || sessionStorage.getItem('gca_selected_project_v2') || '');
   const [isDataSyncing, setIsDataSyncing] = useState(false);
   const [syncError, setSyncError] = useState<string | null>(null);
   const [availablePredicates, setAvailablePredicates] = useState<string[]>([]);
@@ -64,6 +91,8 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
 
   const value = useMemo(() => ({
     dataApiBase, setDataApiBase,
+    authConfig, setAuthConfig,
+    authRequired, setAuthRequired,
     currentProject, setCurrentProject,
     availableProjects, setAvailableProjects,
     selectedProjectId, setSelectedProjectId,
@@ -72,7 +101,7 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
     availablePredicates, setAvailablePredicates,
     enableAutoClustering, setEnableAutoClustering,
     sandboxFiles, setSandboxFiles,
-  }), [dataApiBase, currentProject, availableProjects, selectedProjectId, isDataSyncing, syncError, availablePredicates, enableAutoClustering, sandboxFiles]);
+  }), [dataApiBase, authConfig, setAuthConfig, authRequired, currentProject, availableProjects, selectedProjectId, isDataSyncing, syncError, availablePredicates, enableAutoClustering, sandboxFiles]);
 
   return (
     <SettingsContext.Provider value={value}>
@@ -1,4 +1,5 @@
 import React, { createContext, useContext, useState, useCallback, useRef, useEffect, useMemo, ReactNode } from 'react';
+import { formatError } from '../services/apiErrors';
 
 export interface Toast {
   id: string;
@@ -15,6 +16,8 @@ interface ToastContextType {
   error: (message: string) => void;
   info: (message: string) => void;
   warning: (message: string) => void;
+  /** Error toast for a failed API call, with the actionable description from formatError */
+  apiError: (err: unknown, action?: string) => void;
 }
 
 const ToastContext = createContext<ToastContextType | undefined>(undefined);
@@ -57,10 +60,11 @@ export const ToastProvider: React.FC<{ children: ReactNode }> = ({ children }) =
   const error = useCallback((message: string) => addToast(message, 'error', 6000), [addToast]);
   const info = useCallback((message: string) => addToast(message, 'info'), [addToast]);
   const warning = useCallback((message: string) => addToast(message, 'warning'), [addToast]);
+  const apiError = useCallback((err: unknown, action?: string) => addToast(formatError(err, action), 'error', 8000), [addToast]);
 
   const value = useMemo(() => ({
-    toasts, addToast, removeToast, success, error, info, warning,
-  }), [toasts, addToast, removeToast, success, error, info, warning]);
+    toasts, addToast, removeToast, success, error, info, warning, apiError,
+  }), [toasts, addToast, removeToast, success, error, info, warning, apiError]);
 
   return (
     <ToastContext.Provider value={value}>
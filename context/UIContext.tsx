@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useState, useMemo, ReactNode } from 'react';
+import { readInitialUrlState } from '../utils/urlState';
 
-export type ViewMode = 'map' | 'discovery' | 'architecture' | 'narrative' | 'test' | 'dashboard';
+export type ViewMode = 'map' | 'discovery' | 'architecture' | 'narrative' | 'test' | 'dashboard' | 'query';
 export type SubMode = 'NARRATIVE' | 'ARCHITECTURE' | 'ENTROPY';
 
 interface UIState {
@@ -31,14 +32,15 @@ export const useUIContext = () => {
 };
 
 export const UIProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [viewMode, setViewMode] = useState<ViewMode>('narrative');
-  const [activeSubMode, setActiveSubMode] = useState<SubMode>('NARRATIVE');
+  const [viewMode, setViewMode] = useState<ViewMode>(() => readInitialUrlState().viewMode ?? 'narrative');
+  const [activeSubMode, setActiveSubMode] = useState<SubMode>(() => readInitialUrlState().subMode ?? 'NARRATIVE');
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isLeftSidebarOpen, setIsLeftSidebarOpen] = useState(true);
   const [isRightSidebarOpen, setIsRightSidebarOpen] = useState(true);
   const [isCodeCollapsed, setIsCodeCollapsed] = useState(false);
   const [isLandingView, setIsLandingView] = useState<boolean>(() => {
-    return !sessionStorage.getItem('gca_selected_project_v2');
+    // Deep links to a project skip the landing page
+    return !readInitialUrlState().projectId && !sessionStorage.getItem('gca_selected_project_v2');
   });
   const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
 
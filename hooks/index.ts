@@ -12,3 +12,20 @@ export { useQueryContext } from './useQueryContext';
 export { useIntentRouter } from './useIntentRouter';
 export { useExploreGraph } from './useExploreGraph';
 export { useOKFData, useOKFBridgesForSymbol } from './useOKFData';
+export { useUrlSync } from './useUrlSync';
+export { useSessionFile } from './useSessionFile';
+export { useBackendStatus } from './useBackendStatus';
+export { useGraphPersistence } from './useGraphPersistence';
+export { useConnectionProfiles } from './useConnectionProfiles';
+export { useNetworkLog } from './useNetworkLog';
+export { useQueryConsole } from './useQueryConsole';
+export { useSavedQueries } from './useSavedQueries';
+export { useIntentPreview } from './useIntentPreview';
+export { useSemanticResults } from './useSemanticResults';
+export { useCrossProjectSearch } from './useCrossProjectSearch';
+export { useCodeSearch } from './useCodeSearch';
+export { useCycles } from './useCycles';
+export { useRelationship } from './useRelationship';
+export { useFlowTrace } from './useFlowTrace';
+export { useImpactAnalysis } from './useImpactAnalysis';
+export { useCallHierarchy } from './useCallHierarchy';
@@ -6,12 +6,19 @@ import { useCallback, useEffect, useRef } from 'react';
 import { useSettingsContext } from '../context/SettingsContext';
 import { useGraphContext } from '../context/GraphContext';
 import { logger } from '../logger';
-import { fetchWithTimeout } from '../utils/fetchWithTimeout';
+import { executeQuery, fetchFiles, fetchProjects, ProjectMetadata } from '../services/graphService';
+import { formatError, GcaApiError } from '../services/apiErrors';
+import { persistentStore } from '../utils/persistentStore';
+import { queryScope } from '../utils/queryCache';
+import { FlatGraph } from '../types';
+
+// fetchWithTimeout has already raised the re-authentication prompt for these
+const isUnauthorized = (err: unknown) => err instanceof GcaApiError && err.status === 401;
 
 export const useApiSync = () => {
     const { enableAutoClustering } = useSettingsContext();
     const { setAstData, setFileScopedNodes, setFileScopedLinks, setSelectedNode, setExpandedFileIds } = useGraphContext();
-    const { setIsDataSyncing, setSyncError, setAvailableProjects, setSelectedProjectId, setCurrentProject, setSandboxFiles, dataApiBase } = useSettingsContext();
+    const { setIsDataSyncing, setSyncError, setAvailableProjects, setSelectedProjectId, setCurrentProject, setSandboxFiles, dataApiBase, selectedProjectId } = useSettingsContext();
 
     // AbortController to cancel in-flight requests on project switch or unmount
     const abortRef = useRef<AbortController | null>(null);
@@ -54,35 +61,27 @@ export const useApiSync = () => {
             }
 
             // Fetch all projects
-            const projectsUrl = `${cleanBase}/api/v1/projects`;
-            logger.log('[Sync] Fetching projects from:', projectsUrl);
+            logger.log('[Sync] Fetching projects from:', cleanBase);
 
-            let projectsRes: Response;
+            let projects: ProjectMetadata[];
             try {
-                projectsRes = await fetchWithTimeout(projectsUrl, {}, 30000, signal);
-            } catch (fetchErr: any) {
-                const msg = fetchErr.name === 'AbortError'
-                    ? `Connection timed out - is the backend running at ${cleanBase}?`
-                    : `Cannot reach backend at ${cleanBase}: ${fetchErr.message}`;
-                logger.error('[Sync] Network error:', msg);
-                setSyncError(msg);
-                setIsDataSyncing(false);
-                return;
-            }
-
-            if (!projectsRes.ok) {
-                const errBody = await projectsRes.text().catch(() => '');
-                setSyncError(`Failed to fetch projects (${projectsRes.status}): ${errBody || projectsRes.statusText}`);
+                projects = await fetchProjects(cleanBase, signal);
+            } catch (fetchErr) {
+                if (!signal.aborted && !isUnauthorized(fetchErr)) {
+                    const msg = formatError(fetchErr, `Connecting to ${cleanBase}`);
+                    logger.error('[Sync] Fetching projects failed:', msg);
+                    setSyncError(msg);
+                }
                 setIsDataSyncing(false);
                 return;
             }
 
-            const projects = await projectsRes.json() as Array<{ id: string; name: string; description?: string }>;
             logger.log('[Sync] Projects received:', projects);
             setAvailableProjects(projects);
 
-            // Auto-select first project if none specified
-            const targetProjectId = projectId || (projects.length > 0 ? projects[0]!.id : null);
+            // Keep the current (e.g. deep-linked) project if it exists, else auto-select the first one
+            const currentProjectId = selectedProjectId && projects.some(p => p.id === selectedProjectId) ? selectedProjectId : null;
+            const targetProjectId = projectId || currentProjectId || (projects.length > 0 ? projects[0]!.id : null);
             logger.log('[Sync] Target project:', targetProjectId, 'from list:', projects.map(p => p.id));
 
             if (!targetProjectId) {
@@ -95,17 +94,24 @@ export const useApiSync = () => {
             logger.log('[Sync] Set selectedProjectId to:', targetProjectId);
             setCurrentProject(projects.find(p => p.id === targetProjectId)?.name || targetProjectId);
 
+            // Show the graph persisted from a previous visit while fresh data loads
+            const persistedGraph = await persistentStore.get<FlatGraph>(queryScope(cleanBase, targetProjectId), 'graph');
+            if (persistedGraph && !signal.aborted) {
+                logger.log('[Sync] Restored persisted graph:', persistedGraph.nodes.length, 'nodes');
+                setAstData(persistedGraph);
+            }
+
             // Fetch files for the project
-            const filesUrl = `${cleanBase}/api/v1/files?project=${encodeURIComponent(targetProjectId)}`;
-            const filesRes = await fetchWithTimeout(filesUrl, {}, 30000, signal);
-            if (!filesRes.ok) {
-                setSyncError(`Failed to fetch files: ${filesRes.statusText}`);
+            let filesList: string[];
+            try {
+                filesList = await fetchFiles(cleanBase, targetProjectId, signal);
+            } catch (filesErr) {
+                if (!signal.aborted && !isUnauthorized(filesErr)) {
+                    setSyncError(formatError(filesErr, 'Fetching files'));
+                }
                 setIsDataSyncing(false);
                 return;
             }
-
-            const filesData = await filesRes.json();
-            const filesList = Array.isArray(filesData) ? filesData : (filesData.files || []);
             setSandboxFiles(prev => ({ ...prev, 'files.json': filesList }));
 
             // Build AST from files list
@@ -147,46 +153,38 @@ export const useApiSync = () => {
             // Fetch enriched AST from query endpoint
             try {
                 // Change query to 'imports' to get file-to-file dependencies
-                const queryRes = await fetchWithTimeout(`${cleanBase}/api/v1/query?project=${encodeURIComponent(targetProjectId)}&hydrate=true`, {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({ query: 'triples(?s, "imports", ?o)' })
-                }, 30000, signal);
-
-                if (queryRes.ok) {
-                    const ast = await queryRes.json();
-                    if (ast && ast.nodes && ast.nodes.length > 0) {
-                        // If the response is clustered, use it for Graph View (fileScopedNodes)
-                        // but KEEP the file list for Navigator (astData)
-                        const isClustered = ast.nodes.some((n: any) => n.kind === 'cluster' || n.id.startsWith('cluster_'));
-
-                        if (isClustered) {
-                            logger.log('[ApiSync] Received clustered graph. Updating Visualizer only.');
-                            // Clustered graphs usually work best in Map or Architecture mode
+                const ast = await executeQuery(cleanBase, targetProjectId, 'triples(?s, "imports", ?o)', true, signal);
+                if (ast.nodes.length > 0) {
+                    // If the response is clustered, use it for Graph View (fileScopedNodes)
+                    // but KEEP the file list for Navigator (astData)
+                    const isClustered = ast.nodes.some((n: any) => n.kind === 'cluster' || n.id.startsWith('cluster_'));
+
+                    if (isClustered) {
+                        logger.log('[ApiSync] Received clustered graph. Updating Visualizer only.');
+                        // Clustered graphs usually work best in Map or Architecture mode
+                        // Keep narrative view as default - don't force map mode
+                        // setViewMode('map');
+                        setFileScopedNodes(ast.nodes.map((n: any) => ({ ...n, _project: targetProjectId })));
+                        setFileScopedLinks(ast.links || []);
+                        // Do NOT update astData (keep files for navigator)
+                    } else {
+                        // ENFORCE CLUSTERING if new enriched data is large
+                        if (ast.nodes.length > 300 && enableAutoClustering) {
                             // Keep narrative view as default - don't force map mode
                             // setViewMode('map');
-                            setFileScopedNodes(ast.nodes.map((n: any) => ({ ...n, _project: targetProjectId })));
-                            setFileScopedLinks(ast.links || []);
-                            // Do NOT update astData (keep files for navigator)
-                        } else {
-                            // ENFORCE CLUSTERING if new enriched data is large
-                            if (ast.nodes.length > 300 && enableAutoClustering) {
-                                // Keep narrative view as default - don't force map mode
-                                // setViewMode('map');
-                            }
-
-                            // Otherwise, enrich existing file nodes (keep graph focused on file list)
-                            setAstData(prev => {
-                                if (!prev || !('nodes' in prev)) return prev;
-                                const astNodes = (ast as any).nodes as any[] || [];
-                                const astLinks = (ast as any).links as any[] || [];
-                                const enrichedNodes = prev.nodes.map((node: any) => {
-                                    const enrichedNode = astNodes.find((n: any) => n.id === node.id || n.id === node._filePath);
-                                    return enrichedNode ? { ...node, ...enrichedNode, _project: targetProjectId } : { ...node, _project: targetProjectId };
-                                });
-                                return { nodes: enrichedNodes, links: astLinks.length > 0 ? astLinks : prev.links };
-                            });
                         }
+
+                        // Otherwise, enrich existing file nodes (keep graph focused on file list)
+                        setAstData(prev => {
+                            if (!prev || !('nodes' in prev)) return prev;
+                            const astNodes = (ast as any).nodes as any[] || [];
+                            const astLinks = (ast as any).links as any[] || [];
+                            const enrichedNodes = prev.nodes.map((node: any) => {
+                                const enrichedNode = astNodes.find((n: any) => n.id === node.id || n.id === node._filePath);
+                                return enrichedNode ? { ...node, ...enrichedNode, _project: targetProjectId } : { ...node, _project: targetProjectId };
+                            });
+                            return { nodes: enrichedNodes, links: astLinks.length > 0 ? astLinks : prev.links };
+                        });
                     }
                 }
             } catch (queryErr) {
@@ -200,7 +198,7 @@ export const useApiSync = () => {
         } finally {
             setIsDataSyncing(false);
         }
-    }, [setIsDataSyncing, setSyncError, setAvailableProjects, setSelectedProjectId, setCurrentProject, setSandboxFiles, setAstData, setFileScopedNodes, setFileScopedLinks, setSelectedNode, setExpandedFileIds, enableAutoClustering]);
+    }, [setIsDataSyncing, setSyncError, setAvailableProjects, setSelectedProjectId, setCurrentProject, setSandboxFiles, setAstData, setFileScopedNodes, setFileScopedLinks, setSelectedNode, setExpandedFileIds, enableAutoClustering, selectedProjectId]);
 
     return { syncDataFromApi };
 };
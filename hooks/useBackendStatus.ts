@@ -0,0 +1,43 @@
+/**
+ * useBackendStatus - Live circuit breaker state for a backend, with a seconds-until-retry countdown
+ *
+ * Pass `probe` from exactly one mounted component: when the countdown ends it
+ * is called to test the backend, which closes the circuit on success.
+ */
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import { circuitBreaker } from '../utils/circuitBreaker';
+import { logger } from '../logger';
+
+export interface BackendStatus {
+  isUnavailable: boolean;
+  /** Seconds until the next retry, 0 once a probe is due or in flight */
+  retryInSeconds: number;
+}
+
+export function useBackendStatus(baseUrl: string, probe?: () => Promise<unknown>): BackendStatus {
+  const subscribe = useCallback((onChange: () => void) => circuitBreaker.subscribe(onChange), []);
+  const getSnapshot = useCallback(() => circuitBreaker.getStatus(baseUrl), [baseUrl]);
+  const status = useSyncExternalStore(subscribe, getSnapshot);
+  const [now, setNow] = useState(() => Date.now());
+
+  const isUnavailable = !!baseUrl && status.state !== 'closed';
+
+  useEffect(() => {
+    if (!isUnavailable) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isUnavailable, status.retryAt]);
+
+  const retryInSeconds = status.retryAt ? Math.max(0, Math.ceil((status.retryAt - now) / 1000)) : 0;
+  const probeDue = !!probe && status.state === 'open' && retryInSeconds === 0;
+
+  useEffect(() => {
+    if (!probeDue || !probe) return;
+    probe().catch(err => logger.warn('[useBackendStatus] Backend probe failed:', err.message));
+  }, [probeDue, probe]);
+
+  return { isUnavailable, retryInSeconds };
+}
+
+export default useBackendStatus;
@@ -0,0 +1,58 @@
+/**
+ * useCallHierarchy - Depth-1 call slices for the call hierarchy tree
+ *
+ * A symbol's callers (or callees) are fetched the first time any row for it
+ * is expanded and reused for every other row showing the same symbol. The
+ * cache is per direction and project.
+ */
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useSettingsContext } from '../context/SettingsContext';
+import { fetchWhatCalls, fetchWhoCalls, GraphMapLinkWithLine, GraphMapNode } from '../services/graphService';
+import type { HierarchyDirection } from '../utils/callHierarchy';
+import { requestManager } from '../utils/requestManager';
+
+export type HierarchySlice =
+  | { status: 'loading' }
+  | { status: 'loaded'; nodes: GraphMapNode[]; links: GraphMapLinkWithLine[] }
+  | { status: 'error'; error: unknown };
+
+const requestId = (direction: HierarchyDirection, symbol: string) => `callHierarchy:${direction}:${symbol}`;
+
+export function useCallHierarchy(direction: HierarchyDirection) {
+  const { dataApiBase, selectedProjectId } = useSettingsContext();
+  const [slices, setSlices] = useState<Record<string, HierarchySlice>>({});
+  // Mirrors the keys of `slices` so load() can skip symbols without a stale closure
+  const requested = useRef(new Set<string>());
+
+  const cancelPending = useCallback((reason: string) => {
+    requested.current.forEach(symbol => requestManager.cancelRequest(requestId(direction, symbol), reason));
+  }, [direction]);
+
+  const load = useCallback(async (symbol: string, retry = false) => {
+    if (!dataApiBase || !selectedProjectId) return;
+    if (requested.current.has(symbol) && !retry) return;
+    requested.current.add(symbol);
+    const controller = requestManager.startRequest(requestId(direction, symbol));
+    setSlices(prev => ({ ...prev, [symbol]: { status: 'loading' } }));
+    try {
+      const fetchSlice = direction === 'incoming' ? fetchWhoCalls : fetchWhatCalls;
+      const slice = await fetchSlice(dataApiBase, selectedProjectId, symbol, 1, false, controller.signal);
+      if (!controller.signal.aborted) setSlices(prev => ({ ...prev, [symbol]: { status: 'loaded', ...slice } }));
+    } catch (err) {
+      if (!controller.signal.aborted) setSlices(prev => ({ ...prev, [symbol]: { status: 'error', error: err } }));
+    }
+  }, [dataApiBase, selectedProjectId, direction]);
+
+  useEffect(() => {
+    const pending = requested.current;
+    return () => {
+      cancelPending('call hierarchy reset');
+      pending.clear();
+      setSlices({});
+    };
+  }, [cancelPending, dataApiBase, selectedProjectId]);
+
+  return { slices, load };
+}
+
+export default useCallHierarchy;
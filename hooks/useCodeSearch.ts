@@ -0,0 +1,125 @@
+/**
+ * useCodeSearch - Grep the current project's source through /files and /source
+ *
+ * Files are read a few at a time and their matches appear as each file is
+ * scanned. Only files with matches are asked for their symbols, to label
+ * each match with its enclosing function or type. The scan stops at
+ * MAX_MATCHES and can be cancelled; a new search cancels the previous one.
+ */
+import { useCallback, useEffect, useState } from 'react';
+import { useSettingsContext } from '../context/SettingsContext';
+import { fetchFileDetails, fetchFiles, fetchSource, GraphMapNode } from '../services/graphService';
+import { runWithConcurrencyLimit } from '../utils/concurrency';
+import { requestManager } from '../utils/requestManager';
+import {
+  compileSearch,
+  EnclosingSymbol,
+  findEnclosingSymbol,
+  LineMatch,
+  matchesPathFilter,
+  searchText,
+  TextSearchOptions,
+} from '../utils/textSearch';
+import { logger } from '../logger';
+
+export interface CodeMatch extends LineMatch {
+  symbol: EnclosingSymbol | null;
+}
+
+export interface FileMatches {
+  filePath: string;
+  matches: CodeMatch[];
+}
+
+export interface CodeSearchProgress {
+  scanned: number;
+  total: number;
+  failed: number;
+  matchCount: number;
+  truncated: boolean;
+}
+
+const REQUEST_ID = 'codeSearch';
+const FILE_CONCURRENCY = 6;
+export const MAX_MATCHES = 1000;
+
+const EMPTY_PROGRESS: CodeSearchProgress = { scanned: 0, total: 0, failed: 0, matchCount: 0, truncated: false };
+
+export function useCodeSearch() {
+  const { dataApiBase, selectedProjectId } = useSettingsContext();
+  const [results, setResults] = useState<FileMatches[]>([]);
+  const [progress, setProgress] = useState<CodeSearchProgress>(EMPTY_PROGRESS);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+
+  const search = useCallback(async (options: TextSearchOptions, pathFilter = '') => {
+    if (!dataApiBase || !selectedProjectId) return;
+    let regex: RegExp;
+    try {
+      regex = compileSearch(options);
+    } catch (err) {
+      setError(err);
+      return;
+    }
+
+    const controller = requestManager.startRequest(REQUEST_ID);
+    const { signal } = controller;
+    setResults([]);
+    setProgress(EMPTY_PROGRESS);
+    setError(null);
+    setIsSearching(true);
+
+    let matchCount = 0;
+    try {
+      const files = (await fetchFiles(dataApiBase, selectedProjectId, signal)).filter(f => matchesPathFilter(f, pathFilter));
+      if (signal.aborted) return;
+      setProgress(p => ({ ...p, total: files.length }));
+
+      await runWithConcurrencyLimit(files.map(filePath => async () => {
+        if (signal.aborted) return;
+        try {
+          const content = await fetchSource(dataApiBase, selectedProjectId, filePath, undefined, undefined, signal, false);
+          if (signal.aborted) return;
+          const lines = searchText(content, new RegExp(regex), options.contextLines, MAX_MATCHES - matchCount);
+          if (lines.length > 0) {
+            matchCount += lines.length;
+            let nodes: GraphMapNode[] = [];
+            try {
+              nodes = (await fetchFileDetails(dataApiBase, filePath, selectedProjectId, signal)).nodes;
+            } catch (err) {
+              if (!signal.aborted) logger.warn('[useCodeSearch] No symbols for', filePath, err);
+            }
+            if (signal.aborted) return;
+            const matches = lines.map(m => ({ ...m, symbol: findEnclosingSymbol(nodes, m.line) }));
+            setResults(prev => [...prev, { filePath, matches }]);
+          }
+          setProgress(p => ({ ...p, scanned: p.scanned + 1, matchCount }));
+        } catch (err) {
+          if (signal.aborted) return;
+          logger.warn('[useCodeSearch] Could not read', filePath, err);
+          setProgress(p => ({ ...p, scanned: p.scanned + 1, failed: p.failed + 1 }));
+        }
+        if (matchCount >= MAX_MATCHES) {
+          setProgress(p => ({ ...p, truncated: true }));
+          requestManager.cancelRequest(REQUEST_ID, 'match limit reached');
+          setIsSearching(false);
+        }
+      }), FILE_CONCURRENCY);
+    } catch (err) {
+      if (!signal.aborted) setError(err);
+    } finally {
+      if (!signal.aborted) setIsSearching(false);
+    }
+  }, [dataApiBase, selectedProjectId]);
+
+  const cancel = useCallback(() => {
+    requestManager.cancelRequest(REQUEST_ID, 'code search cancelled');
+    setIsSearching(false);
+  }, []);
+
+  useEffect(() => () => requestManager.cancelRequest(REQUEST_ID, 'code search closed'), []);
+
+  return { results, progress, isSearching, error, search, cancel };
+}
+
+export default useCodeSearch;
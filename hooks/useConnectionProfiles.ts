@@ -0,0 +1,72 @@
+/**
+ * useConnectionProfiles - Saved backend connections and switching between them
+ *
+ * Switching cancels in-flight requests, drops cached responses and graph
+ * state from the previous backend, applies the profile's credentials, and
+ * points dataApiBase at the new backend; auto-sync then loads its projects.
+ * A profile whose credentials did not survive the browser session opens the
+ * auth prompt instead.
+ */
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { useSettingsContext } from '../context/SettingsContext';
+import { useGraphContext } from '../context/GraphContext';
+import { ConnectionProfile, needsCredentials, profileStore } from '../utils/connectionProfiles';
+import { queryCache } from '../utils/queryCache';
+import { requestManager } from '../utils/requestManager';
+import { logger } from '../logger';
+
+const subscribe = (onChange: () => void) => profileStore.subscribe(onChange);
+
+export function useConnectionProfiles() {
+  const {
+    setDataApiBase,
+    setAuthConfig,
+    setAuthRequired,
+    setAvailableProjects,
+    setSelectedProjectId,
+    setCurrentProject,
+    setSyncError,
+    setSandboxFiles,
+  } = useSettingsContext();
+  const { resetGraphState } = useGraphContext();
+
+  const profiles = useSyncExternalStore(subscribe, () => profileStore.getProfiles());
+  const activeProfileId = useSyncExternalStore(subscribe, () => profileStore.getActiveId());
+  const activeProfile = useMemo(
+    () => profiles.find(p => p.id === activeProfileId) ?? null,
+    [profiles, activeProfileId]
+  );
+
+  const switchProfile = useCallback((id: string) => {
+    const profile = profileStore.getProfiles().find(p => p.id === id);
+    if (!profile) return;
+    logger.log('[Profiles] Switching to', profile.name, profile.baseUrl);
+
+    requestManager.cancelAll('connection profile switched');
+    queryCache.clear();
+    profileStore.setActive(id);
+    setAuthConfig(profile.auth, profile.baseUrl);
+    if (needsCredentials(profile.auth)) setAuthRequired(true);
+
+    resetGraphState();
+    setSandboxFiles({});
+    setAvailableProjects([]);
+    setSelectedProjectId(profile.defaultProjectId ?? '');
+    setCurrentProject(profile.name);
+    setSyncError(null);
+    setDataApiBase(profile.baseUrl);
+  }, [setAuthConfig, setAuthRequired, resetGraphState, setSandboxFiles, setAvailableProjects, setSelectedProjectId, setCurrentProject, setSyncError, setDataApiBase]);
+
+  // Saving the current connection activates it in place; no reset needed since nothing changed
+  const saveProfile = useCallback((profile: ConnectionProfile, activate = false) => {
+    profileStore.save(profile);
+    if (activate) profileStore.setActive(profile.id);
+  }, []);
+  const deleteProfile = useCallback((id: string) => profileStore.remove(id), []);
+  // Editing the URL by hand detaches the session from its profile
+  const detachProfile = useCallback(() => profileStore.setActive(null), []);
+
+  return { profiles, activeProfile, switchProfile, saveProfile, deleteProfile, detachProfile };
+}
+
+export default useConnectionProfiles;
@@ -0,0 +1,77 @@
+/**
+ * useCrossProjectSearch - Fan a symbol or semantic search out over every project
+ *
+ * Projects are queried a few at a time; each one's hits are merged into the
+ * ranking as soon as it answers, and a failing project is reported without
+ * stopping the others. A new search cancels the previous fan-out.
+ */
+import { useCallback, useEffect, useState } from 'react';
+import { useSettingsContext } from '../context/SettingsContext';
+import { fetchSemanticSearch, fetchSymbols } from '../services/graphService';
+import { runWithConcurrencyLimit } from '../utils/concurrency';
+import {
+  CrossProjectHit,
+  CrossProjectMode,
+  rankCrossProjectHits,
+  semanticHits,
+  symbolHits,
+} from '../utils/crossProjectSearch';
+import { requestManager } from '../utils/requestManager';
+
+export interface ProjectSearchStatus {
+  state: 'pending' | 'done' | 'error';
+  count: number;
+  error?: unknown;
+}
+
+const REQUEST_ID = 'crossProjectSearch';
+const PROJECT_CONCURRENCY = 4;
+const PER_PROJECT_SEMANTIC = 10;
+const MAX_RESULTS = 200;
+
+export function useCrossProjectSearch() {
+  const { dataApiBase, availableProjects } = useSettingsContext();
+  const [hits, setHits] = useState<CrossProjectHit[]>([]);
+  const [statuses, setStatuses] = useState<Record<string, ProjectSearchStatus>>({});
+  const [isSearching, setIsSearching] = useState(false);
+
+  const search = useCallback(async (query: string, mode: CrossProjectMode) => {
+    const text = query.trim();
+    if (!text || !dataApiBase || availableProjects.length === 0) return;
+    const controller = requestManager.startRequest(REQUEST_ID);
+    const { signal } = controller;
+
+    setHits([]);
+    setStatuses(Object.fromEntries(availableProjects.map(p => [p.id, { state: 'pending', count: 0 }])));
+    setIsSearching(true);
+
+    await runWithConcurrencyLimit(availableProjects.map(project => async () => {
+      if (signal.aborted) return;
+      try {
+        const found = mode === 'semantic'
+          ? semanticHits(project, await fetchSemanticSearch(dataApiBase, project.id, text, PER_PROJECT_SEMANTIC, signal))
+          : symbolHits(project, text, await fetchSymbols(dataApiBase, project.id, text, undefined, signal));
+        if (signal.aborted) return;
+        setHits(prev => rankCrossProjectHits([...prev, ...found], MAX_RESULTS));
+        setStatuses(prev => ({ ...prev, [project.id]: { state: 'done', count: found.length } }));
+      } catch (error) {
+        if (signal.aborted) return;
+        setStatuses(prev => ({ ...prev, [project.id]: { state: 'error', count: 0, error } }));
+      }
+    }), PROJECT_CONCURRENCY);
+
+    if (!signal.aborted) setIsSearching(false);
+  }, [dataApiBase, availableProjects]);
+
+  const cancel = useCallback(() => {
+    requestManager.cancelRequest(REQUEST_ID, 'cross-project search cancelled');
+    setIsSearching(false);
+    setStatuses(prev => Object.fromEntries(Object.entries(prev).filter(([, s]) => s.state !== 'pending')));
+  }, []);
+
+  useEffect(() => () => requestManager.cancelRequest(REQUEST_ID, 'cross-project search closed'), []);
+
+  return { hits, statuses, isSearching, search, cancel };
+}
+
+export default useCrossProjectSearch;
@@ -0,0 +1,70 @@
+/**
+ * useCycles - Detected dependency cycles and the links along each one
+ *
+ * The cycle list comes from /graph/cycles once per project (reload on
+ * demand). Links for a cycle are fetched through /graph/subgraph when the
+ * cycle is opened, and kept for the session so switching back is instant.
+ */
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useSettingsContext } from '../context/SettingsContext';
+import { detectCycles, fetchSubgraph, GraphMapResponse } from '../services/graphService';
+import { requestManager } from '../utils/requestManager';
+
+const LIST_REQUEST_ID = 'cycles';
+const SUBGRAPH_REQUEST_ID = 'cycleSubgraph';
+
+export function useCycles() {
+  const { dataApiBase, selectedProjectId } = useSettingsContext();
+  const [cycles, setCycles] = useState<string[][] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+  const subgraphCache = useRef(new Map<string, GraphMapResponse>());
+
+  const reload = useCallback(async () => {
+    if (!dataApiBase || !selectedProjectId) return;
+    const controller = requestManager.startRequest(LIST_REQUEST_ID);
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await detectCycles(dataApiBase, selectedProjectId, controller.signal);
+      if (!controller.signal.aborted) setCycles(response.cycles);
+    } catch (err) {
+      if (!controller.signal.aborted) setError(err);
+    } finally {
+      if (!controller.signal.aborted) setIsLoading(false);
+    }
+  }, [dataApiBase, selectedProjectId]);
+
+  useEffect(() => {
+    subgraphCache.current.clear();
+    setCycles(null);
+    reload();
+  }, [reload]);
+
+  /** Links among the cycle's members; null when superseded by another request */
+  const loadSubgraph = useCallback(async (key: string, members: string[]): Promise<GraphMapResponse | null> => {
+    const cached = subgraphCache.current.get(key);
+    if (cached) return cached;
+    const controller = requestManager.startRequest(SUBGRAPH_REQUEST_ID);
+    let subgraph: GraphMapResponse;
+    try {
+      subgraph = await fetchSubgraph(dataApiBase, selectedProjectId, members, controller.signal);
+    } catch (err) {
+      // Cancellation surfaces as a timeout from fetchWithTimeout; it is not a failure
+      if (controller.signal.aborted) return null;
+      throw err;
+    }
+    if (controller.signal.aborted) return null;
+    subgraphCache.current.set(key, subgraph);
+    return subgraph;
+  }, [dataApiBase, selectedProjectId]);
+
+  useEffect(() => () => {
+    requestManager.cancelRequest(LIST_REQUEST_ID, 'cycles panel closed');
+    requestManager.cancelRequest(SUBGRAPH_REQUEST_ID, 'cycles panel closed');
+  }, []);
+
+  return { cycles, isLoading, error, reload, loadSubgraph };
+}
+
+export default useCycles;
@@ -60,7 +60,7 @@ export function useExploreGraph({
       }
     } catch (error: any) {
       logger.error('[useExploreGraph] Explore error:', error);
-      toast.error(`Failed to load graph: ${error.message}`);
+      toast.apiError(error, 'Loading graph');
     }
 
     addConversationTurn({ user_input: query, intent: 'explore', datalog_query: '', result_count: resultCount, summary: `Explored ${resultCount} nodes`, timestamp: Date.now() });
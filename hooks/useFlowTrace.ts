@@ -0,0 +1,123 @@
+/**
+ * useFlowTrace - Data-flow path between two symbols, with a snippet per hop
+ *
+ * The path comes from /search/flow. Every symbol on it except the last is
+ * then hydrated a few at a time to find where it calls the next one, so the
+ * hops appear first and their snippets fill in. The narrative is generated on
+ * request from the ordered path.
+ */
+import { useCallback, useEffect, useState } from 'react';
+import { useSettingsContext } from '../context/SettingsContext';
+import { fetchFlowPath, fetchHydrate, GraphMapNode } from '../services/graphService';
+import { generatePathNarrative } from '../services/geminiService';
+import type { CallHop } from '../utils/callPaths';
+import { runWithConcurrencyLimit } from '../utils/concurrency';
+import { callSiteSnippet, HopSnippet, orderFlowHops } from '../utils/flowPath';
+import { requestManager } from '../utils/requestManager';
+import { logger } from '../logger';
+
+const TRACE_REQUEST_ID = 'flowTrace';
+const NARRATIVE_REQUEST_ID = 'flowNarrative';
+const HYDRATE_CONCURRENCY = 4;
+
+export interface FlowHop extends CallHop {
+  /** undefined while loading; null when the caller's source is unavailable */
+  snippet?: HopSnippet | null;
+}
+
+export interface FlowTrace {
+  from: string;
+  to: string;
+  hops: FlowHop[];
+  nodes: GraphMapNode[];
+}
+
+export function useFlowTrace() {
+  const { dataApiBase, selectedProjectId } = useSettingsContext();
+  const [trace, setTrace] = useState<FlowTrace | null>(null);
+  const [isTracing, setIsTracing] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+  const [narrative, setNarrative] = useState<string | null>(null);
+  const [isNarrating, setIsNarrating] = useState(false);
+  const [narrativeError, setNarrativeError] = useState<unknown>(null);
+
+  const annotate = useCallback(async (hops: FlowHop[], signal: AbortSignal) => {
+    await runWithConcurrencyLimit(hops.map((hop, index) => async () => {
+      let snippet: HopSnippet | null = null;
+      try {
+        const caller = await fetchHydrate(dataApiBase, selectedProjectId, hop.source, signal);
+        snippet = callSiteSnippet(caller, hop.target) ?? null;
+      } catch (err) {
+        if (signal.aborted) return;
+        logger.warn('[useFlowTrace] Could not hydrate', hop.source, err);
+      }
+      if (signal.aborted) return;
+      setTrace(prev => prev && {
+        ...prev,
+        hops: prev.hops.map((h, i) => (i === index ? { ...h, snippet } : h)),
+      });
+    }), HYDRATE_CONCURRENCY);
+  }, [dataApiBase, selectedProjectId]);
+
+  const traceFlow = useCallback(async (from: string, to: string) => {
+    if (!dataApiBase || !selectedProjectId || !from || !to) return;
+    requestManager.cancelRequest(NARRATIVE_REQUEST_ID, 'new flow traced');
+    const controller = requestManager.startRequest(TRACE_REQUEST_ID);
+    setIsTracing(true);
+    setError(null);
+    setNarrative(null);
+    setNarrativeError(null);
+    setIsNarrating(false);
+    try {
+      const response = await fetchFlowPath(dataApiBase, selectedProjectId, from, to, controller.signal);
+      if (controller.signal.aborted) return;
+      const hops = orderFlowHops(response, from, to);
+      setTrace({ from, to, hops, nodes: response.nodes });
+      setIsTracing(false);
+      await annotate(hops, controller.signal);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setError(err);
+      setTrace(null);
+    } finally {
+      if (!controller.signal.aborted) setIsTracing(false);
+    }
+  }, [dataApiBase, selectedProjectId, annotate]);
+
+  const narrate = useCallback(async () => {
+    if (!trace || trace.hops.length === 0) return;
+    const controller = requestManager.startRequest(NARRATIVE_REQUEST_ID);
+    const byId = new Map(trace.nodes.map(n => [n.id, n]));
+    const path = [trace.from, ...trace.hops.map(h => h.target)].map(id => byId.get(id) ?? { id, name: id });
+    setIsNarrating(true);
+    setNarrativeError(null);
+    try {
+      const text = await generatePathNarrative(
+        `Explain how data flows from ${trace.from} to ${trace.to}, step by step.`,
+        path,
+        dataApiBase,
+        selectedProjectId,
+        controller.signal,
+      );
+      if (!controller.signal.aborted) setNarrative(text);
+    } catch (err) {
+      if (!controller.signal.aborted) setNarrativeError(err);
+    } finally {
+      if (!controller.signal.aborted) setIsNarrating(false);
+    }
+  }, [trace, dataApiBase, selectedProjectId]);
+
+  useEffect(() => {
+    setTrace(null);
+    setNarrative(null);
+  }, [dataApiBase, selectedProjectId]);
+
+  useEffect(() => () => {
+    requestManager.cancelRequest(TRACE_REQUEST_ID, 'flow tracer closed');
+    requestManager.cancelRequest(NARRATIVE_REQUEST_ID, 'flow tracer closed');
+  }, []);
+
+  return { trace, isTracing, error, traceFlow, narrative, isNarrating, narrativeError, narrate };
+}
+
+export default useFlowTrace;
@@ -0,0 +1,64 @@
+/**
+ * useGraphPersistence - Persist the project graph and expanded file details to IndexedDB
+ * The graph itself is restored by useApiSync during project sync; file details
+ * are restored here when a file is expanded but not yet loaded in memory.
+ */
+import { useEffect, useRef } from 'react';
+import { useSettingsContext } from '../context/SettingsContext';
+import { useGraphContext } from '../context/GraphContext';
+import { FileDetailsResponse } from '../services/graphService';
+import { persistentStore } from '../utils/persistentStore';
+import { queryScope } from '../utils/queryCache';
+import { STORAGE_CONFIG } from '../constants';
+
+const GRAPH_SAVE_DELAY_MS = 1000;
+
+export const useGraphPersistence = () => {
+  const { dataApiBase, selectedProjectId } = useSettingsContext();
+  const { astData, fileDetailsCache, setFileDetailsCache, expandedFileIds } = useGraphContext();
+  const savedDetailsRef = useRef(new WeakSet<FileDetailsResponse>());
+
+  const scope = dataApiBase && selectedProjectId ? queryScope(dataApiBase, selectedProjectId) : null;
+
+  // Save the graph once it settles; skip while it still belongs to the previous project
+  useEffect(() => {
+    if (!scope || !('nodes' in astData) || astData.nodes.length === 0) return;
+    if (astData.nodes[0]?._project !== selectedProjectId) return;
+    const timer = setTimeout(() => persistentStore.put(scope, 'graph', '', astData), GRAPH_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [scope, selectedProjectId, astData]);
+
+  useEffect(() => {
+    if (!scope) return;
+    for (const [fileId, details] of fileDetailsCache) {
+      if (savedDetailsRef.current.has(details)) continue;
+      savedDetailsRef.current.add(details);
+      persistentStore.put(scope, 'fileDetails', fileId, details);
+    }
+  }, [scope, fileDetailsCache]);
+
+  useEffect(() => {
+    if (!scope) return;
+    const missing = Array.from(expandedFileIds).filter(fileId => !fileDetailsCache.has(fileId));
+    if (missing.length === 0) return;
+
+    let cancelled = false;
+    Promise.all(missing.map(async fileId =>
+      [fileId, await persistentStore.get<FileDetailsResponse>(scope, 'fileDetails', fileId, STORAGE_CONFIG.MAX_AGE_MS)] as const
+    )).then(results => {
+      const restored = results.filter((entry): entry is readonly [string, FileDetailsResponse] => !!entry[1]);
+      if (cancelled || restored.length === 0) return;
+      setFileDetailsCache(prev => {
+        const next = new Map(prev);
+        for (const [fileId, details] of restored) {
+          savedDetailsRef.current.add(details);
+          next.set(fileId, details);
+        }
+        return next;
+      });
+    });
+    return () => { cancelled = true; };
+  }, [scope, expandedFileIds, fileDetailsCache, setFileDetailsCache]);
+};
+
+export default useGraphPersistence;
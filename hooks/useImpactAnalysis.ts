@@ -0,0 +1,94 @@
+/**
+ * useImpactAnalysis - Blast radius of a symbol from its transitive callers
+ *
+ * One who-calls slice gives every caller up to the chosen depth. The file
+ * backbone of each affected file is then read (a few at a time) to find the
+ * entry points among them. OKF concepts and bridges are loaded once per
+ * project; a project without OKF data simply reports no concepts.
+ */
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useSettingsContext } from '../context/SettingsContext';
+import { fetchFileBackbone, fetchWhoCalls } from '../services/graphService';
+import { fetchOKFBridges, fetchOKFConcepts } from '../services/okfService';
+import { runWithConcurrencyLimit } from '../utils/concurrency';
+import { buildImpactReport, ImpactInput, ImpactReport } from '../utils/impact';
+import { requestManager } from '../utils/requestManager';
+import { logger } from '../logger';
+
+const REQUEST_ID = 'impactAnalysis';
+const BACKBONE_CONCURRENCY = 4;
+
+export const DEFAULT_IMPACT_DEPTH = 3;
+
+export type ImpactStage = 'callers' | 'entryPoints';
+
+type OKFData = Pick<ImpactInput, 'bridges' | 'concepts'>;
+
+export function useImpactAnalysis() {
+  const { dataApiBase, selectedProjectId } = useSettingsContext();
+  const [report, setReport] = useState<ImpactReport | null>(null);
+  const [stage, setStage] = useState<ImpactStage | null>(null);
+  const [error, setError] = useState<unknown>(null);
+  const okfRef = useRef<Promise<OKFData> | null>(null);
+
+  const loadOKF = useCallback((): Promise<OKFData> => {
+    okfRef.current ??= Promise.all([
+      fetchOKFConcepts(dataApiBase, selectedProjectId),
+      fetchOKFBridges(dataApiBase, selectedProjectId),
+    ])
+      .then(([concepts, bridges]) => ({ concepts, bridges }))
+      .catch(err => {
+        logger.warn('[useImpactAnalysis] OKF data unavailable:', err);
+        return { concepts: [], bridges: [] };
+      });
+    return okfRef.current;
+  }, [dataApiBase, selectedProjectId]);
+
+  const analyze = useCallback(async (symbol: string, depth: number = DEFAULT_IMPACT_DEPTH) => {
+    if (!dataApiBase || !selectedProjectId || !symbol) return;
+    const controller = requestManager.startRequest(REQUEST_ID);
+    const { signal } = controller;
+    setStage('callers');
+    setError(null);
+    try {
+      const [slice, okf] = await Promise.all([
+        fetchWhoCalls(dataApiBase, selectedProjectId, symbol, depth, false, signal),
+        loadOKF(),
+      ]);
+      if (signal.aborted) return;
+      const input: ImpactInput = { target: symbol, depth, nodes: slice.nodes, links: slice.links, entryIds: new Set(), ...okf };
+      const initial = buildImpactReport(input);
+      setReport(initial);
+
+      setStage('entryPoints');
+      await runWithConcurrencyLimit(initial.files.map(file => async () => {
+        try {
+          const backbone = await fetchFileBackbone(dataApiBase, selectedProjectId, file.path, signal);
+          backbone.nodes.forEach(n => {
+            if (n.gatewayType === 'entry') input.entryIds.add(n.id);
+          });
+        } catch (err) {
+          if (!signal.aborted) logger.warn('[useImpactAnalysis] No backbone for', file.path, err);
+        }
+      }), BACKBONE_CONCURRENCY);
+      if (signal.aborted) return;
+      setReport(buildImpactReport(input));
+    } catch (err) {
+      if (!signal.aborted) setError(err);
+    } finally {
+      if (!signal.aborted) setStage(null);
+    }
+  }, [dataApiBase, selectedProjectId, loadOKF]);
+
+  useEffect(() => {
+    okfRef.current = null;
+    setReport(null);
+    setError(null);
+  }, [dataApiBase, selectedProjectId]);
+
+  useEffect(() => () => requestManager.cancelRequest(REQUEST_ID, 'impact panel closed'), []);
+
+  return { report, stage, isLoading: stage !== null, error, analyze };
+}
+
+export default useImpactAnalysis;
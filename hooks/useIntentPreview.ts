@@ -0,0 +1,60 @@
+/**
+ * useIntentPreview - Live intent for the text in the search bar
+ *
+ * The regex route is available immediately; the backend classifier is asked
+ * once typing pauses and may overrule it (see combineIntent). Superseded
+ * classifier requests are cancelled through requestManager.
+ */
+import { useEffect, useMemo, useState } from 'react';
+import { useSettingsContext } from '../context/SettingsContext';
+import { useSearchContext } from '../context/SearchContext';
+import { classifyIntent, IntentClassification } from '../services/geminiService';
+import { combineIntent } from '../utils/queryClassifier';
+import { requestManager } from '../utils/requestManager';
+import { logger } from '../logger';
+
+const DEBOUNCE_MS = 400;
+const MIN_CLASSIFY_LENGTH = 8;
+const REQUEST_ID = 'intentPreview';
+
+export function useIntentPreview(query: string, enabled = true) {
+  const { dataApiBase, selectedProjectId } = useSettingsContext();
+  const { conversationHistory } = useSearchContext();
+  const [classified, setClassified] = useState<{ query: string; result: IntentClassification } | null>(null);
+  const [isClassifying, setIsClassifying] = useState(false);
+
+  const text = query.trim();
+
+  useEffect(() => {
+    if (!enabled || !dataApiBase || !selectedProjectId || text.length < MIN_CLASSIFY_LENGTH) {
+      requestManager.cancelRequest(REQUEST_ID, 'intent preview no longer needed');
+      setIsClassifying(false);
+      return;
+    }
+    const timer = setTimeout(async () => {
+      const controller = requestManager.startRequest(REQUEST_ID);
+      setIsClassifying(true);
+      try {
+        const result = await classifyIntent(dataApiBase, selectedProjectId, text, conversationHistory, controller.signal);
+        if (!controller.signal.aborted) setClassified({ query: text, result });
+      } catch (err) {
+        if (!controller.signal.aborted) logger.warn('[useIntentPreview] Classifier unavailable, using regex route:', err);
+      } finally {
+        if (!controller.signal.aborted) setIsClassifying(false);
+      }
+    }, DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [enabled, dataApiBase, selectedProjectId, text, conversationHistory]);
+
+  useEffect(() => () => requestManager.cancelRequest(REQUEST_ID, 'search bar closed'), []);
+
+  // A classifier answer only applies to the text it was asked about
+  const preview = useMemo(
+    () => combineIntent(text, classified?.query === text ? classified.result : null),
+    [text, classified]
+  );
+
+  return { preview, isClassifying };
+}
+
+export default useIntentPreview;
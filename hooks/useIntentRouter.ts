@@ -79,7 +79,7 @@ export function useIntentRouter({
       setNarrativeMessages(prev => prev.map((m, i) =>
         i === idxRef.current ? { ...m, content: `Error: ${error.message}` } : m
       ));
-      toast.error(`${toastAction} failed: ${error.message}`);
+      toast.apiError(error, toastAction);
     }
   }, [sendToAI, addUserMessage, setNarrativeMessages, setViewMode, setIsNarrativeLoading, toast]);
 
@@ -2,12 +2,24 @@
 import { useState, useEffect } from 'react';
 import { fetchManifest } from '../services/graphService';
 import { logger } from '../logger';
+import { persistentStore } from '../utils/persistentStore';
+import { queryScope } from '../utils/queryCache';
 
-interface ManifestData {
+export interface ManifestData {
     F: Record<string, string>;
     S: Record<string, number>;
 }
 
+/** Symbol ids (`path:name`) listed in the manifest, optionally followed by its file paths */
+export function manifestSymbolIds(manifest: ManifestData | null, includeFiles = false): string[] {
+    if (!manifest) return [];
+    const ids = Object.entries(manifest.S).flatMap(([name, fileId]) => {
+        const filePath = manifest.F[String(fileId)];
+        return filePath ? [`${filePath}:${name}`] : [];
+    });
+    return includeFiles ? [...ids, ...Object.values(manifest.F)] : ids;
+}
+
 export function useManifest(apiBase: string, projectId: string) {
     const [manifest, setManifest] = useState<ManifestData | null>(null);
     const [loading, setLoading] = useState(false);
@@ -16,21 +28,39 @@ export function useManifest(apiBase: string, projectId: string) {
     useEffect(() => {
         if (!apiBase || !projectId) return;
 
+        const scope = queryScope(apiBase, projectId);
+        // Responses for a previous project must not overwrite the current one
+        let cancelled = false;
+        let fetched = false;
+        setManifest(null);
+        setError(null);
         setLoading(true);
+
+        // Serve the manifest persisted from a previous visit until the fresh one arrives
+        persistentStore.get<ManifestData>(scope, 'manifest').then(saved => {
+            if (saved && !fetched && !cancelled) setManifest(saved);
+        });
+
         fetchManifest(apiBase, projectId)
             .then(data => {
+                if (cancelled) return;
+                fetched = true;
                 setManifest(data);
                 setLoading(false);
+                persistentStore.put(scope, 'manifest', '', data);
                 logger.log('[useManifest] Loaded manifest:', {
                     files: Object.keys(data.F).length,
                     symbols: Object.keys(data.S).length
                 });
             })
             .catch(err => {
+                if (cancelled) return;
                 logger.error('[useManifest] Error loading manifest:', err);
                 setError(err.message);
                 setLoading(false);
             });
+
+        return () => { cancelled = true; };
     }, [apiBase, projectId]);
 
     return { manifest, loading, error };
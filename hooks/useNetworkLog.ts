@@ -0,0 +1,15 @@
+/**
+ * useNetworkLog - Live entries of the network log, newest last
+ */
+import { useSyncExternalStore } from 'react';
+import { networkLog } from '../utils/networkLog';
+
+const subscribe = (onChange: () => void) => networkLog.subscribe(onChange);
+const getSnapshot = () => networkLog.getEntries();
+
+export function useNetworkLog() {
+  const entries = useSyncExternalStore(subscribe, getSnapshot);
+  return { entries, clear: () => networkLog.clear() };
+}
+
+export default useNetworkLog;
@@ -8,9 +8,12 @@ import { useSettingsContext } from '../context/SettingsContext';
 import { useGraphContext } from '../context/GraphContext';
 import { FlatGraph } from '../types';
 import { logger } from '../logger';
-import { fetchWithTimeout } from '../utils/fetchWithTimeout';
+import { fetchFiles, fetchHydrate } from '../services/graphService';
 import { requestManager } from '../utils/requestManager';
 import { TTLBoundedCache } from '../utils/cacheUtils';
+import { persistentStore } from '../utils/persistentStore';
+import { queryScope } from '../utils/queryCache';
+import { STORAGE_CONFIG } from '../constants';
 
 const HYDRATION_CACHE_MAX_SIZE = 50;
 const HYDRATION_CACHE_TTL_MS = 10 * 60 * 1000; // 10 minutes
@@ -83,6 +86,39 @@ export const useNodeHydration = () => {
             return null;
         }
 
+        const applyHydratedNode = (hydratedNode: any) => {
+            // Update local bounded cache (auto-evicts old entries)
+            localCache.current.set(nodeId, hydratedNode);
+
+            // Update global symbolCache only if under size limit
+            setSymbolCache(prev => {
+                if (prev.size < HYDRATION_CACHE_MAX_SIZE * 2) {
+                    return new Map(prev).set(nodeId, hydratedNode);
+                }
+                return prev;
+            });
+
+            // Update astData with the hydrated node
+            setAstData(prev => {
+                if (!prev || !('nodes' in prev)) return prev;
+                return {
+                    ...prev,
+                    nodes: (prev.nodes as any[]).map(n =>
+                        n.id === nodeId ? { ...n, ...hydratedNode } : n
+                    )
+                };
+            });
+        };
+
+        // Check symbols persisted from earlier visits before going to the network; old ones are refetched
+        const scope = queryScope(dataApiBase, selectedProjectId);
+        const persistedNode = await persistentStore.get<any>(scope, 'symbol', nodeId, STORAGE_CONFIG.MAX_AGE_MS);
+        if (persistedNode) {
+            logger.log('[Hydrate] Persistent cache hit for:', nodeId);
+            applyHydratedNode(persistedNode);
+            return persistedNode;
+        }
+
         // Cancel any in-flight hydration request
         if (hydrationRequestRef.current) {
             requestManager.cancelRequest(hydrationRequestRef.current);
@@ -97,46 +133,31 @@ export const useNodeHydration = () => {
         let targetId = nodeId;
         // Optimization: Check for Python dotted paths that need resolution
         if (nodeId && !nodeId.includes('/') && nodeId.includes('.')) {
+            const controller = requestManager.startRequest(`${requestId}-pathResolution`);
             try {
-                const cleanBase = dataApiBase.endsWith('/') ? dataApiBase.slice(0, -1) : dataApiBase;
-                const controller = requestManager.startRequest(`${requestId}-pathResolution`);
-                // Fetch file list to resolve path - minimal overhead for single click
-                const filesResp = await fetchWithTimeout(
-                    `${cleanBase}/api/v1/files?project=${encodeURIComponent(selectedProjectId)}`,
-                    {},
-                    5000, // Short timeout for path resolution
-                    controller.signal
+                // Fetch file list to resolve path - cached, so minimal overhead for single click
+                const allFiles = await fetchFiles(dataApiBase, selectedProjectId, controller.signal);
+                const slashPath = nodeId.replace(/\./g, '/');
+                const suffixMatches = allFiles.filter((f: string) =>
+                    f.endsWith(slashPath + '.py') ||
+                    f.endsWith(slashPath + '/__init__.py')
                 );
-                if (filesResp.ok) {
-                    const allFiles = await filesResp.json();
-                    const slashPath = nodeId.replace(/\./g, '/');
-                    const suffixMatches = allFiles.filter((f: string) =>
-                        f.endsWith(slashPath + '.py') ||
-                        f.endsWith(slashPath + '/__init__.py')
-                    );
-                    if (suffixMatches.length > 0) {
-                        suffixMatches.sort((a: string, b: string) => a.length - b.length);
-                        targetId = suffixMatches[0];
-                        logger.log('[Hydrate] Resolved dotted ID', nodeId, 'to file', targetId);
-                    }
+                if (suffixMatches.length > 0) {
+                    suffixMatches.sort((a: string, b: string) => a.length - b.length);
+                    targetId = suffixMatches[0]!;
+                    logger.log('[Hydrate] Resolved dotted ID', nodeId, 'to file', targetId);
                 }
             } catch (e) {
-                // Ignore abort errors
-                if ((e as Error).name !== 'AbortError') {
+                // Ignore cancellation
+                if (!controller.signal.aborted) {
                     logger.warn('[Hydrate] Path resolution failed', e);
                 }
             }
         }
 
+        const controller = requestManager.startRequest(requestId);
         try {
-            const cleanBase = dataApiBase.endsWith('/') ? dataApiBase.slice(0, -1) : dataApiBase;
-            const controller = requestManager.startRequest(requestId);
-            const response = await fetchWithTimeout(
-                `${cleanBase}/api/v1/hydrate?id=${encodeURIComponent(targetId)}&project=${encodeURIComponent(selectedProjectId)}`,
-                {},
-                30000,
-                controller.signal
-            );
+            const hydratedNode = await fetchHydrate(dataApiBase, selectedProjectId, targetId, controller.signal);
 
             // Check if this request is still valid (not stale)
             if (hydrationRequestRef.current !== requestId) {
@@ -144,40 +165,15 @@ export const useNodeHydration = () => {
                 return null;
             }
 
-            if (!response.ok) {
-                logger.error('[Hydrate] Failed to hydrate node:', response.status, response.statusText);
-                return null;
-            }
-
-            const hydratedNode = await response.json();
             logger.log('[Hydrate] Successfully hydrated node:', hydratedNode);
 
-            // Update local bounded cache (auto-evicts old entries)
-            localCache.current.set(nodeId, hydratedNode);
-
-            // Update global symbolCache only if under size limit
-            setSymbolCache(prev => {
-                if (prev.size < HYDRATION_CACHE_MAX_SIZE * 2) {
-                    return new Map(prev).set(nodeId, hydratedNode);
-                }
-                return prev;
-            });
-
-            // Update astData with the hydrated node
-            setAstData(prev => {
-                if (!prev || !('nodes' in prev)) return prev;
-                return {
-                    ...prev,
-                    nodes: (prev.nodes as any[]).map(n =>
-                        n.id === nodeId ? { ...n, ...hydratedNode } : n
-                    )
-                };
-            });
+            applyHydratedNode(hydratedNode);
+            persistentStore.put(scope, 'symbol', nodeId, hydratedNode);
 
             return hydratedNode;
         } catch (error) {
-            // Ignore AbortError - expected when request is cancelled
-            if ((error as Error).name === 'AbortError' || (error as Error).message?.includes('aborted')) {
+            // Cancellation is expected when another node is hydrated
+            if (controller.signal.aborted) {
                 logger.log('[Hydrate] Request cancelled for:', nodeId);
             } else {
                 logger.error('[Hydrate] Error hydrating node:', error);
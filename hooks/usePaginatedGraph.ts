@@ -6,7 +6,8 @@ interface UsePaginatedGraphResult {
   nodes: any[];
   links: any[];
   loading: boolean;
-  error: string | null;
+  /** Last load failure, as thrown by the service layer; render with ErrorMessage */
+  error: unknown;
   hasMore: boolean;
   totalNodes: number;
   totalLinks: number;
@@ -34,7 +35,7 @@ export function usePaginatedGraph(
   const [nodes, setNodes] = useState<any[]>([]);
   const [links, setLinks] = useState<any[]>([]);
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<unknown>(null);
   const [hasMore, setHasMore] = useState(false);
   const [totalNodes, setTotalNodes] = useState(0);
   const [totalLinks, setTotalLinks] = useState(0);
@@ -87,8 +88,8 @@ export function usePaginatedGraph(
       setTotalLinks(response.total_links);
       setCurrentPage(prev => prev + 1);
       currentCursor.current = response.next_cursor;
-    } catch (err: any) {
-      setError(err.message || 'Failed to load paginated graph');
+    } catch (err) {
+      setError(err);
       logger.error('[usePaginatedGraph] Error:', err);
     } finally {
       setLoading(false);
@@ -128,8 +129,8 @@ export function usePaginatedGraph(
       setTotalLinks(response.total_links);
       setCurrentPage(page + 1);
       currentCursor.current = response.next_cursor;
-    } catch (err: any) {
-      setError(err.message || 'Failed to load page');
+    } catch (err) {
+      setError(err);
       logger.error('[usePaginatedGraph] Error:', err);
     } finally {
       setLoading(false);
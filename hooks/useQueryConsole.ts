@@ -0,0 +1,145 @@
+/**
+ * useQueryConsole - Tabs, history and execution for the Datalog query console
+ *
+ * Tab queries and the run history survive reloads (localStorage); results are
+ * kept in memory only. Each tab runs through requestManager, so re-running a
+ * tab cancels its previous execution.
+ */
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useSettingsContext } from '../context/SettingsContext';
+import { executeQuery, QueryResponse } from '../services/graphService';
+import { requestManager } from '../utils/requestManager';
+
+export interface QueryTab {
+  id: string;
+  title: string;
+  query: string;
+}
+
+export interface QueryRun {
+  status: 'running' | 'done' | 'error';
+  response?: QueryResponse;
+  error?: unknown;
+  durationMs?: number;
+}
+
+const TABS_KEY = 'gca_query_console_tabs_v1';
+const HISTORY_KEY = 'gca_query_console_history_v1';
+const MAX_HISTORY = 50;
+const DEFAULT_QUERY = 'triples(?S, "calls", ?O)';
+
+const newTab = (index: number, query = DEFAULT_QUERY): QueryTab => ({
+  id: Math.random().toString(36).slice(2, 10),
+  title: `Query ${index}`,
+  query,
+});
+
+function load<T>(key: string, fallback: T): T {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function useQueryConsole() {
+  const { dataApiBase, selectedProjectId } = useSettingsContext();
+  const [tabs, setTabs] = useState<QueryTab[]>(() => {
+    const saved = load<QueryTab[]>(TABS_KEY, []);
+    return saved.length > 0 ? saved : [newTab(1)];
+  });
+  const [activeTabId, setActiveTabId] = useState(() => tabs[0]!.id);
+  const [history, setHistory] = useState<string[]>(() => load<string[]>(HISTORY_KEY, []));
+  const [runs, setRuns] = useState<Record<string, QueryRun>>({});
+
+  useEffect(() => {
+    localStorage.setItem(TABS_KEY, JSON.stringify(tabs));
+  }, [tabs]);
+
+  // Abandon in-flight executions when the console unmounts
+  const tabsRef = useRef(tabs);
+  tabsRef.current = tabs;
+  useEffect(() => () => {
+    tabsRef.current.forEach(tab => requestManager.cancelRequest(`queryConsole-${tab.id}`, 'query console closed'));
+  }, []);
+
+  const activeTab = tabs.find(t => t.id === activeTabId) ?? tabs[0]!;
+
+  const updateQuery = useCallback((id: string, query: string) => {
+    setTabs(prev => prev.map(t => (t.id === id ? { ...t, query } : t)));
+  }, []);
+
+  const addTab = useCallback((query?: string) => {
+    const tab = newTab(tabs.length + 1, query);
+    setTabs(prev => [...prev, tab]);
+    setActiveTabId(tab.id);
+  }, [tabs.length]);
+
+  const closeTab = useCallback((id: string) => {
+    requestManager.cancelRequest(`queryConsole-${id}`, 'query tab closed');
+    const index = tabs.findIndex(t => t.id === id);
+    const remaining = tabs.filter(t => t.id !== id);
+    const next = remaining.length > 0 ? remaining : [newTab(1)];
+    setTabs(next);
+    if (id === activeTabId) setActiveTabId(next[Math.max(0, index - 1)]?.id ?? next[0]!.id);
+    setRuns(prev => {
+      const { [id]: _closed, ...rest } = prev;
+      return rest;
+    });
+  }, [tabs, activeTabId]);
+
+  const addToHistory = useCallback((query: string) => {
+    setHistory(prev => {
+      const next = [query, ...prev.filter(q => q !== query)].slice(0, MAX_HISTORY);
+      localStorage.setItem(HISTORY_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const clearHistory = useCallback(() => {
+    setHistory([]);
+    localStorage.removeItem(HISTORY_KEY);
+  }, []);
+
+  const run = useCallback(async (id: string, query: string, hydrate: boolean) => {
+    if (!query.trim() || !dataApiBase || !selectedProjectId) return;
+    addToHistory(query.trim());
+    const controller = requestManager.startRequest(`queryConsole-${id}`);
+    const startedAt = performance.now();
+    setRuns(prev => ({ ...prev, [id]: { status: 'running' } }));
+
+    try {
+      const response = await executeQuery(dataApiBase, selectedProjectId, query, hydrate, controller.signal, true);
+      if (controller.signal.aborted) return;
+      setRuns(prev => ({ ...prev, [id]: { status: 'done', response, durationMs: Math.round(performance.now() - startedAt) } }));
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      setRuns(prev => ({ ...prev, [id]: { status: 'error', error, durationMs: Math.round(performance.now() - startedAt) } }));
+    }
+  }, [dataApiBase, selectedProjectId, addToHistory]);
+
+  const cancel = useCallback((id: string) => {
+    requestManager.cancelRequest(`queryConsole-${id}`, 'cancelled from query console');
+    setRuns(prev => {
+      const { [id]: _cancelled, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+
+  return {
+    tabs,
+    activeTab,
+    setActiveTabId,
+    updateQuery,
+    addTab,
+    closeTab,
+    runs,
+    run,
+    cancel,
+    history,
+    clearHistory,
+  };
+}
+
+export default useQueryConsole;
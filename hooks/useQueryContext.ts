@@ -3,6 +3,7 @@ import { useGraphContext } from '../context/GraphContext';
 import { useSettingsContext } from '../context/SettingsContext';
 import { fetchSource, fetchSummary } from '../services/graphService';
 import { detectLanguage } from '../utils/languageUtils';
+import { runWithConcurrencyLimit } from '../utils/concurrency';
 import { GraphNode } from '../types';
 
 interface ContextNode {
@@ -22,31 +23,6 @@ const getNodeProp = (node: GraphNode, key: string, fallback: string = ''): strin
   return typeof val === 'string' ? val : fallback;
 };
 
-const runWithConcurrencyLimit = async <T>(
-  tasks: (() => Promise<T>)[],
-  limit: number
-): Promise<T[]> => {
-  const results: T[] = [];
-  const running = new Set<Promise<void>>();
-
-  for (let i = 0; i < tasks.length; i++) {
-    const task = tasks[i];
-    if (!task) continue;
-    const p = task().then(result => {
-      results[i] = result;
-    });
-    running.add(p);
-    p.finally(() => running.delete(p));
-
-    if (running.size >= limit) {
-      await Promise.race(running);
-    }
-  }
-
-  await Promise.all(running);
-  return results;
-};
-
 export const useQueryContext = () => {
   const { selectedNode, fileScopedNodes, astData } = useGraphContext();
   const { dataApiBase, selectedProjectId } = useSettingsContext();
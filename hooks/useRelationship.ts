@@ -0,0 +1,133 @@
+/**
+ * useRelationship - How two symbols are related through calls
+ *
+ * Asks /graph/reachable in both directions and /graph/lca for the lowest
+ * common caller, then recovers the actual hops from what-calls slices so
+ * each call can be shown with its line. When the slice doesn't contain the
+ * path (the backend's depth limits differ), /graph/path fills in the hops
+ * without line numbers.
+ */
+import { useCallback, useEffect, useState } from 'react';
+import { useSettingsContext } from '../context/SettingsContext';
+import {
+  checkReachability,
+  fetchGraphPath,
+  fetchWhatCalls,
+  findLCA,
+  GraphMapLinkWithLine,
+  GraphMapNode,
+} from '../services/graphService';
+import { CallHop, shortestCallPath } from '../utils/callPaths';
+import { requestManager } from '../utils/requestManager';
+import { logger } from '../logger';
+
+const REQUEST_ID = 'relationship';
+
+export const DEFAULT_RELATIONSHIP_DEPTH = 5;
+
+export interface CallPathResult {
+  from: string;
+  to: string;
+  reachable: boolean;
+  /** Null when reachable but no slice contained the path */
+  hops: CallHop[] | null;
+}
+
+export interface RelationshipResult {
+  a: string;
+  b: string;
+  depth: number;
+  forward: CallPathResult;
+  backward: CallPathResult;
+  lca: string | null;
+  lcaToA: CallHop[] | null;
+  lcaToB: CallHop[] | null;
+  /** Nodes seen in the slices, for names and kinds in the graph */
+  nodes: Record<string, GraphMapNode>;
+}
+
+export function useRelationship() {
+  const { dataApiBase, selectedProjectId } = useSettingsContext();
+  const [result, setResult] = useState<RelationshipResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+
+  const analyze = useCallback(async (a: string, b: string, depth: number = DEFAULT_RELATIONSHIP_DEPTH) => {
+    if (!dataApiBase || !selectedProjectId || !a || !b) return;
+    const controller = requestManager.startRequest(REQUEST_ID);
+    const { signal } = controller;
+    setIsLoading(true);
+    setError(null);
+
+    const nodes: Record<string, GraphMapNode> = {};
+    const slices = new Map<string, Promise<GraphMapLinkWithLine[]>>();
+    // Several paths can start from the same symbol; fetch its slice once
+    const sliceFrom = (symbol: string) => {
+      let slice = slices.get(symbol);
+      if (!slice) {
+        slice = fetchWhatCalls(dataApiBase, selectedProjectId, symbol, depth, false, signal).then(response => {
+          response.nodes.forEach(n => { nodes[n.id] = n; });
+          return response.links;
+        });
+        slices.set(symbol, slice);
+      }
+      return slice;
+    };
+
+    // A failed slice or path lookup only loses that path's hops, not the whole result
+    const pathBetween = async (from: string, to: string): Promise<CallHop[] | null> => {
+      try {
+        const hops = shortestCallPath(await sliceFrom(from), from, to);
+        if (hops) return hops;
+        const path = await fetchGraphPath(dataApiBase, selectedProjectId, from, to, signal);
+        path.nodes.forEach(n => { nodes[n.id] ??= n; });
+        return shortestCallPath(path.links, from, to);
+      } catch (err) {
+        if (signal.aborted) throw err;
+        logger.warn('[useRelationship] No hops for', from, '->', to, err);
+        return null;
+      }
+    };
+
+    try {
+      const [forward, backward, lca] = await Promise.all([
+        checkReachability(dataApiBase, selectedProjectId, a, b, depth, signal),
+        checkReachability(dataApiBase, selectedProjectId, b, a, depth, signal),
+        findLCA(dataApiBase, selectedProjectId, a, b, depth, signal),
+      ]);
+      const [forwardHops, backwardHops, lcaToA, lcaToB] = await Promise.all([
+        forward.reachable ? pathBetween(a, b) : null,
+        backward.reachable ? pathBetween(b, a) : null,
+        lca.lca ? pathBetween(lca.lca, a) : null,
+        lca.lca ? pathBetween(lca.lca, b) : null,
+      ]);
+      if (signal.aborted) return;
+      setResult({
+        a,
+        b,
+        depth,
+        forward: { from: a, to: b, reachable: forward.reachable, hops: forwardHops },
+        backward: { from: b, to: a, reachable: backward.reachable, hops: backwardHops },
+        lca: lca.lca,
+        lcaToA,
+        lcaToB,
+        nodes,
+      });
+    } catch (err) {
+      if (!signal.aborted) setError(err);
+    } finally {
+      if (!signal.aborted) setIsLoading(false);
+    }
+  }, [dataApiBase, selectedProjectId]);
+
+  useEffect(() => {
+    setResult(null);
+    setError(null);
+  }, [dataApiBase, selectedProjectId]);
+
+  useEffect(() => () => requestManager.cancelRequest(REQUEST_ID, 'relationship panel closed'), []);
+
+  return { result, isLoading, error, analyze };
+}
+
+export default useRelationship;
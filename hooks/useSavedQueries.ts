@@ -0,0 +1,37 @@
+/**
+ * useSavedQueries - The selected project's saved query library
+ *
+ * Backed by savedQueryStore, so every search bar and the App-level run
+ * recorder see the same library.
+ */
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { useSettingsContext } from '../context/SettingsContext';
+import { downloadJson, readFileAsText, toFileSlug } from '../utils/fileTransfer';
+import { SavedQuery, savedQueryStore, sortSavedQueries } from '../utils/savedQueries';
+
+const subscribe = (onChange: () => void) => savedQueryStore.subscribe(onChange);
+
+export function useSavedQueries() {
+  const { selectedProjectId } = useSettingsContext();
+  const raw = useSyncExternalStore(subscribe, () => savedQueryStore.getQueries(selectedProjectId));
+  const queries = useMemo(() => sortSavedQueries(raw), [raw]);
+  const tags = useMemo(() => Array.from(new Set(raw.flatMap(q => q.tags))).sort(), [raw]);
+
+  const save = useCallback((query: SavedQuery) => savedQueryStore.save(selectedProjectId, query), [selectedProjectId]);
+  const remove = useCallback((id: string) => savedQueryStore.remove(selectedProjectId, id), [selectedProjectId]);
+  const togglePin = useCallback((id: string) => savedQueryStore.togglePin(selectedProjectId, id), [selectedProjectId]);
+
+  const exportLibrary = useCallback(() => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    downloadJson(`gca-queries-${toFileSlug(selectedProjectId)}-${stamp}.json`, savedQueryStore.exportLibrary(selectedProjectId));
+  }, [selectedProjectId]);
+
+  /** Throws SavedQueryImportError or SyntaxError for files that are not a library */
+  const importLibrary = useCallback(async (file: File) => {
+    return savedQueryStore.importLibrary(selectedProjectId, JSON.parse(await readFileAsText(file)));
+  }, [selectedProjectId]);
+
+  return { projectId: selectedProjectId, queries, tags, save, remove, togglePin, exportLibrary, importLibrary };
+}
+
+export default useSavedQueries;
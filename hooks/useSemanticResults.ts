@@ -0,0 +1,91 @@
+/**
+ * useSemanticResults - Ranked semantic hits with kind and snippets filled in
+ *
+ * Runs /semantic-search (or starts from results the smart search already
+ * fetched) and then hydrates every hit a few at a time, so kinds and code
+ * snippets appear progressively. A new search cancels the previous one.
+ */
+import { useCallback, useEffect, useState } from 'react';
+import { useSettingsContext } from '../context/SettingsContext';
+import { fetchHydrate, fetchSemanticSearch, SemanticSearchResult } from '../services/graphService';
+import { runWithConcurrencyLimit } from '../utils/concurrency';
+import { requestManager } from '../utils/requestManager';
+import { applyHydration, SemanticHit, toSemanticHit } from '../utils/semanticFacets';
+import { logger } from '../logger';
+
+export interface SemanticResultSet {
+  query: string;
+  results: SemanticSearchResult[];
+}
+
+const REQUEST_ID = 'semanticResults';
+const HYDRATE_CONCURRENCY = 4;
+export const DEFAULT_RESULT_COUNT = 25;
+
+export function useSemanticResults(initial: SemanticResultSet | null) {
+  const { dataApiBase, selectedProjectId } = useSettingsContext();
+  const [query, setQuery] = useState(initial?.query ?? '');
+  const [hits, setHits] = useState<SemanticHit[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [pendingHydration, setPendingHydration] = useState(0);
+  const [error, setError] = useState<unknown>(null);
+
+  const hydrateAll = useCallback(async (base: SemanticHit[], signal: AbortSignal) => {
+    setPendingHydration(base.length);
+    await runWithConcurrencyLimit(base.map(hit => async () => {
+      if (signal.aborted) return;
+      let symbol = null;
+      try {
+        symbol = await fetchHydrate(dataApiBase, selectedProjectId, hit.id, signal);
+      } catch (err) {
+        if (!signal.aborted) logger.warn('[useSemanticResults] Could not hydrate', hit.id, err);
+      }
+      if (signal.aborted) return;
+      setHits(prev => prev.map(h => (h.id === hit.id ? applyHydration(h, symbol) : h)));
+      setPendingHydration(n => Math.max(0, n - 1));
+    }), HYDRATE_CONCURRENCY);
+  }, [dataApiBase, selectedProjectId]);
+
+  const show = useCallback((results: SemanticSearchResult[], signal: AbortSignal) => {
+    const base = [...results].sort((a, b) => b.score - a.score).map((r, i) => toSemanticHit(r, i + 1));
+    setHits(base);
+    return hydrateAll(base, signal);
+  }, [hydrateAll]);
+
+  const search = useCallback(async (text: string, k = DEFAULT_RESULT_COUNT) => {
+    const trimmed = text.trim();
+    if (!trimmed || !dataApiBase || !selectedProjectId) return;
+    const controller = requestManager.startRequest(REQUEST_ID);
+    setQuery(trimmed);
+    setIsSearching(true);
+    setError(null);
+    try {
+      const results = await fetchSemanticSearch(dataApiBase, selectedProjectId, trimmed, k, controller.signal);
+      if (controller.signal.aborted) return;
+      setIsSearching(false);
+      await show(results, controller.signal);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setError(err);
+      setHits([]);
+    } finally {
+      if (!controller.signal.aborted) setIsSearching(false);
+    }
+  }, [dataApiBase, selectedProjectId, show]);
+
+  // Results handed over from the smart search are shown without re-querying
+  useEffect(() => {
+    if (!initial) return;
+    const controller = requestManager.startRequest(REQUEST_ID);
+    setQuery(initial.query);
+    setError(null);
+    show(initial.results, controller.signal);
+    return () => requestManager.cancelRequest(REQUEST_ID, 'semantic results replaced');
+  }, [initial, show]);
+
+  useEffect(() => () => requestManager.cancelRequest(REQUEST_ID, 'semantic results closed'), []);
+
+  return { query, hits, isSearching, pendingHydration, error, search };
+}
+
+export default useSemanticResults;
@@ -0,0 +1,94 @@
+/**
+ * useSessionFile - Save the current exploration session to a JSON file and reopen it later
+ */
+import { useCallback } from 'react';
+import { useGraphContext } from '../context/GraphContext';
+import { useSearchContext } from '../context/SearchContext';
+import { useNarrativeContext } from '../context/NarrativeContext';
+import { useSettingsContext } from '../context/SettingsContext';
+import { useUIContext } from '../context/UIContext';
+import { useToast } from '../context/ToastContext';
+import { FileDetailsResponse } from '../services/graphService';
+import { createSession, parseSession } from '../utils/sessionFile';
+import { downloadJson, readFileAsText, toFileSlug } from '../utils/fileTransfer';
+import { logger } from '../logger';
+
+export const useSessionFile = () => {
+  const toast = useToast();
+  const {
+    astData, setAstData,
+    fileScopedNodes, setFileScopedNodes,
+    fileScopedLinks, setFileScopedLinks,
+    expandedFileIds, setExpandedFileIds,
+    fileDetailsCache, setFileDetailsCache,
+    selectedNode, setSelectedNode,
+  } = useGraphContext();
+  const { conversationHistory, restoreConversationHistory } = useSearchContext();
+  const { narrativeMessages, setNarrativeMessages } = useNarrativeContext();
+  const { selectedProjectId, setSelectedProjectId, currentProject, setCurrentProject, availableProjects } = useSettingsContext();
+  const { viewMode, setViewMode, setIsLandingView } = useUIContext();
+
+  const saveSession = useCallback(() => {
+    if (!selectedProjectId) {
+      toast.warning('Select a project before saving a session');
+      return;
+    }
+
+    const fileDetails: Record<string, FileDetailsResponse> = {};
+    for (const fileId of expandedFileIds) {
+      const details = fileDetailsCache.get(fileId);
+      if (details) fileDetails[fileId] = details;
+    }
+
+    const session = createSession({
+      projectId: selectedProjectId,
+      projectName: currentProject,
+      viewMode,
+      astData,
+      fileScopedNodes,
+      fileScopedLinks,
+      expandedFileIds: Array.from(expandedFileIds),
+      fileDetails,
+      selectedNode,
+      narrativeMessages,
+      conversationHistory,
+    });
+
+    const stamp = session.exportedAt.slice(0, 19).replace(/[:T]/g, '-');
+    downloadJson(`gca-session-${toFileSlug(selectedProjectId)}-${stamp}.json`, session);
+    toast.success('Session saved');
+  }, [selectedProjectId, currentProject, viewMode, astData, fileScopedNodes, fileScopedLinks, expandedFileIds, fileDetailsCache, selectedNode, narrativeMessages, conversationHistory, toast]);
+
+  const openSession = useCallback(async (file: File) => {
+    try {
+      const session = parseSession(await readFileAsText(file));
+      logger.log('[useSessionFile] Opening session:', session.projectId, session.exportedAt);
+
+      if (availableProjects.length > 0 && !availableProjects.some(p => p.id === session.projectId)) {
+        toast.warning(`Project "${session.projectName}" is not on the connected backend; code lookups may fail`);
+      }
+
+      setSelectedProjectId(session.projectId);
+      setCurrentProject(session.projectName);
+      setAstData(session.astData);
+      setFileScopedNodes(session.fileScopedNodes);
+      setFileScopedLinks(session.fileScopedLinks);
+      setFileDetailsCache(new Map(Object.entries(session.fileDetails)));
+      setExpandedFileIds(new Set(session.expandedFileIds));
+      setSelectedNode(session.selectedNode);
+      setNarrativeMessages(session.narrativeMessages);
+      restoreConversationHistory(session.projectId, session.conversationHistory);
+      if (session.viewMode) setViewMode(session.viewMode);
+      setIsLandingView(false);
+
+      toast.success(`Session opened: ${session.projectName}`);
+    } catch (err: any) {
+      logger.error('[useSessionFile] Failed to open session:', err);
+      toast.error(err.message || 'Failed to open session');
+    }
+  }, [availableProjects, setSelectedProjectId, setCurrentProject, setAstData, setFileScopedNodes, setFileScopedLinks, setFileDetailsCache, setExpandedFileIds, setSelectedNode, setNarrativeMessages, restoreConversationHistory, setViewMode, setIsLandingView, toast]);
+
+  return { saveSession, openSession };
+};
+
+export default useSessionFile;
@@ -1,24 +1,15 @@
 import { useEffect } from 'react';
-import { ASTNode, FlatGraph } from '../types';
 import { logger } from '../logger';
 
+// The project graph is persisted to IndexedDB instead (see useGraphPersistence)
 export const useSessionStorage = (
-  astData: ASTNode | FlatGraph | null,
   sandboxFiles: Record<string, any>,
   dataApiBase: string
 ) => {
-  // Persist AST data to session storage
+  // Drop the graph snapshot written by older versions
   useEffect(() => {
-    try {
-      sessionStorage.setItem('gca_ast_data', JSON.stringify(astData));
-    } catch (e) {
-      if (e instanceof DOMException && e.name === 'QuotaExceededError') {
-        logger.debug('Session storage quota exceeded, persistence disabled for this session.');
-      } else {
-        logger.warn('Failed to save AST data to session storage:', e);
-      }
-    }
-  }, [astData]);
+    sessionStorage.removeItem('gca_ast_data');
+  }, []);
 
   // Persist sandbox files to session storage
   useEffect(() => {
@@ -11,7 +11,8 @@ import {
     fetchSource,
     fetchGraphPath,
     fetchSemanticSearch,
-    fetchSubgraph
+    fetchSubgraph,
+    SemanticSearchResult
 } from '../services/graphService';
 import { logger } from '../logger';
 import {
@@ -71,6 +72,8 @@ export const useSmartSearch = (options: UseSmartSearchOptions) => {
     const [searchError, setSearchError] = useState<string | null>(null);
     const [searchStatus, setSearchStatus] = useState<string | null>(null);
     const [queryResults, setQueryResults] = useState<any>(null);
+    // Ranked hits from the last semantic fallback, for the semantic results panel
+    const [lastSemanticResults, setLastSemanticResults] = useState<{ query: string; results: SemanticSearchResult[] } | null>(null);
 
     const handleSmartSearch = useCallback(async (query: string) => {
         requestManager.cancelRequest('smartSearch');
@@ -206,6 +209,7 @@ export const useSmartSearch = (options: UseSmartSearchOptions) => {
                     const semanticResults = await fetchSemanticSearch(dataApiBase, selectedProjectId, query, 10);
 
                     if (semanticResults && semanticResults.length > 0) {
+                        setLastSemanticResults({ query, results: semanticResults });
                         const ids = semanticResults.map(r => r.symbol_id);
                         setSearchStatus("Resolving semantic context...");
                         const subgraph = await fetchSubgraph(dataApiBase, selectedProjectId, ids);
@@ -346,6 +350,7 @@ export const useSmartSearch = (options: UseSmartSearchOptions) => {
                     const semanticResults = await fetchSemanticSearch(dataApiBase, selectedProjectId, query, 10);
 
                     if (semanticResults && semanticResults.length > 0) {
+                        setLastSemanticResults({ query, results: semanticResults });
                         const ids = semanticResults.map(r => r.symbol_id);
                         setSearchStatus("Resolving semantic context...");
                         const subgraph = await fetchSubgraph(dataApiBase, selectedProjectId, ids);
@@ -473,6 +478,7 @@ export const useSmartSearch = (options: UseSmartSearchOptions) => {
         searchError,
         searchStatus,
         queryResults,
+        lastSemanticResults,
         setSearchError,
         setSearchStatus,
         setQueryResults,
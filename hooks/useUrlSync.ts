@@ -0,0 +1,100 @@
+/**
+ * useUrlSync - Keeps the browser URL in sync with project, view, selection and query
+ * Pushes a history entry on every shareable state change and restores state on back/forward.
+ */
+import { useEffect, useRef } from 'react';
+import { useLocation, useNavigate, useNavigationType, NavigationType } from 'react-router-dom';
+import { useSettingsContext } from '../context/SettingsContext';
+import { useUIContext } from '../context/UIContext';
+import { useGraphContext } from '../context/GraphContext';
+import { useSearchContext } from '../context/SearchContext';
+import { buildUrl, parseUrlState, readInitialUrlState } from '../utils/urlState';
+import { GraphNode } from '../types';
+import { logger } from '../logger';
+
+interface UseUrlSyncOptions {
+  /** Loads a project the URL points at (same path as picking it in the sidebar) */
+  onProjectChange: (projectId: string) => void;
+}
+
+/** Placeholder node for a symbol known only by ID; App hydrates it on selection. */
+const symbolStub = (symbolId: string): GraphNode => ({
+  id: symbolId,
+  name: symbolId.split(/[:#]/).pop() || symbolId,
+  type: 'symbol',
+});
+
+export const useUrlSync = ({ onProjectChange }: UseUrlSyncOptions) => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const navigationType = useNavigationType();
+
+  const { selectedProjectId, availableProjects, isDataSyncing } = useSettingsContext();
+  const { viewMode, setViewMode, activeSubMode, setActiveSubMode } = useUIContext();
+  const { selectedNode, setSelectedNode } = useGraphContext();
+  const { lastExecutedQuery, setLastExecutedQuery } = useSearchContext();
+
+  // A symbol from the URL can only be selected once its project has synced,
+  // otherwise the sync resets the selection and hydration has no project.
+  const pendingSymbolRef = useRef<string | null>(readInitialUrlState().symbolId ?? null);
+  // The initial location is already reflected by the context initializers
+  const lastLocationKeyRef = useRef<string>(location.key);
+
+  // Restore state when the user navigates with back/forward
+  useEffect(() => {
+    if (navigationType !== NavigationType.Pop) return;
+    if (lastLocationKeyRef.current === location.key) return;
+    lastLocationKeyRef.current = location.key;
+
+    const urlState = parseUrlState(location.pathname, location.search);
+    logger.log('[useUrlSync] Restoring state from URL:', urlState);
+
+    if (urlState.projectId && urlState.projectId !== selectedProjectId) {
+      onProjectChange(urlState.projectId);
+    }
+    if (urlState.viewMode) setViewMode(urlState.viewMode);
+    if (urlState.subMode) setActiveSubMode(urlState.subMode);
+    setLastExecutedQuery(urlState.query || '');
+
+    if (urlState.symbolId !== selectedNode?.id) {
+      if (urlState.projectId && urlState.projectId !== selectedProjectId) {
+        pendingSymbolRef.current = urlState.symbolId ?? null;
+      } else {
+        setSelectedNode(urlState.symbolId ? symbolStub(urlState.symbolId) : null);
+      }
+    }
+    // Only location changes should trigger a restore
+  }, [location.key, navigationType]);
+
+  // Apply a deep-linked symbol once its project is loaded
+  useEffect(() => {
+    const symbolId = pendingSymbolRef.current;
+    if (!symbolId || isDataSyncing || !selectedProjectId) return;
+    if (!availableProjects.some(p => p.id === selectedProjectId)) return;
+
+    pendingSymbolRef.current = null;
+    setSelectedNode(symbolStub(symbolId));
+  }, [selectedProjectId, availableProjects, isDataSyncing, setSelectedNode]);
+
+  // Reflect state changes into the URL
+  useEffect(() => {
+    if (pendingSymbolRef.current) return;
+
+    const next = buildUrl({
+      projectId: selectedProjectId || undefined,
+      viewMode,
+      symbolId: selectedNode?.id,
+      subMode: activeSubMode,
+      query: lastExecutedQuery || undefined,
+    });
+    const current = `${location.pathname}${location.search}`;
+    if (next === current) return;
+
+    // Opening the app on "/" should not leave a dead entry behind
+    const replace = current === '/' || !selectedProjectId;
+    navigate(next, { replace });
+    // Location is read, not reacted to: restoring from it is the effect above
+  }, [selectedProjectId, viewMode, selectedNode?.id, activeSubMode, lastExecutedQuery, navigate]);
+};
+
+export default useUrlSync;
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { GcaApiError, toApiError, describeError, formatError } from '../apiErrors';
+import { BackendUnavailableError } from '../../utils/circuitBreaker';
+
+function errorResponse(status: number, body: string, headers: Record<string, string> = {}) {
+  return new Response(body, { status, statusText: 'Error', headers });
+}
+
+describe('toApiError', () => {
+  it('reads message and code from a nested error object', async () => {
+    const err = await toApiError(
+      errorResponse(422, JSON.stringify({ error: { message: 'bad query', code: 'PARSE_ERROR', request_id: 'req-1' } })),
+      'POST /api/v1/query'
+    );
+    expect(err).toBeInstanceOf(GcaApiError);
+    expect(err.status).toBe(422);
+    expect(err.endpoint).toBe('POST /api/v1/query');
+    expect(err.detail).toBe('bad query');
+    expect(err.code).toBe('PARSE_ERROR');
+    expect(err.requestId).toBe('req-1');
+    expect(err.message).toBe('API Error 422 [POST /api/v1/query]: bad query');
+  });
+
+  it('prefers the X-Request-ID header and accepts flat error bodies', async () => {
+    const err = await toApiError(
+      errorResponse(500, JSON.stringify({ error: 'db down', code: 'INTERNAL' }), { 'X-Request-ID': 'hdr-9' }),
+      'GET /api/v1/projects'
+    );
+    expect(err.detail).toBe('db down');
+    expect(err.code).toBe('INTERNAL');
+    expect(err.requestId).toBe('hdr-9');
+  });
+
+  it('falls back to the plain-text body', async () => {
+    const err = await toApiError(errorResponse(404, 'project not found'), 'GET /api/v1/files');
+    expect(err.detail).toBe('project not found');
+    expect(err.code).toBeUndefined();
+  });
+});
+
+describe('describeError', () => {
+  it('maps statuses to actionable descriptions', () => {
+    expect(describeError(new GcaApiError(401, 'GET /x', 'unauthorized'))).toMatchObject({ title: 'Authentication required', retryable: false });
+    expect(describeError(new GcaApiError(429, 'GET /x', 'slow down'))).toMatchObject({ retryable: true });
+    expect(describeError(new GcaApiError(502, 'GET /x', 'bad gateway', undefined, 'r1'))).toMatchObject({
+      title: 'Backend error (502): bad gateway',
+      requestId: 'r1',
+      retryable: true,
+    });
+  });
+
+  it('recognises circuit breaker and network failures', () => {
+    expect(describeError(new BackendUnavailableError('http://api.test', 1000)).retryable).toBe(true);
+    expect(describeError(new TypeError('Failed to fetch')).title).toBe('Cannot reach the backend');
+  });
+
+  it('formats a one-line message with the action and request ID', () => {
+    const err = new GcaApiError(503, 'POST /api/v1/ask', 'overloaded', undefined, 'abc');
+    expect(formatError(err, 'Asking AI')).toBe(
+      'Asking AI failed: Backend error (503): overloaded — Retry, or share the request ID with the backend team. (request abc)'
+    );
+    expect(formatError(new Error('boom'))).toBe('boom');
+  });
+});
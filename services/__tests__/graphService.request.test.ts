@@ -1,19 +1,22 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 vi.mock('../../utils/fetchWithTimeout', () => ({
   fetchWithTimeout: vi.fn(),
 }));
 
 import { fetchWithTimeout } from '../../utils/fetchWithTimeout';
-import { fetchProjects, fetchSummary, executeQuery } from '../graphService';
+import { fetchProjects, fetchSummary, executeQuery, fetchBackbone, fetchSymbols, findLCA, fetchSource, createSnapshot, ResponseValidationError } from '../graphService';
+import { circuitBreaker, BackendUnavailableError } from '../../utils/circuitBreaker';
+import { queryCache } from '../../utils/queryCache';
 
 const mockFetchWithTimeout = fetchWithTimeout as ReturnType<typeof vi.fn>;
 
-function mockResponse(data: unknown, ok = true, status = 200) {
+function mockResponse(data: unknown, ok = true, status = 200, headers: Record<string, string> = {}) {
   return {
     ok,
     status,
     statusText: ok ? 'OK' : 'Error',
+    headers: new Headers(headers),
     json: () => Promise.resolve(data),
     text: () => Promise.resolve(ok ? '' : JSON.stringify(data)),
   } as Response;
@@ -22,6 +25,8 @@ function mockResponse(data: unknown, ok = true, status = 200) {
 describe('graphService request<T>', () => {
   beforeEach(() => {
     mockFetchWithTimeout.mockReset();
+    circuitBreaker.reset();
+    queryCache.clear();
   });
 
   it('fetchProjects returns project list', async () => {
@@ -72,4 +77,145 @@ describe('graphService request<T>', () => {
     const result = await executeQuery('http://localhost:8080', 'testproj', longQuery);
     expect(result).toEqual(resp);
   });
+
+  it('rejects payloads that do not match the response schema', async () => {
+    mockFetchWithTimeout.mockResolvedValue(mockResponse({ nodes: [{ id: 'a' }, { name: 'no id' }], links: [] }));
+    const promise = executeQuery('http://localhost:8080', 'testproj', 'triples(?S, ?P, ?O)');
+    await expect(promise).rejects.toBeInstanceOf(ResponseValidationError);
+    await expect(promise).rejects.toThrow('Invalid response from POST /api/v1/query: nodes[1].id expected string, got undefined');
+  });
+
+  it('defaults missing node and link lists to empty arrays', async () => {
+    mockFetchWithTimeout.mockResolvedValue(mockResponse({ results: [['a', 'calls', 'b']] }));
+    const result = await executeQuery('http://localhost:8080', 'testproj', 'triples(?S, ?P, ?O)', false, null, true);
+    expect(result).toEqual({ nodes: [], links: [], results: [['a', 'calls', 'b']] });
+  });
+
+  it('accepts null slices and fields from Go backends', async () => {
+    mockFetchWithTimeout.mockResolvedValueOnce(mockResponse({
+      nodes: null,
+      links: [{ source: 'a', target: 'b', weight: null }],
+      results: null,
+      triples: [['a', 'calls', 'b']],
+    }));
+    const result = await executeQuery('http://localhost:8080', 'testproj', 'triples(?S, ?P, ?O)', false, null, true);
+    expect(result.nodes).toEqual([]);
+    expect(result.links).toEqual([{ source: 'a', target: 'b', weight: undefined }]);
+    expect(result.results ?? result.triples).toEqual([['a', 'calls', 'b']]);
+
+    mockFetchWithTimeout.mockResolvedValueOnce(mockResponse({ symbols: null }));
+    expect(await fetchSymbols('http://localhost:8080', 'testproj', 'A')).toEqual([]);
+
+    mockFetchWithTimeout.mockResolvedValueOnce(mockResponse({ a: 'x', b: 'y' }));
+    expect((await findLCA('http://localhost:8080', 'testproj', 'x', 'y')).lca).toBeNull();
+  });
+
+  it('fetchBackbone maps backend link type to source_type', async () => {
+    mockFetchWithTimeout.mockResolvedValue(mockResponse({
+      nodes: [{ id: 'a.go:A' }, { id: 'b.go:B' }],
+      links: [{ source: 'a.go:A', target: 'b.go:B', type: 'virtual' }],
+    }));
+    const result = await fetchBackbone('http://localhost:8080', 'testproj');
+    expect(result.links[0]!.source_type).toBe('virtual');
+    expect(result.files.find(f => f.path === 'b.go')!.entryNodes).toEqual(['b.go:B']);
+  });
+});
+
+describe('graphService query cache', () => {
+  beforeEach(() => {
+    mockFetchWithTimeout.mockReset();
+    circuitBreaker.reset();
+    queryCache.clear();
+  });
+
+  it('coalesces identical GETs and serves repeats from cache', async () => {
+    const summary = { project_name: 'Test', total_facts: 1, top_symbols: [] };
+    mockFetchWithTimeout.mockResolvedValue(mockResponse(summary));
+    const [a, b] = await Promise.all([
+      fetchSummary('http://localhost:8080', 'testproj'),
+      fetchSummary('http://localhost:8080', 'testproj'),
+    ]);
+    await fetchSummary('http://localhost:8080/', 'testproj');
+    expect(a).toEqual(summary);
+    expect(b).toEqual(summary);
+    expect(mockFetchWithTimeout).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps uncached source reads out of the cache', async () => {
+    mockFetchWithTimeout.mockImplementation(async () => mockResponse(''));
+    await fetchSource('http://localhost:8080', 'testproj', 'main.go', undefined, undefined, null, false);
+    await fetchSource('http://localhost:8080', 'testproj', 'main.go', undefined, undefined, null, false);
+    expect(mockFetchWithTimeout).toHaveBeenCalledTimes(2);
+  });
+
+  it('sends every Datalog query to the backend unless asked to cache it', async () => {
+    mockFetchWithTimeout.mockImplementation(async () => mockResponse({ nodes: [], links: [] }));
+    await executeQuery('http://localhost:8080', 'testproj', 'triples(?S, ?P, ?O)');
+    await executeQuery('http://localhost:8080', 'testproj', 'triples(?S, ?P, ?O)');
+    expect(mockFetchWithTimeout).toHaveBeenCalledTimes(2);
+
+    await executeQuery('http://localhost:8080', 'testproj', 'triples(?S, "bridges_to", ?O)', false, null, true, true);
+    await executeQuery('http://localhost:8080', 'testproj', 'triples(?S, "bridges_to", ?O)', false, null, true, true);
+    expect(mockFetchWithTimeout).toHaveBeenCalledTimes(3);
+  });
+
+  it('invalidates the project after a snapshot is created', async () => {
+    mockFetchWithTimeout.mockResolvedValue(mockResponse({ project_name: 'Test', total_facts: 1, top_symbols: [] }));
+    await fetchSummary('http://localhost:8080', 'testproj');
+    mockFetchWithTimeout.mockResolvedValueOnce(mockResponse({ id: 's1', path: 'snap-1' }));
+    await createSnapshot('http://localhost:8080', 'testproj');
+    await fetchSummary('http://localhost:8080', 'testproj');
+    expect(mockFetchWithTimeout).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('graphService retries and circuit breaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockFetchWithTimeout.mockReset();
+    circuitBreaker.reset();
+    queryCache.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('retries GETs on transient failures', async () => {
+    mockFetchWithTimeout
+      .mockRejectedValueOnce(new Error('GET http://localhost:8080/api/v1/projects failed: network error'))
+      .mockResolvedValueOnce(mockResponse({}, false, 503))
+      .mockResolvedValueOnce(mockResponse([{ id: 'p1', name: 'Project 1' }]));
+    const promise = fetchProjects('http://localhost:8080');
+    await vi.runAllTimersAsync();
+    await expect(promise).resolves.toEqual([{ id: 'p1', name: 'Project 1' }]);
+    expect(mockFetchWithTimeout).toHaveBeenCalledTimes(3);
+  });
+
+  it('honors Retry-After between attempts', async () => {
+    mockFetchWithTimeout
+      .mockResolvedValueOnce(mockResponse({}, false, 429, { 'Retry-After': '2' }))
+      .mockResolvedValueOnce(mockResponse([]));
+    const promise = fetchProjects('http://localhost:8080');
+    await vi.advanceTimersByTimeAsync(1900);
+    expect(mockFetchWithTimeout).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(100);
+    await expect(promise).resolves.toEqual([]);
+    expect(mockFetchWithTimeout).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry non-idempotent requests', async () => {
+    mockFetchWithTimeout.mockResolvedValue(mockResponse({ error: 'down' }, false, 503));
+    await expect(executeQuery('http://localhost:8080', 'testproj', 'triples(?S, ?P, ?O)')).rejects.toThrow('API Error 503');
+    expect(mockFetchWithTimeout).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails fast once the backend circuit opens', async () => {
+    mockFetchWithTimeout.mockResolvedValue(mockResponse({ error: 'down' }, false, 503));
+    for (let i = 0; i < 3; i++) {
+      await expect(executeQuery('http://localhost:8080', 'testproj', 'q')).rejects.toThrow('API Error 503');
+    }
+    await expect(fetchSummary('http://localhost:8080', 'testproj')).rejects.toBeInstanceOf(BackendUnavailableError);
+    expect(mockFetchWithTimeout).toHaveBeenCalledTimes(3);
+  });
 });
@@ -0,0 +1,185 @@
+/**
+ * GCA API Client
+ * Single fetch path for every backend call: URL building, credentials and
+ * timeouts (via fetchWithTimeout), retries and circuit breaking, the GET
+ * query cache, response validation, and GcaApiError for failed responses.
+ */
+import { fetchWithTimeout } from '../utils/fetchWithTimeout';
+import { TIER_TIMEOUT_MS, TimeoutTier } from '../utils/connectionProfiles';
+import { API_CONFIG } from '../constants';
+import { logger } from '../logger';
+import { Schema, SchemaValidationError } from '../utils/schema';
+import { circuitBreaker } from '../utils/circuitBreaker';
+import { backoffDelay, isRetryableStatus, parseRetryAfter, waitFor } from '../utils/retryPolicy';
+import { queryCache, queryScope } from '../utils/queryCache';
+import { persistentStore } from '../utils/persistentStore';
+import { ResponseValidationError, toApiError } from './apiErrors';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export const cleanBase = (url: string): string => url.endsWith('/') ? url.slice(0, -1) : url;
+
+/**
+ * Fetch with retries for transient failures (network errors, 5xx, 429).
+ * Every attempt goes through the backend's circuit breaker; only the final
+ * outcome of the call counts towards opening it.
+ */
+async function fetchWithRetry(
+  base: string,
+  url: string,
+  init: RequestInit,
+  timeout: { ms: number; tier?: TimeoutTier },
+  maxAttempts: number,
+  signal?: AbortSignal
+): Promise<Response> {
+  for (let attempt = 1; ; attempt++) {
+    circuitBreaker.assertAvailable(base);
+
+    let response: Response | null = null;
+    let failure: unknown = null;
+    try {
+      response = await fetchWithTimeout(url, init, timeout.ms, signal, timeout.tier);
+    } catch (err) {
+      // Caller cancellation is not a backend failure
+      if (signal?.aborted) throw err;
+      failure = err;
+    }
+
+    if (response && !isRetryableStatus(response.status)) {
+      circuitBreaker.recordSuccess(base);
+      return response;
+    }
+
+    const retryAfterMs = response ? parseRetryAfter(response.headers?.get('Retry-After') ?? null) : null;
+    const delayMs = retryAfterMs ?? backoffDelay(attempt);
+    if (attempt >= maxAttempts || delayMs > API_CONFIG.RETRY.MAX_DELAY_MS) {
+      circuitBreaker.recordFailure(base, retryAfterMs);
+      if (response) return response;
+      throw failure;
+    }
+
+    logger.warn(`[apiClient] ${init.method} ${url} failed (attempt ${attempt}/${maxAttempts}), retrying in ${delayMs}ms`);
+    await waitFor(delayMs, signal);
+  }
+}
+
+export interface RequestOptions<T> {
+  body?: unknown;
+  params?: Record<string, string>;
+  signal?: AbortSignal;
+  /** Fixed timeout; the active connection profile never overrides it */
+  timeoutMs?: number;
+  /** Standard tier used when timeoutMs is unset; defaults to 'default' */
+  timeoutTier?: TimeoutTier;
+  headers?: Record<string, string>;
+  parseAs?: 'json' | 'text';
+  schema?: Schema<T>;
+  /** Total attempts for transient failures; defaults to API_CONFIG.RETRY.MAX_ATTEMPTS for GET, 1 otherwise */
+  maxAttempts?: number;
+  /** Route through the project-scoped query cache; defaults to true for GET, false otherwise */
+  cache?: boolean;
+}
+
+/** A fixed timeout wins; otherwise the tier's standard timeout, which a profile may override */
+function resolveTimeout(timeoutMs: number | undefined, tier: TimeoutTier): { ms: number; tier?: TimeoutTier } {
+  return timeoutMs !== undefined ? { ms: timeoutMs } : { ms: TIER_TIMEOUT_MS[tier], tier };
+}
+
+function buildUrl(base: string, path: string, params?: Record<string, string>): string {
+  let url = `${base}${path}`;
+  if (params) {
+    const qs = new URLSearchParams(params).toString();
+    url += (url.includes('?') ? '&' : '?') + qs;
+  }
+  return url;
+}
+
+/**
+ * Single fetch+validate+error path for all JSON and text API calls.
+ * Failed responses throw GcaApiError.
+ */
+export async function request<T>(
+  baseUrl: string,
+  method: HttpMethod,
+  path: string,
+  options?: RequestOptions<T>
+): Promise<T> {
+  const base = cleanBase(baseUrl);
+  const url = buildUrl(base, path, options?.params);
+  if (!(options?.cache ?? method === 'GET')) {
+    return send<T>(base, url, method, path, options);
+  }
+  const scope = queryScope(base, options?.params?.project);
+  const bodyKey = options?.body !== undefined ? ` ${JSON.stringify(options.body)}` : '';
+  const key = `${method} ${url.slice(base.length)} ${options?.parseAs ?? 'json'}${bodyKey}`;
+  return queryCache.fetch(scope, key, signal => send<T>(base, url, method, path, { ...options, signal }), options?.signal);
+}
+
+async function send<T>(
+  base: string,
+  url: string,
+  method: HttpMethod,
+  path: string,
+  options?: RequestOptions<T>
+): Promise<T> {
+  const fetchOpts: RequestInit = {
+    method,
+    headers: { 'Content-Type': 'application/json', ...options?.headers },
+    signal: options?.signal,
+  };
+  if (options?.body !== undefined) {
+    fetchOpts.body = JSON.stringify(options.body);
+  }
+  const maxAttempts = options?.maxAttempts ?? (method === 'GET' ? API_CONFIG.RETRY.MAX_ATTEMPTS : 1);
+  const response = await fetchWithRetry(base, url, fetchOpts, resolveTimeout(options?.timeoutMs, options?.timeoutTier ?? 'default'), maxAttempts, options?.signal);
+  if (!response.ok) {
+    throw await toApiError(response, `${method} ${path}`);
+  }
+  const parseAs = options?.parseAs ?? 'json';
+  const data = parseAs === 'text' ? await response.text() : await response.json();
+  if (!options?.schema) return data as T;
+  try {
+    return options.schema.parse(data);
+  } catch (err) {
+    if (err instanceof SchemaValidationError) {
+      const validationError = new ResponseValidationError(`${method} ${path}`, err);
+      logger.error('[apiClient]', validationError.message);
+      throw validationError;
+    }
+    throw err;
+  }
+}
+
+/**
+ * POST that answers with server-sent events. Resolves with the open response
+ * once the backend accepts the request; read it with readSSEStream.
+ */
+export async function requestStream(
+  baseUrl: string,
+  path: string,
+  options: { body: unknown; signal?: AbortSignal | null; timeoutMs?: number; timeoutTier?: TimeoutTier }
+): Promise<Response> {
+  const base = cleanBase(baseUrl);
+  const url = buildUrl(base, path);
+  const body = JSON.stringify(options.body);
+  logger.log(`[apiClient] POST ${url} (streaming, ${(body.length / 1024).toFixed(1)}KB body)`);
+
+  const response = await fetchWithRetry(base, url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Accept': 'text/event-stream' },
+    body,
+  }, resolveTimeout(options.timeoutMs, options.timeoutTier ?? 'long'), 1, options.signal ?? undefined);
+  if (!response.ok) {
+    throw await toApiError(response, `POST ${path}`);
+  }
+  return response;
+}
+
+/**
+ * Drop cached GET responses and persisted project data for a project (or every
+ * project on the backend), e.g. after the backend's data for it has changed.
+ */
+export function invalidateProjectCache(dataApiBase: string, projectId?: string): void {
+  queryCache.invalidate(cleanBase(dataApiBase), projectId);
+  void persistentStore.invalidate(cleanBase(dataApiBase), projectId);
+}
@@ -0,0 +1,122 @@
+/**
+ * API error model shared by every service call, plus the user-facing
+ * description used by toasts and ErrorMessage.
+ */
+import { SchemaValidationError } from '../utils/schema';
+import { BackendUnavailableError } from '../utils/circuitBreaker';
+
+/**
+ * Non-2xx response from the GCA backend.
+ */
+export class GcaApiError extends Error {
+  readonly status: number;
+  /** "METHOD /path" of the failed call */
+  readonly endpoint: string;
+  /** Machine-readable code from the error body, when the backend sends one */
+  readonly code?: string;
+  /** Backend request ID (X-Request-ID header or request_id field) for log lookup */
+  readonly requestId?: string;
+  /** Backend error message, or the status text */
+  readonly detail: string;
+
+  constructor(status: number, endpoint: string, detail: string, code?: string, requestId?: string) {
+    super(`API Error ${status} [${endpoint}]: ${detail}`);
+    this.name = 'GcaApiError';
+    this.status = status;
+    this.endpoint = endpoint;
+    this.detail = detail;
+    this.code = code;
+    this.requestId = requestId;
+  }
+}
+
+/**
+ * Thrown when a backend payload does not match the schema the frontend expects,
+ * e.g. after a backend version change.
+ */
+export class ResponseValidationError extends Error {
+  readonly endpoint: string;
+  readonly field: string;
+  readonly expected: string;
+  readonly received: string;
+
+  constructor(endpoint: string, cause: SchemaValidationError) {
+    super(`Invalid response from ${endpoint}: ${cause.field || '<root>'} expected ${cause.expected}, got ${cause.received}`);
+    this.name = 'ResponseValidationError';
+    this.endpoint = endpoint;
+    this.field = cause.field;
+    this.expected = cause.expected;
+    this.received = cause.received;
+  }
+}
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value ? value : undefined;
+
+/**
+ * Build a GcaApiError from a failed response. Understands plain-text bodies,
+ * { error: "msg", code } and { error: { message, code, request_id } }.
+ */
+export async function toApiError(response: Response, endpoint: string): Promise<GcaApiError> {
+  const text = await response.text().catch(() => '');
+  let payload: Record<string, unknown> | null = null;
+  try {
+    const parsed = JSON.parse(text);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) payload = parsed;
+  } catch { /* plain-text body */ }
+
+  const nested = payload?.error && typeof payload.error === 'object' ? payload.error as Record<string, unknown> : null;
+  const detail = asString(nested?.message) ?? asString(payload?.error) ?? asString(payload?.message)
+    ?? asString(payload?.detail) ?? (text || response.statusText || 'Request failed');
+  const code = asString(nested?.code) ?? asString(payload?.code);
+  const requestId = response.headers?.get('X-Request-ID') ?? asString(nested?.request_id) ?? asString(payload?.request_id);
+
+  return new GcaApiError(response.status, endpoint, detail, code, requestId ?? undefined);
+}
+
+export interface ErrorDescription {
+  title: string;
+  /** What the user can do about it */
+  hint?: string;
+  requestId?: string;
+  /** Worth offering a retry */
+  retryable: boolean;
+}
+
+/**
+ * Turn any error thrown by the service layer into a short, actionable message.
+ */
+export function describeError(err: unknown): ErrorDescription {
+  if (err instanceof GcaApiError) {
+    const base = { requestId: err.requestId };
+    if (err.status === 401) return { ...base, title: 'Authentication required', hint: 'Update the credentials in Settings and reconnect.', retryable: false };
+    if (err.status === 403) return { ...base, title: 'Access denied', hint: `Your credentials cannot access ${err.endpoint}.`, retryable: false };
+    if (err.status === 404) return { ...base, title: `Not found: ${err.detail}`, hint: 'The project or symbol may have been removed, or the backend is older than this UI.', retryable: false };
+    if (err.status === 429) return { ...base, title: 'Rate limited by the backend', hint: 'Wait a moment, then retry.', retryable: true };
+    if (err.status >= 500) return { ...base, title: `Backend error (${err.status}): ${err.detail}`, hint: 'Retry, or share the request ID with the backend team.', retryable: true };
+    return { ...base, title: err.detail, hint: err.code ? `Error code ${err.code}` : undefined, retryable: false };
+  }
+  if (err instanceof BackendUnavailableError) {
+    return { title: err.message, hint: 'Requests resume automatically once the backend responds.', retryable: true };
+  }
+  if (err instanceof ResponseValidationError) {
+    return { title: 'Unexpected response from the backend', hint: err.message, retryable: false };
+  }
+  const message = err instanceof Error ? err.message : String(err ?? 'Unknown error');
+  if (/timed out/i.test(message)) {
+    return { title: message, hint: 'The backend may be busy; retry or raise the timeout in the connection profile.', retryable: true };
+  }
+  if (/failed to fetch|network error/i.test(message)) {
+    return { title: 'Cannot reach the backend', hint: 'Check the API URL in Settings and that the backend is running.', retryable: true };
+  }
+  return { title: message, retryable: false };
+}
+
+/**
+ * One-line form of describeError for toasts and inline error text.
+ */
+export function formatError(err: unknown, action?: string): string {
+  const { title, hint, requestId } = describeError(err);
+  const text = [action ? `${action} failed: ${title}` : title, hint].filter(Boolean).join(' — ');
+  return requestId ? `${text} (request ${requestId})` : text;
+}
@@ -5,9 +5,8 @@
  * Replaces direct Google GenAI client with calls to the Go Backend Proxy.
  * Endpoint: POST /api/v1/ai/ask
  */
-import { fetchWithTimeout } from '../utils/fetchWithTimeout';
+import { request, requestStream } from './apiClient';
 import { readSSEStream } from '../utils/sseStream';
-import { API_CONFIG } from '../constants';
 import { logger } from '../logger';
 
 /**
@@ -63,27 +62,20 @@ export interface ChatMessage {
   content: string;
 }
 
+interface AskPayload {
+  task?: string;
+  query?: string;
+  symbol_id?: string;
+  data?: any;
+  context_mode?: string;
+  query_instruction?: string;
+  messages?: ChatMessage[];
+}
+
 /**
- * Core Proxy Function
+ * Request body for /api/v1/ai/ask, with context data truncated to prevent oversized requests
  */
-export const askAI = async (
-  dataApiBase: string,
-  projectId: string,
-  payload: {
-    task?: string;
-    query?: string;
-    symbol_id?: string;
-    data?: any;
-    context_mode?: string;
-    query_instruction?: string;
-    messages?: ChatMessage[];
-  },
-  signal?: AbortSignal | null
-): Promise<string> => {
-  const cleanBase = dataApiBase.endsWith('/') ? dataApiBase.slice(0, -1) : dataApiBase;
-  const url = `${cleanBase}/api/v1/ai/ask`;
-
-  // Truncate context data to prevent oversized requests
+function buildAskBody(projectId: string, payload: AskPayload) {
   let contextData = payload.data;
   if (Array.isArray(contextData)) {
     const MAX_CONTEXT_ITEMS = 15;
@@ -93,7 +85,7 @@ export const askAI = async (
     }
   }
 
-  const body = JSON.stringify({
+  return {
     project_id: projectId,
     task: payload.task || 'chat',
     query: payload.query || '',
@@ -102,24 +94,22 @@ export const askAI = async (
     context_mode: payload.context_mode || '',
     query_instruction: payload.query_instruction || '',
     messages: payload.messages || [],
-  });
-
-  logger.log(`[GeminiService] POST ${url} (${(body.length / 1024).toFixed(1)}KB body)`);
-
-  const response = await fetchWithTimeout(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Accept': 'text/event-stream',
-    },
-    body,
-  }, API_CONFIG.TIMEOUT.LONG, signal);
+  };
+}
 
-  if (!response.ok) {
-    const errText = await response.text();
-    logger.error('[GeminiService] Backend Error:', response.status, errText);
-    throw new Error(`AI Service Error: ${response.statusText}`);
-  }
+/**
+ * Core Proxy Function
+ */
+export const askAI = async (
+  dataApiBase: string,
+  projectId: string,
+  payload: AskPayload,
+  signal?: AbortSignal | null
+): Promise<string> => {
+  const response = await requestStream(dataApiBase, '/api/v1/ai/ask', {
+    body: buildAskBody(projectId, payload),
+    signal,
+  });
 
   let full = '';
   for await (const delta of readSSEStream(response, signal)) {
@@ -135,58 +125,15 @@ export const askAI = async (
 export const askAIStream = async (
   dataApiBase: string,
   projectId: string,
-  payload: {
-    task?: string;
-    query?: string;
-    symbol_id?: string;
-    data?: any;
-    context_mode?: string;
-    query_instruction?: string;
-    messages?: ChatMessage[];
-  },
+  payload: AskPayload,
   onChunk: (delta: string) => void,
   signal?: AbortSignal | null
 ): Promise<string> => {
-  const cleanBase = dataApiBase.endsWith('/') ? dataApiBase.slice(0, -1) : dataApiBase;
-  const url = `${cleanBase}/api/v1/ai/ask`;
-
-  let contextData = payload.data;
-  if (Array.isArray(contextData)) {
-    const MAX_CONTEXT_ITEMS = 15;
-    if (contextData.length > MAX_CONTEXT_ITEMS) {
-      logger.warn(`[GeminiService] Truncating context from ${contextData.length} to ${MAX_CONTEXT_ITEMS} items`);
-      contextData = contextData.slice(0, MAX_CONTEXT_ITEMS);
-    }
-  }
-
-  const body = JSON.stringify({
-    project_id: projectId,
-    task: payload.task || 'chat',
-    query: payload.query || '',
-    symbol_id: payload.symbol_id || '',
-    data: contextData || null,
-    context_mode: payload.context_mode || '',
-    query_instruction: payload.query_instruction || '',
-    messages: payload.messages || [],
+  const response = await requestStream(dataApiBase, '/api/v1/ai/ask', {
+    body: buildAskBody(projectId, payload),
+    signal,
   });
 
-  logger.log(`[GeminiService] POST ${url} (streaming, ${(body.length / 1024).toFixed(1)}KB body)`);
-
-  const response = await fetchWithTimeout(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Accept': 'text/event-stream',
-    },
-    body,
-  }, API_CONFIG.TIMEOUT.LONG, signal);
-
-  if (!response.ok) {
-    const errText = await response.text();
-    logger.error('[GeminiService] Backend Stream Error:', response.status, errText);
-    throw new Error(`AI Service Error: ${response.statusText}`);
-  }
-
   let full = '';
   for await (const delta of readSSEStream(response, signal)) {
     full += delta;
@@ -366,13 +313,13 @@ export const generateAnswerForSymbol = async (
 
 // -- Stubs or Mapped --
 
-export const generatePathNarrative = async (query: string, pathNodes: any[], dataApiBase: string, projectId: string) => {
+export const generatePathNarrative = async (query: string, pathNodes: any[], dataApiBase: string, projectId: string, signal?: AbortSignal | null) => {
   // Backend Task: "path_narrative"
   return await askAI(dataApiBase, projectId, {
     task: 'path_narrative',
     query: query,
     data: pathNodes.map(n => ({ name: n.name }))
-  });
+  }, signal);
 };
 
 export const generateReactiveNarrative = async (query: string, results: any, dataApiBase: string, projectId: string) => {
@@ -489,21 +436,10 @@ export const executeAgent = async (
   projectId: string,
   query: string
 ): Promise<AgentResponse> => {
-  const cleanBase = dataApiBase.endsWith('/') ? dataApiBase.slice(0, -1) : dataApiBase;
-  const url = `${cleanBase}/api/v1/agent/execute`;
-
-  const response = await fetchWithTimeout(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ project_id: projectId, query }),
-  }, API_CONFIG.TIMEOUT.LONG);
-
-  if (!response.ok) {
-    const errText = await response.text();
-    throw new Error(`Agent execution failed: ${errText}`);
-  }
-
-  return await response.json();
+  return request<AgentResponse>(dataApiBase, 'POST', '/api/v1/agent/execute', {
+    body: { project_id: projectId, query },
+    timeoutTier: 'long',
+  });
 };
 
 // --- Unified Ask Endpoint (NL -> Datalog -> LLM Answer) ---
@@ -552,32 +488,17 @@ export const unifiedAsk = async (
     conversationHistory?: ConversationTurn[];
   }
 ): Promise<UnifiedAskResponse> => {
-  const cleanBase = dataApiBase.endsWith('/') ? dataApiBase.slice(0, -1) : dataApiBase;
-  const url = `${cleanBase}/api/v1/ask`;
-
-  const response = await fetchWithTimeout(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
+  return request<UnifiedAskResponse>(dataApiBase, 'POST', '/api/v1/ask', {
+    body: {
       project_id: projectId,
       query: query,
       symbol_id: options?.symbolId || '',
       depth: options?.depth || 0,
       context: options?.context || '',
       conversation_history: options?.conversationHistory || []
-    })
-  }, API_CONFIG.TIMEOUT.LONG);
-
-  if (!response.ok) {
-    const errText = await response.text();
-    logger.error('[GeminiService] Unified Ask Error:', response.status, errText);
-    throw new Error(`Unified Ask Error: ${response.statusText}`);
-  }
-
-  const data: UnifiedAskResponse = await response.json();
-  return data;
+    },
+    timeoutTier: 'long',
+  });
 };
 
 /**
@@ -616,28 +537,17 @@ export const classifyIntent = async (
   dataApiBase: string,
   projectId: string,
   query: string,
-  conversationHistory?: ConversationTurn[]
+  conversationHistory?: ConversationTurn[],
+  signal?: AbortSignal
 ): Promise<IntentClassification> => {
-  const cleanBase = dataApiBase.endsWith('/') ? dataApiBase.slice(0, -1) : dataApiBase;
-  const url = `${cleanBase}/api/v1/ai/classify`;
-
-  const response = await fetchWithTimeout(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
+  const data = await request<Partial<IntentClassification>>(dataApiBase, 'POST', '/api/v1/ai/classify', {
+    body: {
       project_id: projectId,
       query,
       conversation_history: conversationHistory || [],
-    })
-  }, API_CONFIG.TIMEOUT.DEFAULT);
-
-  if (!response.ok) {
-    const errText = await response.text();
-    logger.error('[GeminiService] Intent classification error:', response.status, errText);
-    throw new Error(`Intent classification failed: ${response.statusText}`);
-  }
-
-  const data = await response.json();
+    },
+    signal,
+  });
   return {
     intent: data.intent || 'chat',
     confidence: data.confidence || 0.5,
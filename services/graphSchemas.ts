@@ -0,0 +1,118 @@
+/**
+ * Graph API response schemas
+ * Runtime shapes for backend payloads, checked by the shared request helper.
+ * Only fields the frontend depends on are validated; extra fields pass through.
+ */
+import {
+  Schema, array, boolean, nullable, number, object, optional, record, string, transform, union, unknown, withDefault,
+} from '../utils/schema';
+import type {
+  BackboneLink,
+  BackboneNode,
+  CyclesResponse,
+  GraphMapLink,
+  GraphMapLinkWithLine,
+  GraphMapNode,
+  HydratedSymbol,
+  LCAResponse,
+  PredicateEntry,
+  ProjectMetadata,
+  QueryResponse,
+  ReachabilityResponse,
+  SemanticSearchResult,
+} from './graphService';
+
+const list = <T>(item: Schema<T>) => withDefault(array(item), () => []);
+// Go backends encode nil slices and pointers as null; treat that like a missing field
+const maybe = <T>(schema: Schema<T>) => withDefault<T | undefined>(optional(schema), () => undefined);
+
+export const graphNodeSchema = object<GraphMapNode>({
+  id: string(),
+});
+
+export const graphLinkSchema = object<GraphMapLink>({
+  source: string(),
+  target: string(),
+  weight: maybe(number()),
+});
+
+export const graphLinkWithLineSchema = object<GraphMapLinkWithLine>({
+  source: string(),
+  target: string(),
+  line: maybe(number()),
+});
+
+export const graphResponseSchema = object<{ nodes: GraphMapNode[]; links: GraphMapLink[] }>({
+  nodes: list(graphNodeSchema),
+  links: list(graphLinkSchema),
+});
+
+export const callGraphResponseSchema = object<{ nodes: GraphMapNode[]; links: GraphMapLinkWithLine[] }>({
+  nodes: list(graphNodeSchema),
+  links: list(graphLinkWithLineSchema),
+});
+
+export const projectListSchema = array(object<ProjectMetadata>({
+  id: string(),
+  name: string(),
+}));
+
+// Older backends wrap the list as { files: [...] }
+export const fileListSchema = transform(
+  union(array(string()), object<{ files: string[] }>({ files: list(string()) })),
+  data => (Array.isArray(data) ? data : data.files),
+);
+
+export const symbolsResponseSchema = object<{ symbols?: string[] }>({
+  symbols: maybe(array(string())),
+});
+
+export const predicatesResponseSchema = object<{ predicates?: PredicateEntry[] }>({
+  predicates: maybe(array(union(string(), object<Exclude<PredicateEntry, string>>({ name: string() })))),
+});
+
+export const hydratedSymbolSchema = object<HydratedSymbol>({
+  id: string(),
+});
+
+export const queryResponseSchema = object<QueryResponse>({
+  nodes: list(graphNodeSchema),
+  links: list(graphLinkSchema),
+  results: maybe(array(unknown())),
+  triples: maybe(array(unknown())),
+});
+
+export const manifestSchema = object<{ F: Record<string, string>; S: Record<string, number> }>({
+  F: record(string()),
+  S: record(number()),
+});
+
+/**
+ * Backbone links carry the edge origin as `type`; the frontend reads `source_type`.
+ */
+export const backboneGraphSchema = object<{ nodes: BackboneNode[]; links: BackboneLink[] }>({
+  nodes: list(graphNodeSchema),
+  links: list(transform(
+    object<BackboneLink & { type?: BackboneLink['source_type'] }>({ source: string(), target: string() }),
+    (link) => ({ ...link, source_type: link.type ?? link.source_type }),
+  )),
+});
+
+export const semanticSearchResponseSchema = object<{ results?: SemanticSearchResult[] }>({
+  results: maybe(array(object<SemanticSearchResult>({
+    symbol_id: string(),
+    score: number(),
+  }))),
+});
+
+export const reachabilityResponseSchema = object<ReachabilityResponse>({
+  reachable: boolean(),
+});
+
+export const cyclesResponseSchema = object<CyclesResponse>({
+  cycles: list(array(string())),
+});
+
+export const lcaResponseSchema = object<LCAResponse>({
+  lca: withDefault(nullable(string()), () => null),
+});
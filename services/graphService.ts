@@ -2,9 +2,24 @@
  * Graph API Service
  * Handles API calls for progressive graph expansion
  */
-import { fetchWithTimeout } from '../utils/fetchWithTimeout';
 import { API_CONFIG } from '../constants';
-import { logger } from '../logger';
+import { invalidateProjectCache, request } from './apiClient';
+import {
+  backboneGraphSchema,
+  callGraphResponseSchema,
+  cyclesResponseSchema,
+  fileListSchema,
+  graphResponseSchema,
+  hydratedSymbolSchema,
+  lcaResponseSchema,
+  manifestSchema,
+  predicatesResponseSchema,
+  projectListSchema,
+  queryResponseSchema,
+  reachabilityResponseSchema,
+  semanticSearchResponseSchema,
+  symbolsResponseSchema,
+} from './graphSchemas';
 
 const isValidUrl = (url: string): boolean => {
   try {
@@ -24,45 +39,8 @@ const isValidProjectId = (projectId: string): boolean => {
   return /^[a-zA-Z0-9_-]{1,100}$/.test(projectId);
 };
 
-const cleanBase = (url: string): string => url.endsWith('/') ? url.slice(0, -1) : url;
-
-// Internal request helper — single fetch+validate+error path for all API calls.
-async function request<T>(
-  baseUrl: string,
-  method: 'GET' | 'POST' | 'PUT' | 'DELETE',
-  path: string,
-  options?: {
-    body?: unknown;
-    params?: Record<string, string>;
-    signal?: AbortSignal;
-    timeoutMs?: number;
-    headers?: Record<string, string>;
-    parseAs?: 'json' | 'text';
-  }
-): Promise<T> {
-  const base = cleanBase(baseUrl);
-  let url = `${base}${path}`;
-  if (options?.params) {
-    const qs = new URLSearchParams(options.params).toString();
-    url += (url.includes('?') ? '&' : '?') + qs;
-  }
-  const fetchOpts: RequestInit = {
-    method,
-    headers: { 'Content-Type': 'application/json', ...options?.headers },
-    signal: options?.signal,
-  };
-  if (options?.body !== undefined) {
-    fetchOpts.body = JSON.stringify(options.body);
-  }
-  const response = await fetchWithTimeout(url, fetchOpts, options?.timeoutMs ?? API_CONFIG.TIMEOUT.DEFAULT, options?.signal);
-  if (!response.ok) {
-    const errBody = await response.text().catch(() => '');
-    throw new Error(`API Error ${response.status} [${method} ${path}]: ${errBody || response.statusText}`);
-  }
-  const parseAs = options?.parseAs ?? 'json';
-  const data = parseAs === 'text' ? await response.text() : await response.json();
-  return data as T;
-}
+export { GcaApiError, ResponseValidationError } from './apiErrors';
+export { invalidateProjectCache } from './apiClient';
 
 export interface GraphMapNode {
   id: string;
@@ -123,6 +101,31 @@ export interface ProjectMetadata {
   description?: string;
 }
 
+/**
+ * Predicate as listed by GET /api/v1/predicates — older backends return bare names.
+ */
+export type PredicateEntry = string | { name: string; [key: string]: any };
+
+export interface HydratedSymbol {
+  id: string;
+  name?: string;
+  kind?: string;
+  content?: string;
+  [key: string]: any;
+}
+
+/**
+ * POST /api/v1/query response. Hydrated queries fill nodes/links;
+ * raw queries return bindings in results (or triples on older backends),
+ * shaped per query as positional arrays or variable-keyed objects.
+ */
+export interface QueryResponse {
+  nodes: GraphMapNode[];
+  links: GraphMapLink[];
+  results?: any[];
+  triples?: any[];
+}
+
 export interface ProjectSummary {
   project_name: string;
   total_facts: number;
@@ -135,7 +138,15 @@ export interface ProjectSummary {
  * GET /api/v1/projects
  */
 export async function fetchProjects(dataApiBase: string, signal?: AbortSignal): Promise<ProjectMetadata[]> {
-  return request<ProjectMetadata[]>(dataApiBase, 'GET', '/api/v1/projects', { signal });
+  return request<ProjectMetadata[]>(dataApiBase, 'GET', '/api/v1/projects', { signal, schema: projectListSchema });
+}
+
+/**
+ * Check that the backend answers, bypassing the query cache
+ * GET /api/v1/projects
+ */
+export async function probeBackend(dataApiBase: string): Promise<void> {
+  await request<ProjectMetadata[]>(dataApiBase, 'GET', '/api/v1/projects', { cache: false, maxAttempts: 1 });
 }
 
 /**
@@ -152,24 +163,27 @@ export async function fetchSummary(dataApiBase: string, projectId: string): Prom
  * List files in project
  * GET /api/v1/files?project={projectId}
  */
-export async function fetchFiles(dataApiBase: string, projectId: string): Promise<string[]> {
+export async function fetchFiles(dataApiBase: string, projectId: string, signal?: AbortSignal | null): Promise<string[]> {
   return request<string[]>(dataApiBase, 'GET', '/api/v1/files', {
     params: { project: projectId },
+    signal: signal || undefined,
+    schema: fileListSchema,
   });
 }
 
 /**
  * Get source code
  * GET /api/v1/source?project={projectId}&id={id}&start={start}&end={end}
+ * `cache: false` keeps bulk reads (e.g. code search) out of the query cache.
  */
-export async function fetchSource(dataApiBase: string, projectId: string, id: string, start?: number, end?: number): Promise<string> {
+export async function fetchSource(dataApiBase: string, projectId: string, id: string, start?: number, end?: number, signal?: AbortSignal | null, cache: boolean = true): Promise<string> {
   if (!id || typeof id !== 'string') throw new Error('Invalid ID');
   
   const params: Record<string, string> = { project: projectId, id };
   if (start !== undefined) params.start = String(start);
   if (end !== undefined) params.end = String(end);
   
-  return request<string>(dataApiBase, 'GET', '/api/v1/source', { params, parseAs: 'text' });
+  return request<string>(dataApiBase, 'GET', '/api/v1/source', { params, parseAs: 'text', signal: signal || undefined, cache });
 }
 
 /**
@@ -183,6 +197,7 @@ export async function fetchSymbols(dataApiBase: string, projectId: string, query
   const data = await request<{ symbols?: string[] }>(dataApiBase, 'GET', '/api/v1/symbols', { 
     params,
     signal: signal || undefined,
+    schema: symbolsResponseSchema,
   });
   return data.symbols || [];
 }
@@ -191,9 +206,10 @@ export async function fetchSymbols(dataApiBase: string, projectId: string, query
  * Get predicates
  * GET /api/v1/predicates?project={projectId}
  */
-export async function fetchPredicates(dataApiBase: string, projectId: string): Promise<any[]> {
-  const data = await request<{ predicates?: any[] }>(dataApiBase, 'GET', '/api/v1/predicates', {
+export async function fetchPredicates(dataApiBase: string, projectId: string): Promise<PredicateEntry[]> {
+  const data = await request<{ predicates?: PredicateEntry[] }>(dataApiBase, 'GET', '/api/v1/predicates', {
     params: { project: projectId },
+    schema: predicatesResponseSchema,
   });
   return data.predicates || [];
 }
@@ -202,17 +218,21 @@ export async function fetchPredicates(dataApiBase: string, projectId: string): P
  * Hydrate symbol
  * GET /api/v1/hydrate?project={projectId}&id={id}
  */
-export async function fetchHydrate(dataApiBase: string, projectId: string, id: string): Promise<any> {
-  return request<any>(dataApiBase, 'GET', '/api/v1/hydrate', {
+export async function fetchHydrate(dataApiBase: string, projectId: string, id: string, signal?: AbortSignal | null): Promise<HydratedSymbol> {
+  return request<HydratedSymbol>(dataApiBase, 'GET', '/api/v1/hydrate', {
     params: { project: projectId, id },
+    signal: signal || undefined,
+    schema: hydratedSymbolSchema,
   });
 }
 
 /**
  * Execute Datalog query
  * POST /api/v1/query
+ * `cache` shares results between identical internal lookups; queries the user
+ * runs always go to the backend.
  */
-export async function executeQuery(dataApiBase: string, projectId: string, query: string, hydrate: boolean = true, signal?: AbortSignal | null, raw?: boolean): Promise<any> {
+export async function executeQuery(dataApiBase: string, projectId: string, query: string, hydrate: boolean = true, signal?: AbortSignal | null, raw?: boolean, cache: boolean = false): Promise<QueryResponse> {
   if (!query || typeof query !== 'string') throw new Error('Invalid query');
   
   const sanitizedQuery = sanitizeInput(query, 5000);
@@ -220,11 +240,13 @@ export async function executeQuery(dataApiBase: string, projectId: string, query
   if (hydrate) params.hydrate = 'true';
   if (raw) params.raw = 'true';
   
-  return request<any>(dataApiBase, 'POST', '/api/v1/query', {
+  return request<QueryResponse>(dataApiBase, 'POST', '/api/v1/query', {
     params,
     body: { query: sanitizedQuery },
     signal: signal || undefined,
-    timeoutMs: API_CONFIG.TIMEOUT.LONG,
+    timeoutTier: 'long',
+    schema: queryResponseSchema,
+    cache,
   });
 }
 
@@ -240,6 +262,7 @@ export async function fetchFileGraph(
 ): Promise<GraphMapResponse> {
   return request<GraphMapResponse>(dataApiBase, 'GET', '/api/v1/graph', {
     params: { project: projectId, file: fileId, lazy: String(lazy) },
+    schema: graphResponseSchema,
   });
 }
 
@@ -253,9 +276,8 @@ export async function fetchFileImports(
   fileId: string
 ): Promise<GraphMapResponse> {
   const query = `triples("${fileId}", "imports", ?target)`;
-  // Use executeQuery but we need to format the result as GraphMapResponse (nodes/links)
-  // executeQuery returns whatever the backend returns for POST /api/v1/query, which IS {nodes, links}
-  return await executeQuery(dataApiBase, projectId, query, false);
+  const { nodes, links } = await executeQuery(dataApiBase, projectId, query, false);
+  return { nodes, links };
 }
 
 /**
@@ -268,6 +290,7 @@ export async function fetchGraphMap(
 ): Promise<GraphMapResponse> {
   return request<GraphMapResponse>(dataApiBase, 'GET', '/api/v1/graph/map', {
     params: { project: projectId },
+    schema: graphResponseSchema,
   });
 }
 
@@ -281,6 +304,7 @@ export async function fetchManifest(
 ): Promise<{ F: Record<string, string>, S: Record<string, number> }> {
   return request<{ F: Record<string, string>, S: Record<string, number> }>(dataApiBase, 'GET', '/api/v1/graph/manifest', {
     params: { project: projectId },
+    schema: manifestSchema,
   });
 }
 
@@ -291,10 +315,13 @@ export async function fetchManifest(
 export async function fetchFileDetails(
   dataApiBase: string,
   fileId: string,
-  projectId: string
+  projectId: string,
+  signal?: AbortSignal | null
 ): Promise<FileDetailsResponse> {
   return request<FileDetailsResponse>(dataApiBase, 'GET', '/api/v1/graph/file-details', {
     params: { file: fileId, project: projectId },
+    signal: signal || undefined,
+    schema: graphResponseSchema,
   });
 }
 
@@ -307,17 +334,15 @@ export async function fetchBackbone(
   projectId: string,
   aggregate: boolean = true
 ): Promise<BackboneResponse> {
-  const data = await request<{ nodes?: any[], links?: any[] }>(dataApiBase, 'GET', '/api/v1/graph/backbone', {
+  const { nodes, links } = await request<{ nodes: BackboneNode[], links: BackboneLink[] }>(dataApiBase, 'GET', '/api/v1/graph/backbone', {
     params: { project: projectId, aggregate: String(aggregate) },
+    schema: backboneGraphSchema,
   });
 
   // Backend returns { nodes: [], links: [] } (D3Graph)
   // Frontend expects BackboneResponse with logic-rich "files" array.
   // We must compute "files" from the nodes.
 
-  const nodes = data.nodes || [];
-  const links = data.links || [];
-
   // Build O(1) lookup map: node.id → node
   const nodeById = new Map<string, any>();
   for (const n of nodes) {
@@ -386,10 +411,7 @@ export async function fetchBackbone(
   // Return structure matching BackboneResponse interface
   return {
     nodes: nodes,
-    links: links.map((l: any) => ({
-      ...l,
-      source_type: l.type // map backend 'type' to frontend 'source_type'
-    })),
+    links: links,
     files: files
   };
 }
@@ -408,7 +430,8 @@ export async function fetchFileCalls(
   return request<GraphMapResponse>(dataApiBase, 'GET', '/api/v1/graph/file-calls', {
     params: { id: fileId, project: projectId, depth: String(depth) },
     signal: signal || undefined,
-    timeoutMs: API_CONFIG.TIMEOUT.LONG,
+    timeoutTier: 'long',
+    schema: graphResponseSchema,
   });
 }
 
@@ -420,10 +443,13 @@ export async function fetchFlowPath(
   dataApiBase: string,
   projectId: string,
   from: string,
-  to: string
+  to: string,
+  signal?: AbortSignal | null
 ): Promise<GraphMapResponse> {
   return request<GraphMapResponse>(dataApiBase, 'GET', '/api/v1/search/flow', {
     params: { from, to, project: projectId },
+    signal: signal || undefined,
+    schema: graphResponseSchema,
   });
 }
 
@@ -434,10 +460,13 @@ export async function fetchFlowPath(
 export async function fetchFileBackbone(
   dataApiBase: string,
   projectId: string,
-  fileId: string
+  fileId: string,
+  signal?: AbortSignal | null
 ): Promise<GraphMapResponse> {
   return request<GraphMapResponse>(dataApiBase, 'GET', '/api/v1/graph/file-backbone', {
     params: { id: fileId, project: projectId },
+    signal: signal || undefined,
+    schema: graphResponseSchema,
   });
 }
 
@@ -455,7 +484,8 @@ export async function fetchGraphPath(
   return request<GraphMapResponse>(dataApiBase, 'GET', '/api/v1/graph/path', {
     params: { project: projectId, source, target },
     signal: signal || undefined,
-    timeoutMs: API_CONFIG.TIMEOUT.LONG,
+    timeoutTier: 'long',
+    schema: graphResponseSchema,
   });
 }
 
@@ -480,6 +510,7 @@ export async function fetchSemanticSearch(
     params: { project: projectId, q: query, k: String(k) },
     signal: signal || undefined,
     timeoutMs: API_CONFIG.TIMEOUT.SHORT,
+    schema: semanticSearchResponseSchema,
   });
   return data.results || [];
 }
@@ -495,6 +526,7 @@ export async function getClusteredGraph(
 ): Promise<GraphMapResponse> {
   return request<GraphMapResponse>(apiBase, 'GET', '/api/v1/graph/cluster', {
     params: { project: projectId, query },
+    schema: graphResponseSchema,
   });
 }
 
@@ -505,11 +537,14 @@ export async function getClusteredGraph(
 export async function fetchSubgraph(
   dataApiBase: string,
   projectId: string,
-  ids: string[]
+  ids: string[],
+  signal?: AbortSignal | null
 ): Promise<GraphMapResponse> {
   return request<GraphMapResponse>(dataApiBase, 'POST', '/api/v1/graph/subgraph', {
     params: { project: projectId },
     body: { ids },
+    signal: signal || undefined,
+    schema: graphResponseSchema,
   });
 }
 
@@ -597,7 +632,8 @@ export async function fetchWhoCalls(
   projectId: string,
   symbol: string,
   depth: number = 3,
-  focused: boolean = false
+  focused: boolean = false,
+  signal?: AbortSignal | null
 ): Promise<{ nodes: GraphMapNode[]; links: GraphMapLinkWithLine[] }> {
   const params: Record<string, string> = { 
     project: projectId, 
@@ -610,7 +646,7 @@ export async function fetchWhoCalls(
     dataApiBase, 
     'GET', 
     '/api/v1/graph/who-calls', 
-    { params }
+    { params, signal: signal || undefined, schema: callGraphResponseSchema }
   );
 }
 
@@ -623,7 +659,8 @@ export async function fetchWhatCalls(
   projectId: string,
   symbol: string,
   depth: number = 3,
-  focused: boolean = false
+  focused: boolean = false,
+  signal?: AbortSignal | null
 ): Promise<{ nodes: GraphMapNode[]; links: GraphMapLinkWithLine[] }> {
   const params: Record<string, string> = { 
     project: projectId, 
@@ -636,7 +673,7 @@ export async function fetchWhatCalls(
     dataApiBase, 
     'GET', 
     '/api/v1/graph/what-calls', 
-    { params }
+    { params, signal: signal || undefined, schema: callGraphResponseSchema }
   );
 }
 
@@ -649,7 +686,8 @@ export async function checkReachability(
   projectId: string,
   from: string,
   to: string,
-  depth: number = 5
+  depth: number = 5,
+  signal?: AbortSignal | null
 ): Promise<ReachabilityResponse> {
   return request<ReachabilityResponse>(
     dataApiBase, 
@@ -661,7 +699,9 @@ export async function checkReachability(
         from, 
         to, 
         depth: String(depth) 
-      } 
+      },
+      signal: signal || undefined,
+      schema: reachabilityResponseSchema,
     }
   );
 }
@@ -672,13 +712,14 @@ export async function checkReachability(
  */
 export async function detectCycles(
   dataApiBase: string,
-  projectId: string
+  projectId: string,
+  signal?: AbortSignal | null
 ): Promise<CyclesResponse> {
   return request<CyclesResponse>(
     dataApiBase, 
     'GET', 
     '/api/v1/graph/cycles', 
-    { params: { project: projectId } }
+    { params: { project: projectId }, signal: signal || undefined, schema: cyclesResponseSchema }
   );
 }
 
@@ -691,7 +732,8 @@ export async function findLCA(
   projectId: string,
   symbolA: string,
   symbolB: string,
-  depth: number = 10
+  depth: number = 10,
+  signal?: AbortSignal | null
 ): Promise<LCAResponse> {
   return request<LCAResponse>(
     dataApiBase, 
@@ -703,7 +745,9 @@ export async function findLCA(
         a: symbolA, 
         b: symbolB, 
         depth: String(depth) 
-      } 
+      },
+      signal: signal || undefined,
+      schema: lcaResponseSchema,
     }
   );
 }
@@ -778,12 +822,14 @@ export async function enrichCalledBy(
   dataApiBase: string,
   projectId: string
 ): Promise<{ status: string; predicate: string }> {
-  return request<{ status: string; predicate: string }>(
+  const result = await request<{ status: string; predicate: string }>(
     dataApiBase, 
     'POST', 
     '/api/v1/graph/enrich-called-by', 
     { params: { project: projectId } }
   );
+  invalidateProjectCache(dataApiBase, projectId);
+  return result;
 }
 
 /**
@@ -851,7 +897,7 @@ export async function generateTestsAll(
     `/api/v1/projects/${encodeURIComponent(projectId)}/test/generate-all`, 
     { 
       body: { depth: depth || 3 },
-      timeoutMs: API_CONFIG.TIMEOUT.LONG 
+      timeoutTier: 'long'
     }
   );
 }
@@ -907,12 +953,14 @@ export async function createSnapshot(
   projectId: string,
   label?: string
 ): Promise<import('../types').SnapshotInfo> {
-  return request<import('../types').SnapshotInfo>(
+  const snapshot = await request<import('../types').SnapshotInfo>(
     dataApiBase, 
     'POST', 
     '/api/v1/graph/snapshots', 
     { body: { project_id: projectId, label: label || '' } }
   );
+  invalidateProjectCache(dataApiBase, projectId);
+  return snapshot;
 }
 
 /**
@@ -924,12 +972,14 @@ export async function ingestOKFBundle(
   projectId: string,
   bundleDir: string
 ): Promise<import('../types').OKFIngestReport> {
-  return request<import('../types').OKFIngestReport>(
+  const report = await request<import('../types').OKFIngestReport>(
     dataApiBase, 
     'POST', 
     '/api/v1/okf/ingest', 
     { body: { project_id: projectId, bundle_dir: bundleDir } }
   );
+  invalidateProjectCache(dataApiBase, projectId);
+  return report;
 }
 
 /**
@@ -2,15 +2,17 @@
  * OKF Service — Thin wrappers around /api/v1/query?raw=true for OKF-specific Datalog queries.
  */
 import { executeQuery } from './graphService';
+import { request } from './apiClient';
 import { OKF_PREDICATES } from '../constants';
 import type { OKFSmellItem, OKFSmellResponse } from '../types';
 
-function esc(id: string): string {
-  return id.replace(/"/g, '\\"');
+/** Raw triples lookup; cached, since the OKF panels repeat the same lookups per symbol */
+function queryRaw(dataApiBase: string, projectId: string, query: string) {
+  return executeQuery(dataApiBase, projectId, query, false, null, true, true);
 }
 
-function cleanBase(url: string): string {
-  return url.endsWith('/') ? url.slice(0, -1) : url;
+function esc(id: string): string {
+  return id.replace(/"/g, '\\"');
 }
 
 /**
@@ -20,20 +22,18 @@ export async function fetchOKFConcepts(
   dataApiBase: string,
   projectId: string
 ): Promise<Array<{ id: string; title: string; type: string }>> {
-  const url = `${cleanBase(dataApiBase)}/api/v1/okf/concepts?project=${encodeURIComponent(projectId)}`;
   try {
-    const response = await fetch(url);
-    if (!response.ok) {
-      // Fallback to Datalog query if batch endpoint not available
-      return fetchOKFConceptsLegacy(dataApiBase, projectId);
-    }
-    const data = await response.json();
+    const data = await request<{ concepts?: any[] }>(dataApiBase, 'GET', '/api/v1/okf/concepts', {
+      params: { project: projectId },
+      maxAttempts: 1,
+    });
     return (data.concepts || []).map((c: any) => ({
       id: c.id,
       title: c.title || c.id,
       type: c.type || 'okf_concept',
     }));
   } catch {
+    // Fallback to Datalog query if batch endpoint not available
     return fetchOKFConceptsLegacy(dataApiBase, projectId);
   }
 }
@@ -46,7 +46,7 @@ async function fetchOKFConceptsLegacy(
   projectId: string
 ): Promise<Array<{ id: string; title: string; type: string }>> {
   const q = `triples(Subject, "${OKF_PREDICATES.ROLE}", Role)`;
-  const result = await executeQuery(dataApiBase, projectId, q, false, null, true);
+  const result = await queryRaw(dataApiBase, projectId, q);
   const triples = result?.results || result?.triples || [];
   const conceptIds: string[] = triples
     .filter((t: any) => (t[2] || t.Role || t.role) === OKF_PREDICATES.CONCEPT)
@@ -57,7 +57,7 @@ async function fetchOKFConceptsLegacy(
 
   const titlePromises = conceptIds.map(async (id) => {
     const tq = `triples("${esc(id)}", "${OKF_PREDICATES.TITLE}", Title)`;
-    const tr = await executeQuery(dataApiBase, projectId, tq, false, null, true);
+    const tr = await queryRaw(dataApiBase, projectId, tq);
     const rows = tr?.results || tr?.triples || [];
     const title = rows.length > 0 ? (rows[0][2] || rows[0].Title || rows[0].title || id) : id;
     return { id, title, type: 'okf_concept' };
@@ -74,13 +74,11 @@ export async function fetchOKFLinks(
   dataApiBase: string,
   projectId: string
 ): Promise<Array<{ source: string; target: string }>> {
-  const url = `${cleanBase(dataApiBase)}/api/v1/okf/links?project=${encodeURIComponent(projectId)}`;
   try {
-    const response = await fetch(url);
-    if (!response.ok) {
-      return fetchOKFLinksLegacy(dataApiBase, projectId);
-    }
-    const data = await response.json();
+    const data = await request<{ links?: any[] }>(dataApiBase, 'GET', '/api/v1/okf/links', {
+      params: { project: projectId },
+      maxAttempts: 1,
+    });
     const links = data.links || [];
     // Filter to only concept-to-concept links (target must be an OKF concept URI)
     return links.filter((l: any) => l.target && l.target.includes('/okf/'));
@@ -97,7 +95,7 @@ async function fetchOKFLinksLegacy(
   projectId: string
 ): Promise<Array<{ source: string; target: string }>> {
   const q = `triples(Subject, "${OKF_PREDICATES.LINK}", Object)`;
-  const result = await executeQuery(dataApiBase, projectId, q, false, null, true);
+  const result = await queryRaw(dataApiBase, projectId, q);
   const triples = result?.results || result?.triples || [];
   return triples
     .map((t: any) => ({
@@ -116,7 +114,7 @@ export async function fetchOKFBridges(
   projectId: string
 ): Promise<Array<{ conceptId: string; symbolId: string }>> {
   const q = `triples(Concept, "${OKF_PREDICATES.BRIDGE}", Symbol)`;
-  const result = await executeQuery(dataApiBase, projectId, q, false, null, true);
+  const result = await queryRaw(dataApiBase, projectId, q);
   const triples = result?.results || result?.triples || [];
   return triples.map((t: any) => ({
     conceptId: t[0] || t.Subject || t.subject,
@@ -133,7 +131,7 @@ export async function fetchOKFLinksFromConcept(
   conceptId: string
 ): Promise<Array<{ targetId: string; title?: string }>> {
   const q = `triples("${esc(conceptId)}", "${OKF_PREDICATES.LINK}", Target)`;
-  const result = await executeQuery(dataApiBase, projectId, q, false, null, true);
+  const result = await queryRaw(dataApiBase, projectId, q);
   const triples = result?.results || result?.triples || [];
   const targetIds: string[] = triples.map((t: any) => t[2] || t.Object || t.object).filter(Boolean);
 
@@ -144,7 +142,7 @@ export async function fetchOKFLinksFromConcept(
   return Promise.all(
     conceptTargets.map(async (tid: string) => {
       const tq = `triples("${esc(tid)}", "${OKF_PREDICATES.TITLE}", Title)`;
-      const tr = await executeQuery(dataApiBase, projectId, tq, false, null, true);
+      const tr = await queryRaw(dataApiBase, projectId, tq);
       const rows = tr?.results || tr?.triples || [];
       const title = rows.length > 0 ? (rows[0][2] || rows[0].Title || rows[0].title) : undefined;
       return { targetId: tid, title };
@@ -162,7 +160,7 @@ export async function fetchOKFBridgesFromConcept(
   conceptId: string
 ): Promise<Array<{ symbolId: string; title?: string }>> {
   const q = `triples("${esc(conceptId)}", "${OKF_PREDICATES.BRIDGE}", Symbol)`;
-  const result = await executeQuery(dataApiBase, projectId, q, false, null, true);
+  const result = await queryRaw(dataApiBase, projectId, q);
   const triples = result?.results || result?.triples || [];
   const symbolIds: string[] = triples.map((t: any) => t[2] || t.Object || t.object).filter(Boolean);
 
@@ -184,7 +182,7 @@ export async function fetchOKFBridgesForSymbol(
   symbolId: string
 ): Promise<Array<{ conceptId: string; title?: string }>> {
   const q = `triples(Concept, "${OKF_PREDICATES.BRIDGE}", "${esc(symbolId)}")`;
-  const result = await executeQuery(dataApiBase, projectId, q, false, null, true);
+  const result = await queryRaw(dataApiBase, projectId, q);
   const triples = result?.results || result?.triples || [];
   const conceptIds = triples.map((t: any) => t[0] || t.Subject || t.subject).filter(Boolean);
 
@@ -192,7 +190,7 @@ export async function fetchOKFBridgesForSymbol(
   return Promise.all(
     conceptIds.map(async (cid: string) => {
       const tq = `triples("${esc(cid)}", "${OKF_PREDICATES.TITLE}", Title)`;
-      const tr = await executeQuery(dataApiBase, projectId, tq, false, null, true);
+      const tr = await queryRaw(dataApiBase, projectId, tq);
       const rows = tr?.results || tr?.triples || [];
       const title = rows.length > 0 ? (rows[0][2] || rows[0].Title || rows[0].title) : undefined;
       return { conceptId: cid, title };
@@ -221,7 +219,7 @@ export async function fetchOKFConceptDetail(
   await Promise.all(
     queries.map(async ({ predicate, key }) => {
       const q = `triples("${esc(conceptId)}", "${predicate}", Value)`;
-      const result = await executeQuery(dataApiBase, projectId, q, false, null, true);
+      const result = await queryRaw(dataApiBase, projectId, q);
       const rows = result?.results || result?.triples || [];
       if (rows.length > 0) {
         const val = rows[0][2] || rows[0].Value || rows[0].value;
@@ -243,14 +241,14 @@ async function querySmells(
   smellType: string
 ): Promise<OKFSmellItem[]> {
   const q = `triples(Subject, "${OKF_PREDICATES.SMELL_TYPE}", "${smellType}")`;
-  const result = await executeQuery(dataApiBase, projectId, q, false, null, true);
+  const result = await queryRaw(dataApiBase, projectId, q);
   const triples = result?.results || result?.triples || [];
   return Promise.all(
     triples.map(async (t: any) => {
       const conceptId = t[0] || t.Subject || t.subject;
       // Fetch description for context
       const dq = `triples("${esc(conceptId)}", "${OKF_PREDICATES.DESCRIPTION}", Desc)`;
-      const dr = await executeQuery(dataApiBase, projectId, dq, false, null, true);
+      const dr = await queryRaw(dataApiBase, projectId, dq);
       const dRows = dr?.results || dr?.triples || [];
       const description = dRows.length > 0 ? (dRows[0][2] || dRows[0].Desc || dRows[0].desc) : undefined;
       return {
@@ -1,4 +1,4 @@
-import { fetchWithTimeout } from '../utils/fetchWithTimeout';
+import { request } from './apiClient';
 import type {
   ReviewSessionCreateRequest,
   ReviewSessionCreateResponse,
@@ -6,10 +6,6 @@ import type {
   ReviewSessionQueryResponse,
 } from '../types';
 
-function cleanBase(base: string): string {
-  return base.replace(/\/+$/, '');
-}
-
 export async function createReviewSession(
   dataApiBase: string,
   projectId: string,
@@ -17,23 +13,13 @@ export async function createReviewSession(
   baseCommit?: string,
   headCommit?: string,
 ): Promise<ReviewSessionCreateResponse> {
-  const url = `${cleanBase(dataApiBase)}/api/v1/review/session`;
   const body: ReviewSessionCreateRequest = {
     project_id: projectId,
     diff,
     base_commit: baseCommit,
     head_commit: headCommit,
   };
-  const response = await fetchWithTimeout(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(body),
-  });
-  if (!response.ok) {
-    const errBody = await response.text();
-    throw new Error(`Review session creation failed: ${errBody || response.statusText}`);
-  }
-  return response.json();
+  return request<ReviewSessionCreateResponse>(dataApiBase, 'POST', '/api/v1/review/session', { body });
 }
 
 export async function queryReviewSession(
@@ -42,16 +28,11 @@ export async function queryReviewSession(
   query: string,
   projectId: string,
 ): Promise<ReviewSessionQueryResponse> {
-  const url = `${cleanBase(dataApiBase)}/api/v1/review/session/${sessionId}/query`;
   const body: ReviewSessionQueryRequest = { query, project_id: projectId };
-  const response = await fetchWithTimeout(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(body),
-  });
-  if (!response.ok) {
-    const errBody = await response.text();
-    throw new Error(`Review session query failed: ${errBody || response.statusText}`);
-  }
-  return response.json();
+  return request<ReviewSessionQueryResponse>(
+    dataApiBase,
+    'POST',
+    `/api/v1/review/session/${encodeURIComponent(sessionId)}/query`,
+    { body },
+  );
 }
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AuthRegistry, authRegistry, isUnderBaseUrl, normalizeBaseUrl } from '../authConfig';
+import { fetchWithTimeout } from '../fetchWithTimeout';
+
+describe('normalizeBaseUrl', () => {
+  it('strips trailing slashes and resolves relative bases against the page origin', () => {
+    expect(normalizeBaseUrl('http://api.test/gca/')).toBe('http://api.test/gca');
+    expect(normalizeBaseUrl('')).toBe(window.location.origin);
+  });
+});
+
+describe('isUnderBaseUrl', () => {
+  it('matches URLs below the base path only', () => {
+    expect(isUnderBaseUrl('http://api.test/gca/api/v1/projects', 'http://api.test/gca/')).toBe(true);
+    expect(isUnderBaseUrl('http://api.test/gcax/api/v1/projects', 'http://api.test/gca')).toBe(false);
+    expect(isUnderBaseUrl('/api/v1/projects', '')).toBe(true);
+    expect(isUnderBaseUrl('http://other.test/api/v1/projects', '')).toBe(false);
+  });
+});
+
+describe('AuthRegistry', () => {
+  beforeEach(() => {
+    sessionStorage.clear();
+  });
+
+  it('attaches a bearer token to requests for the matching backend only', () => {
+    const registry = new AuthRegistry(sessionStorage);
+    registry.set('http://api.test', { type: 'bearer', token: 'abc' });
+
+    const init = registry.applyTo('http://api.test/api/v1/projects', { method: 'GET' });
+    expect(new Headers(init.headers).get('Authorization')).toBe('Bearer abc');
+    expect(registry.applyTo('http://other.test/api/v1/projects', {}).headers).toBeUndefined();
+  });
+
+  it('prefers the longest matching base URL and keeps explicit headers', () => {
+    const registry = new AuthRegistry(sessionStorage);
+    registry.set('http://api.test', { type: 'bearer', token: 'root' });
+    registry.set('http://api.test/gateway', { type: 'header', headerName: 'X-API-Key', value: 'k1' });
+
+    const init = registry.applyTo('http://api.test/gateway/api/v1/query?project=p', {
+      headers: { 'X-API-Key': 'explicit' },
+    });
+    expect(new Headers(init.headers).get('X-API-Key')).toBe('explicit');
+    expect(new Headers(init.headers).has('Authorization')).toBe(false);
+  });
+
+  it('sends credentials in cookie mode', () => {
+    const registry = new AuthRegistry(sessionStorage);
+    registry.set('', { type: 'cookie' });
+    expect(registry.applyTo('/api/v1/projects').credentials).toBe('include');
+  });
+
+  it('persists configs and drops them when set back to none', () => {
+    new AuthRegistry(sessionStorage).set('http://api.test/', { type: 'bearer', token: 't' });
+    const reloaded = new AuthRegistry(sessionStorage);
+    expect(reloaded.get('http://api.test')).toEqual({ type: 'bearer', token: 't' });
+
+    reloaded.set('http://api.test', { type: 'none' });
+    expect(new AuthRegistry(sessionStorage).getAll()).toEqual({});
+  });
+});
+
+describe('fetchWithTimeout auth integration', () => {
+  afterEach(() => {
+    authRegistry.set('http://api.test', { type: 'none' });
+    vi.unstubAllGlobals();
+  });
+
+  it('sends configured credentials and reports 401 responses', async () => {
+    const fetchMock = vi.fn(async () => new Response('', { status: 401 }));
+    vi.stubGlobal('fetch', fetchMock);
+    authRegistry.set('http://api.test', { type: 'bearer', token: 'expired' });
+    const onUnauthorized = vi.fn();
+    const unsubscribe = authRegistry.onUnauthorized(onUnauthorized);
+
+    const response = await fetchWithTimeout('http://api.test/api/v1/ai/ask', { method: 'POST' });
+    unsubscribe();
+
+    expect(response.status).toBe(401);
+    const sentInit = (fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1];
+    expect(new Headers(sentInit.headers).get('Authorization')).toBe('Bearer expired');
+    expect(onUnauthorized).toHaveBeenCalledWith('http://api.test', 'http://api.test/api/v1/ai/ask');
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { hierarchyCalls } from '../callHierarchy';
+
+const slice = {
+  nodes: [{ id: 'a.go:Walk', name: 'Walk', type: 'symbol', kind: 'func', filePath: 'a.go' }],
+  links: [
+    { source: 'a.go:Walk', target: 'b.go:visit', line: 30 },
+    { source: 'a.go:Walk', target: 'b.go:visit', line: 12 },
+    { source: 'a.go:Walk', target: 'a.go:Walk', line: 20 },
+    { source: 'a.go:Walk', target: 'c.go:Log' },
+    { source: 'main.go:main', target: 'a.go:Walk', line: 4 },
+  ],
+};
+
+describe('hierarchyCalls', () => {
+  it('groups call sites per callee and orders by first call', () => {
+    const calls = hierarchyCalls(slice, ['a.go:Walk'], 'outgoing');
+    expect(calls.map(c => [c.name, c.lines])).toEqual([
+      ['visit', [12, 30]],
+      ['Walk', [20]],
+      ['Log', []],
+    ]);
+    expect(calls[2]!.filePath).toBe('c.go');
+  });
+
+  it('lists callers for incoming and marks calls back up the chain as recursive', () => {
+    const calls = hierarchyCalls(slice, ['main.go:main', 'a.go:Walk'], 'incoming');
+    expect(calls.map(c => [c.id, c.recursive])).toEqual([
+      ['main.go:main', true],
+      ['a.go:Walk', true],
+    ]);
+    expect(hierarchyCalls(slice, ['a.go:Walk'], 'outgoing').find(c => c.name === 'visit')!.recursive).toBe(false);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { mergeCallPaths, pathSymbols, shortestCallPath } from '../callPaths';
+
+const links = [
+  { source: 'api.go:Handle', target: 'auth.go:Check', line: 12 },
+  { source: 'api.go:Handle', target: 'db.go:Query', line: 20 },
+  { source: 'auth.go:Check', target: 'db.go:Query', line: 40 },
+  { source: 'auth.go:Check', target: 'db.go:Query', line: 33 },
+  { source: 'db.go:Query', target: 'db.go:exec', line: 7 },
+  { source: 'db.go:exec', target: 'log.go:Write' },
+];
+
+describe('shortestCallPath', () => {
+  it('follows calls in their direction and takes the fewest hops', () => {
+    expect(shortestCallPath(links, 'api.go:Handle', 'db.go:exec')).toEqual([
+      { source: 'api.go:Handle', target: 'db.go:Query', line: 20, relation: undefined },
+      { source: 'db.go:Query', target: 'db.go:exec', line: 7, relation: undefined },
+    ]);
+    expect(shortestCallPath(links, 'db.go:exec', 'api.go:Handle')).toBeNull();
+    expect(shortestCallPath(links, 'db.go:exec', 'db.go:exec')).toEqual([]);
+  });
+
+  it('keeps the earliest call site among parallel links', () => {
+    const hops = shortestCallPath(links, 'auth.go:Check', 'log.go:Write')!;
+    expect(hops.map(h => h.line)).toEqual([33, 7, undefined]);
+    expect(pathSymbols('auth.go:Check', hops)).toEqual(['auth.go:Check', 'db.go:Query', 'db.go:exec', 'log.go:Write']);
+  });
+});
+
+describe('mergeCallPaths', () => {
+  it('unions paths, with the first path listed owning shared links', () => {
+    const toQuery = shortestCallPath(links, 'api.go:Handle', 'db.go:Query');
+    const toExec = shortestCallPath(links, 'api.go:Handle', 'db.go:exec');
+    const merged = mergeCallPaths([{ kind: 'forward', hops: toExec }, { kind: 'lca', hops: toQuery }, { kind: 'backward', hops: null }]);
+    expect(merged.map(l => [l.target, l.kind])).toEqual([['db.go:Query', 'forward'], ['db.go:exec', 'forward']]);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CircuitBreaker, BackendUnavailableError } from '../circuitBreaker';
+
+function makeBreaker() {
+  let now = 1_000_000;
+  const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 10_000, maxCooldownMs: 30_000, now: () => now });
+  return { breaker, advance: (ms: number) => { now += ms; } };
+}
+
+describe('CircuitBreaker', () => {
+  it('stays closed below the failure threshold', () => {
+    const { breaker } = makeBreaker();
+    breaker.recordFailure('http://api');
+    expect(breaker.getStatus('http://api').state).toBe('closed');
+    expect(() => breaker.assertAvailable('http://api')).not.toThrow();
+  });
+
+  it('opens after consecutive failures and fails fast with the remaining time', () => {
+    const { breaker, advance } = makeBreaker();
+    breaker.recordFailure('http://api');
+    breaker.recordFailure('http://api/');
+    expect(breaker.getStatus('http://api').state).toBe('open');
+    advance(2_500);
+    expect(() => breaker.assertAvailable('http://api')).toThrow(BackendUnavailableError);
+    expect(() => breaker.assertAvailable('http://api')).toThrow('Backend unavailable, retrying in 8s');
+  });
+
+  it('tracks backends independently', () => {
+    const { breaker } = makeBreaker();
+    breaker.recordFailure('http://a');
+    breaker.recordFailure('http://a');
+    expect(() => breaker.assertAvailable('http://b')).not.toThrow();
+  });
+
+  it('lets a probe through after the cooldown and closes on success', () => {
+    const { breaker, advance } = makeBreaker();
+    breaker.recordFailure('http://api');
+    breaker.recordFailure('http://api');
+    advance(10_000);
+    breaker.assertAvailable('http://api');
+    expect(breaker.getStatus('http://api').state).toBe('half-open');
+    breaker.recordSuccess('http://api');
+    expect(breaker.getStatus('http://api')).toEqual({ state: 'closed', consecutiveFailures: 0, retryAt: null });
+  });
+
+  it('reopens with a doubled cooldown when the probe fails', () => {
+    const { breaker, advance } = makeBreaker();
+    breaker.recordFailure('http://api');
+    breaker.recordFailure('http://api');
+    advance(10_000);
+    breaker.assertAvailable('http://api');
+    breaker.recordFailure('http://api');
+    expect(() => breaker.assertAvailable('http://api')).toThrow('retrying in 20s');
+  });
+
+  it('uses the backend Retry-After as the cooldown when given', () => {
+    const { breaker } = makeBreaker();
+    breaker.recordFailure('http://api');
+    breaker.recordFailure('http://api', 45_000);
+    expect(() => breaker.assertAvailable('http://api')).toThrow('retrying in 45s');
+  });
+
+  it('notifies subscribers on state changes', () => {
+    const { breaker } = makeBreaker();
+    const listener = vi.fn();
+    const unsubscribe = breaker.subscribe(listener);
+    breaker.recordFailure('http://api');
+    breaker.recordSuccess('http://api');
+    expect(listener).toHaveBeenCalledTimes(2);
+    unsubscribe();
+    breaker.recordFailure('http://api');
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { runWithConcurrencyLimit } from '../concurrency';
+
+const delay = <T>(ms: number, value: T) => new Promise<T>(resolve => setTimeout(() => resolve(value), ms));
+
+describe('runWithConcurrencyLimit', () => {
+  const unhandled = vi.fn();
+
+  afterEach(() => {
+    process.off('unhandledRejection', unhandled);
+    unhandled.mockReset();
+  });
+
+  it('keeps task order and never exceeds the limit', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const tasks = [30, 10, 20, 5].map((ms, i) => async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await delay(ms, null);
+      inFlight--;
+      return i;
+    });
+
+    expect(await runWithConcurrencyLimit(tasks, 2)).toEqual([0, 1, 2, 3]);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('rejects with the first failure and leaves no unhandled rejections', async () => {
+    process.on('unhandledRejection', unhandled);
+    const tasks = [
+      () => delay(5, 'a'),
+      () => Promise.reject(new Error('first')),
+      () => delay(10, null).then(() => { throw new Error('later'); }),
+    ];
+
+    await expect(runWithConcurrencyLimit(tasks, 3)).rejects.toThrow('first');
+    await delay(30, null);
+    expect(unhandled).not.toHaveBeenCalled();
+  });
+});
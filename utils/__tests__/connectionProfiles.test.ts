@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ConnectionProfile, ProfileStore } from '../connectionProfiles';
+import { API_CONFIG } from '../../constants';
+
+const staging: ConnectionProfile = {
+  id: 'stg',
+  name: 'Staging',
+  baseUrl: 'http://staging.test/gca',
+  auth: { type: 'bearer', token: 't' },
+  requestTimeoutMs: 60000,
+  defaultProjectId: 'core',
+};
+
+describe('ProfileStore', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  it('persists profiles and the active profile', () => {
+    const store = new ProfileStore(localStorage, sessionStorage);
+    store.save(staging);
+    store.setActive('stg');
+
+    const reloaded = new ProfileStore(localStorage, sessionStorage);
+    expect(reloaded.getProfiles()).toEqual([staging]);
+    expect(reloaded.getActive()).toEqual(staging);
+  });
+
+  it('keeps credentials out of localStorage and drops them with the session', () => {
+    new ProfileStore(localStorage, sessionStorage).save(staging);
+    expect(localStorage.getItem('gca_connection_profiles_v1')).not.toContain('"token":"t"');
+
+    sessionStorage.clear();
+    const nextSession = new ProfileStore(localStorage, sessionStorage);
+    expect(nextSession.getProfiles()).toEqual([{ ...staging, auth: { type: 'bearer', token: '' } }]);
+  });
+
+  it('replaces profiles by id and clears the active profile on removal', () => {
+    const store = new ProfileStore(localStorage, sessionStorage);
+    const listener = vi.fn();
+    store.subscribe(listener);
+    store.save(staging);
+    store.setActive('stg');
+    store.save({ ...staging, name: 'Staging EU' });
+    expect(store.getProfiles().map(p => p.name)).toEqual(['Staging EU']);
+
+    store.remove('stg');
+    expect(store.getProfiles()).toEqual([]);
+    expect(store.getActiveId()).toBeNull();
+    expect(listener).toHaveBeenCalled();
+  });
+
+  it('applies timeout overrides of the active profile to its backend only', () => {
+    const store = new ProfileStore(localStorage, sessionStorage);
+    store.save(staging);
+    expect(store.resolveTimeout('http://staging.test/gca/api/v1/projects', API_CONFIG.TIMEOUT.DEFAULT, 'default'))
+      .toBe(API_CONFIG.TIMEOUT.DEFAULT);
+
+    store.setActive('stg');
+    expect(store.resolveTimeout('http://staging.test/gca/api/v1/projects', API_CONFIG.TIMEOUT.DEFAULT, 'default')).toBe(60000);
+    // No stream override configured
+    expect(store.resolveTimeout('http://staging.test/gca/api/v1/ai/ask', API_CONFIG.TIMEOUT.LONG, 'long')).toBe(API_CONFIG.TIMEOUT.LONG);
+    expect(store.resolveTimeout('http://other.test/api/v1/projects', API_CONFIG.TIMEOUT.DEFAULT, 'default')).toBe(API_CONFIG.TIMEOUT.DEFAULT);
+  });
+
+  it('never overrides an explicit timeout without a tier', () => {
+    const store = new ProfileStore(localStorage, sessionStorage);
+    store.save({ ...staging, streamTimeoutMs: 90000 });
+    store.setActive('stg');
+    expect(store.resolveTimeout('http://staging.test/gca/api/v1/projects', API_CONFIG.TIMEOUT.DEFAULT)).toBe(API_CONFIG.TIMEOUT.DEFAULT);
+    expect(store.resolveTimeout('http://staging.test/gca/api/v1/ai/ask', API_CONFIG.TIMEOUT.LONG)).toBe(API_CONFIG.TIMEOUT.LONG);
+    expect(store.resolveTimeout('http://staging.test/gca/api/v1/ai/ask', API_CONFIG.TIMEOUT.DEFAULT, 'long')).toBe(90000);
+  });
+
+  it('ignores an active id that no longer exists', () => {
+    sessionStorage.setItem('gca_active_profile_v1', 'gone');
+    expect(new ProfileStore(localStorage, sessionStorage).getActive()).toBeNull();
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { rankCrossProjectHits, semanticHits, symbolHits } from '../crossProjectSearch';
+
+const billing = { id: 'billing', name: 'Billing' };
+const accounts = { id: 'accounts', name: 'Accounts' };
+
+describe('cross-project ranking', () => {
+  it('merges semantic hits from several projects by score', () => {
+    const merged = rankCrossProjectHits([
+      ...semanticHits(billing, [{ symbol_id: 'api/invoice.go:Charge', score: 0.7, name: 'Charge' }]),
+      ...semanticHits(accounts, [
+        { symbol_id: 'api/user.go:UserProfile', score: 0.9, name: 'UserProfile' },
+        { symbol_id: 'api/user.go', score: 0.7, name: '' },
+      ]),
+    ]);
+    expect(merged.map(h => `${h.projectName}:${h.name}`)).toEqual([
+      'Accounts:UserProfile',
+      'Accounts:user.go',
+      'Billing:Charge',
+    ]);
+    expect(merged[1]).toMatchObject({ isFile: true, filePath: 'api/user.go' });
+    expect(new Set(merged.map(h => h.key)).size).toBe(3);
+  });
+
+  it('ranks symbol ids by how well the name matches, path-only matches last', () => {
+    const merged = rankCrossProjectHits([
+      ...symbolHits(billing, 'UserProfile', ['shared/user_profile/types.go:Config', 'shared/types.go:UserProfileDTO']),
+      ...symbolHits(accounts, 'UserProfile', ['models/user.go:UserProfile']),
+    ]);
+    expect(merged.map(h => h.id)).toEqual([
+      'models/user.go:UserProfile',
+      'shared/types.go:UserProfileDTO',
+      'shared/user_profile/types.go:Config',
+    ]);
+  });
+
+  it('applies the limit after ranking', () => {
+    const hits = semanticHits(billing, [0.1, 0.5, 0.3].map((score, i) => ({ symbol_id: `f.go:S${i}`, score, name: `S${i}` })));
+    expect(rankCrossProjectHits(hits, 2).map(h => h.name)).toEqual(['S1', 'S2']);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { countEdgeUsage, cycleEdges, edgeCost, rankCycles, suggestCuts } from '../cycles';
+
+const cycles = [
+  ['a.go:A', 'b.go:B', 'c.go:C'],
+  ['a.go:A', 'a.go:A2'],
+  ['a.go:A', 'b.go:B', 'c.go:C'],
+  ['x.go:X', 'x.go:Y', 'x.go:Z', 'x.go:W'],
+  ['b.go:B', 'c.go:C', 'd.go:D'],
+];
+
+describe('rankCycles', () => {
+  it('drops duplicates and ranks by files spanned or by length', () => {
+    const byFiles = rankCycles(cycles, 'files');
+    expect(byFiles.map(c => c.files.length)).toEqual([3, 3, 1, 1]);
+    expect(byFiles[2]!.members).toEqual(['a.go:A', 'a.go:A2']);
+
+    expect(rankCycles(cycles, 'length').map(c => c.length)).toEqual([2, 3, 3, 4]);
+  });
+});
+
+describe('cut suggestions', () => {
+  const links = [
+    { source: 'a.go:A', target: 'b.go:B', weight: 3, confidence_tier: 'EXTRACTED' as const },
+    { source: 'a.go:A', target: 'b.go:B', weight: 1, relation: 'imports' },
+    { source: { id: 'b.go:B' }, target: { id: 'c.go:C' }, weight: 2, confidence_tier: 'INFERRED' as const },
+    { source: 'c.go:C', target: 'a.go:A', weight: 2, confidence_tier: 'EXTRACTED' as const },
+  ];
+
+  it('annotates each step including the closing edge, keeping the heaviest parallel link', () => {
+    const edges = cycleEdges(['a.go:A', 'b.go:B', 'c.go:C'], links);
+    expect(edges.map(e => [e.source, e.target, e.weight, e.tier])).toEqual([
+      ['a.go:A', 'b.go:B', 3, 'EXTRACTED'],
+      ['b.go:B', 'c.go:C', 2, 'INFERRED'],
+      ['c.go:C', 'a.go:A', 2, 'EXTRACTED'],
+    ]);
+    expect(cycleEdges(['a.go:A', 'd.go:D'], links).every(e => !e.known)).toBe(true);
+  });
+
+  it('discounts weak tiers and prefers edges shared by other cycles', () => {
+    expect(edgeCost({ weight: 2, tier: 'INFERRED' })).toBe(1);
+    expect(edgeCost({})).toBe(1);
+
+    const edges = cycleEdges(['a.go:A', 'b.go:B', 'c.go:C'], links);
+    const cuts = suggestCuts(edges, countEdgeUsage(cycles));
+    expect(cuts[0]).toMatchObject({ edge: { source: 'b.go:B', target: 'c.go:C' }, cost: 1, sharedWith: 1 });
+    expect(cuts.map(c => c.cost)).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { extractVariables, getCompletions, toResultGraph, toResultTable, tokenizeDatalog } from '../datalog';
+
+const PREDICATES = ['calls', 'calls_api', 'imports', 'defines'];
+
+describe('tokenizeDatalog', () => {
+  it('classifies every character of a query', () => {
+    const source = 'triples(?S, "calls", ?O), not triples(?O, "imports", X)';
+    const tokens = tokenizeDatalog(source);
+    expect(tokens.map(t => t.text).join('')).toBe(source);
+    const typeOf = (text: string) => tokens.find(t => t.text === text)?.type;
+    expect(typeOf('triples')).toBe('relation');
+    expect(typeOf('not')).toBe('keyword');
+    expect(typeOf('?S')).toBe('variable');
+    expect(typeOf('X')).toBe('variable');
+    expect(typeOf('"calls"')).toBe('string');
+    expect(typeOf('(')).toBe('punctuation');
+  });
+
+  it('treats an unterminated string as a string token', () => {
+    const tokens = tokenizeDatalog('triples(?S, "cal');
+    expect(tokens[tokens.length - 1]).toEqual({ type: 'string', text: '"cal', start: 12 });
+  });
+});
+
+describe('extractVariables', () => {
+  it('returns distinct variables in order of first use', () => {
+    expect(extractVariables('triples(?A, "calls", ?B), triples(?B, "imports", ?A)')).toEqual(['?A', '?B']);
+  });
+});
+
+describe('getCompletions', () => {
+  it('offers predicates inside a string literal', () => {
+    const source = 'triples(?S, "cal';
+    const completions = getCompletions(source, source.length, PREDICATES);
+    expect(completions.map(c => c.label)).toEqual(['calls', 'calls_api']);
+    expect(completions[0]).toMatchObject({ insertText: '"calls"', from: 12, to: source.length });
+  });
+
+  it('offers variables already used in the query', () => {
+    const source = 'triples(?Caller, "calls", ?Callee), triples(?Ca';
+    const labels = getCompletions(source, source.length, PREDICATES).map(c => c.label);
+    expect(labels).toEqual(['?Caller', '?Callee']);
+  });
+
+  it('offers relations for a bare word', () => {
+    const completions = getCompletions('tri', 3, PREDICATES);
+    expect(completions).toEqual([{ label: 'triples', kind: 'relation', insertText: 'triples(', from: 0, to: 3 }]);
+  });
+});
+
+describe('toResultTable', () => {
+  it('names positional columns after the query variables', () => {
+    const table = toResultTable({ nodes: [], links: [], results: [['a', 'calls', 'b']] }, ['?S', '?P']);
+    expect(table).toEqual({ columns: ['?S', '?P', 'col3'], rows: [['a', 'calls', 'b']] });
+  });
+
+  it('uses object keys as columns', () => {
+    const table = toResultTable({ nodes: [], links: [], results: [{ Subject: 'a', Object: 'b' }] });
+    expect(table).toEqual({ columns: ['Subject', 'Object'], rows: [['a', 'b']] });
+  });
+
+  it('falls back to hydrated nodes', () => {
+    const table = toResultTable({ nodes: [{ id: 'pkg/a.go:Run', name: 'Run', type: 'function', kind: 'func', filePath: 'pkg/a.go' }], links: [] });
+    expect(table.rows).toEqual([['pkg/a.go:Run', 'Run', 'func', 'pkg/a.go']]);
+  });
+});
+
+describe('toResultGraph', () => {
+  it('builds subject -> object edges from triple rows', () => {
+    const response = { nodes: [], links: [], results: [['a.go:A', 'calls', 'b.go:B'], ['a.go:A', 'calls', 'c.go:C']] };
+    const graph = toResultGraph(response, toResultTable(response));
+    expect(graph.nodes.map(n => n.id)).toEqual(['a.go:A', 'b.go:B', 'c.go:C']);
+    expect(graph.links[0]).toEqual({ source: 'a.go:A', target: 'b.go:B', relation: 'calls' });
+  });
+
+  it('prefers hydrated nodes and links', () => {
+    const response = { nodes: [{ id: 'x', name: 'x', type: 'file', kind: 'file' }], links: [], results: [['x', 'y']] };
+    const graph = toResultGraph(response, toResultTable(response));
+    expect(graph.nodes).toHaveLength(1);
+    expect(graph.nodes[0]).not.toBe(response.nodes[0]);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BuilderClause,
+  buildDatalog,
+  builderVariables,
+  createClause,
+  literal,
+  nextVariableName,
+  validateClauses,
+  variable,
+} from '../datalogBuilder';
+
+const clause = (subject: string, predicate: string, object: string, negated = false): BuilderClause => {
+  const term = (s: string) => (s.startsWith('?') ? variable(s.slice(1)) : literal(s));
+  return { id: `${subject}-${predicate}-${object}`, subject: term(subject), predicate: term(predicate), object: term(object), negated };
+};
+
+describe('buildDatalog', () => {
+  it('quotes literals and emits negations after positive clauses', () => {
+    const query = buildDatalog([
+      clause('?S', 'imports', '?O', true),
+      clause('?S', 'calls', 'pkg/db.go:Open'),
+    ]);
+    expect(query).toBe('triples(?S, "calls", "pkg/db.go:Open"),\nnot triples(?S, "imports", ?O)');
+  });
+
+  it('escapes quotes inside literal values', () => {
+    expect(buildDatalog([clause('?S', 'has_doc', 'say "hi"')])).toBe('triples(?S, "has_doc", "say \\"hi\\"")');
+  });
+});
+
+describe('validateClauses', () => {
+  it('accepts a joined query', () => {
+    expect(validateClauses([clause('?A', 'calls', '?B'), clause('?B', 'calls', '?C')])).toEqual([]);
+  });
+
+  it('requires a positive clause', () => {
+    expect(validateClauses([clause('?A', 'calls', '?B', true)])[0]).toMatch(/not negated/);
+  });
+
+  it('flags empty terms', () => {
+    expect(validateClauses([clause('?A', '', '?B')])).toEqual(['Clause 1: predicate is empty.']);
+  });
+
+  it('flags negated clauses with unbound variables', () => {
+    const issues = validateClauses([clause('?A', 'calls', '?B'), clause('?B', 'imports', '?X', true)]);
+    expect(issues).toEqual(['Clause 2: negated clause uses ?X, which no positive clause binds.']);
+  });
+});
+
+describe('createClause', () => {
+  it('starts with ?S and ?O', () => {
+    const first = createClause([], 'calls');
+    expect(buildDatalog([first])).toBe('triples(?S, "calls", ?O)');
+  });
+
+  it('joins from the previous clause object', () => {
+    const first = createClause([], 'calls');
+    const second = createClause([first], 'calls', first);
+    expect(buildDatalog([first, second])).toBe('triples(?S, "calls", ?O),\ntriples(?O, "calls", ?A)');
+    expect(builderVariables([first, second])).toEqual(['S', 'O', 'A']);
+  });
+
+  it('uses a predicate variable when no predicate is known', () => {
+    expect(createClause([], '').predicate).toEqual(variable('A'));
+  });
+});
+
+describe('nextVariableName', () => {
+  it('skips names already in use', () => {
+    expect(nextVariableName([clause('?S', 'calls', '?O')], ['A'])).toBe('B');
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { callSiteSnippet, callToken, orderFlowHops } from '../flowPath';
+
+const node = (id: string) => ({ id, name: id.split(':').pop()!, type: 'symbol', kind: 'func' });
+
+describe('orderFlowHops', () => {
+  it('follows the links from the start, whatever order they arrive in', () => {
+    const response = {
+      nodes: [node('c.go:Save'), node('a.go:Handle'), node('b.go:Parse')],
+      links: [
+        { source: 'b.go:Parse', target: 'c.go:Save' },
+        { source: 'a.go:Handle', target: 'b.go:Parse' },
+      ],
+    };
+    expect(orderFlowHops(response, 'a.go:Handle', 'c.go:Save').map(h => h.target)).toEqual(['b.go:Parse', 'c.go:Save']);
+  });
+
+  it('falls back to node order when the links do not chain', () => {
+    const response = { nodes: [node('a.go:Handle'), node('b.go:Parse')], links: [] };
+    expect(orderFlowHops(response, 'a.go:Handle', 'b.go:Parse')).toEqual([{ source: 'a.go:Handle', target: 'b.go:Parse' }]);
+  });
+});
+
+describe('callSiteSnippet', () => {
+  const caller = {
+    id: 'a.go:Handle',
+    start_line: 10,
+    content: ['func Handle(r *Request) {', '  body := read(r)', '  v, err := parser.Parse(body)', '  if err != nil {', '    return', '  }', '}'].join('\n'),
+  };
+
+  it('centres on the first line that calls the callee', () => {
+    expect(callToken('pkg/b.go:Parser.Parse')).toBe('Parse');
+    expect(callSiteSnippet(caller, 'b.go:Parser.Parse', 1)).toEqual({
+      line: 12,
+      text: '  body := read(r)\n  v, err := parser.Parse(body)\n  if err != nil {',
+      atCallSite: true,
+    });
+  });
+
+  it('shows the top of the body when the call is not found', () => {
+    const snippet = callSiteSnippet(caller, 'c.go:Save');
+    expect(snippet).toMatchObject({ atCallSite: false });
+    expect(snippet!.text.startsWith('func Handle')).toBe(true);
+    expect(callSiteSnippet(null, 'c.go:Save')).toBeUndefined();
+  });
+});
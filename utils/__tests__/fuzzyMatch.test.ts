@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { fuzzyMatch, rankMatches } from '../fuzzyMatch';
+
+describe('fuzzyMatch', () => {
+  it('requires every query character in order', () => {
+    expect(fuzzyMatch('hq', 'HandleQuery')).not.toBeNull();
+    expect(fuzzyMatch('qh', 'HandleQuery')).toBeNull();
+    expect(fuzzyMatch('handler', 'Handle')).toBeNull();
+  });
+
+  it('reports matched positions on camelCase humps', () => {
+    expect(fuzzyMatch('hq', 'HandleQuery')?.positions).toEqual([0, 6]);
+  });
+
+  it('aligns to path segments', () => {
+    expect(fuzzyMatch('auth/tok', 'internal/auth/token.go')?.positions).toEqual([9, 10, 11, 12, 13, 14, 15, 16]);
+  });
+});
+
+describe('rankMatches', () => {
+  it('ranks word-start and consecutive matches above scattered ones', () => {
+    const symbols = ['ParseHeaderQuery', 'HandleQuery', 'hashqueue', 'HandleLogin'];
+    const ranked = rankMatches('hq', symbols, s => s).map(r => r.item);
+    expect(ranked[0]).toBe('HandleQuery');
+    expect(ranked).not.toContain('HandleLogin');
+  });
+
+  it('prefers exact and shorter matches', () => {
+    const ranked = rankMatches('store', ['internal/store/store.go', 'Store', 'StoreUserSession'], s => s).map(r => r.item);
+    expect(ranked[0]).toBe('Store');
+  });
+});
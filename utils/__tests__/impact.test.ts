@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { buildImpactReport, callerDistances, impactToCsv, isTestFile } from '../impact';
+
+const links = [
+  { source: 'pkg/api/handler.go:Handle', target: 'pkg/auth/token.go:Validate', line: 14 },
+  { source: 'pkg/auth/token.go:Refresh', target: 'pkg/auth/token.go:Validate', line: 40 },
+  { source: 'cmd/server/main.go:main', target: 'pkg/api/handler.go:Handle', line: 9 },
+  { source: 'pkg/auth/validate_test.go:TestValidate', target: 'pkg/auth/token.go:Validate', line: 5 },
+  { source: 'cmd/server/main.go:main', target: 'pkg/auth/token.go:Refresh', line: 12 },
+];
+
+describe('isTestFile', () => {
+  it('recognises common test file conventions', () => {
+    expect(['a/b_test.go', 'src/x.test.ts', 'src/__tests__/x.ts', 'tests/test_api.py', 'web/a.spec.tsx'].every(isTestFile)).toBe(true);
+    expect(['a/latest.go', 'src/contest.ts', 'testing/helpers.go'].some(isTestFile)).toBe(false);
+  });
+});
+
+describe('callerDistances', () => {
+  it('keeps the shortest route from each caller', () => {
+    const distances = callerDistances(links, 'pkg/auth/token.go:Validate');
+    expect(distances.get('pkg/auth/token.go:Validate')).toBe(0);
+    expect(distances.get('cmd/server/main.go:main')).toBe(2);
+    expect(distances.has('unrelated')).toBe(false);
+  });
+});
+
+describe('buildImpactReport', () => {
+  const report = buildImpactReport({
+    target: 'pkg/auth/token.go:Validate',
+    depth: 3,
+    nodes: [{ id: 'pkg/api/handler.go:Handle', name: 'Handle', type: 'symbol', kind: 'func', gatewayType: 'entry' }],
+    links,
+    entryIds: new Set(['cmd/server/main.go:main']),
+    bridges: [
+      { conceptId: 'okf:auth', symbolId: 'pkg/auth/token.go:Validate' },
+      { conceptId: 'okf:auth', symbolId: 'pkg/auth/token.go:Refresh' },
+      { conceptId: 'okf:billing', symbolId: 'pkg/billing/pay.go:Charge' },
+    ],
+    concepts: [{ id: 'okf:auth', title: 'Authentication' }],
+  });
+
+  it('rolls callers up into files and packages', () => {
+    expect(report.symbols.map(s => [s.name, s.distance])).toEqual([
+      ['Handle', 1], ['Refresh', 1], ['TestValidate', 1], ['main', 2],
+    ]);
+    expect(report.files.map(f => f.path)).toEqual([
+      'pkg/api/handler.go', 'pkg/auth/token.go', 'pkg/auth/validate_test.go', 'cmd/server/main.go',
+    ]);
+    expect(report.packages).toEqual([
+      { name: 'pkg/auth', files: 2, symbols: 2 },
+      { name: 'cmd/server', files: 1, symbols: 1 },
+      { name: 'pkg/api', files: 1, symbols: 1 },
+    ]);
+  });
+
+  it('flags entry points, tests and bridged concepts', () => {
+    expect(report.entryPoints.map(s => s.name)).toEqual(['Handle', 'main']);
+    expect(report.testFiles.map(f => f.path)).toEqual(['pkg/auth/validate_test.go']);
+    expect(report.concepts).toEqual([
+      { id: 'okf:auth', title: 'Authentication', symbols: ['pkg/auth/token.go:Validate', 'pkg/auth/token.go:Refresh'] },
+    ]);
+  });
+
+  it('exports one CSV row per caller', () => {
+    const lines = impactToCsv(report).trim().split('\n');
+    expect(lines).toHaveLength(5);
+    expect(lines[4]).toBe('cmd/server/main.go:main,main,symbol,cmd/server/main.go,cmd/server,2,true,false');
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LocalStore } from '../localStore';
+
+const options = {
+  key: 'test_store_v1',
+  fallback: [] as string[],
+  parse: (raw: unknown) => (Array.isArray(raw) ? raw.filter((v): v is string => typeof v === 'string') : []),
+};
+
+describe('LocalStore', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('persists, reloads and notifies on change', () => {
+    const store = new LocalStore(localStorage, options);
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+    store.set(['a']);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(new LocalStore(localStorage, options).get()).toEqual(['a']);
+
+    unsubscribe();
+    store.set(['b']);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the same value between changes', () => {
+    const store = new LocalStore(localStorage, options);
+    store.set(['a']);
+    expect(store.get()).toBe(store.get());
+  });
+
+  it('falls back on unreadable data and writes the serialized form', () => {
+    localStorage.setItem(options.key, '{not json');
+    expect(new LocalStore(localStorage, options).get()).toEqual([]);
+
+    const store = new LocalStore(localStorage, { ...options, serialize: (value: string[]) => value.map(v => v.toUpperCase()) });
+    store.set(['a']);
+    expect(store.get()).toEqual(['a']);
+    expect(localStorage.getItem(options.key)).toBe('["A"]');
+  });
+
+  it('keeps working in memory without storage', () => {
+    const store = new LocalStore(null, options);
+    store.set(['a']);
+    expect(store.get()).toEqual(['a']);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  FixtureBundle, FixtureEntry, MockBackendHandle, installMockBackend, isFixtureBundle, matchFixture,
+} from '../mockBackend';
+import { readSSEStream } from '../sseStream';
+import demoFixtures from '../../data/fixtures/demo.json';
+
+const bundle = (entries: FixtureEntry[]): FixtureBundle => ({ format: 'gca-fixtures', version: 1, entries });
+
+describe('matchFixture', () => {
+  const entries: FixtureEntry[] = [
+    { method: 'POST', path: '/api/v1/query', query: { project: 'p' }, fallback: true, body: { nodes: [] } },
+    { method: 'POST', path: '/api/v1/query', query: { project: 'p' }, requestBody: { query: 'calls' }, body: { nodes: [1] } },
+    { method: 'GET', path: '/api/v1/files', query: { project: 'p' }, body: ['a.go'] },
+  ];
+
+  it('prefers the entry that declares more matching fields', () => {
+    expect(matchFixture(entries, 'POST', '/api/v1/query', { project: 'p', hydrate: 'true' }, { query: 'calls' }))
+      .toBe(entries[1]);
+  });
+
+  it('falls back to the route-wide entry when the body differs', () => {
+    expect(matchFixture(entries, 'POST', '/api/v1/query', { project: 'p' }, { query: 'imports' }))
+      .toBe(entries[0]);
+  });
+
+  it('rejects entries whose declared params differ', () => {
+    expect(matchFixture(entries, 'GET', '/api/v1/files', { project: 'other' }, undefined)).toBeUndefined();
+  });
+
+  it('does not serve entries without criteria unless marked as fallback', () => {
+    const bare: FixtureEntry[] = [{ method: 'GET', path: '/api/v1/health', body: {} }];
+    expect(matchFixture(bare, 'GET', '/api/v1/health', {}, undefined)).toBeUndefined();
+  });
+});
+
+describe('installMockBackend', () => {
+  let handle: MockBackendHandle | null = null;
+
+  afterEach(() => {
+    handle?.uninstall();
+    handle = null;
+  });
+
+  it('replays JSON fixtures and 404s unmatched API routes', async () => {
+    handle = installMockBackend({
+      mode: 'replay',
+      fixtures: bundle([{ method: 'GET', path: '/api/v1/projects', fallback: true, body: [{ id: 'p', name: 'P' }] }]),
+    });
+
+    const projects = await fetch('http://backend.test/api/v1/projects');
+    expect(await projects.json()).toEqual([{ id: 'p', name: 'P' }]);
+
+    const missing = await fetch('/api/v1/unknown');
+    expect(missing.status).toBe(404);
+  });
+
+  it('streams SSE fixtures event by event', async () => {
+    handle = installMockBackend({
+      mode: 'replay',
+      streamDelayMs: 0,
+      fixtures: bundle([{ method: 'POST', path: '/api/v1/ai/ask', fallback: true, events: ['Hello ', 'multi\nline'] }]),
+    });
+
+    const response = await fetch('/api/v1/ai/ask', { method: 'POST', body: '{}' });
+    const chunks: string[] = [];
+    for await (const chunk of readSSEStream(response)) chunks.push(chunk);
+    expect(chunks).toEqual(['Hello ', 'multi\nline']);
+  });
+
+  it('rejects with an AbortError when the request is aborted during a delay', async () => {
+    handle = installMockBackend({
+      mode: 'replay',
+      fixtures: bundle([{ method: 'GET', path: '/api/v1/projects', fallback: true, body: [], delayMs: 1000 }]),
+    });
+    const controller = new AbortController();
+    const pending = fetch('/api/v1/projects', { signal: controller.signal });
+    controller.abort();
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('records passed-through API responses as fixtures', async () => {
+    const realFetch = vi.fn(async () => new Response(JSON.stringify({ intent: 'chat' }), {
+      headers: { 'content-type': 'application/json' },
+    }));
+    vi.stubGlobal('fetch', realFetch);
+    try {
+      handle = installMockBackend({ mode: 'record' });
+      const response = await fetch('/api/v1/ai/classify?project=p', { method: 'POST', body: JSON.stringify({ query: 'q' }) });
+      expect(await response.json()).toEqual({ intent: 'chat' });
+      await vi.waitFor(() => expect(handle!.getRecording().entries).toHaveLength(1));
+
+      expect(handle.getRecording().entries[0]).toEqual({
+        method: 'POST',
+        path: '/api/v1/ai/classify',
+        query: { project: 'p' },
+        requestBody: { query: 'q' },
+        body: { intent: 'chat' },
+      });
+    } finally {
+      handle?.uninstall();
+      handle = null;
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('ships a valid demo bundle', () => {
+    expect(isFixtureBundle(demoFixtures)).toBe(true);
+  });
+});
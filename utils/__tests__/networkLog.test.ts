@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NetworkLog, networkLog, toCurl } from '../networkLog';
+import { fetchWithTimeout } from '../fetchWithTimeout';
+import { requestManager } from '../requestManager';
+
+describe('NetworkLog', () => {
+  it('records request details and keeps only the newest entries', () => {
+    const log = new NetworkLog(2);
+    const listener = vi.fn();
+    log.subscribe(listener);
+
+    log.start('http://api.test/api/v1/files?project=demo', {});
+    const id = log.start('http://api.test/api/v1/query?project=demo', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"query":"q"}',
+    });
+    log.start('http://api.test/api/v1/projects', {});
+
+    const entries = log.getEntries();
+    expect(entries.map(e => e.endpoint)).toEqual(['/api/v1/query', '/api/v1/projects']);
+    expect(entries[0]).toMatchObject({ id, method: 'POST', params: { project: 'demo' }, requestBytes: 13, state: 'pending' });
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+
+  it('builds a curl command with credential placeholders', () => {
+    const log = new NetworkLog();
+    log.start('http://api.test/api/v1/query', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: `{"query":"it's"}`,
+    }, 'bearer');
+
+    expect(toCurl(log.getEntries()[0]!)).toBe(
+      `curl -X POST 'http://api.test/api/v1/query' -H 'content-type: application/json' ` +
+      `-H "Authorization: Bearer $GCA_TOKEN" --data-raw '{"query":"it'\\''s"}'`
+    );
+  });
+});
+
+describe('fetchWithTimeout network logging', () => {
+  beforeEach(() => networkLog.clear());
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('records status, duration and response size', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{"ok":true}', { status: 200 })));
+    await fetchWithTimeout('http://api.test/api/v1/projects');
+    await vi.waitFor(() => expect(networkLog.getEntries()[0]?.responseBytes).toBe(11));
+    expect(networkLog.getEntries()[0]).toMatchObject({ status: 200, state: 'success' });
+    expect(networkLog.getEntries()[0]!.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('records the requestManager reason for cancelled requests', async () => {
+    vi.stubGlobal('fetch', vi.fn((_url: string, init: RequestInit) => new Promise((_, reject) => {
+      init.signal!.addEventListener('abort', () => reject(init.signal!.reason));
+    })));
+    const controller = requestManager.startRequest('search');
+    const pending = fetchWithTimeout('http://api.test/api/v1/search', {}, 5000, controller.signal);
+    requestManager.startRequest('search');
+
+    await expect(pending).rejects.toThrow();
+    expect(networkLog.getEntries()[0]).toMatchObject({
+      state: 'cancelled',
+      cancelReason: 'superseded by a newer "search" request',
+    });
+    requestManager.cancelAll();
+  });
+});
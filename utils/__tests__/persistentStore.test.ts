@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PersistentStore, MemoryStoreBackend } from '../persistentStore';
+
+describe('PersistentStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('round-trips values per scope, kind and id', async () => {
+    const store = new PersistentStore(new MemoryStoreBackend());
+    await store.put('http://api|p1', 'symbol', 'a.go:A', { id: 'a.go:A', code: 'func A() {}' });
+    expect(await store.get('http://api|p1', 'symbol', 'a.go:A')).toEqual({ id: 'a.go:A', code: 'func A() {}' });
+    expect(await store.get('http://api|p2', 'symbol', 'a.go:A')).toBeUndefined();
+    expect(await store.get('http://api|p1', 'fileDetails', 'a.go:A')).toBeUndefined();
+  });
+
+  it('accounts size per scope', async () => {
+    const store = new PersistentStore(new MemoryStoreBackend());
+    await store.put('http://api|p1', 'manifest', '', { F: {}, S: {} });
+    await store.put('http://api|p2', 'graph', '', { nodes: [{ id: 'main.go' }], links: [] });
+    const usage = await store.usage();
+    expect(usage.entryCount).toBe(2);
+    expect(usage.totalBytes).toBe(JSON.stringify({ F: {}, S: {} }).length + JSON.stringify({ nodes: [{ id: 'main.go' }], links: [] }).length);
+    expect(usage.scopes[0]!.scope).toBe('http://api|p2');
+  });
+
+  it('evicts least recently used entries when over budget', async () => {
+    const store = new PersistentStore(new MemoryStoreBackend(), 100);
+    const value = 'x'.repeat(38); // 40 bytes serialized
+    await store.put('s', 'symbol', 'a', value);
+    vi.advanceTimersByTime(10);
+    await store.put('s', 'symbol', 'b', value);
+    vi.advanceTimersByTime(10);
+    await store.get('s', 'symbol', 'a'); // a is now more recent than b
+    vi.advanceTimersByTime(10);
+    await store.put('s', 'symbol', 'c', value);
+
+    expect(await store.get('s', 'symbol', 'b')).toBeUndefined();
+    expect(await store.get('s', 'symbol', 'a')).toBe(value);
+    expect(await store.get('s', 'symbol', 'c')).toBe(value);
+  });
+
+  it('skips entries larger than the per-entry limit', async () => {
+    const store = new PersistentStore(new MemoryStoreBackend(), 1000, 10);
+    await store.put('s', 'graph', '', { nodes: ['too big for the limit'] });
+    expect((await store.usage()).entryCount).toBe(0);
+  });
+
+  it('clears one scope or everything', async () => {
+    const store = new PersistentStore(new MemoryStoreBackend());
+    await store.put('http://api|p1', 'manifest', '', {});
+    await store.put('http://api|p2', 'manifest', '', {});
+    await store.clear('http://api|p1');
+    expect(await store.get('http://api|p1', 'manifest')).toBeUndefined();
+    expect(await store.get('http://api|p2', 'manifest')).toEqual({});
+    await store.clear();
+    expect((await store.usage()).entryCount).toBe(0);
+  });
+
+  it('invalidates one project or every project of a backend', async () => {
+    const store = new PersistentStore(new MemoryStoreBackend());
+    await store.put('http://api|p1', 'symbol', 'a', {});
+    await store.put('http://api|p2', 'symbol', 'a', {});
+    await store.put('http://other|p1', 'symbol', 'a', {});
+    await store.invalidate('http://api/', 'p1');
+    expect(await store.get('http://api|p1', 'symbol', 'a')).toBeUndefined();
+    expect(await store.get('http://api|p2', 'symbol', 'a')).toEqual({});
+    await store.invalidate('http://api');
+    expect(await store.get('http://api|p2', 'symbol', 'a')).toBeUndefined();
+    expect(await store.get('http://other|p1', 'symbol', 'a')).toEqual({});
+  });
+
+  it('treats entries older than maxAgeMs as misses until rewritten', async () => {
+    const store = new PersistentStore(new MemoryStoreBackend());
+    await store.put('s', 'symbol', 'a', 'old');
+    vi.advanceTimersByTime(1000);
+    expect(await store.get('s', 'symbol', 'a', 500)).toBeUndefined();
+    expect(await store.get('s', 'symbol', 'a')).toBe('old');
+    await store.put('s', 'symbol', 'a', 'new');
+    expect(await store.get('s', 'symbol', 'a', 500)).toBe('new');
+  });
+
+  it('swallows backend failures', async () => {
+    const backend = new MemoryStoreBackend();
+    vi.spyOn(backend, 'putEntry').mockRejectedValue(new Error('QuotaExceededError'));
+    const store = new PersistentStore(backend);
+    await expect(store.put('s', 'graph', '', { nodes: [] })).resolves.toBeUndefined();
+    expect(await store.get('s', 'graph')).toBeUndefined();
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { QueryCache, queryScope } from '../queryCache';
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (err: Error) => void;
+  const promise = new Promise<T>((res, rej) => { resolve = res; reject = rej; });
+  return { promise, resolve, reject };
+}
+
+describe('QueryCache', () => {
+  const scope = queryScope('http://api/', 'proj');
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('shares one call between identical in-flight requests', async () => {
+    const cache = new QueryCache(10, 1000, 60000);
+    const pending = deferred<{ n: number }>();
+    const loader = vi.fn(() => pending.promise);
+    const a = cache.fetch(scope, '/x', loader);
+    const b = cache.fetch(scope, '/x', loader);
+    pending.resolve({ n: 1 });
+    await expect(a).resolves.toEqual({ n: 1 });
+    await expect(b).resolves.toEqual({ n: 1 });
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('hands out copies so callers cannot mutate the cached value', async () => {
+    const cache = new QueryCache(10, 1000, 60000);
+    const first = await cache.fetch(scope, '/x', async () => ({ links: [{ source: 'a' }] }));
+    (first.links[0] as any).source = { id: 'a' };
+    const second = await cache.fetch(scope, '/x', async () => ({ links: [] }));
+    expect(second).toEqual({ links: [{ source: 'a' }] });
+  });
+
+  it('serves stale values while revalidating in the background', async () => {
+    const cache = new QueryCache(10, 1000, 60000);
+    await cache.fetch(scope, '/x', async () => 'v1');
+    vi.advanceTimersByTime(1500);
+    const loader = vi.fn(async () => 'v2');
+    await expect(cache.fetch(scope, '/x', loader)).resolves.toBe('v1');
+    expect(loader).toHaveBeenCalledTimes(1);
+    await vi.runAllTimersAsync();
+    await expect(cache.fetch(scope, '/x', loader)).resolves.toBe('v2');
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not cache failures', async () => {
+    const cache = new QueryCache(10, 1000, 60000);
+    await expect(cache.fetch(scope, '/x', async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    await expect(cache.fetch(scope, '/x', async () => 'ok')).resolves.toBe('ok');
+  });
+
+  it('aborts the shared call only when every caller has aborted', async () => {
+    const cache = new QueryCache(10, 1000, 60000);
+    let sharedSignal: AbortSignal | undefined;
+    const pending = deferred<string>();
+    const loader = (signal: AbortSignal) => { sharedSignal = signal; return pending.promise; };
+    const c1 = new AbortController();
+    const c2 = new AbortController();
+    const a = cache.fetch(scope, '/x', loader, c1.signal);
+    const b = cache.fetch(scope, '/x', loader, c2.signal);
+
+    c1.abort();
+    await expect(a).rejects.toMatchObject({ name: 'AbortError', message: 'Request cancelled' });
+    expect(sharedSignal!.aborted).toBe(false);
+
+    c2.abort();
+    await expect(b).rejects.toThrow('Request cancelled');
+    expect(sharedSignal!.aborted).toBe(true);
+    pending.reject(new Error('aborted'));
+  });
+
+  it('invalidates a single project or a whole backend', async () => {
+    const cache = new QueryCache(10, 1000, 60000);
+    const other = queryScope('http://api', 'other');
+    await cache.fetch(scope, '/x', async () => 'p1');
+    await cache.fetch(other, '/x', async () => 'o1');
+
+    cache.invalidate('http://api', 'proj');
+    await expect(cache.fetch(scope, '/x', async () => 'p2')).resolves.toBe('p2');
+    await expect(cache.fetch(other, '/x', async () => 'o2')).resolves.toBe('o1');
+
+    cache.invalidate('http://api');
+    await expect(cache.fetch(other, '/x', async () => 'o3')).resolves.toBe('o3');
+  });
+
+  it('does not let a call invalidated mid-flight repopulate the cache', async () => {
+    const cache = new QueryCache(10, 1000, 60000);
+    const pending = deferred<string>();
+    const stale = cache.fetch(scope, '/x', () => pending.promise);
+    cache.invalidate('http://api', 'proj');
+    pending.resolve('old');
+    await expect(stale).resolves.toBe('old');
+    await expect(cache.fetch(scope, '/x', async () => 'new')).resolves.toBe('new');
+  });
+});
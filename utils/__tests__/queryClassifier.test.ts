@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { classifyQueryMode, classifyIntentRoute } from '../queryClassifier';
+import { classifyQueryMode, classifyIntentRoute, combineIntent } from '../queryClassifier';
+import { IntentOverrideLog } from '../intentOverrides';
 
 describe('classifyQueryMode', () => {
   it('classifies explore patterns', () => {
@@ -55,3 +56,38 @@ describe('classifyIntentRoute', () => {
     expect(classifyIntentRoute('what does this do')).toBe('explain');
   });
 });
+
+describe('combineIntent', () => {
+  it('uses the regex route until the classifier answers', () => {
+    expect(combineIntent('audit the login flow')).toEqual({ route: 'security', source: 'regex', regexRoute: 'security' });
+  });
+
+  it('lets a confident classifier overrule a keyword match', () => {
+    const preview = combineIntent('why does the password field reset on security page reload', { intent: 'explain', confidence: 0.9 });
+    expect(preview).toMatchObject({ route: 'explain', source: 'classifier', regexRoute: 'security', classifierIntent: 'explain' });
+  });
+
+  it('ignores unsure or unknown classifier intents', () => {
+    expect(combineIntent('security of the auth layer', { intent: 'explain', confidence: 0.4 }).route).toBe('security');
+    expect(combineIntent('security of the auth layer', { intent: 'mystery', confidence: 0.99 }).route).toBe('security');
+  });
+
+  it('always navigates for file paths', () => {
+    expect(combineIntent('pkg/server/handlers.go', { intent: 'explain', confidence: 0.95 }).route).toBe('navigate');
+  });
+});
+
+describe('IntentOverrideLog', () => {
+  it('records only real overrides, newest first, and persists them', () => {
+    localStorage.clear();
+    const log = new IntentOverrideLog(localStorage);
+    const preview = combineIntent('reset the password field');
+    log.record('reset the password field', 'core', preview, 'security');
+    log.record('reset the password field', 'core', preview, 'explain');
+    log.record('make it faster', 'core', combineIntent('make it faster'), 'performance');
+
+    const entries = new IntentOverrideLog(localStorage).getEntries();
+    expect(entries.map(e => e.chosen)).toEqual(['performance', 'explain']);
+    expect(entries[1]).toMatchObject({ query: 'reset the password field', detected: 'security', projectId: 'core' });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { compilePattern, InvalidPatternError, RoutingPatternStore } from '../routingPatterns';
+import { matchIntentRoute } from '../queryClassifier';
+
+describe('compilePattern', () => {
+  it('rejects invalid regexes and stateful flags', () => {
+    expect(() => compilePattern('(unclosed', 'i')).toThrow(InvalidPatternError);
+    expect(() => compilePattern('ok', 'g')).toThrow(/unsupported flags/);
+    expect(() => compilePattern('  ', 'i')).toThrow(/empty/);
+    expect(compilePattern('ledger', 'i').test('LEDGER')).toBe(true);
+  });
+});
+
+describe('RoutingPatternStore', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('starts with the built-in patterns', () => {
+    const store = new RoutingPatternStore(localStorage);
+    expect(store.getPatterns().every(p => p.builtIn && p.enabled)).toBe(true);
+    expect(matchIntentRoute('who calls HandleLogin', store.getCompiled())).toMatchObject({ route: 'explore' });
+  });
+
+  it('routes with custom patterns and reports the matching pattern', () => {
+    const store = new RoutingPatternStore(localStorage);
+    expect(matchIntentRoute('where are settlements posted to the ledger', store.getCompiled()).route).toBe('explain');
+
+    const pattern = store.add('explore', 'ledger|settlement');
+    const match = matchIntentRoute('where are settlements posted to the ledger', store.getCompiled());
+    expect(match).toEqual({ route: 'explore', pattern });
+
+    const reloaded = new RoutingPatternStore(localStorage);
+    expect(reloaded.getPatterns().filter(p => !p.builtIn)).toEqual([pattern]);
+  });
+
+  it('disables built-ins without deleting them', () => {
+    const store = new RoutingPatternStore(localStorage);
+    const security = store.getPatterns().find(p => p.intent === 'security' && p.source === 'security')!;
+    expect(security.id).toBe('builtin:security:/security/i');
+    store.setEnabled(security.id, false);
+    expect(matchIntentRoute('explain the security page layout', store.getCompiled()).route).not.toBe('security');
+
+    store.reset();
+    expect(matchIntentRoute('explain the security page layout', store.getCompiled()).route).toBe('security');
+  });
+
+  it('round-trips overrides through export and import without duplicates', () => {
+    const source = new RoutingPatternStore(localStorage);
+    source.add('test', 'spec\\s+for');
+    const builtIn = source.getPatterns()[0]!;
+    source.setEnabled(builtIn.id, false);
+    const exported = JSON.parse(JSON.stringify(source.exportOverrides()));
+
+    const target = new RoutingPatternStore(null);
+    expect(target.importOverrides(exported)).toBe(1);
+    expect(target.importOverrides(exported)).toBe(0);
+    expect(target.getPatterns().find(p => p.id === builtIn.id)!.enabled).toBe(false);
+    expect(() => target.importOverrides({ custom: [{ intent: 'test', source: '(' }] })).toThrow(InvalidPatternError);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { detectQueryKind, SavedQuery, SavedQueryImportError, SavedQueryStore, sortSavedQueries } from '../savedQueries';
+
+const saved = (overrides: Partial<SavedQuery> = {}): SavedQuery => ({
+  id: 'q1',
+  name: 'Auth callers',
+  query: 'who calls ValidateToken?',
+  kind: 'natural',
+  tags: ['auth'],
+  pinned: false,
+  createdAt: 1,
+  updatedAt: 1,
+  ...overrides,
+});
+
+describe('detectQueryKind', () => {
+  it('recognises Datalog, path and natural-language queries', () => {
+    expect(detectQueryKind('triples(?S, "calls", ?O)')).toBe('datalog');
+    expect(detectQueryKind('show the path from HandleLogin to db.Exec')).toBe('path');
+    expect(detectQueryKind('how does auth work?')).toBe('natural');
+  });
+});
+
+describe('SavedQueryStore', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('keeps a separate library per project and persists it', () => {
+    const store = new SavedQueryStore(localStorage);
+    store.save('core', saved({ tags: ['Auth', ' auth ', 'login'] }));
+
+    const reloaded = new SavedQueryStore(localStorage);
+    expect(reloaded.getQueries('core').map(q => q.tags)).toEqual([['auth', 'login']]);
+    expect(reloaded.getQueries('billing')).toEqual([]);
+  });
+
+  it('pins, removes and notifies', () => {
+    const store = new SavedQueryStore(localStorage);
+    const listener = vi.fn();
+    store.subscribe(listener);
+    store.save('core', saved());
+    store.togglePin('core', 'q1');
+    expect(store.getQueries('core')[0]!.pinned).toBe(true);
+    store.remove('core', 'q1');
+    expect(store.getQueries('core')).toEqual([]);
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+
+  it('records the intent of saved queries only', () => {
+    const store = new SavedQueryStore(localStorage);
+    store.save('core', saved());
+    const before = store.getQueries('core');
+    store.recordRun('core', 'something unsaved', 'explore');
+    expect(store.getQueries('core')).toBe(before);
+
+    store.recordRun('core', '  who calls ValidateToken?  ', 'navigate');
+    expect(store.getQueries('core')[0]).toMatchObject({ intent: 'navigate', lastRunAt: expect.any(Number) });
+  });
+
+  it('round-trips a library through export and import', () => {
+    const source = new SavedQueryStore(localStorage);
+    source.save('core', saved());
+    source.save('core', saved({ id: 'q2', name: 'Callers', query: 'triples(?S, "calls", ?O)', kind: 'datalog', tags: [] }));
+    const exported = JSON.parse(JSON.stringify(source.exportLibrary('core')));
+
+    const target = new SavedQueryStore(null);
+    target.save('other', saved({ id: 'mine', tags: ['security'], notes: 'keep me' }));
+    expect(target.importLibrary('other', exported)).toEqual({ added: 1, updated: 1 });
+
+    const merged = target.getQueries('other');
+    expect(merged).toHaveLength(2);
+    expect(merged[0]).toMatchObject({ id: 'mine', tags: ['security', 'auth'], notes: 'keep me' });
+  });
+
+  it('rejects files that are not a library', () => {
+    const store = new SavedQueryStore(null);
+    expect(() => store.importLibrary('core', { foo: 1 })).toThrow(SavedQueryImportError);
+    expect(() => store.importLibrary('core', { queries: [{ name: 'no text' }] })).toThrow(/no valid queries/);
+  });
+});
+
+describe('sortSavedQueries', () => {
+  it('puts pinned queries first, then the most recently used', () => {
+    const sorted = sortSavedQueries([
+      saved({ id: 'old', updatedAt: 1 }),
+      saved({ id: 'recent', updatedAt: 1, lastRunAt: 50 }),
+      saved({ id: 'pinned', pinned: true, updatedAt: 0 }),
+    ]);
+    expect(sorted.map(q => q.id)).toEqual(['pinned', 'recent', 'old']);
+  });
+});
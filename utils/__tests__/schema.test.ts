@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SchemaValidationError, array, number, object, optional, string, transform, union, withDefault,
+} from '../schema';
+
+describe('schema', () => {
+  const nodeSchema = object<{ id: string; line?: number }>({ id: string(), line: optional(number()) });
+
+  it('returns valid values and keeps unknown fields', () => {
+    expect(nodeSchema.parse({ id: 'a', extra: true })).toEqual({ id: 'a', extra: true });
+  });
+
+  it('reports the path of the offending field', () => {
+    const schema = object<{ nodes: Array<{ id: string }> }>({ nodes: array(nodeSchema) });
+    try {
+      schema.parse({ nodes: [{ id: 'a' }, { id: 42 }] });
+      throw new Error('expected validation to fail');
+    } catch (err) {
+      expect(err).toBeInstanceOf(SchemaValidationError);
+      const e = err as SchemaValidationError;
+      expect(e.field).toBe('nodes[1].id');
+      expect(e.expected).toBe('string');
+      expect(e.received).toBe('number');
+    }
+  });
+
+  it('rejects a wrong type for optional fields but allows them missing', () => {
+    expect(nodeSchema.parse({ id: 'a' })).toEqual({ id: 'a' });
+    expect(() => nodeSchema.parse({ id: 'a', line: '3' })).toThrow('line: expected number, got string');
+  });
+
+  it('substitutes defaults for null or missing values', () => {
+    const schema = object<{ links: string[] }>({ links: withDefault(array(string()), () => []) });
+    expect(schema.parse({ links: null })).toEqual({ links: [] });
+    expect(schema.parse({})).toEqual({ links: [] });
+  });
+
+  it('accepts either side of a union', () => {
+    const schema = union(string(), object<{ name: string }>({ name: string() }));
+    expect(schema.parse('calls')).toBe('calls');
+    expect(schema.parse({ name: 'calls' })).toEqual({ name: 'calls' });
+    expect(() => schema.parse(7)).toThrow('expected string | object, got number');
+  });
+
+  it('normalizes values after validation', () => {
+    const schema = transform(object<{ type?: string }>({}), v => ({ ...v, source_type: v.type }));
+    expect(schema.parse({ type: 'ast' })).toEqual({ type: 'ast', source_type: 'ast' });
+  });
+});
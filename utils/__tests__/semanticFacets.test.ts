@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyHydration,
+  computeFacets,
+  filterHits,
+  packageOf,
+  scoreRatio,
+  toggleFacet,
+  toSemanticHit,
+  toSnippet,
+} from '../semanticFacets';
+
+const hits = [
+  toSemanticHit({ symbol_id: 'pkg/auth/token.go:ValidateToken', score: 0.91, name: 'ValidateToken' }, 1),
+  toSemanticHit({ symbol_id: 'pkg/auth/session.go:NewSession', score: 0.8, name: 'NewSession' }, 2),
+  toSemanticHit({ symbol_id: 'web/src/login.ts:submitLogin', score: 0.62, name: 'submitLogin' }, 3),
+  toSemanticHit({ symbol_id: 'README.md', score: 0.4, name: '' }, 4),
+];
+
+describe('toSemanticHit', () => {
+  it('derives file, directory, package and language from the symbol id', () => {
+    expect(hits[0]).toMatchObject({
+      filePath: 'pkg/auth/token.go',
+      directory: 'pkg/auth',
+      package: 'pkg/auth',
+      language: 'go',
+      kind: undefined,
+      hydrated: false,
+    });
+    expect(hits[3]).toMatchObject({ name: 'README.md', directory: '(root)', package: '(root)', kind: 'file' });
+  });
+
+  it('groups container folders with their first child', () => {
+    expect(packageOf('internal/store/db.go')).toBe('internal/store');
+    expect(packageOf('web/src/login.ts')).toBe('web');
+  });
+});
+
+describe('facets', () => {
+  const hydrated = hits.map((h, i) => applyHydration(h, i < 2 ? { id: h.id, kind: 'func' } : i === 2 ? { id: h.id, kind: 'method' } : null));
+
+  it('counts each facet over the hits that pass the other facets', () => {
+    const filters = toggleFacet({}, 'language', 'go');
+    expect(filterHits(hydrated, filters).map(h => h.name)).toEqual(['ValidateToken', 'NewSession']);
+
+    const facets = computeFacets(hydrated, filters);
+    expect(facets.language).toEqual([
+      { value: 'go', count: 2, selected: true },
+      { value: 'typescript', count: 1, selected: false },
+      { value: 'unknown', count: 1, selected: false },
+    ]);
+    expect(facets.kind).toEqual([{ value: 'func', count: 2, selected: false }]);
+  });
+
+  it('keeps a selected value listed when other filters leave it empty', () => {
+    const filters = toggleFacet(toggleFacet({}, 'kind', 'method'), 'language', 'go');
+    expect(filterHits(hydrated, filters)).toEqual([]);
+    expect(computeFacets(hydrated, filters).kind).toContainEqual({ value: 'method', count: 0, selected: true });
+    expect(toggleFacet(filters, 'kind', 'method').kind).toEqual([]);
+  });
+});
+
+describe('toSnippet', () => {
+  it('drops leading blank lines, dedents and truncates', () => {
+    const code = '\n\n    func A() {\n        return\n    }\n';
+    expect(toSnippet(code)).toBe('func A() {\n    return\n}');
+    expect(toSnippet('a\nb\nc', 2)).toBe('a\nb\n…');
+    expect(toSnippet('')).toBeUndefined();
+  });
+});
+
+describe('scoreRatio', () => {
+  it('scales against the top score', () => {
+    expect(scoreRatio(0.45, 0.9)).toBe(0.5);
+    expect(scoreRatio(0.9, 0)).toBe(0);
+    expect(scoreRatio(-0.1, 0.9)).toBe(0);
+  });
+});
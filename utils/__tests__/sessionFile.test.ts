@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { createSession, parseSession, SESSION_SCHEMA_VERSION } from '../sessionFile';
+
+function makeSession() {
+  return createSession({
+    projectId: 'gca-be',
+    projectName: 'GCA Backend',
+    viewMode: 'architecture',
+    astData: { nodes: [{ id: 'main.go', name: 'main.go', type: 'file' }], links: [] },
+    fileScopedNodes: [],
+    fileScopedLinks: [],
+    expandedFileIds: ['main.go'],
+    fileDetails: {},
+    selectedNode: { id: 'main.go:main', name: 'main', type: 'function' },
+    narrativeMessages: [{ role: 'user', content: 'hi', timestamp: 1 }],
+    conversationHistory: [],
+  });
+}
+
+describe('sessionFile', () => {
+  it('stamps the current schema version', () => {
+    const session = makeSession();
+    expect(session.format).toBe('gca-session');
+    expect(session.version).toBe(SESSION_SCHEMA_VERSION);
+  });
+
+  it('round-trips through JSON', () => {
+    const session = makeSession();
+    expect(parseSession(JSON.stringify(session))).toEqual(session);
+  });
+
+  it('rejects non-JSON input', () => {
+    expect(() => parseSession('not json')).toThrow('not valid JSON');
+  });
+
+  it('rejects files without the format marker', () => {
+    expect(() => parseSession(JSON.stringify({ version: 1 }))).toThrow('format marker');
+  });
+
+  it('rejects files from a newer schema', () => {
+    const session = { ...makeSession(), version: SESSION_SCHEMA_VERSION + 1 };
+    expect(() => parseSession(JSON.stringify(session))).toThrow('only supports up to');
+  });
+
+  it('names the offending field when validation fails', () => {
+    const session = { ...makeSession(), fileScopedNodes: 'nope' };
+    expect(() => parseSession(JSON.stringify(session))).toThrow('"fileScopedNodes" must be an array');
+  });
+
+  it('applies migrations in order up to the target version', () => {
+    const v1 = { ...makeSession(), version: 1, expandedFiles: ['a.go'] } as any;
+    delete v1.expandedFileIds;
+    const migrations = {
+      1: (s: Record<string, any>) => {
+        const { expandedFiles, ...rest } = s;
+        return { ...rest, expandedFileIds: expandedFiles };
+      },
+      2: (s: Record<string, any>) => ({ ...s, projectName: `${s.projectName} (migrated)` }),
+    };
+    const parsed = parseSession(JSON.stringify(v1), migrations, 3);
+    expect(parsed.version).toBe(3);
+    expect(parsed.expandedFileIds).toEqual(['a.go']);
+    expect(parsed.projectName).toBe('GCA Backend (migrated)');
+  });
+
+  it('fails when a migration step is missing', () => {
+    expect(() => parseSession(JSON.stringify(makeSession()), {}, 2)).toThrow('No migration available from session schema v1');
+  });
+});
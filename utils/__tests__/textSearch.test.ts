@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import type { GraphMapNode } from '../../services/graphService';
+import { compileSearch, findEnclosingSymbol, InvalidSearchPatternError, matchesPathFilter, searchText } from '../textSearch';
+
+const source = [
+  'package auth',
+  '',
+  'func ValidateToken(t string) error {',
+  '  if t == "" {',
+  '    return ErrEmptyToken',
+  '  }',
+  '  return validate(t, token)',
+  '}',
+].join('\n');
+
+const opts = { regex: false, caseSensitive: false, wholeWord: false };
+
+describe('compileSearch', () => {
+  it('escapes literal patterns and honours case and whole-word options', () => {
+    expect(searchText('a.b axb', compileSearch({ ...opts, pattern: 'a.b' }))[0]!.ranges).toEqual([[0, 3]]);
+    expect(searchText(source, compileSearch({ ...opts, pattern: 'TOKEN' })).map(m => m.line)).toEqual([3, 5, 7]);
+    expect(searchText(source, compileSearch({ ...opts, pattern: 'TOKEN', caseSensitive: true }))).toEqual([]);
+    expect(searchText(source, compileSearch({ ...opts, pattern: 'token', wholeWord: true })).map(m => m.line)).toEqual([7]);
+  });
+
+  it('reports invalid regexes', () => {
+    expect(() => compileSearch({ ...opts, regex: true, pattern: '(open' })).toThrow(InvalidSearchPatternError);
+    expect(() => compileSearch({ ...opts, pattern: '' })).toThrow(/empty/);
+  });
+});
+
+describe('searchText', () => {
+  it('collects every range on a line with context lines', () => {
+    const [match] = searchText(source, compileSearch({ ...opts, regex: true, pattern: '\\bt\\b' }), 1);
+    expect(match).toMatchObject({
+      line: 3,
+      ranges: [[19, 20]],
+      before: [''],
+      after: ['  if t == "" {'],
+    });
+    expect(searchText(source, compileSearch({ ...opts, pattern: 't' }), 0).find(m => m.line === 7)!.ranges.length).toBe(4);
+  });
+
+  it('skips zero-length matches and respects the line limit', () => {
+    expect(searchText('abc', compileSearch({ ...opts, regex: true, pattern: 'x*' }))).toEqual([]);
+    expect(searchText(source, compileSearch({ ...opts, pattern: 'return' }), 0, 1)).toHaveLength(1);
+  });
+});
+
+describe('findEnclosingSymbol', () => {
+  const nodes = [
+    { id: 'auth.go', name: 'auth.go', type: 'file', kind: 'file', start_line: 1, end_line: 8 },
+    { id: 'auth.go:ValidateToken', name: 'ValidateToken', type: 'symbol', kind: 'func', start_line: 3, end_line: 8 },
+    { id: 'auth.go:ValidateToken.func1', name: 'func1', type: 'symbol', kind: 'closure', start_line: 4, end_line: 6 },
+  ] as GraphMapNode[];
+
+  it('picks the innermost non-file symbol', () => {
+    expect(findEnclosingSymbol(nodes, 5)?.name).toBe('func1');
+    expect(findEnclosingSymbol(nodes, 7)).toEqual({ id: 'auth.go:ValidateToken', name: 'ValidateToken', kind: 'func', startLine: 3 });
+    expect(findEnclosingSymbol(nodes, 1)).toBeNull();
+  });
+});
+
+describe('matchesPathFilter', () => {
+  it('includes any fragment and excludes !fragments', () => {
+    expect(matchesPathFilter('internal/auth/token.go', '')).toBe(true);
+    expect(matchesPathFilter('internal/auth/token.go', 'auth/ web/')).toBe(true);
+    expect(matchesPathFilter('internal/auth/token_test.go', '.go !_test')).toBe(false);
+    expect(matchesPathFilter('web/app.ts', '.go')).toBe(false);
+  });
+});
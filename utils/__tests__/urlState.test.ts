@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { parseUrlState, buildUrl } from '../urlState';
+
+describe('parseUrlState', () => {
+  it('returns empty state for the root path', () => {
+    expect(parseUrlState('/', '')).toEqual({});
+  });
+
+  it('parses project and view mode from the path', () => {
+    expect(parseUrlState('/p/gca-be/architecture', '')).toEqual({
+      projectId: 'gca-be',
+      viewMode: 'architecture',
+    });
+  });
+
+  it('parses project without a view mode', () => {
+    expect(parseUrlState('/p/gca-be', '')).toEqual({ projectId: 'gca-be' });
+  });
+
+  it('drops unknown view and sub modes', () => {
+    expect(parseUrlState('/p/gca-be/bogus', '?sub=WHATEVER')).toEqual({ projectId: 'gca-be' });
+  });
+
+  it('parses symbol, sub mode and query from the search string', () => {
+    const state = parseUrlState(
+      '/p/gca-be/discovery',
+      '?symbol=pkg%2Fauth%3ALogin&sub=ENTROPY&q=who+calls+Login'
+    );
+    expect(state).toEqual({
+      projectId: 'gca-be',
+      viewMode: 'discovery',
+      symbolId: 'pkg/auth:Login',
+      subMode: 'ENTROPY',
+      query: 'who calls Login',
+    });
+  });
+});
+
+describe('buildUrl', () => {
+  it('returns root when there is no project', () => {
+    expect(buildUrl({ viewMode: 'dashboard', symbolId: 'x' })).toBe('/');
+  });
+
+  it('round-trips through parseUrlState', () => {
+    const state = {
+      projectId: 'gca-be',
+      viewMode: 'architecture' as const,
+      symbolId: 'pkg/auth:Login',
+      subMode: 'ARCHITECTURE' as const,
+      query: 'explain "Login" & friends',
+    };
+    const url = buildUrl(state);
+    const [pathname, search = ''] = url.split('?');
+    expect(parseUrlState(pathname!, search)).toEqual(state);
+  });
+
+  it('round-trips project ids that look percent-encoded', () => {
+    for (const projectId of ['a%20b', 'a b', '100%']) {
+      const url = buildUrl({ projectId });
+      expect(parseUrlState(url, '')).toEqual({ projectId });
+    }
+  });
+
+  it('omits empty search params', () => {
+    expect(buildUrl({ projectId: 'gca-be', viewMode: 'map' })).toBe('/p/gca-be/map');
+  });
+});
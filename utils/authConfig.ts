@@ -0,0 +1,129 @@
+/**
+ * Auth Config - Per-backend credentials applied to every API request
+ *
+ * Credentials are keyed by backend base URL and attached by fetchWithTimeout,
+ * so JSON calls and SSE streams share one code path. A 401 from a backend is
+ * broadcast to subscribers, which prompt the user to re-authenticate.
+ * Stored in sessionStorage, like the API base URL.
+ */
+import { logger } from '../logger';
+
+export type AuthConfig =
+  | { type: 'none' }
+  | { type: 'bearer'; token: string }
+  | { type: 'header'; headerName: string; value: string }
+  | { type: 'cookie' };
+
+export const NO_AUTH: AuthConfig = { type: 'none' };
+
+const STORAGE_KEY = 'gca_auth_v1';
+
+/**
+ * Absolute form of a base URL without trailing slashes; '' means same origin.
+ */
+export function normalizeBaseUrl(baseUrl: string): string {
+  try {
+    const url = new URL(baseUrl || '/', window.location.origin);
+    return `${url.origin}${url.pathname}`.replace(/\/+$/, '');
+  } catch {
+    return baseUrl.replace(/\/+$/, '');
+  }
+}
+
+/**
+ * Whether `url` points at the backend served from `baseUrl`.
+ */
+export function isUnderBaseUrl(url: string, baseUrl: string): boolean {
+  const target = normalizeBaseUrl(url);
+  const base = normalizeBaseUrl(baseUrl);
+  return target === base || target.startsWith(`${base}/`);
+}
+
+function mergeHeaders(headers: HeadersInit | undefined, name: string, value: string): Headers {
+  const merged = new Headers(headers);
+  // Explicit per-call headers win over configured credentials
+  if (!merged.has(name)) merged.set(name, value);
+  return merged;
+}
+
+export class AuthRegistry {
+  private configs: Map<string, AuthConfig>;
+  private listeners = new Set<(baseUrl: string, url: string) => void>();
+
+  constructor(private readonly storage: Storage | null = typeof sessionStorage !== 'undefined' ? sessionStorage : null) {
+    this.configs = new Map(Object.entries(this.load()));
+  }
+
+  get(baseUrl: string): AuthConfig {
+    return this.configs.get(normalizeBaseUrl(baseUrl)) ?? NO_AUTH;
+  }
+
+  getAll(): Record<string, AuthConfig> {
+    return Object.fromEntries(this.configs);
+  }
+
+  set(baseUrl: string, config: AuthConfig): void {
+    const key = normalizeBaseUrl(baseUrl);
+    if (config.type === 'none') this.configs.delete(key);
+    else this.configs.set(key, config);
+    this.save();
+  }
+
+  /**
+   * Config of the longest registered base URL that prefixes `url`.
+   */
+  resolve(url: string): { baseUrl: string; config: AuthConfig } | null {
+    let best: { baseUrl: string; config: AuthConfig } | null = null;
+    for (const [baseUrl, config] of this.configs) {
+      if (isUnderBaseUrl(url, baseUrl) && (!best || baseUrl.length > best.baseUrl.length)) best = { baseUrl, config };
+    }
+    return best;
+  }
+
+  /**
+   * Request options with the matching backend's credentials attached.
+   */
+  applyTo(url: string, init: RequestInit = {}): RequestInit {
+    const config = this.resolve(url)?.config ?? NO_AUTH;
+    switch (config.type) {
+      case 'bearer':
+        return { ...init, headers: mergeHeaders(init.headers, 'Authorization', `Bearer ${config.token}`) };
+      case 'header':
+        return { ...init, headers: mergeHeaders(init.headers, config.headerName, config.value) };
+      case 'cookie':
+        return { ...init, credentials: 'include' };
+      default:
+        return init;
+    }
+  }
+
+  reportUnauthorized(url: string): void {
+    const baseUrl = this.resolve(url)?.baseUrl ?? new URL(url, window.location.origin).origin;
+    logger.warn('[auth] 401 from', url);
+    this.listeners.forEach(listener => listener(baseUrl, url));
+  }
+
+  onUnauthorized(listener: (baseUrl: string, url: string) => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private load(): Record<string, AuthConfig> {
+    try {
+      const saved = this.storage?.getItem(STORAGE_KEY);
+      return saved ? JSON.parse(saved) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private save(): void {
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify(this.getAll()));
+    } catch (err) {
+      logger.warn('[auth] Failed to persist credentials:', err);
+    }
+  }
+}
+
+export const authRegistry = new AuthRegistry();
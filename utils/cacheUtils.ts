@@ -150,6 +150,18 @@ export class TTLBoundedCache<K, V> {
         return count;
     }
 
+    /**
+     * Keys of all non-expired entries, oldest first
+     */
+    keys(): K[] {
+        const now = Date.now();
+        const keys: K[] = [];
+        for (const [key, entry] of this.cache) {
+            if (now <= entry.expiry) keys.push(key);
+        }
+        return keys;
+    }
+
     /**
      * Remove all expired entries (can be called periodically for cleanup)
      */
@@ -0,0 +1,71 @@
+/**
+ * Call Hierarchy - One level of an IDE-style call tree from a call slice
+ *
+ * Each level comes from a depth-1 who-calls (incoming) or what-calls
+ * (outgoing) slice of the symbol being expanded. Several calls between the
+ * same pair collapse into one entry listing every call-site line. A call back
+ * to the symbol itself or to anything above it in the tree is marked
+ * recursive and is not expanded further.
+ */
+import type { GraphMapLinkWithLine, GraphMapNode } from '../services/graphService';
+import { splitSymbolId } from './semanticFacets';
+
+export type HierarchyDirection = 'incoming' | 'outgoing';
+
+export interface HierarchyCall {
+  id: string;
+  name: string;
+  kind?: string;
+  filePath: string;
+  /** Call-site lines: in the caller for incoming, in the expanded symbol for outgoing */
+  lines: number[];
+  recursive: boolean;
+}
+
+/** Key of a tree row: the ids from the root down to it */
+export function hierarchyKey(path: string[]): string {
+  return path.join('\u0000');
+}
+
+/**
+ * Calls into (incoming) or out of (outgoing) the last symbol of `path`, the
+ * symbols from the root down to the one expanded.
+ */
+export function hierarchyCalls(
+  slice: { nodes: GraphMapNode[]; links: GraphMapLinkWithLine[] },
+  path: string[],
+  direction: HierarchyDirection,
+): HierarchyCall[] {
+  const symbol = path[path.length - 1];
+  const ancestors = new Set(path);
+  const byId = new Map(slice.nodes.map(n => [n.id, n]));
+  const calls = new Map<string, HierarchyCall>();
+
+  for (const link of slice.links) {
+    const other = direction === 'incoming'
+      ? (link.target === symbol ? link.source : null)
+      : (link.source === symbol ? link.target : null);
+    if (!other) continue;
+
+    let call = calls.get(other);
+    if (!call) {
+      const node = byId.get(other);
+      const { filePath, symbol: name } = splitSymbolId(other);
+      call = {
+        id: other,
+        name: node?.name || name || other,
+        kind: node?.kind,
+        filePath: node?.filePath || filePath,
+        lines: [],
+        recursive: ancestors.has(other),
+      };
+      calls.set(other, call);
+    }
+    if (link.line !== undefined && !call.lines.includes(link.line)) call.lines.push(link.line);
+  }
+
+  const firstLine = (call: HierarchyCall) => (call.lines.length > 0 ? call.lines[0]! : Infinity);
+  return Array.from(calls.values())
+    .map(call => ({ ...call, lines: call.lines.sort((a, b) => a - b) }))
+    .sort((a, b) => firstLine(a) - firstLine(b) || a.name.localeCompare(b.name));
+}
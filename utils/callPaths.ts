@@ -0,0 +1,85 @@
+/**
+ * Call paths - Directed paths through what-calls slices
+ *
+ * /graph/reachable and /graph/lca only answer yes/no and a symbol id; the
+ * hops in between come from a forward slice (what-calls) of the path's start,
+ * whose links carry the call-site line. Paths are found by BFS along the call
+ * direction, so the shortest chain of calls wins. Unlike bfsPath in
+ * pathfinding.ts, a callee never leads back to its caller.
+ */
+import type { GraphMapLinkWithLine } from '../services/graphService';
+
+export interface CallHop {
+  source: string;
+  target: string;
+  /** Line in the caller where the call is made, when the backend knows it */
+  line?: number;
+  relation?: string;
+}
+
+export type CallPathKind = 'forward' | 'backward' | 'lca';
+
+export interface HighlightedCallLink extends CallHop {
+  kind: CallPathKind;
+}
+
+const edgeKey = (source: string, target: string) => `${source}\u0000${target}`;
+
+/**
+ * Shortest call chain from `from` to `to`, or null when `links` don't
+ * connect them. Among parallel links the earliest known call site is kept.
+ */
+export function shortestCallPath(links: GraphMapLinkWithLine[], from: string, to: string): CallHop[] | null {
+  if (from === to) return [];
+
+  const callees = new Map<string, Map<string, CallHop>>();
+  for (const link of links) {
+    const out = callees.get(link.source) ?? new Map<string, CallHop>();
+    const existing = out.get(link.target);
+    if (!existing || (link.line !== undefined && (existing.line === undefined || link.line < existing.line))) {
+      out.set(link.target, { source: link.source, target: link.target, line: link.line, relation: link.relation });
+    }
+    callees.set(link.source, out);
+  }
+
+  const via = new Map<string, CallHop>();
+  const queue = [from];
+  const visited = new Set(queue);
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const [next, hop] of callees.get(current) ?? []) {
+      if (visited.has(next)) continue;
+      visited.add(next);
+      via.set(next, hop);
+      if (next === to) {
+        const hops: CallHop[] = [];
+        for (let step = via.get(to); step; step = step.source === from ? undefined : via.get(step.source)) {
+          hops.unshift(step);
+        }
+        return hops;
+      }
+      queue.push(next);
+    }
+  }
+  return null;
+}
+
+/** Symbols visited by a path, in call order */
+export function pathSymbols(from: string, hops: CallHop[]): string[] {
+  return [from, ...hops.map(h => h.target)];
+}
+
+/**
+ * Union of several paths for the graph. A link on more than one path keeps
+ * the kind of the first path listed.
+ */
+export function mergeCallPaths(paths: { kind: CallPathKind; hops: CallHop[] | null }[]): HighlightedCallLink[] {
+  const merged = new Map<string, HighlightedCallLink>();
+  for (const { kind, hops } of paths) {
+    for (const hop of hops ?? []) {
+      const key = edgeKey(hop.source, hop.target);
+      if (!merged.has(key)) merged.set(key, { ...hop, kind });
+    }
+  }
+  return Array.from(merged.values());
+}
@@ -0,0 +1,130 @@
+/**
+ * Circuit Breaker - Fails fast while a backend is down
+ *
+ * Tracks consecutive failed requests per base URL. Once the threshold is hit
+ * the circuit opens and requests fail immediately until the cooldown ends;
+ * the next request is then let through as a probe (half-open). A failed
+ * probe reopens the circuit with a doubled cooldown.
+ */
+import { API_CONFIG } from '../constants';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  /** Epoch ms when an open circuit lets the next probe through */
+  retryAt: number | null;
+}
+
+export class BackendUnavailableError extends Error {
+  readonly baseUrl: string;
+  readonly retryAt: number;
+
+  constructor(baseUrl: string, retryAt: number, now: number = Date.now()) {
+    super(`Backend unavailable, retrying in ${Math.max(1, Math.ceil((retryAt - now) / 1000))}s`);
+    this.name = 'BackendUnavailableError';
+    this.baseUrl = baseUrl;
+    this.retryAt = retryAt;
+  }
+}
+
+const CLOSED: CircuitStatus = { state: 'closed', consecutiveFailures: 0, retryAt: null };
+
+interface CircuitBreakerOptions {
+  failureThreshold: number;
+  cooldownMs: number;
+  maxCooldownMs: number;
+  now: () => number;
+}
+
+const normalizeKey = (baseUrl: string): string => baseUrl.replace(/\/+$/, '');
+
+export class CircuitBreaker {
+  private circuits = new Map<string, CircuitStatus & { cooldownMs: number }>();
+  private listeners = new Set<() => void>();
+  private options: CircuitBreakerOptions;
+
+  constructor(options: Partial<CircuitBreakerOptions> = {}) {
+    this.options = {
+      failureThreshold: API_CONFIG.CIRCUIT_BREAKER.FAILURE_THRESHOLD,
+      cooldownMs: API_CONFIG.CIRCUIT_BREAKER.COOLDOWN_MS,
+      maxCooldownMs: API_CONFIG.CIRCUIT_BREAKER.MAX_COOLDOWN_MS,
+      now: Date.now,
+      ...options,
+    };
+  }
+
+  /**
+   * Throw BackendUnavailableError if the circuit for this backend is open.
+   * Moves an expired open circuit to half-open so one probe can go through.
+   */
+  assertAvailable(baseUrl: string): void {
+    const key = normalizeKey(baseUrl);
+    const circuit = this.circuits.get(key);
+    if (!circuit || circuit.state !== 'open' || circuit.retryAt === null) return;
+
+    const now = this.options.now();
+    if (now < circuit.retryAt) {
+      throw new BackendUnavailableError(key, circuit.retryAt, now);
+    }
+    this.update(key, { ...circuit, state: 'half-open' });
+  }
+
+  recordSuccess(baseUrl: string): void {
+    const key = normalizeKey(baseUrl);
+    if (this.circuits.has(key)) {
+      this.circuits.delete(key);
+      this.notify();
+    }
+  }
+
+  /**
+   * Count a failed request. `retryAfterMs` (from the backend) overrides the cooldown.
+   */
+  recordFailure(baseUrl: string, retryAfterMs?: number | null): void {
+    const key = normalizeKey(baseUrl);
+    const circuit = this.circuits.get(key) ?? { ...CLOSED, cooldownMs: this.options.cooldownMs };
+    const consecutiveFailures = circuit.consecutiveFailures + 1;
+    const now = this.options.now();
+
+    if (circuit.state === 'half-open') {
+      const cooldownMs = Math.min(circuit.cooldownMs * 2, this.options.maxCooldownMs);
+      this.update(key, { state: 'open', consecutiveFailures, cooldownMs, retryAt: now + (retryAfterMs ?? cooldownMs) });
+    } else if (circuit.state === 'closed' && consecutiveFailures >= this.options.failureThreshold) {
+      this.update(key, { state: 'open', consecutiveFailures, cooldownMs: circuit.cooldownMs, retryAt: now + (retryAfterMs ?? circuit.cooldownMs) });
+    } else {
+      this.update(key, { ...circuit, consecutiveFailures });
+    }
+  }
+
+  getStatus(baseUrl: string): CircuitStatus {
+    return this.circuits.get(normalizeKey(baseUrl)) ?? CLOSED;
+  }
+
+  /**
+   * Listen for state changes on any backend. Returns an unsubscribe function.
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  reset(): void {
+    this.circuits.clear();
+    this.notify();
+  }
+
+  private update(key: string, circuit: CircuitStatus & { cooldownMs: number }): void {
+    this.circuits.set(key, circuit);
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const circuitBreaker = new CircuitBreaker();
@@ -0,0 +1,32 @@
+/**
+ * Concurrency - Run async tasks with at most `limit` in flight
+ *
+ * Results keep the order of the tasks. A rejected task rejects the whole run,
+ * so callers that want partial results should catch inside each task.
+ */
+export const runWithConcurrencyLimit = async <T>(
+  tasks: (() => Promise<T>)[],
+  limit: number
+): Promise<T[]> => {
+  const results: T[] = [];
+  const running = new Set<Promise<void>>();
+
+  for (let i = 0; i < tasks.length; i++) {
+    const task = tasks[i];
+    if (!task) continue;
+    const p = task().then(result => {
+      results[i] = result;
+    });
+    running.add(p);
+    // Handles the rejection too, so tasks failing after the run has already rejected stay handled
+    const settle = () => { running.delete(p); };
+    p.then(settle, settle);
+
+    if (running.size >= limit) {
+      await Promise.race(running);
+    }
+  }
+
+  await Promise.all(running);
+  return results;
+};
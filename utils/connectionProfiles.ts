@@ -0,0 +1,165 @@
+/**
+ * Connection Profiles - Named backend connections the user can switch between
+ *
+ * A profile bundles a base URL, credentials, timeout overrides and the project
+ * to open first. Profiles are kept in localStorage without their secrets
+ * (bearer tokens, header values): those stay in sessionStorage like the rest
+ * of the auth settings, so a profile used in a new session asks for them
+ * again. The active profile is per tab (sessionStorage), like the API base
+ * URL. Timeout overrides of the active profile replace the standard tiers in
+ * fetchWithTimeout for its backend.
+ */
+import { API_CONFIG } from '../constants';
+import { logger } from '../logger';
+import { AuthConfig, isUnderBaseUrl } from './authConfig';
+import { LocalStore, safeStorage } from './localStore';
+
+/** Standard timeout tiers a profile can override */
+export type TimeoutTier = 'default' | 'long';
+
+export const TIER_TIMEOUT_MS: Record<TimeoutTier, number> = {
+  default: API_CONFIG.TIMEOUT.DEFAULT,
+  long: API_CONFIG.TIMEOUT.LONG,
+};
+
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  baseUrl: string;
+  auth: AuthConfig;
+  /** Replaces API_CONFIG.TIMEOUT.DEFAULT for this backend */
+  requestTimeoutMs?: number;
+  /** Replaces API_CONFIG.TIMEOUT.LONG (AI answers and streams) for this backend */
+  streamTimeoutMs?: number;
+  /** Project selected after switching to this profile */
+  defaultProjectId?: string;
+}
+
+const PROFILES_KEY = 'gca_connection_profiles_v1';
+const ACTIVE_KEY = 'gca_active_profile_v1';
+const SECRETS_KEY = 'gca_profile_secrets_v1';
+
+/** The part of an auth config that must not outlive the browser session */
+function secretOf(auth: AuthConfig): string | null {
+  if (auth.type === 'bearer') return auth.token;
+  if (auth.type === 'header') return auth.value;
+  return null;
+}
+
+/** True for a saved profile whose secret was dropped with an earlier session */
+export function needsCredentials(auth: AuthConfig): boolean {
+  return secretOf(auth) === '';
+}
+
+function withSecret(auth: AuthConfig, secret: string): AuthConfig {
+  if (auth.type === 'bearer') return { ...auth, token: secret };
+  if (auth.type === 'header') return { ...auth, value: secret };
+  return auth;
+}
+
+export function createProfileId(): string {
+  return Math.random().toString(36).substring(2, 9);
+}
+
+export class ProfileStore {
+  private store: LocalStore<ConnectionProfile[]>;
+  private activeId: string | null;
+
+  constructor(
+    storage: Storage | null = safeStorage(),
+    private readonly sessionStore: Storage | null = safeStorage(() => sessionStorage)
+  ) {
+    const secrets = this.loadSecrets();
+    this.store = new LocalStore<ConnectionProfile[]>(storage, {
+      key: PROFILES_KEY,
+      fallback: [],
+      parse: parsed => (Array.isArray(parsed)
+        ? parsed.map((p: ConnectionProfile) => ({ ...p, auth: withSecret(p.auth, secrets[p.id] ?? '') }))
+        : []),
+      serialize: profiles => profiles.map(p => ({ ...p, auth: withSecret(p.auth, '') })),
+    });
+    const activeId = this.sessionStore?.getItem(ACTIVE_KEY) ?? null;
+    this.activeId = this.profiles.some(p => p.id === activeId) ? activeId : null;
+  }
+
+  getProfiles(): ConnectionProfile[] {
+    return this.store.get();
+  }
+
+  getActiveId(): string | null {
+    return this.activeId;
+  }
+
+  getActive(): ConnectionProfile | null {
+    return this.profiles.find(p => p.id === this.activeId) ?? null;
+  }
+
+  /** Insert or replace by id */
+  save(profile: ConnectionProfile): void {
+    const exists = this.profiles.some(p => p.id === profile.id);
+    this.setProfiles(exists
+      ? this.profiles.map(p => (p.id === profile.id ? profile : p))
+      : [...this.profiles, profile]);
+  }
+
+  remove(id: string): void {
+    if (this.activeId === id) this.setActive(null);
+    this.setProfiles(this.profiles.filter(p => p.id !== id));
+  }
+
+  setActive(id: string | null): void {
+    this.activeId = id;
+    try {
+      if (id) this.sessionStore?.setItem(ACTIVE_KEY, id);
+      else this.sessionStore?.removeItem(ACTIVE_KEY);
+    } catch { /* tab-local preference only */ }
+    this.store.notify();
+  }
+
+  subscribe(listener: () => void): () => void {
+    return this.store.subscribe(listener);
+  }
+
+  /**
+   * Timeout for a request to `url`: the active profile's override for `tier`
+   * when the URL targets its backend, otherwise `requestedMs`. Requests with
+   * an explicit timeout and no tier are never overridden.
+   */
+  resolveTimeout(url: string, requestedMs: number, tier?: TimeoutTier): number {
+    const profile = this.getActive();
+    if (!profile || !tier) return requestedMs;
+    if (!isUnderBaseUrl(url, profile.baseUrl)) return requestedMs;
+    const override = tier === 'long' ? profile.streamTimeoutMs : profile.requestTimeoutMs;
+    return override ?? requestedMs;
+  }
+
+  private get profiles(): ConnectionProfile[] {
+    return this.store.get();
+  }
+
+  private loadSecrets(): Record<string, string> {
+    try {
+      const saved = this.sessionStore?.getItem(SECRETS_KEY);
+      return saved ? JSON.parse(saved) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  /** Secrets go to session storage first; the store writes the profiles without them */
+  private setProfiles(profiles: ConnectionProfile[]): void {
+    const secrets: Record<string, string> = {};
+    profiles.forEach(p => {
+      const secret = secretOf(p.auth);
+      if (secret) secrets[p.id] = secret;
+    });
+    try {
+      this.sessionStore?.setItem(SECRETS_KEY, JSON.stringify(secrets));
+    } catch (err) {
+      logger.warn('[connectionProfiles] Failed to save profile credentials:', err);
+    }
+    this.store.set(profiles);
+  }
+}
+
+export const profileStore = new ProfileStore();
@@ -0,0 +1,64 @@
+/**
+ * Cross-Project Search - Merge per-project symbol or semantic hits into one ranking
+ *
+ * Semantic scores come from the same embedding model in every project, so
+ * they are compared directly. Symbol search returns bare ids; those are
+ * ranked by how well the query fuzzy-matches the symbol name, which is also
+ * independent of the project they came from.
+ */
+import type { SemanticSearchResult } from '../services/graphService';
+import { fuzzyMatch } from './fuzzyMatch';
+import { splitSymbolId } from './semanticFacets';
+
+export type CrossProjectMode = 'symbols' | 'semantic';
+
+export interface CrossProjectHit {
+  key: string;
+  projectId: string;
+  projectName: string;
+  id: string;
+  name: string;
+  filePath: string;
+  isFile: boolean;
+  score: number;
+}
+
+export interface ProjectRef {
+  id: string;
+  name: string;
+}
+
+const toHit = (project: ProjectRef, id: string, name: string | undefined, score: number): CrossProjectHit => {
+  const { filePath, symbol } = splitSymbolId(id);
+  return {
+    key: `${project.id}\u0000${id}`,
+    projectId: project.id,
+    projectName: project.name,
+    id,
+    name: name || symbol || filePath.split('/').pop() || id,
+    filePath,
+    isFile: !symbol,
+    score,
+  };
+};
+
+/** Symbol ids that fuzzy-match the query by name; ids that only match by path are kept at the bottom */
+export function symbolHits(project: ProjectRef, query: string, ids: string[]): CrossProjectHit[] {
+  return ids.map(id => {
+    const hit = toHit(project, id, undefined, 0);
+    const match = fuzzyMatch(query, hit.name);
+    return { ...hit, score: match ? match.score : Number.NEGATIVE_INFINITY };
+  });
+}
+
+export function semanticHits(project: ProjectRef, results: SemanticSearchResult[]): CrossProjectHit[] {
+  return results.map(r => toHit(project, r.symbol_id, r.name, r.score));
+}
+
+/** Best first; ties keep projects together in name order, then ids */
+export function rankCrossProjectHits(hits: CrossProjectHit[], limit?: number): CrossProjectHit[] {
+  const ranked = [...hits].sort((a, b) =>
+    b.score - a.score || a.projectName.localeCompare(b.projectName) || a.id.localeCompare(b.id)
+  );
+  return limit === undefined ? ranked : ranked.slice(0, limit);
+}
@@ -0,0 +1,138 @@
+/**
+ * Cycles - Rank dependency cycles and suggest which edge to cut
+ *
+ * /graph/cycles returns each cycle as its ordered members; the closing edge
+ * runs from the last member back to the first. Cutting an edge costs its
+ * weight (1 when unknown), discounted when the edge is only INFERRED or
+ * AMBIGUOUS, since those may not be real dependencies at all. Among equally
+ * cheap edges, the one shared by the most cycles is suggested first.
+ */
+import type { ConfidenceTier } from '../types';
+import { splitSymbolId } from './semanticFacets';
+
+export type CycleSort = 'length' | 'files';
+
+export interface CycleEdge {
+  source: string;
+  target: string;
+  weight?: number;
+  tier?: ConfidenceTier;
+  relation?: string;
+  /** False when the subgraph had no link for this step */
+  known: boolean;
+}
+
+export interface RankedCycle {
+  key: string;
+  members: string[];
+  length: number;
+  files: string[];
+}
+
+export interface CutSuggestion {
+  edge: CycleEdge;
+  cost: number;
+  /** Other detected cycles that also go through this edge */
+  sharedWith: number;
+}
+
+interface LinkLike {
+  source: string | { id: string };
+  target: string | { id: string };
+  relation?: string;
+  weight?: number;
+  confidence_tier?: ConfidenceTier;
+}
+
+const TIER_FACTOR: Record<ConfidenceTier, number> = {
+  EXTRACTED: 1,
+  INFERRED: 0.5,
+  AMBIGUOUS: 0.25,
+};
+
+const endpoint = (end: string | { id: string }) => (typeof end === 'string' ? end : end.id);
+const edgeKey = (source: string, target: string) => `${source}\u0000${target}`;
+
+export function cycleKey(members: string[]): string {
+  return members.join('\u0000');
+}
+
+/** Distinct files a cycle passes through, in cycle order */
+export function cycleFiles(members: string[]): string[] {
+  return Array.from(new Set(members.map(id => splitSymbolId(id).filePath)));
+}
+
+/**
+ * Drop empty and duplicate cycles, then order them: `files` puts cycles that
+ * span the most files first, `length` the shortest cycles first.
+ */
+export function rankCycles(cycles: string[][], sort: CycleSort): RankedCycle[] {
+  const seen = new Set<string>();
+  const ranked: RankedCycle[] = [];
+  for (const members of cycles) {
+    if (members.length === 0) continue;
+    const key = cycleKey(members);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    ranked.push({ key, members, length: members.length, files: cycleFiles(members) });
+  }
+  return ranked.sort((a, b) => sort === 'files'
+    ? b.files.length - a.files.length || a.length - b.length
+    : a.length - b.length || b.files.length - a.files.length);
+}
+
+/** The cycle's steps, each annotated with the matching link from `links` when there is one */
+export function cycleEdges(members: string[], links: LinkLike[]): CycleEdge[] {
+  const byEnds = new Map<string, LinkLike>();
+  for (const link of links) {
+    const key = edgeKey(endpoint(link.source), endpoint(link.target));
+    const existing = byEnds.get(key);
+    // Parallel links (e.g. calls + imports): keep the heaviest, it is what a cut must remove
+    if (!existing || (link.weight ?? 1) > (existing.weight ?? 1)) byEnds.set(key, link);
+  }
+  return members.map((source, i) => {
+    const target = members[(i + 1) % members.length]!;
+    const link = byEnds.get(edgeKey(source, target));
+    return {
+      source,
+      target,
+      weight: link?.weight,
+      tier: link?.confidence_tier,
+      relation: link?.relation,
+      known: !!link,
+    };
+  });
+}
+
+export function edgeCost(edge: Pick<CycleEdge, 'weight' | 'tier'>): number {
+  return (edge.weight ?? 1) * (edge.tier ? TIER_FACTOR[edge.tier] : 1);
+}
+
+/** How many distinct cycles use each edge, keyed by source and target */
+export function countEdgeUsage(cycles: string[][]): Map<string, number> {
+  const counts = new Map<string, number>();
+  const seen = new Set<string>();
+  for (const members of cycles) {
+    const key = cycleKey(members);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const edges = new Set(members.map((source, i) => edgeKey(source, members[(i + 1) % members.length]!)));
+    edges.forEach(edge => counts.set(edge, (counts.get(edge) ?? 0) + 1));
+  }
+  return counts;
+}
+
+/** Every edge of the cycle, cheapest to cut first */
+export function suggestCuts(edges: CycleEdge[], usage: Map<string, number>): CutSuggestion[] {
+  return edges
+    .map(edge => ({
+      edge,
+      cost: edgeCost(edge),
+      sharedWith: Math.max(0, (usage.get(edgeKey(edge.source, edge.target)) ?? 1) - 1),
+    }))
+    .sort((a, b) => a.cost - b.cost || b.sharedWith - a.sharedWith);
+}
+
+export function isSameEdge(a: Pick<CycleEdge, 'source' | 'target'>, b: Pick<CycleEdge, 'source' | 'target'>): boolean {
+  return a.source === b.source && a.target === b.target;
+}
@@ -0,0 +1,158 @@
+/**
+ * Datalog helpers for the query console: tokenizing for highlighting,
+ * cursor-aware autocomplete, and shaping /api/v1/query responses into a
+ * table or a graph of triples.
+ *
+ * Syntax follows the backend: `triples(?S, "calls", ?O), not triples(?O, "imports", ?X)`.
+ * Variables are `?name` or capitalised identifiers; predicates are string literals.
+ */
+import type { QueryResponse } from '../services/graphService';
+
+export type DatalogTokenType = 'relation' | 'keyword' | 'variable' | 'string' | 'number' | 'comment' | 'punctuation' | 'operator' | 'text';
+
+export interface DatalogToken {
+  type: DatalogTokenType;
+  text: string;
+  start: number;
+}
+
+const KEYWORDS = new Set(['not']);
+const TOKEN_RE = /(%[^\n]*|\/\/[^\n]*)|("(?:[^"\\\n]|\\.)*"?)|(\?[A-Za-z_][\w]*|\?)|(-?\d+(?:\.\d+)?)|([A-Za-z_][\w]*)|(:-|!=|<=|>=|[<>=])|([(),.])|(\s+|[^\s])/g;
+
+/**
+ * Split a query into tokens covering every character, for syntax highlighting.
+ */
+export function tokenizeDatalog(source: string): DatalogToken[] {
+  const tokens: DatalogToken[] = [];
+  for (const m of source.matchAll(TOKEN_RE)) {
+    const text = m[0];
+    const start = m.index ?? 0;
+    let type: DatalogTokenType = 'text';
+    if (m[1]) type = 'comment';
+    else if (m[2]) type = 'string';
+    else if (m[3]) type = 'variable';
+    else if (m[4]) type = 'number';
+    else if (m[5]) {
+      if (KEYWORDS.has(text)) type = 'keyword';
+      else if (/^[A-Z_]/.test(text)) type = 'variable';
+      else type = 'relation';
+    } else if (m[6]) type = 'operator';
+    else if (m[7]) type = 'punctuation';
+    tokens.push({ type, text, start });
+  }
+  return tokens;
+}
+
+/**
+ * Distinct variable names in order of first use.
+ */
+export function extractVariables(source: string): string[] {
+  const seen = new Set<string>();
+  for (const token of tokenizeDatalog(source)) {
+    if (token.type === 'variable' && token.text !== '?' && token.text !== '_') seen.add(token.text);
+  }
+  return Array.from(seen);
+}
+
+export interface Completion {
+  label: string;
+  kind: 'predicate' | 'variable' | 'relation';
+  /** Text that replaces `source.slice(from, to)` */
+  insertText: string;
+  from: number;
+  to: number;
+}
+
+const RELATION_SNIPPETS = ['triples', 'not'];
+
+/**
+ * Completions for the word under the cursor: predicates inside string
+ * literals, variables after `?` or a capital, relations otherwise.
+ */
+export function getCompletions(source: string, cursor: number, predicates: readonly string[], limit = 12): Completion[] {
+  const token = tokenizeDatalog(source).find(t => t.start < cursor && cursor <= t.start + t.text.length);
+  if (!token || token.type === 'comment' || token.type === 'number') return [];
+
+  const from = token.start;
+  const typed = source.slice(from, cursor);
+  let candidates: Array<Omit<Completion, 'from' | 'to'>> = [];
+
+  if (token.type === 'string') {
+    const prefix = typed.slice(1).toLowerCase();
+    candidates = predicates
+      .filter(p => p.toLowerCase().startsWith(prefix))
+      .map(p => ({ label: p, kind: 'predicate', insertText: `"${p}"` }));
+  } else if (token.type === 'variable') {
+    const own = source.slice(from, from + token.text.length);
+    candidates = extractVariables(source)
+      .filter(v => v !== own && v.toLowerCase().startsWith(typed.toLowerCase()))
+      .map(v => ({ label: v, kind: 'variable', insertText: v }));
+  } else if (token.type === 'relation' || token.type === 'keyword') {
+    const prefix = typed.toLowerCase();
+    candidates = RELATION_SNIPPETS
+      .filter(r => r.startsWith(prefix) && r !== typed)
+      .map(r => ({ label: r, kind: 'relation', insertText: r === 'triples' ? 'triples(' : 'not ' }));
+  }
+
+  return candidates.slice(0, limit).map(c => ({ ...c, from, to: from + token.text.length }));
+}
+
+export interface ResultTable {
+  columns: string[];
+  rows: string[][];
+}
+
+const cell = (value: unknown): string =>
+  value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+/**
+ * Tabulate a query response. Raw results may be positional arrays or objects
+ * keyed by variable; hydrated responses without results fall back to nodes.
+ */
+export function toResultTable(response: QueryResponse, variables: string[] = []): ResultTable {
+  const rows = response.results ?? response.triples ?? [];
+  if (rows.length > 0) {
+    const first = rows[0];
+    if (Array.isArray(first)) {
+      const width = Math.max(...rows.map(r => (Array.isArray(r) ? r.length : 0)));
+      const columns = Array.from({ length: width }, (_, i) => variables[i] ?? `col${i + 1}`);
+      return { columns, rows: rows.map(r => columns.map((_, i) => cell((r as unknown[])[i]))) };
+    }
+    if (first && typeof first === 'object') {
+      const columns = Array.from(new Set(rows.flatMap(r => Object.keys(r as object))));
+      return { columns, rows: rows.map(r => columns.map(c => cell((r as Record<string, unknown>)[c]))) };
+    }
+    return { columns: ['value'], rows: rows.map(r => [cell(r)]) };
+  }
+  return {
+    columns: ['id', 'name', 'kind', 'file'],
+    rows: (response.nodes ?? []).map(n => [n.id, cell(n.name), cell(n.kind ?? n.type), cell(n.filePath ?? n.file_path)]),
+  };
+}
+
+/**
+ * Graph for the result view: hydrated nodes/links when present, otherwise
+ * subject -> object edges from the rows (subject, predicate, object for three
+ * or more columns; subject, object for two).
+ */
+export function toResultGraph(response: QueryResponse, table: ResultTable): { nodes: any[]; links: any[] } {
+  if (response.nodes?.length) {
+    return { nodes: response.nodes.map(n => ({ ...n })), links: (response.links ?? []).map(l => ({ ...l })) };
+  }
+  const nodes = new Map<string, any>();
+  const links: any[] = [];
+  const addNode = (id: string) => {
+    if (!nodes.has(id)) nodes.set(id, { id, name: id.split(/[:/#]/).pop() || id, kind: id.includes(':') ? 'function' : 'file' });
+  };
+  const hasPredicate = table.columns.length >= 3;
+  if (table.columns.length >= 2) {
+    for (const row of table.rows) {
+      const [subject, predicate, object] = hasPredicate ? row : [row[0], undefined, row[1]];
+      if (!subject || !object) continue;
+      addNode(subject);
+      addNode(object);
+      links.push({ source: subject, target: object, relation: predicate });
+    }
+  }
+  return { nodes: Array.from(nodes.values()), links };
+}
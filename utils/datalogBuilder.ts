@@ -0,0 +1,120 @@
+/**
+ * Datalog Builder - Clause model behind the visual query builder
+ *
+ * Each clause is one `triples(subject, predicate, object)` atom whose terms are
+ * either variables or literals. Clauses sharing a variable are joined by the
+ * engine; negated clauses are emitted last so their variables are already bound.
+ */
+
+export type BuilderTerm =
+  | { kind: 'variable'; name: string }
+  | { kind: 'literal'; value: string };
+
+export interface BuilderClause {
+  id: string;
+  subject: BuilderTerm;
+  predicate: BuilderTerm;
+  object: BuilderTerm;
+  negated: boolean;
+}
+
+export type ClausePosition = 'subject' | 'predicate' | 'object';
+
+const POSITIONS: ClausePosition[] = ['subject', 'predicate', 'object'];
+
+export const variable = (name: string): BuilderTerm => ({ kind: 'variable', name });
+export const literal = (value: string): BuilderTerm => ({ kind: 'literal', value });
+
+const newId = () => Math.random().toString(36).slice(2, 10);
+
+/** Variable names are stored without the leading `?` */
+const normalizeName = (name: string) => name.trim().replace(/^\?+/, '');
+
+export function formatTerm(term: BuilderTerm): string {
+  return term.kind === 'variable' ? `?${normalizeName(term.name)}` : JSON.stringify(term.value);
+}
+
+export function formatClause(clause: BuilderClause): string {
+  const atom = `triples(${POSITIONS.map(p => formatTerm(clause[p])).join(', ')})`;
+  return clause.negated ? `not ${atom}` : atom;
+}
+
+/**
+ * Render clauses as a Datalog body, positive clauses first.
+ */
+export function buildDatalog(clauses: readonly BuilderClause[]): string {
+  const ordered = [...clauses.filter(c => !c.negated), ...clauses.filter(c => c.negated)];
+  return ordered.map(formatClause).join(',\n');
+}
+
+function clauseVariables(clause: BuilderClause): string[] {
+  return POSITIONS
+    .map(p => clause[p])
+    .filter((t): t is Extract<BuilderTerm, { kind: 'variable' }> => t.kind === 'variable')
+    .map(t => normalizeName(t.name))
+    .filter(Boolean);
+}
+
+/**
+ * Distinct variable names (without `?`) in order of first use.
+ */
+export function builderVariables(clauses: readonly BuilderClause[]): string[] {
+  return Array.from(new Set(clauses.flatMap(clauseVariables)));
+}
+
+/**
+ * Problems that would make the generated query fail or mean something other
+ * than what the builder shows. An empty list means the query is runnable.
+ */
+export function validateClauses(clauses: readonly BuilderClause[]): string[] {
+  const issues: string[] = [];
+  if (!clauses.some(c => !c.negated)) issues.push('Add at least one clause that is not negated.');
+
+  clauses.forEach((clause, i) => {
+    for (const position of POSITIONS) {
+      const term = clause[position];
+      if (term.kind === 'variable' ? !normalizeName(term.name) : !term.value.trim()) {
+        issues.push(`Clause ${i + 1}: ${position} is empty.`);
+      }
+    }
+  });
+
+  const bound = new Set(clauses.filter(c => !c.negated).flatMap(clauseVariables));
+  clauses.forEach((clause, i) => {
+    if (!clause.negated) return;
+    const unbound = clauseVariables(clause).filter(v => !bound.has(v));
+    if (unbound.length > 0) {
+      issues.push(`Clause ${i + 1}: negated clause uses ${unbound.map(v => `?${v}`).join(', ')}, which no positive clause binds.`);
+    }
+  });
+  return issues;
+}
+
+/**
+ * First unused single-letter variable name (S, O, A, B, ...).
+ */
+export function nextVariableName(clauses: readonly BuilderClause[], taken: readonly string[] = []): string {
+  const used = new Set([...builderVariables(clauses), ...taken]);
+  for (const name of ['S', 'O', ...'ABCDEFGHIJKLMNPQRTUVWXYZ']) {
+    if (!used.has(name)) return name;
+  }
+  let n = 1;
+  while (used.has(`V${n}`)) n++;
+  return `V${n}`;
+}
+
+/**
+ * A new clause. With `joinFrom`, the new clause's subject is the previous
+ * clause's object variable so the two are joined.
+ */
+export function createClause(clauses: readonly BuilderClause[], predicate: string, joinFrom?: BuilderClause): BuilderClause {
+  const subjectName = joinFrom?.object.kind === 'variable' ? normalizeName(joinFrom.object.name) : nextVariableName(clauses);
+  const objectName = nextVariableName(clauses, [subjectName]);
+  return {
+    id: newId(),
+    subject: variable(subjectName),
+    predicate: predicate ? literal(predicate) : variable(nextVariableName(clauses, [subjectName, objectName])),
+    object: variable(objectName),
+    negated: false,
+  };
+}
@@ -1,35 +1,59 @@
 import { API_CONFIG } from '../constants';
+import { authRegistry } from './authConfig';
+import { profileStore, TimeoutTier } from './connectionProfiles';
+import { networkLog } from './networkLog';
+import { describeAbortReason } from './requestManager';
 
 /**
  * Fetch wrapper with timeout support using AbortController.
  * Defaults to API_CONFIG.TIMEOUT.DEFAULT (30s).
+ * Attaches the backend's configured credentials and reports 401 responses;
+ * the active connection profile may override the timeout of a standard tier.
+ * Every request is recorded in the network log for the inspector panel.
  *
  * @param url - The URL to fetch
  * @param options - Fetch options
- * @param timeoutMs - Timeout in milliseconds
+ * @param requestedTimeoutMs - Timeout in milliseconds
  * @param externalSignal - Optional external AbortSignal for request cancellation
+ * @param tier - Standard tier the timeout belongs to; 'default' when no timeout is given
  */
 export async function fetchWithTimeout(
   url: string,
   options: RequestInit = {},
-  timeoutMs: number = API_CONFIG.TIMEOUT.DEFAULT,
-  externalSignal?: AbortSignal | null
+  requestedTimeoutMs?: number,
+  externalSignal?: AbortSignal | null,
+  tier: TimeoutTier | undefined = requestedTimeoutMs === undefined ? 'default' : undefined
 ): Promise<Response> {
+  const timeoutMs = profileStore.resolveTimeout(url, requestedTimeoutMs ?? API_CONFIG.TIMEOUT.DEFAULT, tier);
   const controller = new AbortController();
   const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const callerSignal = options.signal || externalSignal;
+  const logId = networkLog.start(url, options, authRegistry.resolve(url)?.config.type);
+  const startedAt = performance.now();
+  const elapsed = () => Math.round(performance.now() - startedAt);
 
   try {
     // Combine external signal with internal controller signal
-    const signal = options.signal || externalSignal
-      ? combineSignals(externalSignal, controller.signal)
+    const signal = callerSignal
+      ? combineSignals(options.signal, externalSignal, controller.signal)
       : controller.signal;
 
     const response = await fetch(url, {
-      ...options,
+      ...authRegistry.applyTo(url, options),
       signal,
     });
+    networkLog.complete(logId, response, elapsed());
+    if (response.status === 401) authRegistry.reportUnauthorized(url);
     return response;
   } catch (err: any) {
+    if (callerSignal?.aborted) {
+      networkLog.cancel(logId, describeAbortReason(callerSignal), elapsed());
+    } else if (controller.signal.aborted) {
+      networkLog.cancel(logId, `timed out after ${timeoutMs}ms`, elapsed());
+    } else {
+      networkLog.fail(logId, err.message || 'network error', elapsed());
+    }
+
     if (err.name === 'AbortError') {
       throw new Error(`Request timed out after ${timeoutMs}ms`);
     }
@@ -54,7 +78,7 @@ function combineSignals(...signals: (AbortSignal | undefined | null)[]): AbortSi
 
   for (const signal of signals) {
     if (signal) {
-      signal.addEventListener('abort', () => controller.abort(), { once: true });
+      signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
     }
   }
 
@@ -0,0 +1,45 @@
+/**
+ * File Transfer - Browser helpers for saving and opening local files
+ */
+
+/**
+ * Trigger a browser download of text content.
+ */
+export function downloadText(filename: string, content: string, mimeType = 'text/plain'): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = filename;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  // Revoke on the next tick so the download has started before the URL dies
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Trigger a browser download of a value serialized as pretty-printed JSON.
+ */
+export function downloadJson(filename: string, data: unknown): void {
+  downloadText(filename, JSON.stringify(data, null, 2), 'application/json');
+}
+
+/**
+ * Read a user-selected file as text.
+ */
+export function readFileAsText(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(typeof reader.result === 'string' ? reader.result : '');
+    reader.onerror = () => reject(reader.error ?? new Error(`Failed to read ${file.name}`));
+    reader.readAsText(file);
+  });
+}
+
+/**
+ * Filesystem-safe slug for use in download names.
+ */
+export function toFileSlug(value: string): string {
+  return value.replace(/[^a-zA-Z0-9_-]+/g, '-').replace(/^-+|-+$/g, '') || 'untitled';
+}
@@ -0,0 +1,58 @@
+/**
+ * Flow Path - Order a /search/flow response into hops and find each call site
+ *
+ * The flow endpoint returns the path as an unordered node/link set. Hops are
+ * recovered by following the links from `from` to `to`; if the links don't
+ * form a directed chain, the node order of the response is used instead.
+ * A hop's snippet is the first line in the caller's body that mentions the
+ * callee, with a little context, or the top of the body when none does.
+ */
+import type { GraphMapResponse, HydratedSymbol } from '../services/graphService';
+import { CallHop, shortestCallPath } from './callPaths';
+import { toSnippet } from './semanticFacets';
+import { compileSearch, searchText } from './textSearch';
+
+export interface HopSnippet {
+  /** Absolute line of the call site, when it was found and the body's start is known */
+  line?: number;
+  text: string;
+  /** Whether `text` is centred on the call site rather than the top of the body */
+  atCallSite: boolean;
+}
+
+const SNIPPET_CONTEXT = 2;
+
+export function orderFlowHops(response: GraphMapResponse, from: string, to: string): CallHop[] {
+  const hops = shortestCallPath(response.links, from, to);
+  if (hops) return hops;
+  return response.nodes.slice(1).map((node, i) => ({ source: response.nodes[i]!.id, target: node.id }));
+}
+
+/** The identifier a call to `symbolId` is written with: `pkg/a.go:Type.Method` → `Method` */
+export function callToken(symbolId: string): string {
+  const name = symbolId.slice(symbolId.lastIndexOf(':') + 1);
+  return name.slice(name.lastIndexOf('.') + 1);
+}
+
+export function callSiteSnippet(caller: HydratedSymbol | null, calleeId: string, context = SNIPPET_CONTEXT): HopSnippet | undefined {
+  if (!caller?.content) return undefined;
+  const { content } = caller;
+  const startLine = typeof caller.start_line === 'number' ? caller.start_line : undefined;
+
+  const token = callToken(calleeId);
+  // Skip the declaration line so a recursive call isn't matched on the signature
+  const [match] = token
+    ? searchText(content, compileSearch({ pattern: token, regex: false, caseSensitive: true, wholeWord: true }), context, 2)
+      .filter(m => m.line > 1)
+      .slice(0, 1)
+    : [];
+  if (!match) {
+    const text = toSnippet(content);
+    return text ? { text, atCallSite: false } : undefined;
+  }
+  return {
+    line: startLine !== undefined ? startLine + match.line - 1 : undefined,
+    text: [...match.before, match.text, ...match.after].join('\n'),
+    atCallSite: true,
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * Fuzzy Match - Client-side ranked subsequence matching for the command palette
+ *
+ * Query characters must appear in order in the target. Matches score higher
+ * when they start a word (after `/`, `.`, `_`, `-`, `:`, `#` or a space), hit
+ * a camelCase hump, or run consecutively, so "hq" finds HandleQuery and "auth/tok"
+ * finds internal/auth/token.go. Gaps and long targets cost a little.
+ */
+
+export interface FuzzyMatch {
+  score: number;
+  /** Indices in the target of the matched characters, for highlighting */
+  positions: number[];
+}
+
+const SCORE_MATCH = 1;
+const BONUS_START = 10;
+const BONUS_SEGMENT = 8;
+const BONUS_CAMEL = 7;
+const BONUS_CONSECUTIVE = 5;
+const BONUS_EXACT = 20;
+const PENALTY_GAP = 0.2;
+const PENALTY_LEADING = 0.1;
+const PENALTY_LENGTH = 0.01;
+
+const SEPARATORS = new Set(['/', '\\', '.', '_', '-', ':', '#', ' ']);
+
+const isUpper = (c: string) => c !== c.toLowerCase() && c === c.toUpperCase();
+const isLower = (c: string) => c !== c.toUpperCase() && c === c.toLowerCase();
+const isDigit = (c: string) => c >= '0' && c <= '9';
+
+function positionBonus(target: string, j: number): number {
+  if (j === 0) return BONUS_START;
+  const prev = target[j - 1]!;
+  const cur = target[j]!;
+  if (SEPARATORS.has(prev)) return BONUS_SEGMENT;
+  if ((isLower(prev) || isDigit(prev)) && isUpper(cur)) return BONUS_CAMEL;
+  if (isDigit(cur) && !isDigit(prev)) return BONUS_CAMEL;
+  return 0;
+}
+
+function isSubsequence(query: string, target: string): boolean {
+  let qi = 0;
+  for (let j = 0; j < target.length && qi < query.length; j++) {
+    if (target[j] === query[qi]) qi++;
+  }
+  return qi === query.length;
+}
+
+/**
+ * Best-scoring alignment of `query` within `target`, or null if it does not match.
+ * Whitespace in the query is ignored and matching is case-insensitive.
+ */
+export function fuzzyMatch(query: string, target: string): FuzzyMatch | null {
+  const q = query.replace(/\s+/g, '').toLowerCase();
+  if (!q) return { score: 0, positions: [] };
+  const t = target.toLowerCase();
+  const m = q.length;
+  const n = t.length;
+  if (m > n || !isSubsequence(q, t)) return null;
+
+  // scores[i][j]: best score with q[i] matched at t[j]; from[i][j]: where q[i-1] matched
+  const scores: Float64Array[] = [];
+  const from: Int32Array[] = [];
+  for (let i = 0; i < m; i++) {
+    const row = new Float64Array(n).fill(-Infinity);
+    const back = new Int32Array(n).fill(-1);
+    const prevRow = scores[i - 1];
+    // Best predecessor so far, already charged for the gap up to the current column
+    let gapBest = -Infinity;
+    let gapIdx = -1;
+
+    for (let j = 0; j < n; j++) {
+      if (prevRow && j > 0) {
+        gapBest -= PENALTY_GAP;
+        if (prevRow[j - 1]! > gapBest) {
+          gapBest = prevRow[j - 1]!;
+          gapIdx = j - 1;
+        }
+      }
+      if (t[j] !== q[i]) continue;
+
+      const bonus = SCORE_MATCH + positionBonus(target, j);
+      if (!prevRow) {
+        row[j] = bonus - j * PENALTY_LEADING;
+        continue;
+      }
+      let best = gapBest;
+      let idx = gapIdx;
+      const diagonal = j > 0 ? prevRow[j - 1]! + BONUS_CONSECUTIVE : -Infinity;
+      if (diagonal >= best) {
+        best = diagonal;
+        idx = j - 1;
+      }
+      if (idx < 0 || best === -Infinity) continue;
+      row[j] = best + bonus;
+      back[j] = idx;
+    }
+    scores.push(row);
+    from.push(back);
+  }
+
+  const last = scores[m - 1]!;
+  let end = -1;
+  for (let j = 0; j < n; j++) {
+    if (last[j]! > -Infinity && (end < 0 || last[j]! > last[end]!)) end = j;
+  }
+  if (end < 0) return null;
+
+  const positions = new Array<number>(m);
+  for (let i = m - 1, j = end; i >= 0; i--) {
+    positions[i] = j;
+    j = from[i]![j]!;
+  }
+  const score = last[end]! - n * PENALTY_LENGTH + (t === q ? BONUS_EXACT : 0);
+  return { score, positions };
+}
+
+/**
+ * Rank `items` by how well `query` matches their text, best first.
+ */
+export function rankMatches<T>(
+  query: string,
+  items: readonly T[],
+  getText: (item: T) => string,
+  limit = 50
+): Array<{ item: T; match: FuzzyMatch }> {
+  const results: Array<{ item: T; match: FuzzyMatch }> = [];
+  for (const item of items) {
+    const match = fuzzyMatch(query, getText(item));
+    if (match) results.push({ item, match });
+  }
+  results.sort((a, b) => b.match.score - a.match.score);
+  return results.slice(0, limit);
+}
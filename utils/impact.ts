@@ -0,0 +1,175 @@
+/**
+ * Impact - Blast radius of a change to one symbol
+ *
+ * Built from a who-calls slice: every transitive caller is affected, at the
+ * distance (in calls) of its shortest route to the target. Callers are then
+ * rolled up into files and packages, entry points (backbone gatewayType
+ * 'entry'), test files, and the OKF concepts bridged to any affected symbol,
+ * the target included.
+ */
+import type { GraphMapLinkWithLine, GraphMapNode } from '../services/graphService';
+import { packageOf, splitSymbolId } from './semanticFacets';
+
+export interface ImpactedSymbol {
+  id: string;
+  name: string;
+  kind: string;
+  filePath: string;
+  /** Calls between this symbol and the target; 0 for the target itself */
+  distance: number;
+  isEntry: boolean;
+  isTest: boolean;
+}
+
+export interface ImpactedFile {
+  path: string;
+  package: string;
+  symbols: number;
+  distance: number;
+  isTest: boolean;
+}
+
+export interface ImpactedPackage {
+  name: string;
+  files: number;
+  symbols: number;
+}
+
+export interface ImpactedConcept {
+  id: string;
+  title: string;
+  /** Affected symbols the concept is bridged to */
+  symbols: string[];
+}
+
+export interface ImpactReport {
+  target: string;
+  depth: number;
+  /** Affected callers, nearest first; excludes the target */
+  symbols: ImpactedSymbol[];
+  files: ImpactedFile[];
+  packages: ImpactedPackage[];
+  entryPoints: ImpactedSymbol[];
+  testFiles: ImpactedFile[];
+  concepts: ImpactedConcept[];
+}
+
+export interface ImpactInput {
+  target: string;
+  depth: number;
+  nodes: GraphMapNode[];
+  links: GraphMapLinkWithLine[];
+  /** Symbol ids the file backbones mark as gatewayType 'entry' */
+  entryIds: Set<string>;
+  bridges: Array<{ conceptId: string; symbolId: string }>;
+  concepts: Array<{ id: string; title: string }>;
+}
+
+const TEST_FILE = /(^|\/)(__tests__|tests?|spec)\/|[._-](test|spec)\.[^/]+$|(^|\/)test_[^/]+\.py$/i;
+
+export function isTestFile(filePath: string): boolean {
+  return TEST_FILE.test(filePath);
+}
+
+/** Shortest caller distance to `target` for every symbol that reaches it in `links` */
+export function callerDistances(links: GraphMapLinkWithLine[], target: string): Map<string, number> {
+  const callers = new Map<string, string[]>();
+  for (const { source, target: callee } of links) {
+    const list = callers.get(callee) ?? [];
+    list.push(source);
+    callers.set(callee, list);
+  }
+  const distances = new Map([[target, 0]]);
+  const queue = [target];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const distance = distances.get(current)!;
+    for (const caller of callers.get(current) ?? []) {
+      if (distances.has(caller)) continue;
+      distances.set(caller, distance + 1);
+      queue.push(caller);
+    }
+  }
+  return distances;
+}
+
+export function buildImpactReport(input: ImpactInput): ImpactReport {
+  const { target, depth, nodes, links, entryIds, bridges, concepts } = input;
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const distances = callerDistances(links, target);
+
+  const symbols: ImpactedSymbol[] = [];
+  distances.forEach((distance, id) => {
+    if (id === target) return;
+    const node = byId.get(id);
+    const filePath = node?.filePath || splitSymbolId(id).filePath;
+    symbols.push({
+      id,
+      name: node?.name || splitSymbolId(id).symbol || id,
+      kind: node?.kind || 'symbol',
+      filePath,
+      distance,
+      isEntry: entryIds.has(id) || node?.gatewayType === 'entry',
+      isTest: isTestFile(filePath),
+    });
+  });
+  symbols.sort((a, b) => a.distance - b.distance || a.id.localeCompare(b.id));
+
+  const files = new Map<string, ImpactedFile>();
+  for (const symbol of symbols) {
+    const file = files.get(symbol.filePath);
+    if (file) {
+      file.symbols++;
+      file.distance = Math.min(file.distance, symbol.distance);
+    } else {
+      files.set(symbol.filePath, {
+        path: symbol.filePath,
+        package: packageOf(symbol.filePath),
+        symbols: 1,
+        distance: symbol.distance,
+        isTest: symbol.isTest,
+      });
+    }
+  }
+  const fileList = Array.from(files.values()).sort((a, b) => a.distance - b.distance || a.path.localeCompare(b.path));
+
+  const packages = new Map<string, ImpactedPackage>();
+  for (const file of fileList) {
+    const pkg = packages.get(file.package) ?? { name: file.package, files: 0, symbols: 0 };
+    pkg.files++;
+    pkg.symbols += file.symbols;
+    packages.set(file.package, pkg);
+  }
+
+  const titles = new Map(concepts.map(c => [c.id, c.title]));
+  const bridged = new Map<string, ImpactedConcept>();
+  for (const { conceptId, symbolId } of bridges) {
+    if (!distances.has(symbolId)) continue;
+    const concept = bridged.get(conceptId) ?? { id: conceptId, title: titles.get(conceptId) || conceptId, symbols: [] };
+    if (!concept.symbols.includes(symbolId)) concept.symbols.push(symbolId);
+    bridged.set(conceptId, concept);
+  }
+
+  return {
+    target,
+    depth,
+    symbols,
+    files: fileList,
+    packages: Array.from(packages.values()).sort((a, b) => b.symbols - a.symbols || a.name.localeCompare(b.name)),
+    entryPoints: symbols.filter(s => s.isEntry),
+    testFiles: fileList.filter(f => f.isTest),
+    concepts: Array.from(bridged.values()).sort((a, b) => b.symbols.length - a.symbols.length || a.title.localeCompare(b.title)),
+  };
+}
+
+const csvCell = (value: string | number | boolean) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** One row per affected symbol, for spreadsheets and review checklists */
+export function impactToCsv(report: ImpactReport): string {
+  const header = ['symbol', 'name', 'kind', 'file', 'package', 'distance', 'entry_point', 'test'];
+  const rows = report.symbols.map(s => [s.id, s.name, s.kind, s.filePath, packageOf(s.filePath), s.distance, s.isEntry, s.isTest]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,66 @@
+/**
+ * Intent Overrides - Log of searches where the user replaced the detected intent
+ *
+ * Each entry keeps the query, what the regex and classifier said, and what
+ * the user picked instead, so misclassifications can be reviewed and turned
+ * into better routing patterns. Kept in localStorage, newest first.
+ */
+import { LocalStore, safeStorage } from './localStore';
+import type { IntentPreview, IntentRoute } from './queryClassifier';
+
+export interface IntentOverride {
+  id: string;
+  query: string;
+  projectId: string;
+  detected: IntentRoute;
+  regexRoute: IntentRoute;
+  classifierIntent?: string;
+  confidence?: number;
+  chosen: IntentRoute;
+  at: number;
+}
+
+const STORAGE_KEY = 'gca_intent_overrides_v1';
+const MAX_ENTRIES = 200;
+
+export class IntentOverrideLog {
+  private entries: LocalStore<IntentOverride[]>;
+
+  constructor(storage: Storage | null = safeStorage()) {
+    this.entries = new LocalStore<IntentOverride[]>(storage, {
+      key: STORAGE_KEY,
+      fallback: [],
+      parse: parsed => (Array.isArray(parsed) ? parsed : []),
+    });
+  }
+
+  getEntries(): IntentOverride[] {
+    return this.entries.get();
+  }
+
+  record(query: string, projectId: string, preview: IntentPreview, chosen: IntentRoute): void {
+    if (chosen === preview.route) return;
+    const entry: IntentOverride = {
+      id: Math.random().toString(36).substring(2, 10),
+      query,
+      projectId,
+      detected: preview.route,
+      regexRoute: preview.regexRoute,
+      classifierIntent: preview.classifierIntent,
+      confidence: preview.confidence,
+      chosen,
+      at: Date.now(),
+    };
+    this.entries.set([entry, ...this.entries.get()].slice(0, MAX_ENTRIES));
+  }
+
+  clear(): void {
+    this.entries.set([]);
+  }
+
+  subscribe(listener: () => void): () => void {
+    return this.entries.subscribe(listener);
+  }
+}
+
+export const intentOverrideLog = new IntentOverrideLog();
@@ -0,0 +1,69 @@
+/**
+ * Local Store - One JSON value kept in Web Storage, with change subscriptions
+ *
+ * Shared plumbing for the small user-preference stores (saved queries,
+ * routing patterns, connection profiles, ...). The value is read once, each
+ * `set` writes it back and notifies subscribers, and `get` returns the same
+ * reference until the next change, as useSyncExternalStore requires.
+ * Storage is best-effort: unavailable storage or failed writes keep the
+ * value in memory only.
+ */
+import { logger } from '../logger';
+
+/** Web Storage, or null where access throws (e.g. disabled cookies, sandboxed iframes) */
+export const safeStorage = (get: () => Storage = () => localStorage): Storage | null => {
+  try { return get(); } catch { return null; }
+};
+
+export interface LocalStoreOptions<T> {
+  key: string;
+  /** Used when nothing is saved or the saved value cannot be read */
+  fallback: T;
+  /** Validate the parsed JSON; may throw to fall back */
+  parse: (raw: unknown) => T;
+  /** What gets written, when it differs from the value (e.g. without secrets) */
+  serialize?: (value: T) => unknown;
+}
+
+export class LocalStore<T> {
+  private value: T;
+  private listeners = new Set<() => void>();
+
+  constructor(private readonly storage: Storage | null, private readonly options: LocalStoreOptions<T>) {
+    this.value = this.load();
+  }
+
+  get(): T {
+    return this.value;
+  }
+
+  set(value: T): void {
+    this.value = value;
+    try {
+      const { serialize } = this.options;
+      this.storage?.setItem(this.options.key, JSON.stringify(serialize ? serialize(value) : value));
+    } catch (err) {
+      logger.warn(`[localStore] Failed to save ${this.options.key}:`, err);
+    }
+    this.notify();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  /** For state derived from the value and kept elsewhere, e.g. the active profile */
+  notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private load(): T {
+    try {
+      const saved = this.storage?.getItem(this.options.key);
+      return saved ? this.options.parse(JSON.parse(saved)) : this.options.fallback;
+    } catch {
+      return this.options.fallback;
+    }
+  }
+}
@@ -0,0 +1,344 @@
+/**
+ * Mock Backend - Fetch interceptor that serves /api/v1 routes from recorded fixtures
+ *
+ * - replay: matching requests are answered from a fixture bundle; SSE fixtures
+ *   are streamed event by event. Unmatched API requests get a 404.
+ * - record: requests pass through to the real backend and every API response
+ *   is captured, so a live session can be saved as a new bundle.
+ *
+ * Only URLs whose path starts with /api/ or /v1/ are intercepted; everything
+ * else (Vite assets, fonts) goes to the real fetch.
+ */
+import { logger } from '../logger';
+
+export type MockMode = 'off' | 'replay' | 'record';
+
+export interface FixtureEntry {
+  method: string;
+  path: string;
+  /** Params the request must include (extra request params are ignored) */
+  query?: Record<string, string>;
+  /** Top-level JSON body fields the request must match */
+  requestBody?: Record<string, unknown>;
+  /** Serve for any request to this route when no more specific entry matches */
+  fallback?: boolean;
+  status?: number;
+  headers?: Record<string, string>;
+  /** JSON response */
+  body?: unknown;
+  /** Plain text response */
+  text?: string;
+  /** Server-sent events, one data payload per item */
+  events?: string[];
+  delayMs?: number;
+}
+
+export interface FixtureBundle {
+  format: 'gca-fixtures';
+  version: 1;
+  recordedAt?: string;
+  description?: string;
+  entries: FixtureEntry[];
+}
+
+export interface MockBackendOptions {
+  mode: Exclude<MockMode, 'off'>;
+  fixtures?: FixtureBundle;
+  /** Pause between replayed SSE events */
+  streamDelayMs?: number;
+}
+
+export interface MockBackendHandle {
+  mode: Exclude<MockMode, 'off'>;
+  /** Responses captured so far (record mode), as a bundle ready to download */
+  getRecording(): FixtureBundle;
+  uninstall(): void;
+}
+
+const API_PATH = /^\/(api|v1)\//;
+
+interface NormalizedRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * The mode requested through VITE_GCA_MOCK ('replay' | 'record'), or 'off'.
+ */
+export function getMockMode(): MockMode {
+  const mode = import.meta.env.VITE_GCA_MOCK;
+  return mode === 'replay' || mode === 'record' ? mode : 'off';
+}
+
+export function isFixtureBundle(value: unknown): value is FixtureBundle {
+  return !!value && typeof value === 'object'
+    && (value as FixtureBundle).format === 'gca-fixtures'
+    && Array.isArray((value as FixtureBundle).entries);
+}
+
+/**
+ * Pick the most specific entry for a request: every declared query param and
+ * body field must match, and entries declaring more of them win.
+ */
+export function matchFixture(
+  entries: FixtureEntry[],
+  method: string,
+  path: string,
+  query: Record<string, string>,
+  body: unknown
+): FixtureEntry | undefined {
+  let best: FixtureEntry | undefined;
+  let bestScore = -1;
+  for (const entry of entries) {
+    if (entry.method.toUpperCase() !== method || entry.path !== path) continue;
+    const score = matchScore(entry, query, body);
+    if (score > bestScore) {
+      best = entry;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+function matchScore(entry: FixtureEntry, query: Record<string, string>, body: unknown): number {
+  const wantedQuery = Object.entries(entry.query ?? {});
+  const wantedBody = Object.entries(entry.requestBody ?? {});
+  if (wantedQuery.some(([key, value]) => query[key] !== value)) return -1;
+  if (wantedBody.length > 0) {
+    if (!body || typeof body !== 'object') return -1;
+    const fields = body as Record<string, unknown>;
+    if (wantedBody.some(([key, value]) => JSON.stringify(fields[key]) !== JSON.stringify(value))) return -1;
+  }
+  const score = wantedQuery.length + wantedBody.length;
+  // Entries that match without declaring anything only serve as a route-wide fallback
+  return score === 0 && !entry.fallback ? -1 : score;
+}
+
+function abortError(): DOMException {
+  return new DOMException('The operation was aborted.', 'AbortError');
+}
+
+function delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+  if (ms <= 0) return signal?.aborted ? Promise.reject(abortError()) : Promise.resolve();
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Build the Response a fixture describes. SSE events are emitted one at a
+ * time, `streamDelayMs` apart, ending with [DONE].
+ */
+export function createFixtureResponse(entry: FixtureEntry, streamDelayMs = 0, signal?: AbortSignal | null): Response {
+  const status = entry.status ?? 200;
+  const headers = new Headers(entry.headers);
+
+  if (entry.events) {
+    headers.set('content-type', 'text/event-stream');
+    const encoder = new TextEncoder();
+    const events = [...entry.events, '[DONE]'];
+    let index = 0;
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        if (index > 0) {
+          try {
+            await delay(streamDelayMs, signal);
+          } catch (err) {
+            controller.error(err);
+            return;
+          }
+        }
+        const event = events[index++];
+        if (event === undefined) {
+          controller.close();
+          return;
+        }
+        const lines = event.split('\n').map(line => `data: ${line}`).join('\n');
+        controller.enqueue(encoder.encode(`${lines}\n\n`));
+      },
+    });
+    return new Response(stream, { status, headers });
+  }
+
+  if (entry.text !== undefined) {
+    if (!headers.has('content-type')) headers.set('content-type', 'text/plain');
+    return new Response(entry.text, { status, headers });
+  }
+
+  if (!headers.has('content-type')) headers.set('content-type', 'application/json');
+  return new Response(entry.body === undefined ? null : JSON.stringify(entry.body), { status, headers });
+}
+
+async function normalizeRequest(input: RequestInfo | URL, init?: RequestInit): Promise<NormalizedRequest | null> {
+  const request = input instanceof Request ? input : null;
+  const rawUrl = request ? request.url : input.toString();
+  const url = new URL(rawUrl, window.location.origin);
+  if (!API_PATH.test(url.pathname)) return null;
+
+  const method = (init?.method ?? request?.method ?? 'GET').toUpperCase();
+  let bodyText: string | undefined;
+  if (typeof init?.body === 'string') {
+    bodyText = init.body;
+  } else if (request && init?.body === undefined && method !== 'GET' && method !== 'HEAD') {
+    bodyText = await request.clone().text();
+  }
+
+  let body: unknown = bodyText;
+  if (bodyText) {
+    try { body = JSON.parse(bodyText); } catch { /* keep as text */ }
+  }
+
+  return {
+    method,
+    path: url.pathname,
+    query: Object.fromEntries(url.searchParams.entries()),
+    body,
+  };
+}
+
+function parseSSE(text: string): string[] {
+  const events: string[] = [];
+  for (const block of text.split('\n\n')) {
+    const data = block.split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trimStart());
+    if (data.length === 0) continue;
+    const payload = data.join('\n');
+    if (payload === '[DONE]') break;
+    events.push(payload);
+  }
+  return events;
+}
+
+async function toFixtureEntry(req: NormalizedRequest, response: Response): Promise<FixtureEntry> {
+  const entry: FixtureEntry = { method: req.method, path: req.path };
+  if (Object.keys(req.query).length > 0) entry.query = req.query;
+  if (req.body && typeof req.body === 'object' && !Array.isArray(req.body)) {
+    entry.requestBody = req.body as Record<string, unknown>;
+  }
+  if (response.status !== 200) entry.status = response.status;
+
+  const contentType = response.headers.get('content-type') || '';
+  const text = await response.text();
+  if (contentType.includes('text/event-stream')) {
+    entry.events = parseSSE(text);
+  } else if (contentType.includes('json')) {
+    try { entry.body = JSON.parse(text); } catch { entry.text = text; }
+  } else {
+    entry.text = text;
+  }
+  return entry;
+}
+
+/**
+ * Replace the global fetch with the mock backend. Returns a handle that
+ * restores the original fetch and exposes recorded responses.
+ */
+export function installMockBackend(options: MockBackendOptions): MockBackendHandle {
+  const originalFetch = globalThis.fetch;
+  const entries = options.fixtures?.entries ?? [];
+  const streamDelayMs = options.streamDelayMs ?? 30;
+  const recorded = new Map<string, FixtureEntry>();
+
+  const replay = async (req: NormalizedRequest, signal?: AbortSignal | null): Promise<Response> => {
+    const entry = matchFixture(entries, req.method, req.path, req.query, req.body);
+    if (!entry) {
+      logger.warn('[mockBackend] No fixture for', req.method, req.path, req.query);
+      return new Response(JSON.stringify({ error: `No fixture for ${req.method} ${req.path}` }), {
+        status: 404,
+        headers: { 'content-type': 'application/json' },
+      });
+    }
+    await delay(entry.delayMs ?? 0, signal);
+    return createFixtureResponse(entry, streamDelayMs, signal);
+  };
+
+  const record = async (req: NormalizedRequest, input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const response = await originalFetch(input, init);
+    toFixtureEntry(req, response.clone())
+      .then(entry => {
+        // Later responses replace earlier ones for an identical request
+        recorded.set(JSON.stringify([req.method, req.path, req.query, req.body]), entry);
+      })
+      .catch(err => logger.warn('[mockBackend] Failed to record', req.method, req.path, err));
+    return response;
+  };
+
+  const mockFetch: typeof fetch = async (input, init) => {
+    const req = await normalizeRequest(input, init);
+    if (!req) return originalFetch(input, init);
+    const signal = init?.signal ?? (input instanceof Request ? input.signal : null);
+    return options.mode === 'record' ? record(req, input, init) : replay(req, signal);
+  };
+
+  globalThis.fetch = mockFetch;
+  logger.log(`[mockBackend] Installed in ${options.mode} mode`, options.fixtures?.description ?? '');
+
+  const handle: MockBackendHandle = {
+    mode: options.mode,
+    getRecording: () => ({
+      format: 'gca-fixtures',
+      version: 1,
+      recordedAt: new Date().toISOString(),
+      entries: Array.from(recorded.values()),
+    }),
+    uninstall: () => {
+      if (globalThis.fetch === mockFetch) globalThis.fetch = originalFetch;
+      if (activeHandle === handle) activeHandle = null;
+    },
+  };
+  return handle;
+}
+
+let activeHandle: MockBackendHandle | null = null;
+
+/**
+ * The handle installed at startup, for UI that exports recordings.
+ */
+export function getActiveMockBackend(): MockBackendHandle | null {
+  return activeHandle;
+}
+
+// Lazy so bundles are only loaded (and code-split) when replay is requested
+const fixtureModules = import.meta.glob<{ default: unknown }>('../data/fixtures/*.json');
+
+/**
+ * Install the mock backend selected by VITE_GCA_MOCK. Replay serves the bundle
+ * named by VITE_GCA_MOCK_FIXTURES (data/fixtures/<name>.json, 'demo' by default).
+ * No-op when the mode is 'off'.
+ */
+export async function setupMockBackendFromEnv(): Promise<MockBackendHandle | null> {
+  const mode = getMockMode();
+  if (mode === 'off') return null;
+  let fixtures: FixtureBundle | undefined;
+  if (mode === 'replay') {
+    const name = import.meta.env.VITE_GCA_MOCK_FIXTURES || 'demo';
+    const load = fixtureModules[`../data/fixtures/${name}.json`];
+    if (!load) {
+      logger.error(`[mockBackend] No fixture bundle data/fixtures/${name}.json`);
+      return null;
+    }
+    const bundle = (await load()).default;
+    if (!isFixtureBundle(bundle)) {
+      logger.error(`[mockBackend] data/fixtures/${name}.json is not a gca-fixtures bundle`);
+      return null;
+    }
+    fixtures = bundle;
+  }
+  activeHandle = installMockBackend({ mode, fixtures });
+  return activeHandle;
+}
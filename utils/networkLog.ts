@@ -0,0 +1,173 @@
+/**
+ * Network Log - In-memory record of every backend request for the inspector panel
+ *
+ * fetchWithTimeout reports each request's start and outcome, so API service
+ * calls, SSE streams and hook-level fetches all show up. Cancellations carry
+ * the reason given to requestManager (or the query cache / timeout). Only the
+ * most recent entries are kept, and credentials are never stored.
+ */
+import type { AuthConfig } from './authConfig';
+
+export type NetworkEntryState = 'pending' | 'success' | 'error' | 'cancelled';
+
+export interface NetworkEntry {
+  id: number;
+  method: string;
+  url: string;
+  /** Path of the URL, e.g. /api/v1/query */
+  endpoint: string;
+  params: Record<string, string>;
+  /** Headers set by the caller; credentials are added later and not recorded */
+  requestHeaders: Record<string, string>;
+  requestBody?: string;
+  requestBytes: number;
+  /** Kind of credentials attached, so "copy as curl" can leave a placeholder */
+  auth: AuthConfig['type'];
+  /** Epoch ms */
+  startedAt: number;
+  durationMs?: number;
+  status?: number;
+  responseBytes?: number;
+  streaming: boolean;
+  state: NetworkEntryState;
+  error?: string;
+  cancelReason?: string;
+}
+
+const DEFAULT_LIMIT = 300;
+const MAX_BODY_CHARS = 20_000;
+
+function headersToRecord(headers: HeadersInit | undefined): Record<string, string> {
+  const record: Record<string, string> = {};
+  new Headers(headers).forEach((value, name) => { record[name] = value; });
+  return record;
+}
+
+function parseUrl(url: string): { href: string; endpoint: string; params: Record<string, string> } {
+  try {
+    const parsed = new URL(url, window.location.origin);
+    return { href: parsed.href, endpoint: parsed.pathname, params: Object.fromEntries(parsed.searchParams) };
+  } catch {
+    return { href: url, endpoint: url, params: {} };
+  }
+}
+
+function byteLength(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
+
+export class NetworkLog {
+  private entries: NetworkEntry[] = [];
+  private listeners = new Set<() => void>();
+  private nextId = 1;
+
+  constructor(private readonly limit: number = DEFAULT_LIMIT) {}
+
+  start(url: string, init: RequestInit, auth: AuthConfig['type'] = 'none'): number {
+    const { href, endpoint, params } = parseUrl(url);
+    const body = typeof init.body === 'string' ? init.body : undefined;
+    const requestHeaders = headersToRecord(init.headers);
+    const entry: NetworkEntry = {
+      id: this.nextId++,
+      method: (init.method || 'GET').toUpperCase(),
+      url: href,
+      endpoint,
+      params,
+      requestHeaders,
+      requestBody: body !== undefined && body.length > MAX_BODY_CHARS ? `${body.slice(0, MAX_BODY_CHARS)}…` : body,
+      requestBytes: body ? byteLength(body) : 0,
+      auth,
+      startedAt: Date.now(),
+      streaming: /text\/event-stream/i.test(requestHeaders['accept'] ?? ''),
+      state: 'pending',
+    };
+    this.entries = [...this.entries, entry].slice(-this.limit);
+    this.notify();
+    return entry.id;
+  }
+
+  /**
+   * Record the response status. The body size comes from Content-Length, or is
+   * measured from a clone for non-streaming responses.
+   */
+  complete(id: number, response: Response, durationMs: number): void {
+    const contentLength = Number(response.headers?.get('Content-Length'));
+    const streaming = /text\/event-stream/i.test(response.headers?.get('Content-Type') ?? '');
+    this.update(id, {
+      status: response.status,
+      durationMs,
+      state: response.ok ? 'success' : 'error',
+      streaming: this.find(id)?.streaming || streaming,
+      responseBytes: Number.isFinite(contentLength) && contentLength > 0 ? contentLength : undefined,
+    });
+
+    if (streaming || this.find(id)?.responseBytes !== undefined || typeof response.clone !== 'function') return;
+    response.clone().arrayBuffer()
+      .then(buffer => this.update(id, { responseBytes: buffer.byteLength }))
+      .catch(() => { /* body consumed or aborted; size stays unknown */ });
+  }
+
+  fail(id: number, error: string, durationMs: number): void {
+    this.update(id, { state: 'error', error, durationMs });
+  }
+
+  cancel(id: number, reason: string, durationMs: number): void {
+    this.update(id, { state: 'cancelled', cancelReason: reason, durationMs });
+  }
+
+  getEntries(): NetworkEntry[] {
+    return this.entries;
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.notify();
+  }
+
+  /**
+   * Listen for new or updated entries. Returns an unsubscribe function.
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private find(id: number): NetworkEntry | undefined {
+    return this.entries.find(e => e.id === id);
+  }
+
+  private update(id: number, patch: Partial<NetworkEntry>): void {
+    if (!this.find(id)) return;
+    this.entries = this.entries.map(e => (e.id === id ? { ...e, ...patch } : e));
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+const shellQuote = (value: string): string => `'${value.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * Reproduce a request as a curl command. Credentials are replaced by shell
+ * variables ($GCA_TOKEN, $GCA_AUTH_HEADER, $GCA_COOKIE) to fill in locally.
+ */
+export function toCurl(entry: NetworkEntry): string {
+  const parts = ['curl'];
+  if (entry.method !== 'GET') parts.push('-X', entry.method);
+  parts.push(shellQuote(entry.url));
+  for (const [name, value] of Object.entries(entry.requestHeaders)) {
+    parts.push('-H', shellQuote(`${name}: ${value}`));
+  }
+  if (entry.auth === 'bearer') parts.push('-H', '"Authorization: Bearer $GCA_TOKEN"');
+  if (entry.auth === 'header') parts.push('-H', '"$GCA_AUTH_HEADER"');
+  if (entry.auth === 'cookie') parts.push('-b', '"$GCA_COOKIE"');
+  if (entry.requestBody !== undefined) parts.push('--data-raw', shellQuote(entry.requestBody));
+  if (entry.streaming) parts.push('-N');
+  return parts.join(' ');
+}
+
+export const networkLog = new NetworkLog();
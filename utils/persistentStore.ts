@@ -0,0 +1,278 @@
+/**
+ * Persistent Store - IndexedDB cache of project data that survives reloads
+ *
+ * Entries are scoped by backend URL + project (see queryScope) and tagged
+ * with a kind. Sizes are tracked per entry (serialized JSON length), and the
+ * least recently used entries are evicted once the store exceeds its budget.
+ * Persistence is best-effort: storage failures are logged, never thrown.
+ */
+import { STORAGE_CONFIG } from '../constants';
+import { logger } from '../logger';
+import { queryScope } from './queryCache';
+
+export type PersistedKind = 'manifest' | 'graph' | 'fileDetails' | 'symbol';
+
+export interface PersistedEntryMeta {
+  key: string;
+  scope: string;
+  kind: PersistedKind;
+  id: string;
+  size: number;
+  updatedAt: number;
+  accessedAt: number;
+}
+
+export interface StoreUsage {
+  totalBytes: number;
+  entryCount: number;
+  /** Per backend + project, largest first */
+  scopes: Array<{ scope: string; bytes: number; entries: number }>;
+}
+
+/**
+ * Storage primitives behind PersistentStore. Values are stored as JSON text.
+ */
+export interface StoreBackend {
+  listMeta(): Promise<PersistedEntryMeta[]>;
+  getValue(key: string): Promise<string | undefined>;
+  putEntry(meta: PersistedEntryMeta, json: string): Promise<void>;
+  putMeta(meta: PersistedEntryMeta): Promise<void>;
+  deleteEntries(keys: string[]): Promise<void>;
+}
+
+export class MemoryStoreBackend implements StoreBackend {
+  private meta = new Map<string, PersistedEntryMeta>();
+  private values = new Map<string, string>();
+
+  async listMeta() { return Array.from(this.meta.values()); }
+  async getValue(key: string) { return this.values.get(key); }
+  async putEntry(meta: PersistedEntryMeta, json: string) {
+    this.meta.set(meta.key, meta);
+    this.values.set(meta.key, json);
+  }
+  async putMeta(meta: PersistedEntryMeta) {
+    if (this.meta.has(meta.key)) this.meta.set(meta.key, meta);
+  }
+  async deleteEntries(keys: string[]) {
+    keys.forEach(key => {
+      this.meta.delete(key);
+      this.values.delete(key);
+    });
+  }
+}
+
+const META_STORE = 'meta';
+const VALUE_STORE = 'values';
+
+function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
+
+export class IndexedDBStoreBackend implements StoreBackend {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly dbName: string = STORAGE_CONFIG.DB_NAME) {}
+
+  private db(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const req = indexedDB.open(this.dbName, 1);
+        req.onupgradeneeded = () => {
+          req.result.createObjectStore(META_STORE, { keyPath: 'key' });
+          req.result.createObjectStore(VALUE_STORE, { keyPath: 'key' });
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      });
+      // Allow a later call to retry if opening failed (e.g. blocked by another tab)
+      this.dbPromise.catch(() => { this.dbPromise = null; });
+    }
+    return this.dbPromise;
+  }
+
+  async listMeta(): Promise<PersistedEntryMeta[]> {
+    const db = await this.db();
+    return promisify(db.transaction(META_STORE).objectStore(META_STORE).getAll());
+  }
+
+  async getValue(key: string): Promise<string | undefined> {
+    const db = await this.db();
+    const record = await promisify(db.transaction(VALUE_STORE).objectStore(VALUE_STORE).get(key));
+    return record?.json;
+  }
+
+  async putEntry(meta: PersistedEntryMeta, json: string): Promise<void> {
+    const db = await this.db();
+    const tx = db.transaction([META_STORE, VALUE_STORE], 'readwrite');
+    tx.objectStore(META_STORE).put(meta);
+    tx.objectStore(VALUE_STORE).put({ key: meta.key, json });
+    await transactionDone(tx);
+  }
+
+  async putMeta(meta: PersistedEntryMeta): Promise<void> {
+    const db = await this.db();
+    const tx = db.transaction(META_STORE, 'readwrite');
+    tx.objectStore(META_STORE).put(meta);
+    await transactionDone(tx);
+  }
+
+  async deleteEntries(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    const db = await this.db();
+    const tx = db.transaction([META_STORE, VALUE_STORE], 'readwrite');
+    keys.forEach(key => {
+      tx.objectStore(META_STORE).delete(key);
+      tx.objectStore(VALUE_STORE).delete(key);
+    });
+    await transactionDone(tx);
+  }
+}
+
+export class PersistentStore {
+  // In-memory mirror of the meta records, loaded once, for size accounting without extra reads
+  private metaPromise: Promise<Map<string, PersistedEntryMeta>> | null = null;
+
+  constructor(
+    private readonly backend: StoreBackend,
+    private readonly maxBytes: number = STORAGE_CONFIG.MAX_BYTES,
+    private readonly maxEntryBytes: number = STORAGE_CONFIG.MAX_ENTRY_BYTES
+  ) {}
+
+  private loadMeta(): Promise<Map<string, PersistedEntryMeta>> {
+    if (!this.metaPromise) {
+      this.metaPromise = this.backend.listMeta()
+        .then(list => new Map(list.map(meta => [meta.key, meta])))
+        .catch(err => {
+          logger.warn('[persistentStore] Failed to read cache index:', err);
+          this.metaPromise = null;
+          return new Map<string, PersistedEntryMeta>();
+        });
+    }
+    return this.metaPromise;
+  }
+
+  /**
+   * Entries written more than `maxAgeMs` ago count as misses, so callers refetch
+   * (and overwrite) them instead of serving them indefinitely.
+   */
+  async get<T>(scope: string, kind: PersistedKind, id: string = '', maxAgeMs?: number): Promise<T | undefined> {
+    try {
+      const index = await this.loadMeta();
+      const meta = index.get(entryKey(scope, kind, id));
+      if (!meta) return undefined;
+      if (maxAgeMs !== undefined && Date.now() - meta.updatedAt > maxAgeMs) return undefined;
+      const json = await this.backend.getValue(meta.key);
+      if (json === undefined) {
+        index.delete(meta.key);
+        return undefined;
+      }
+      const touched = { ...meta, accessedAt: Date.now() };
+      index.set(meta.key, touched);
+      this.backend.putMeta(touched).catch(() => { /* access time is advisory */ });
+      return JSON.parse(json) as T;
+    } catch (err) {
+      logger.warn('[persistentStore] Read failed:', kind, id, err);
+      return undefined;
+    }
+  }
+
+  async put(scope: string, kind: PersistedKind, id: string, value: unknown): Promise<void> {
+    try {
+      const json = JSON.stringify(value);
+      if (json === undefined) return;
+      if (json.length > this.maxEntryBytes) {
+        logger.debug('[persistentStore] Skipping oversized entry:', kind, id, json.length);
+        return;
+      }
+      const index = await this.loadMeta();
+      const now = Date.now();
+      const meta: PersistedEntryMeta = { key: entryKey(scope, kind, id), scope, kind, id, size: json.length, updatedAt: now, accessedAt: now };
+      await this.backend.putEntry(meta, json);
+      index.set(meta.key, meta);
+      await this.evictIfNeeded(index);
+    } catch (err) {
+      logger.warn('[persistentStore] Write failed:', kind, id, err);
+    }
+  }
+
+  /**
+   * Remove every entry, or only those of one backend + project scope.
+   */
+  async clear(scope?: string): Promise<void> {
+    await this.deleteWhere(meta => scope === undefined || meta.scope === scope);
+  }
+
+  /**
+   * Drop every entry of one backend, or of one project on it (mirrors QueryCache.invalidate).
+   */
+  async invalidate(baseUrl: string, projectId?: string): Promise<void> {
+    const prefix = queryScope(baseUrl);
+    const scope = projectId === undefined ? undefined : queryScope(baseUrl, projectId);
+    await this.deleteWhere(meta => scope === undefined ? meta.scope.startsWith(prefix) : meta.scope === scope);
+  }
+
+  async usage(): Promise<StoreUsage> {
+    const index = await this.loadMeta();
+    const byScope = new Map<string, { scope: string; bytes: number; entries: number }>();
+    let totalBytes = 0;
+    for (const meta of index.values()) {
+      totalBytes += meta.size;
+      const bucket = byScope.get(meta.scope) ?? { scope: meta.scope, bytes: 0, entries: 0 };
+      bucket.bytes += meta.size;
+      bucket.entries++;
+      byScope.set(meta.scope, bucket);
+    }
+    return {
+      totalBytes,
+      entryCount: index.size,
+      scopes: Array.from(byScope.values()).sort((a, b) => b.bytes - a.bytes),
+    };
+  }
+
+  private async deleteWhere(predicate: (meta: PersistedEntryMeta) => boolean): Promise<void> {
+    try {
+      const index = await this.loadMeta();
+      const keys = Array.from(index.values()).filter(predicate).map(meta => meta.key);
+      await this.backend.deleteEntries(keys);
+      keys.forEach(key => index.delete(key));
+    } catch (err) {
+      logger.warn('[persistentStore] Delete failed:', err);
+    }
+  }
+
+  private async evictIfNeeded(index: Map<string, PersistedEntryMeta>): Promise<void> {
+    let total = 0;
+    for (const meta of index.values()) total += meta.size;
+    if (total <= this.maxBytes) return;
+
+    const target = this.maxBytes * STORAGE_CONFIG.EVICT_TO_RATIO;
+    const victims: string[] = [];
+    for (const meta of Array.from(index.values()).sort((a, b) => a.accessedAt - b.accessedAt)) {
+      if (total <= target) break;
+      victims.push(meta.key);
+      total -= meta.size;
+    }
+    await this.backend.deleteEntries(victims);
+    victims.forEach(key => index.delete(key));
+    logger.debug('[persistentStore] Evicted', victims.length, 'entries');
+  }
+}
+
+function entryKey(scope: string, kind: PersistedKind, id: string): string {
+  return `${scope} ${kind} ${id}`;
+}
+
+export const persistentStore = new PersistentStore(
+  typeof indexedDB !== 'undefined' ? new IndexedDBStoreBackend() : new MemoryStoreBackend()
+);
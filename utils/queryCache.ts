@@ -0,0 +1,131 @@
+/**
+ * Query Cache - Deduplicates and caches GET responses per backend + project
+ *
+ * - Identical requests in flight share one network call. The shared call is
+ *   aborted only when every caller waiting on it has aborted.
+ * - Fresh entries are served from cache; stale entries are served immediately
+ *   and refreshed in the background (stale-while-revalidate).
+ * - Entries are grouped by scope (backend URL + project) so a project's
+ *   data can be invalidated after it changes on the backend.
+ */
+import { TTLBoundedCache } from './cacheUtils';
+import { API_CONFIG } from '../constants';
+import { logger } from '../logger';
+
+interface CacheEntry {
+  value: unknown;
+  fetchedAt: number;
+}
+
+interface InFlight {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+}
+
+type Loader<T> = (signal: AbortSignal) => Promise<T>;
+
+// Callers get their own copy so mutations (e.g. D3 rewriting link endpoints) never leak into the cache
+const copy = <T>(value: T): T => (value !== null && typeof value === 'object' ? structuredClone(value) : value);
+
+function withAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new DOMException('Request cancelled', 'AbortError'));
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new DOMException('Request cancelled', 'AbortError'));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+export function queryScope(baseUrl: string, projectId?: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}|${projectId ?? ''}`;
+}
+
+export class QueryCache {
+  private entries: TTLBoundedCache<string, CacheEntry>;
+  private inflight = new Map<string, InFlight>();
+  private readonly freshMs: number;
+
+  constructor(
+    maxEntries: number = API_CONFIG.QUERY_CACHE.MAX_ENTRIES,
+    freshMs: number = API_CONFIG.QUERY_CACHE.FRESH_MS,
+    ttlMs: number = API_CONFIG.QUERY_CACHE.TTL_MS
+  ) {
+    this.entries = new TTLBoundedCache(maxEntries, ttlMs);
+    this.freshMs = freshMs;
+  }
+
+  /**
+   * Resolve `key` within `scope` from cache, an identical in-flight call, or `loader`.
+   */
+  async fetch<T>(scope: string, key: string, loader: Loader<T>, signal?: AbortSignal): Promise<T> {
+    const cacheKey = `${scope} ${key}`;
+    const cached = this.entries.get(cacheKey);
+    if (cached) {
+      if (Date.now() - cached.fetchedAt > this.freshMs && !this.inflight.has(cacheKey)) {
+        this.start(cacheKey, loader).promise.catch(err =>
+          logger.warn('[queryCache] Background revalidation failed:', key, err.message));
+      }
+      return copy(cached.value as T);
+    }
+
+    const flight = this.inflight.get(cacheKey) ?? this.start(cacheKey, loader);
+    flight.waiters++;
+    try {
+      return copy(await withAbort(flight.promise as Promise<T>, signal));
+    } finally {
+      flight.waiters--;
+      if (flight.waiters === 0 && this.inflight.get(cacheKey) === flight && signal?.aborted) {
+        this.inflight.delete(cacheKey);
+        flight.controller.abort(signal.reason);
+      }
+    }
+  }
+
+  /**
+   * Drop cached and in-flight results for a project, or for every project of a backend.
+   * In-flight calls still settle for their callers but no longer populate the cache.
+   */
+  invalidate(baseUrl: string, projectId?: string): void {
+    // `${base}|` covers every scope of the backend; `${base}|${project} ` only that project
+    const prefix = projectId === undefined ? queryScope(baseUrl) : `${queryScope(baseUrl, projectId)} `;
+    const matches = (key: string) => key.startsWith(prefix);
+    let dropped = 0;
+    for (const key of this.entries.keys()) {
+      if (matches(key)) {
+        this.entries.delete(key);
+        dropped++;
+      }
+    }
+    for (const key of Array.from(this.inflight.keys())) {
+      if (matches(key)) this.inflight.delete(key);
+    }
+    logger.debug('[queryCache] Invalidated', prefix, `(${dropped} entries)`);
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.inflight.clear();
+  }
+
+  private start<T>(cacheKey: string, loader: Loader<T>): InFlight {
+    const controller = new AbortController();
+    const flight: InFlight = { promise: Promise.resolve(), controller, waiters: 0 };
+    flight.promise = loader(controller.signal)
+      .then(value => {
+        // Skip the write if this call was invalidated or superseded meanwhile
+        if (this.inflight.get(cacheKey) === flight) {
+          this.entries.set(cacheKey, { value, fetchedAt: Date.now() });
+        }
+        return value;
+      })
+      .finally(() => {
+        if (this.inflight.get(cacheKey) === flight) this.inflight.delete(cacheKey);
+      });
+    this.inflight.set(cacheKey, flight);
+    return flight;
+  }
+}
+
+export const queryCache = new QueryCache();
@@ -1,60 +1,86 @@
 // Intent classification for query routing
 // ClassifyQueryMode, classifyIntentRoute extracted from App.tsx
-// Patterns loaded from gca-fe/data/queryPatterns.json
+// Patterns come from routingPatternStore: data/queryPatterns.json plus user edits
+// combineIntent merges the regex route with the /api/v1/ai/classify result for the search bar preview
 
-import queryPatterns from '../data/queryPatterns.json';
+import { CompiledPattern, RoutingPattern, routingPatternStore } from './routingPatterns';
 
 export type QueryMode = 'explore' | 'explain' | 'navigate';
 export type IntentRoute = 'explore' | 'explain' | 'navigate' | 'test' | 'security' | 'refactor' | 'performance';
 
-interface PatternEntry {
-  source: string;
-  flags: string;
+export interface IntentMatch {
+  route: IntentRoute;
+  /** Pattern that decided the route; null when nothing matched and the query defaults to explain */
+  pattern: RoutingPattern | null;
 }
 
-function compilePatterns(entries: PatternEntry[]): RegExp[] {
-  return entries.map(e => new RegExp(e.source, e.flags));
-}
-
-const explorePatterns = compilePatterns(queryPatterns.explorePatterns);
-const navigatePatterns = compilePatterns(queryPatterns.navigatePatterns);
-const testPatterns = compilePatterns(queryPatterns.testPatterns);
-const securityPatterns = compilePatterns(queryPatterns.securityPatterns);
-const refactorPatterns = compilePatterns(queryPatterns.refactorPatterns);
-const performancePatterns = compilePatterns(queryPatterns.performancePatterns);
-
-export function classifyQueryMode(query: string): QueryMode {
+/**
+ * Route a query and report which pattern matched. Patterns are tried in
+ * ROUTING_INTENTS order (test, security, refactor, performance, explore,
+ * navigate) against the lowercased query.
+ */
+export function matchIntentRoute(query: string, compiled: readonly CompiledPattern[] = routingPatternStore.getCompiled()): IntentMatch {
   const q = query.toLowerCase();
-
-  for (const pattern of explorePatterns) {
-    if (pattern.test(q)) return 'explore';
-  }
-
-  for (const pattern of navigatePatterns) {
-    if (pattern.test(q)) return 'navigate';
+  for (const { pattern, regex } of compiled) {
+    if (regex.test(q)) return { route: pattern.intent, pattern };
   }
+  return { route: 'explain', pattern: null };
+}
 
-  return 'explain';
+export function classifyQueryMode(query: string): QueryMode {
+  const modePatterns = routingPatternStore.getCompiled().filter(c => c.pattern.intent === 'explore' || c.pattern.intent === 'navigate');
+  return matchIntentRoute(query, modePatterns).route as QueryMode;
 }
 
 export function classifyIntentRoute(query: string): IntentRoute {
-  const q = query.toLowerCase();
+  return matchIntentRoute(query).route;
+}
 
-  for (const pattern of testPatterns) {
-    if (pattern.test(q)) return 'test';
-  }
+export const INTENT_ROUTES: readonly IntentRoute[] = ['explain', 'explore', 'navigate', 'test', 'security', 'refactor', 'performance'];
 
-  for (const pattern of securityPatterns) {
-    if (pattern.test(q)) return 'security';
-  }
+// Backend classifier intents (INTENT_TYPES) and the route that handles them
+const CLASSIFIER_ROUTES: Record<string, IntentRoute> = {
+  who_calls: 'explore',
+  what_calls: 'explore',
+  how_reaches: 'explore',
+  security_audit: 'security',
+  refactor: 'refactor',
+  test_generation: 'test',
+  performance: 'performance',
+  explain: 'explain',
+  summarize: 'explain',
+  find: 'explain',
+  chat: 'explain',
+};
 
-  for (const pattern of refactorPatterns) {
-    if (pattern.test(q)) return 'refactor';
-  }
+/** Classifier confidence needed to overrule the regex route */
+export const CLASSIFIER_MIN_CONFIDENCE = 0.7;
 
-  for (const pattern of performancePatterns) {
-    if (pattern.test(q)) return 'performance';
-  }
+export interface IntentPreview {
+  route: IntentRoute;
+  /** Which signal decided the route */
+  source: 'regex' | 'classifier';
+  regexRoute: IntentRoute;
+  classifierIntent?: string;
+  confidence?: number;
+}
+
+/**
+ * Combine the regex route with the backend classifier's answer. A confident
+ * classifier wins, so "reset the password field" is not sent to a security
+ * audit just for mentioning "password"; file paths always navigate.
+ */
+export function combineIntent(query: string, classification?: { intent: string; confidence: number } | null): IntentPreview {
+  const regexRoute = classifyIntentRoute(query);
+  const preview: IntentPreview = { route: regexRoute, source: 'regex', regexRoute };
+  if (!classification) return preview;
 
-  return classifyQueryMode(query) as IntentRoute;
-}
\ No newline at end of file
+  preview.classifierIntent = classification.intent;
+  preview.confidence = classification.confidence;
+  const classifierRoute = CLASSIFIER_ROUTES[classification.intent];
+  if (classifierRoute && regexRoute !== 'navigate' && classification.confidence >= CLASSIFIER_MIN_CONFIDENCE) {
+    preview.route = classifierRoute;
+    preview.source = 'classifier';
+  }
+  return preview;
+}
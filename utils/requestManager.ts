@@ -5,6 +5,27 @@
 
 type RequestId = string;
 
+// Abort reasons created here, so they can be told apart from anonymous aborts
+const cancellations = new WeakSet<DOMException>();
+
+/**
+ * Abort reason carrying why a request was cancelled. It is an AbortError, so
+ * callers that ignore aborted requests keep working.
+ */
+export function cancellation(reason: string): DOMException {
+  const error = new DOMException(reason, 'AbortError');
+  cancellations.add(error);
+  return error;
+}
+
+/**
+ * Why an aborted signal was cancelled, for the network inspector.
+ */
+export function describeAbortReason(signal: AbortSignal | null | undefined): string {
+  const reason: unknown = signal?.reason;
+  return reason instanceof DOMException && cancellations.has(reason) ? reason.message : 'cancelled by caller';
+}
+
 class RequestManager {
   private pending = new Map<RequestId, AbortController>();
 
@@ -12,7 +33,8 @@ class RequestManager {
    * Start tracking a new request
    */
   startRequest(id: string): AbortController {
-    this.cancelRequest(id); // Cancel any existing request with same ID
+    // Cancel any existing request with same ID
+    this.cancelRequest(id, `superseded by a newer "${id}" request`);
     const controller = new AbortController();
     this.pending.set(id, controller);
     return controller;
@@ -21,10 +43,10 @@ class RequestManager {
   /**
    * Cancel a specific request by ID
    */
-  cancelRequest(id: string): void {
+  cancelRequest(id: string, reason = `"${id}" cancelled`): void {
     const controller = this.pending.get(id);
     if (controller) {
-      controller.abort();
+      controller.abort(cancellation(reason));
       this.pending.delete(id);
     }
   }
@@ -32,8 +54,8 @@ class RequestManager {
   /**
    * Cancel all pending requests
    */
-  cancelAll(): void {
-    this.pending.forEach(controller => controller.abort());
+  cancelAll(reason = 'all requests cancelled'): void {
+    this.pending.forEach(controller => controller.abort(cancellation(reason)));
     this.pending.clear();
   }
 
@@ -0,0 +1,59 @@
+/**
+ * Retry Policy - Backoff and Retry-After handling for transient API failures
+ */
+import { API_CONFIG } from '../constants';
+
+// Statuses that signal a transient backend condition rather than a bad request
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUSES.has(status);
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds.
+ * Returns null when the header is absent or unparseable.
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | null {
+  if (!header) return null;
+  const trimmed = header.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000;
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with jitter for the given 1-based retry number.
+ * Half the delay is fixed and half is random, so concurrent callers spread out.
+ */
+export function backoffDelay(
+  retry: number,
+  baseMs: number = API_CONFIG.RETRY.BASE_DELAY_MS,
+  maxMs: number = API_CONFIG.RETRY.MAX_DELAY_MS,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(maxMs, baseMs * 2 ** (retry - 1));
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+}
+
+/**
+ * Resolve after `ms`, or reject early if the signal aborts.
+ */
+export function waitFor(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Request cancelled', 'AbortError'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Request cancelled', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
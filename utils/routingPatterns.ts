@@ -0,0 +1,237 @@
+/**
+ * Routing Patterns - Built-in query routing regexes plus the user's own
+ *
+ * The defaults ship in data/queryPatterns.json. Users can add patterns for
+ * their domain vocabulary and disable built-ins; those changes are kept in
+ * localStorage and layered over the defaults, so new defaults still arrive
+ * with an update. classifyIntentRoute reads the merged, compiled set from here.
+ */
+import queryPatterns from '../data/queryPatterns.json';
+import { logger } from '../logger';
+import { LocalStore, safeStorage } from './localStore';
+
+export type RoutingIntent = 'explore' | 'navigate' | 'test' | 'security' | 'refactor' | 'performance';
+
+/** Evaluation order: the first intent with a matching pattern wins */
+export const ROUTING_INTENTS: readonly RoutingIntent[] = ['test', 'security', 'refactor', 'performance', 'explore', 'navigate'];
+
+export interface RoutingPattern {
+  id: string;
+  intent: RoutingIntent;
+  source: string;
+  flags: string;
+  builtIn: boolean;
+  enabled: boolean;
+}
+
+export interface CompiledPattern {
+  pattern: RoutingPattern;
+  regex: RegExp;
+}
+
+export interface RoutingPatternExport {
+  format: 'gca-routing-patterns';
+  version: 1;
+  custom: Array<Pick<RoutingPattern, 'intent' | 'source' | 'flags' | 'enabled'>>;
+  disabledBuiltIns: string[];
+}
+
+interface StoredOverrides {
+  custom: RoutingPattern[];
+  disabledBuiltIns: string[];
+}
+
+export class InvalidPatternError extends Error {
+  constructor(readonly source: string, readonly reason: string) {
+    super(`Invalid pattern /${source}/: ${reason}`);
+    this.name = 'InvalidPatternError';
+  }
+}
+
+const STORAGE_KEY = 'gca_routing_patterns_v1';
+const VALID_FLAGS = /^[imsu]*$/;
+
+// Derived from the pattern itself, so disabled built-ins survive reordering of the defaults
+const builtInId = (intent: RoutingIntent, source: string, flags: string) => `builtin:${intent}:/${source}/${flags}`;
+
+const BUILT_IN: RoutingPattern[] = ROUTING_INTENTS.flatMap(intent =>
+  (queryPatterns[`${intent}Patterns` as keyof typeof queryPatterns] ?? []).map(entry => ({
+    id: builtInId(intent, entry.source, entry.flags),
+    intent,
+    source: entry.source,
+    flags: entry.flags,
+    builtIn: true,
+    enabled: true,
+  }))
+);
+
+/**
+ * Compile a pattern, or throw InvalidPatternError. Global and sticky flags are
+ * rejected because `test()` on such a regex is stateful.
+ */
+export function compilePattern(source: string, flags: string): RegExp {
+  if (!source.trim()) throw new InvalidPatternError(source, 'pattern is empty');
+  if (!VALID_FLAGS.test(flags)) throw new InvalidPatternError(source, `unsupported flags "${flags}" (use i, m, s, u)`);
+  try {
+    return new RegExp(source, flags);
+  } catch (err) {
+    throw new InvalidPatternError(source, err instanceof Error ? err.message : String(err));
+  }
+}
+
+const isIntent = (value: unknown): value is RoutingIntent => ROUTING_INTENTS.includes(value as RoutingIntent);
+
+const NO_OVERRIDES: StoredOverrides = { custom: [], disabledBuiltIns: [] };
+
+function parseOverrides(parsed: unknown): StoredOverrides {
+  const raw = parsed && typeof parsed === 'object' ? parsed as Record<string, unknown> : {};
+  return {
+    custom: Array.isArray(raw.custom) ? raw.custom.filter((p: RoutingPattern) => p && isIntent(p.intent) && typeof p.source === 'string') : [],
+    disabledBuiltIns: Array.isArray(raw.disabledBuiltIns) ? raw.disabledBuiltIns : [],
+  };
+}
+
+export class RoutingPatternStore {
+  private store: LocalStore<StoredOverrides>;
+  // Merged and compiled lazily, once per overrides value
+  private builtFrom: StoredOverrides | null = null;
+  private patterns: RoutingPattern[] = [];
+  private compiled: CompiledPattern[] = [];
+
+  constructor(storage: Storage | null = safeStorage()) {
+    this.store = new LocalStore(storage, { key: STORAGE_KEY, fallback: NO_OVERRIDES, parse: parseOverrides });
+  }
+
+  /** Built-ins followed by custom patterns */
+  getPatterns(): RoutingPattern[] {
+    this.rebuildIfChanged();
+    return this.patterns;
+  }
+
+  /** Enabled patterns in evaluation order */
+  getCompiled(): CompiledPattern[] {
+    this.rebuildIfChanged();
+    return this.compiled;
+  }
+
+  /** Throws InvalidPatternError */
+  add(intent: RoutingIntent, source: string, flags = 'i'): RoutingPattern {
+    compilePattern(source, flags);
+    const pattern: RoutingPattern = {
+      id: `custom:${Math.random().toString(36).substring(2, 10)}`,
+      intent,
+      source,
+      flags,
+      builtIn: false,
+      enabled: true,
+    };
+    this.store.set({ ...this.overrides, custom: [...this.overrides.custom, pattern] });
+    return pattern;
+  }
+
+  /** Custom patterns only; throws InvalidPatternError */
+  update(id: string, changes: Partial<Pick<RoutingPattern, 'intent' | 'source' | 'flags'>>): void {
+    const existing = this.overrides.custom.find(p => p.id === id);
+    if (!existing) return;
+    const next = { ...existing, ...changes };
+    compilePattern(next.source, next.flags);
+    this.store.set({ ...this.overrides, custom: this.overrides.custom.map(p => (p.id === id ? next : p)) });
+  }
+
+  /** Custom patterns are deleted; built-ins can only be disabled */
+  remove(id: string): void {
+    this.store.set({ ...this.overrides, custom: this.overrides.custom.filter(p => p.id !== id) });
+  }
+
+  setEnabled(id: string, enabled: boolean): void {
+    if (id.startsWith('builtin:')) {
+      const disabled = new Set(this.overrides.disabledBuiltIns);
+      if (enabled) disabled.delete(id);
+      else disabled.add(id);
+      this.store.set({ ...this.overrides, disabledBuiltIns: Array.from(disabled) });
+    } else {
+      this.store.set({ ...this.overrides, custom: this.overrides.custom.map(p => (p.id === id ? { ...p, enabled } : p)) });
+    }
+  }
+
+  /** Drop all custom patterns and re-enable every built-in */
+  reset(): void {
+    this.store.set(NO_OVERRIDES);
+  }
+
+  exportOverrides(): RoutingPatternExport {
+    return {
+      format: 'gca-routing-patterns',
+      version: 1,
+      custom: this.overrides.custom.map(({ intent, source, flags, enabled }) => ({ intent, source, flags, enabled })),
+      disabledBuiltIns: this.overrides.disabledBuiltIns,
+    };
+  }
+
+  /**
+   * Add the custom patterns from an export (skipping ones already present)
+   * and apply its disabled built-ins. Throws InvalidPatternError for a bad
+   * pattern, before anything is changed. Returns the number of patterns added.
+   */
+  importOverrides(data: unknown): number {
+    const raw = data as Partial<RoutingPatternExport> | null;
+    if (!raw || typeof raw !== 'object' || !Array.isArray(raw.custom)) {
+      throw new InvalidPatternError('', 'not a routing pattern export (expected a "custom" array)');
+    }
+    const incoming = raw.custom.filter(p => p && isIntent(p.intent) && typeof p.source === 'string');
+    incoming.forEach(p => compilePattern(p.source, p.flags ?? ''));
+
+    const key = (p: { intent: string; source: string; flags?: string }) => `${p.intent}\u0000${p.source}\u0000${p.flags ?? ''}`;
+    const existing = new Set(this.overrides.custom.map(key));
+    const added = incoming
+      .filter(p => !existing.has(key(p)))
+      .map(p => ({
+        id: `custom:${Math.random().toString(36).substring(2, 10)}`,
+        intent: p.intent,
+        source: p.source,
+        flags: p.flags ?? '',
+        builtIn: false,
+        enabled: p.enabled !== false,
+      }));
+    const disabled = Array.isArray(raw.disabledBuiltIns)
+      ? raw.disabledBuiltIns.filter(id => typeof id === 'string' && BUILT_IN.some(p => p.id === id))
+      : [];
+
+    this.store.set({
+      custom: [...this.overrides.custom, ...added],
+      disabledBuiltIns: Array.from(new Set([...this.overrides.disabledBuiltIns, ...disabled])),
+    });
+    return added.length;
+  }
+
+  subscribe(listener: () => void): () => void {
+    return this.store.subscribe(listener);
+  }
+
+  private get overrides(): StoredOverrides {
+    return this.store.get();
+  }
+
+  private rebuildIfChanged(): void {
+    if (this.builtFrom === this.overrides) return;
+    this.builtFrom = this.overrides;
+    const disabled = new Set(this.overrides.disabledBuiltIns);
+    this.patterns = [
+      ...BUILT_IN.map(p => (disabled.has(p.id) ? { ...p, enabled: false } : p)),
+      ...this.overrides.custom,
+    ];
+    this.compiled = [];
+    for (const intent of ROUTING_INTENTS) {
+      for (const pattern of this.patterns) {
+        if (pattern.intent !== intent || !pattern.enabled) continue;
+        try {
+          this.compiled.push({ pattern, regex: compilePattern(pattern.source, pattern.flags) });
+        } catch (err) {
+          logger.warn('[routingPatterns] Skipping invalid pattern:', err);
+        }
+      }
+    }
+  }
+}
+
+export const routingPatternStore = new RoutingPatternStore();
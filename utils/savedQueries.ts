@@ -0,0 +1,208 @@
+/**
+ * Saved Queries - Named, per-project query library
+ *
+ * Natural-language questions, Datalog and path queries can be saved with tags,
+ * notes and a pin, and remember the intent they were last routed to. Libraries
+ * are kept in localStorage keyed by project and can be exported to JSON and
+ * imported into another project or by another user.
+ */
+import { LocalStore, safeStorage } from './localStore';
+
+export type SavedQueryKind = 'natural' | 'datalog' | 'path';
+
+export interface SavedQuery {
+  id: string;
+  name: string;
+  query: string;
+  kind: SavedQueryKind;
+  tags: string[];
+  pinned: boolean;
+  notes?: string;
+  /** Intent route the query resolved to when last run (e.g. 'explore', 'security') */
+  intent?: string;
+  createdAt: number;
+  updatedAt: number;
+  lastRunAt?: number;
+}
+
+export interface SavedQueryLibrary {
+  format: 'gca-saved-queries';
+  version: 1;
+  project: string;
+  exportedAt: string;
+  queries: SavedQuery[];
+}
+
+export class SavedQueryImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SavedQueryImportError';
+  }
+}
+
+const STORAGE_KEY = 'gca_saved_queries_v1';
+const EMPTY: SavedQuery[] = [];
+
+const DATALOG_RE = /^\s*(not\s+)?[a-z_]\w*\s*\([^)]*\)/;
+const PATH_RE = /\b(path|flow|route|reach(es|able)?)\b.*\bfrom\b.+\bto\b/i;
+
+/**
+ * Guess the kind of a query from its text.
+ */
+export function detectQueryKind(query: string): SavedQueryKind {
+  if (DATALOG_RE.test(query) && /\?\w+|"[^"]*"/.test(query)) return 'datalog';
+  if (PATH_RE.test(query)) return 'path';
+  return 'natural';
+}
+
+export function createSavedQueryId(): string {
+  return Math.random().toString(36).substring(2, 10);
+}
+
+const normalizeTags = (tags: unknown): string[] =>
+  Array.isArray(tags)
+    ? Array.from(new Set(tags.filter((t): t is string => typeof t === 'string').map(t => t.trim().toLowerCase()).filter(Boolean)))
+    : [];
+
+function sanitize(raw: unknown): SavedQuery | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const q = raw as Record<string, unknown>;
+  if (typeof q.query !== 'string' || !q.query.trim()) return null;
+  const now = Date.now();
+  const kind = q.kind === 'datalog' || q.kind === 'path' || q.kind === 'natural' ? q.kind : detectQueryKind(q.query);
+  return {
+    id: typeof q.id === 'string' && q.id ? q.id : createSavedQueryId(),
+    name: typeof q.name === 'string' && q.name.trim() ? q.name.trim() : q.query.slice(0, 60),
+    query: q.query,
+    kind,
+    tags: normalizeTags(q.tags),
+    pinned: q.pinned === true,
+    notes: typeof q.notes === 'string' && q.notes ? q.notes : undefined,
+    intent: typeof q.intent === 'string' && q.intent ? q.intent : undefined,
+    createdAt: typeof q.createdAt === 'number' ? q.createdAt : now,
+    updatedAt: typeof q.updatedAt === 'number' ? q.updatedAt : now,
+    lastRunAt: typeof q.lastRunAt === 'number' ? q.lastRunAt : undefined,
+  };
+}
+
+/**
+ * Pinned first, then most recently used or edited.
+ */
+export function sortSavedQueries(queries: readonly SavedQuery[]): SavedQuery[] {
+  return [...queries].sort((a, b) =>
+    Number(b.pinned) - Number(a.pinned)
+    || Math.max(b.lastRunAt ?? 0, b.updatedAt) - Math.max(a.lastRunAt ?? 0, a.updatedAt)
+  );
+}
+
+function parseLibraries(parsed: unknown): Record<string, SavedQuery[]> {
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+  const libraries: Record<string, SavedQuery[]> = {};
+  for (const [project, list] of Object.entries(parsed)) {
+    if (Array.isArray(list)) libraries[project] = list.map(sanitize).filter((q): q is SavedQuery => q !== null);
+  }
+  return libraries;
+}
+
+export class SavedQueryStore {
+  private libraries: LocalStore<Record<string, SavedQuery[]>>;
+
+  constructor(storage: Storage | null = safeStorage()) {
+    this.libraries = new LocalStore(storage, { key: STORAGE_KEY, fallback: {}, parse: parseLibraries });
+  }
+
+  getQueries(projectId: string): SavedQuery[] {
+    return this.libraries.get()[projectId] ?? EMPTY;
+  }
+
+  /** Insert or replace by id */
+  save(projectId: string, query: SavedQuery): void {
+    const list = this.getQueries(projectId);
+    const saved = { ...query, tags: normalizeTags(query.tags), updatedAt: Date.now() };
+    this.libraries.set({
+      ...this.libraries.get(),
+      [projectId]: list.some(q => q.id === query.id) ? list.map(q => (q.id === query.id ? saved : q)) : [...list, saved],
+    });
+  }
+
+  remove(projectId: string, id: string): void {
+    this.update(projectId, list => list.filter(q => q.id !== id));
+  }
+
+  togglePin(projectId: string, id: string): void {
+    this.update(projectId, list => list.map(q => (q.id === id ? { ...q, pinned: !q.pinned } : q)));
+  }
+
+  /**
+   * Note that `query` was run and what it resolved to. Only saved queries
+   * with exactly this text are touched; unsaved queries are not recorded.
+   */
+  recordRun(projectId: string, query: string, intent?: string): void {
+    const text = query.trim();
+    if (!this.getQueries(projectId).some(q => q.query.trim() === text)) return;
+    const now = Date.now();
+    this.update(projectId, list => list.map(q => (q.query.trim() === text ? { ...q, lastRunAt: now, intent: intent ?? q.intent } : q)));
+  }
+
+  exportLibrary(projectId: string): SavedQueryLibrary {
+    return {
+      format: 'gca-saved-queries',
+      version: 1,
+      project: projectId,
+      exportedAt: new Date().toISOString(),
+      queries: this.getQueries(projectId),
+    };
+  }
+
+  /**
+   * Merge an exported library into `projectId`. Queries whose text already
+   * exists are updated (tags are unioned); the rest are added.
+   * Returns how many queries were added and updated.
+   */
+  importLibrary(projectId: string, data: unknown): { added: number; updated: number } {
+    const entries = Array.isArray(data)
+      ? data
+      : data && typeof data === 'object' && Array.isArray((data as SavedQueryLibrary).queries)
+        ? (data as SavedQueryLibrary).queries
+        : null;
+    if (!entries) throw new SavedQueryImportError('Not a saved query library: expected a "queries" array.');
+
+    const incoming = entries.map(sanitize).filter((q): q is SavedQuery => q !== null);
+    if (entries.length > 0 && incoming.length === 0) throw new SavedQueryImportError('The library contains no valid queries.');
+
+    let added = 0;
+    let updated = 0;
+    const list = [...this.getQueries(projectId)];
+    for (const query of incoming) {
+      const index = list.findIndex(q => q.query.trim() === query.query.trim());
+      if (index >= 0) {
+        const existing = list[index]!;
+        list[index] = {
+          ...existing,
+          name: query.name,
+          notes: query.notes ?? existing.notes,
+          intent: query.intent ?? existing.intent,
+          tags: normalizeTags([...existing.tags, ...query.tags]),
+          pinned: existing.pinned || query.pinned,
+          updatedAt: Date.now(),
+        };
+        updated++;
+      } else {
+        list.push({ ...query, id: list.some(q => q.id === query.id) ? createSavedQueryId() : query.id });
+        added++;
+      }
+    }
+    this.libraries.set({ ...this.libraries.get(), [projectId]: list });
+    return { added, updated };
+  }
+
+  subscribe(listener: () => void): () => void {
+    return this.libraries.subscribe(listener);
+  }
+
+  private update(projectId: string, fn: (list: SavedQuery[]) => SavedQuery[]): void {
+    this.libraries.set({ ...this.libraries.get(), [projectId]: fn(this.getQueries(projectId)) });
+  }
+}
+
+export const savedQueryStore = new SavedQueryStore();
@@ -0,0 +1,172 @@
+/**
+ * Schema - Minimal runtime validators for backend payloads
+ *
+ * Each schema checks a value and returns it typed (optionally normalized),
+ * or throws SchemaValidationError naming the offending field path.
+ * Objects are validated on the listed fields only; unknown fields pass through.
+ */
+
+export class SchemaValidationError extends Error {
+  readonly field: string;
+  readonly expected: string;
+  readonly received: string;
+
+  constructor(field: string, expected: string, received: unknown) {
+    const receivedType = describe(received);
+    super(`${field || '<root>'}: expected ${expected}, got ${receivedType}`);
+    this.name = 'SchemaValidationError';
+    this.field = field;
+    this.expected = expected;
+    this.received = receivedType;
+  }
+}
+
+export interface Schema<T> {
+  readonly expected: string;
+  parse(value: unknown, path?: string): T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function primitive<T>(expected: string, check: (value: unknown) => boolean): Schema<T> {
+  return {
+    expected,
+    parse(value, path = '') {
+      if (!check(value)) throw new SchemaValidationError(path, expected, value);
+      return value as T;
+    },
+  };
+}
+
+export const string = (): Schema<string> => primitive('string', v => typeof v === 'string');
+export const number = (): Schema<number> => primitive('number', v => typeof v === 'number' && !Number.isNaN(v));
+export const boolean = (): Schema<boolean> => primitive('boolean', v => typeof v === 'boolean');
+export const unknown = (): Schema<unknown> => primitive('any value', () => true);
+
+export function literal<T extends string | number | boolean>(...values: T[]): Schema<T> {
+  return primitive(values.map(v => JSON.stringify(v)).join(' | '), v => values.includes(v as T));
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    expected: `${schema.expected} | undefined`,
+    parse(value, path = '') {
+      return value === undefined ? undefined : schema.parse(value, path);
+    },
+  };
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    expected: `${schema.expected} | null`,
+    parse(value, path = '') {
+      return value === null ? null : schema.parse(value, path);
+    },
+  };
+}
+
+/**
+ * Substitute a fallback for null/undefined, so callers can rely on the field.
+ */
+export function withDefault<T>(schema: Schema<T>, fallback: () => T): Schema<T> {
+  return {
+    expected: schema.expected,
+    parse(value, path = '') {
+      return value === undefined || value === null ? fallback() : schema.parse(value, path);
+    },
+  };
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    expected: `${item.expected}[]`,
+    parse(value, path = '') {
+      if (!Array.isArray(value)) throw new SchemaValidationError(path, `${item.expected}[]`, value);
+      return value.map((v, i) => item.parse(v, joinPath(path, i)));
+    },
+  };
+}
+
+export function record<T>(valueSchema: Schema<T>): Schema<Record<string, T>> {
+  return {
+    expected: `Record<string, ${valueSchema.expected}>`,
+    parse(value, path = '') {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new SchemaValidationError(path, 'object', value);
+      }
+      const out: Record<string, T> = {};
+      for (const [k, v] of Object.entries(value)) {
+        out[k] = valueSchema.parse(v, joinPath(path, k));
+      }
+      return out;
+    },
+  };
+}
+
+/**
+ * Field schemas for T. Fields may be left out (not validated) or validated
+ * more leniently than declared (e.g. optional), but never with a wrong type.
+ */
+export type Shape<T> = { [K in keyof T]?: Schema<T[K]> | Schema<T[K] | undefined> };
+
+export function object<T>(shape: Shape<T>): Schema<T> {
+  return {
+    expected: 'object',
+    parse(value, path = '') {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new SchemaValidationError(path, 'object', value);
+      }
+      const input = value as Record<string, unknown>;
+      const out: Record<string, unknown> = { ...input };
+      for (const key of Object.keys(shape) as Array<keyof T & string>) {
+        const fieldSchema = shape[key] as Schema<unknown>;
+        const parsed = fieldSchema.parse(input[key], joinPath(path, key));
+        if (parsed !== undefined || key in input) out[key] = parsed;
+      }
+      return out as T;
+    },
+  };
+}
+
+export function union<A, B>(a: Schema<A>, b: Schema<B>): Schema<A | B> {
+  const expected = `${a.expected} | ${b.expected}`;
+  return {
+    expected,
+    parse(value, path = '') {
+      try {
+        return a.parse(value, path);
+      } catch (err) {
+        if (!(err instanceof SchemaValidationError)) throw err;
+      }
+      try {
+        return b.parse(value, path);
+      } catch (err) {
+        if (!(err instanceof SchemaValidationError)) throw err;
+        throw new SchemaValidationError(path, expected, value);
+      }
+    },
+  };
+}
+
+/**
+ * Validate with `schema`, then normalize the result.
+ */
+export function transform<T, U>(schema: Schema<T>, fn: (value: T) => U): Schema<U> {
+  return {
+    expected: schema.expected,
+    parse(value, path = '') {
+      return fn(schema.parse(value, path));
+    },
+  };
+}
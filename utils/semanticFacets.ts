@@ -0,0 +1,155 @@
+/**
+ * Semantic Facets - Ranked semantic search hits and the facets to narrow them
+ *
+ * A hit starts from the backend's {symbol_id, score, name}; file, directory,
+ * package and language come from the symbol id, while kind and the code
+ * snippet arrive later from /hydrate. Facet counts for one facet are taken
+ * over the hits that pass every *other* facet, so picking a kind still shows
+ * how many hits each language would add.
+ */
+import type { HydratedSymbol, SemanticSearchResult } from '../services/graphService';
+import { detectLanguage } from './languageUtils';
+
+export type FacetKey = 'kind' | 'directory' | 'package' | 'language';
+
+export const FACET_KEYS: readonly FacetKey[] = ['kind', 'package', 'directory', 'language'];
+
+export const FACET_LABELS: Record<FacetKey, string> = {
+  kind: 'Kind',
+  package: 'Package',
+  directory: 'Directory',
+  language: 'Language',
+};
+
+export interface SemanticHit {
+  id: string;
+  name: string;
+  score: number;
+  rank: number;
+  filePath: string;
+  directory: string;
+  package: string;
+  language: string;
+  /** Unknown until hydrated; files are known from the id alone */
+  kind?: string;
+  snippet?: string;
+  startLine?: number;
+  hydrated: boolean;
+}
+
+export type FacetFilters = Partial<Record<FacetKey, string[]>>;
+
+export interface FacetBucket {
+  value: string;
+  count: number;
+  selected: boolean;
+}
+
+const ROOT_DIRECTORY = '(root)';
+const UNKNOWN_KIND = 'unknown';
+/** Top-level folders that group packages rather than being one */
+const CONTAINER_DIRS = new Set(['pkg', 'internal', 'cmd', 'src', 'lib', 'packages', 'apps', 'services', 'modules']);
+const SNIPPET_LINES = 8;
+
+/** Split a symbol id (`path/to/file.go:Name`) into its file path and symbol name */
+export function splitSymbolId(id: string): { filePath: string; symbol: string | null } {
+  const idx = id.lastIndexOf(':');
+  if (idx <= 0) return { filePath: id, symbol: null };
+  return { filePath: id.slice(0, idx), symbol: id.slice(idx + 1) };
+}
+
+export function directoryOf(filePath: string): string {
+  const idx = filePath.lastIndexOf('/');
+  return idx > 0 ? filePath.slice(0, idx) : ROOT_DIRECTORY;
+}
+
+/** First path segment, or the first two when the first is a container like `pkg/` or `src/` */
+export function packageOf(filePath: string): string {
+  const parts = filePath.split('/').slice(0, -1);
+  if (parts.length === 0) return ROOT_DIRECTORY;
+  const [first, second] = parts;
+  return first && second && CONTAINER_DIRS.has(first) ? `${first}/${second}` : first || ROOT_DIRECTORY;
+}
+
+export function toSemanticHit(result: SemanticSearchResult, rank: number): SemanticHit {
+  const { filePath, symbol } = splitSymbolId(result.symbol_id);
+  return {
+    id: result.symbol_id,
+    name: result.name || symbol || filePath.split('/').pop() || result.symbol_id,
+    score: result.score,
+    rank,
+    filePath,
+    directory: directoryOf(filePath),
+    package: packageOf(filePath),
+    language: detectLanguage(filePath),
+    kind: symbol ? undefined : 'file',
+    hydrated: false,
+  };
+}
+
+/** First lines of the hydrated source, dedented and without leading blank lines */
+export function toSnippet(content: string | undefined, maxLines = SNIPPET_LINES): string | undefined {
+  if (!content) return undefined;
+  const lines = content.replace(/\r\n/g, '\n').split('\n');
+  while (lines.length > 0 && !lines[0]!.trim()) lines.shift();
+  const head = lines.slice(0, maxLines);
+  if (head.length === 0) return undefined;
+  const indent = Math.min(...head.filter(l => l.trim()).map(l => l.match(/^[ \t]*/)![0].length));
+  const text = head.map(l => l.slice(indent)).join('\n').trimEnd();
+  return lines.length > maxLines ? `${text}\n…` : text;
+}
+
+export function applyHydration(hit: SemanticHit, symbol: HydratedSymbol | null): SemanticHit {
+  if (!symbol) return { ...hit, kind: hit.kind ?? UNKNOWN_KIND, hydrated: true };
+  return {
+    ...hit,
+    kind: symbol.kind || hit.kind || UNKNOWN_KIND,
+    snippet: toSnippet(symbol.content),
+    startLine: typeof symbol.start_line === 'number' ? symbol.start_line : undefined,
+    hydrated: true,
+  };
+}
+
+export function facetValue(hit: SemanticHit, key: FacetKey): string {
+  return key === 'kind' ? hit.kind ?? UNKNOWN_KIND : hit[key];
+}
+
+const passes = (hit: SemanticHit, filters: FacetFilters, skip?: FacetKey): boolean =>
+  FACET_KEYS.every(key => {
+    const wanted = filters[key];
+    return key === skip || !wanted || wanted.length === 0 || wanted.includes(facetValue(hit, key));
+  });
+
+export function filterHits(hits: SemanticHit[], filters: FacetFilters): SemanticHit[] {
+  return hits.filter(hit => passes(hit, filters));
+}
+
+/** Buckets per facet, most frequent first; selected values stay listed even at zero */
+export function computeFacets(hits: SemanticHit[], filters: FacetFilters): Record<FacetKey, FacetBucket[]> {
+  const result = {} as Record<FacetKey, FacetBucket[]>;
+  for (const key of FACET_KEYS) {
+    const counts = new Map<string, number>();
+    for (const hit of hits) {
+      if (!passes(hit, filters, key)) continue;
+      const value = facetValue(hit, key);
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+    const selected = filters[key] ?? [];
+    selected.forEach(value => { if (!counts.has(value)) counts.set(value, 0); });
+    result[key] = Array.from(counts, ([value, count]) => ({ value, count, selected: selected.includes(value) }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  }
+  return result;
+}
+
+export function toggleFacet(filters: FacetFilters, key: FacetKey, value: string): FacetFilters {
+  const current = filters[key] ?? [];
+  const next = current.includes(value) ? current.filter(v => v !== value) : [...current, value];
+  return { ...filters, [key]: next };
+}
+
+/** Bar width in [0, 1], relative to the best hit so low-similarity result sets stay readable */
+export function scoreRatio(score: number, topScore: number): number {
+  if (!(topScore > 0) || !(score > 0)) return 0;
+  return Math.min(1, score / topScore);
+}
@@ -0,0 +1,120 @@
+/**
+ * Session File - Versioned JSON format for exported exploration sessions
+ *
+ * A session captures the graph, selection and conversation state of an
+ * investigation so it can be handed off and reopened by another engineer.
+ * Older files are upgraded step by step through SESSION_MIGRATIONS.
+ */
+import type { ASTNode, FlatGraph, GraphNode, GraphLink } from '../types';
+import type { ConversationTurn } from '../services/geminiService';
+import type { NarrativeMessage } from '../context/NarrativeContext';
+import type { ViewMode } from '../context/UIContext';
+import type { FileDetailsResponse } from '../services/graphService';
+
+export const SESSION_FORMAT = 'gca-session';
+export const SESSION_SCHEMA_VERSION = 1;
+
+export interface ExplorationSession {
+  format: typeof SESSION_FORMAT;
+  version: number;
+  exportedAt: string;
+  projectId: string;
+  projectName: string;
+  viewMode: ViewMode;
+  astData: ASTNode | FlatGraph;
+  fileScopedNodes: GraphNode[];
+  fileScopedLinks: GraphLink[];
+  expandedFileIds: string[];
+  /** Details for expanded files, so they render without refetching */
+  fileDetails: Record<string, FileDetailsResponse>;
+  selectedNode: GraphNode | null;
+  narrativeMessages: NarrativeMessage[];
+  conversationHistory: ConversationTurn[];
+}
+
+export type SessionSnapshot = Omit<ExplorationSession, 'format' | 'version' | 'exportedAt'>;
+
+/**
+ * Upgrade steps keyed by the version they upgrade FROM.
+ * When bumping SESSION_SCHEMA_VERSION to N, add an entry for N - 1.
+ */
+export type SessionMigration = (session: Record<string, unknown>) => Record<string, unknown>;
+
+export const SESSION_MIGRATIONS: Record<number, SessionMigration> = {};
+
+/**
+ * Wrap a state snapshot in the current session envelope.
+ */
+export function createSession(snapshot: SessionSnapshot): ExplorationSession {
+  return {
+    format: SESSION_FORMAT,
+    version: SESSION_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...snapshot,
+  };
+}
+
+function expectArray(session: Record<string, unknown>, field: string): void {
+  if (!Array.isArray(session[field])) {
+    throw new Error(`Invalid session file: "${field}" must be an array`);
+  }
+}
+
+/**
+ * Parse, migrate and validate a session file's text.
+ * Throws an Error describing the first problem found.
+ */
+export function parseSession(
+  text: string,
+  migrations: Record<number, SessionMigration> = SESSION_MIGRATIONS,
+  targetVersion: number = SESSION_SCHEMA_VERSION
+): ExplorationSession {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid session file: not valid JSON');
+  }
+
+  if (!raw || typeof raw !== 'object' || (raw as Record<string, unknown>).format !== SESSION_FORMAT) {
+    throw new Error('Invalid session file: missing "gca-session" format marker');
+  }
+
+  let session = raw as Record<string, unknown>;
+  const savedVersion = session.version;
+  if (typeof savedVersion !== 'number' || !Number.isInteger(savedVersion) || savedVersion < 1) {
+    throw new Error('Invalid session file: missing schema version');
+  }
+  let version = savedVersion;
+  if (version > targetVersion) {
+    throw new Error(`Session file uses schema v${version}, but this app only supports up to v${targetVersion}. Please update GCA Explorer.`);
+  }
+
+  while (version < targetVersion) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`No migration available from session schema v${version}`);
+    }
+    version++;
+    session = { ...migrate(session), version };
+  }
+
+  if (typeof session.projectId !== 'string' || !session.projectId) {
+    throw new Error('Invalid session file: "projectId" is required');
+  }
+  if (!session.astData || typeof session.astData !== 'object') {
+    throw new Error('Invalid session file: "astData" must be an object');
+  }
+  expectArray(session, 'fileScopedNodes');
+  expectArray(session, 'fileScopedLinks');
+  expectArray(session, 'expandedFileIds');
+  expectArray(session, 'narrativeMessages');
+  expectArray(session, 'conversationHistory');
+
+  return {
+    ...session,
+    projectName: typeof session.projectName === 'string' ? session.projectName : session.projectId,
+    fileDetails: session.fileDetails && typeof session.fileDetails === 'object' ? session.fileDetails : {},
+    selectedNode: session.selectedNode ?? null,
+  } as ExplorationSession;
+}
@@ -0,0 +1,107 @@
+/**
+ * Text Search - Literal or regex search over source text, with context lines
+ *
+ * Matches are reported per line (a line with several hits is one result with
+ * several ranges) and can be attributed to the innermost symbol whose
+ * start_line/end_line span contains them.
+ */
+import type { GraphMapNode } from '../services/graphService';
+
+export interface TextSearchOptions {
+  pattern: string;
+  regex: boolean;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  contextLines: number;
+}
+
+export interface LineMatch {
+  /** 1-based */
+  line: number;
+  text: string;
+  /** [start, end) column ranges within `text` */
+  ranges: Array<[number, number]>;
+  before: string[];
+  after: string[];
+}
+
+export interface EnclosingSymbol {
+  id: string;
+  name: string;
+  kind: string;
+  startLine: number;
+}
+
+export class InvalidSearchPatternError extends Error {
+  constructor(readonly pattern: string, readonly reason: string) {
+    super(`Invalid search pattern /${pattern}/: ${reason}`);
+    this.name = 'InvalidSearchPatternError';
+  }
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Throws InvalidSearchPatternError */
+export function compileSearch(options: Pick<TextSearchOptions, 'pattern' | 'regex' | 'caseSensitive' | 'wholeWord'>): RegExp {
+  const { pattern, regex, caseSensitive, wholeWord } = options;
+  if (!pattern) throw new InvalidSearchPatternError(pattern, 'pattern is empty');
+  const body = regex ? pattern : escapeRegExp(pattern);
+  const source = wholeWord ? `\\b(?:${body})\\b` : body;
+  try {
+    return new RegExp(source, caseSensitive ? 'g' : 'gi');
+  } catch (err) {
+    throw new InvalidSearchPatternError(pattern, err instanceof Error ? err.message : String(err));
+  }
+}
+
+/**
+ * Find matching lines in `content`. Zero-length matches (e.g. `^` or `a*`)
+ * are skipped. Stops after `maxLines` matching lines.
+ */
+export function searchText(content: string, regex: RegExp, contextLines = 0, maxLines = Infinity): LineMatch[] {
+  const lines = content.replace(/\r\n/g, '\n').split('\n');
+  const results: LineMatch[] = [];
+  for (let i = 0; i < lines.length && results.length < maxLines; i++) {
+    const text = lines[i]!;
+    const ranges: Array<[number, number]> = [];
+    regex.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = regex.exec(text)) !== null) {
+      if (m[0].length === 0) {
+        regex.lastIndex++;
+        continue;
+      }
+      ranges.push([m.index, m.index + m[0].length]);
+    }
+    if (ranges.length === 0) continue;
+    results.push({
+      line: i + 1,
+      text,
+      ranges,
+      before: lines.slice(Math.max(0, i - contextLines), i),
+      after: lines.slice(i + 1, i + 1 + contextLines),
+    });
+  }
+  return results;
+}
+
+/** Innermost symbol (smallest line span) containing `line`; file nodes are ignored */
+export function findEnclosingSymbol(nodes: GraphMapNode[], line: number): EnclosingSymbol | null {
+  let best: GraphMapNode | null = null;
+  for (const node of nodes) {
+    const { start_line: start, end_line: end } = node;
+    if (typeof start !== 'number' || typeof end !== 'number') continue;
+    if (node.kind === 'file' || node.type === 'file' || line < start || line > end) continue;
+    if (!best || end - start < best.end_line! - best.start_line!) best = node;
+  }
+  return best ? { id: best.id, name: best.name || best.id, kind: best.kind || 'symbol', startLine: best.start_line! } : null;
+}
+
+/** Space-separated path fragments; a leading `!` excludes. Empty filter accepts everything. */
+export function matchesPathFilter(filePath: string, filter: string): boolean {
+  const terms = filter.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  const path = filePath.toLowerCase();
+  const include = terms.filter(t => !t.startsWith('!'));
+  const exclude = terms.filter(t => t.startsWith('!') && t.length > 1).map(t => t.slice(1));
+  return (include.length === 0 || include.some(t => path.includes(t))) && !exclude.some(t => path.includes(t));
+}
@@ -0,0 +1,93 @@
+/**
+ * URL State - Serializes the shareable slice of app state to/from the URL
+ *
+ * Route shape: /p/:projectId/:viewMode?symbol={symbolId}&sub={subMode}&q={query}
+ * Kept free of React so contexts can read it synchronously in their initializers.
+ */
+import { matchPath } from 'react-router-dom';
+import type { ViewMode, SubMode } from '../context/UIContext';
+
+export const ROUTES = {
+  PROJECT: '/p/:projectId',
+  PROJECT_VIEW: '/p/:projectId/:viewMode',
+} as const;
+
+const VIEW_MODES: readonly ViewMode[] = ['map', 'discovery', 'architecture', 'narrative', 'test', 'dashboard', 'query'];
+const SUB_MODES: readonly SubMode[] = ['NARRATIVE', 'ARCHITECTURE', 'ENTROPY'];
+
+export interface UrlState {
+  projectId?: string;
+  viewMode?: ViewMode;
+  symbolId?: string;
+  subMode?: SubMode;
+  query?: string;
+}
+
+const isViewMode = (value: string | undefined): value is ViewMode =>
+  !!value && (VIEW_MODES as readonly string[]).includes(value);
+
+const isSubMode = (value: string | null): value is SubMode =>
+  !!value && (SUB_MODES as readonly string[]).includes(value);
+
+// matchPath leaves params percent-encoded (only route matching decodes the
+// pathname), so the project id is decoded exactly once here
+const safeDecode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Parse a pathname + search string into UrlState.
+ * Unknown view/sub modes are dropped rather than trusted.
+ */
+export function parseUrlState(pathname: string, search: string): UrlState {
+  const state: UrlState = {};
+
+  const match = matchPath(ROUTES.PROJECT_VIEW, pathname) || matchPath(ROUTES.PROJECT, pathname);
+  if (match?.params.projectId) {
+    state.projectId = safeDecode(match.params.projectId);
+    const viewMode = (match.params as { viewMode?: string }).viewMode;
+    if (isViewMode(viewMode)) state.viewMode = viewMode;
+  }
+
+  const params = new URLSearchParams(search);
+  const symbol = params.get('symbol');
+  if (symbol) state.symbolId = symbol;
+  const sub = params.get('sub');
+  if (isSubMode(sub)) state.subMode = sub;
+  const q = params.get('q');
+  if (q) state.query = q;
+
+  return state;
+}
+
+/**
+ * Build the URL (pathname + search) for a UrlState.
+ * Without a project there is nothing worth linking to, so the root is returned.
+ */
+export function buildUrl(state: UrlState): string {
+  if (!state.projectId) return '/';
+
+  let path = `/p/${encodeURIComponent(state.projectId)}`;
+  if (state.viewMode) path += `/${state.viewMode}`;
+
+  const params = new URLSearchParams();
+  if (state.symbolId) params.set('symbol', state.symbolId);
+  if (state.subMode) params.set('sub', state.subMode);
+  if (state.query) params.set('q', state.query);
+
+  const qs = params.toString();
+  return qs ? `${path}?${qs}` : path;
+}
+
+/**
+ * Read the UrlState the page was opened with.
+ * Used by context initializers so deep links win over sessionStorage.
+ */
+export function readInitialUrlState(): UrlState {
+  if (typeof window === 'undefined') return {};
+  return parseUrlState(window.location.pathname, window.location.search);
+}
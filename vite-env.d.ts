@@ -2,6 +2,11 @@
 
 interface ImportMetaEnv {
     readonly GCA_API_BASE_URL: string;
+    readonly VITE_GCA_API_BASE_URL?: string;
+    /** 'replay' serves a bundle from data/fixtures/, 'record' captures live responses */
+    readonly VITE_GCA_MOCK?: string;
+    /** Fixture bundle to replay, by file name without .json (default 'demo') */
+    readonly VITE_GCA_MOCK_FIXTURES?: string;
     // more env variables...
 }
 